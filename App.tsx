@@ -2,7 +2,7 @@
  * SannaBot – Mobile AI Assistant
  * Main App entry point: wires all services together
  */
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -29,7 +29,13 @@ import { t, setLocale } from './src/i18n';
 // Services
 import { SkillLoader } from './src/agent/skill-loader';
 import { DynamicSkillStore } from './src/agent/dynamic-skill-store';
-import { validateSkillContent, extractSkillName } from './src/agent/skill-validator';
+import { validateSkillPackage, extractSkillName } from './src/agent/skill-validator';
+import {
+  parseSkillPackage,
+  checkSkillUpdate,
+  type SkillPackage,
+  type SkillUpdate,
+} from './src/agent/skill-package';
 import { ConversationPipeline } from './src/agent/conversation-pipeline';
 import { SoulStore } from './src/agent/soul-store';
 import { PersonalMemoryStore } from './src/agent/personal-memory-store';
@@ -37,34 +43,48 @@ import { DebugLogger } from './src/agent/debug-logger';
 import { DebugFileLogger } from './src/agent/debug-file-logger';
 import RNFS from 'react-native-fs';
 import type { PipelineState } from './src/agent/conversation-pipeline';
+import type { FollowUpConfig } from './src/agent/follow-up';
+import {
+  DEFAULT_CONFIRMATION_POLICY,
+  parseYesNo,
+  type ToolConfirmationPolicy,
+  type ToolConfirmationRequest,
+} from './src/agent/tool-confirmation';
 import { createToolRegistry } from './src/agent/create-tool-registry';
 import { runSkillTest } from './src/agent/skill-test';
-import { createLLMProvider } from './src/llm/llm-registry';
+import { createLLMProvider, type ProviderEndpoint } from './src/llm/llm-registry';
 import { OpenAIProvider } from './src/llm/openai-provider';
-import { TTSService } from './src/audio/tts-service';
+import { TTSService, type TTSEngine, type TTSSettings } from './src/audio/tts-service';
 import { STTService } from './src/audio/stt-service';
+import { BargeInMonitor } from './src/audio/barge-in-monitor';
+import type { STTMode } from './src/audio/stt-service';
 import { WakeWordService } from './src/audio/wake-word-service';
-import TTSModule, { TTSEvents } from './src/native/TTSModule';
+import TTSModule from './src/native/TTSModule';
 import { TokenStore } from './src/permissions/token-store';
 import { CredentialManager } from './src/permissions/credential-manager';
 import { PermissionManager } from './src/permissions/permission-manager';
 import { SpotifyAuth } from './src/permissions/spotify-auth';
 import { GoogleAuth } from './src/permissions/google-auth';
 import { SlackAuth } from './src/permissions/slack-auth';
-import NotificationListenerModule, {
-  createNotificationEventEmitter,
-} from './src/native/NotificationListenerModule';
+import { createNotificationEventEmitter } from './src/native/NotificationListenerModule';
 
 // Scheduler config persistence
 import SchedulerModule from './src/native/SchedulerModule';
+import { saveAgentConfig } from './src/agent/agent-config';
 
 // Conversation persistence
 import { ConversationStore } from './src/agent/conversation-store';
 
 // Conversation persistence – pending messages from background tasks
 
-// Notification rules – only startup sync needed; sub-agent runs in headless task
+// Notification rules – startup sync and digests; the sub-agent runs in the headless task
 import { syncOnStartup as syncNotificationRules } from './src/agent/notification-rules-store';
+import { deliverNotificationDigests } from './src/agent/notification-headless';
+import {
+  buildDryRunConfig,
+  dryRunNotification,
+  type NotificationRuleTester,
+} from './src/agent/notification-dry-run';
 
 // AsyncStorage for lightweight pre-unlock preferences (dark mode)
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -81,7 +101,7 @@ import { SannaAvatar } from './src/components/SannaAvatar';
 
 // Local dev config (gitignored – never shipped to production)
 // If the file is missing (e.g. in CI/Production), empty defaults are used.
-let LOCAL_CONFIG: { openAIApiKey: string; claudeApiKey: string; selectedProvider: 'claude' | 'openai' | 'custom'; openAIModel?: string; claudeModel?: string; customApiKey?: string;customModelUrl?: string;customModelName?: string; spotifyClientId: string; googleWebClientId: string; picovoiceAccessKey: string; slackClientId: string; slackRedirectUrl: string; googleMapsApiKey: string; braveSearchApiKey: string; debugLogEnabled?: boolean; debugFileEnabled?: boolean } = {
+let LOCAL_CONFIG: { openAIApiKey: string; claudeApiKey: string; selectedProvider: 'claude' | 'openai' | 'custom' | 'local'; openAIModel?: string; claudeModel?: string; customApiKey?: string;customModelUrl?: string;customModelName?: string; localModelUrl?: string; localModelName?: string; spotifyClientId: string; googleWebClientId: string; picovoiceAccessKey: string; slackClientId: string; slackRedirectUrl: string; googleMapsApiKey: string; braveSearchApiKey: string; debugLogEnabled?: boolean; debugFileEnabled?: boolean } = {
   openAIApiKey: '',
   claudeApiKey: '',
   selectedProvider: 'openai',
@@ -160,23 +180,100 @@ function getSystemLocale(): string {
 }
 
 /**
- * Returns true if the text contains a question mark, indicating that the
- * assistant is expecting a response from the user.
- * Used in driving mode to decide whether to start concurrent listening.
+ * Endpoint of the selected provider, or null while it is not configured
+ * (missing API key; local servers need URL and model instead).
  */
-function containsQuestion(text: string): boolean {
-  return text.includes('?');
+function selectedEndpoint(s: AppSettings): ProviderEndpoint | null {
+  switch (s.selectedProvider) {
+    case 'claude':
+      return s.claudeApiKey
+        ? { provider: 'claude', apiKey: s.claudeApiKey, model: s.selectedClaudeModel }
+        : null;
+    case 'custom':
+      return s.customApiKey
+        ? {
+            provider: 'custom',
+            apiKey: s.customApiKey,
+            model: s.customModelName,
+            customBaseUrl: s.customModelUrl,
+          }
+        : null;
+    case 'local':
+      return s.localModelUrl && s.localModelName
+        ? {
+            provider: 'local',
+            apiKey: '',
+            model: s.localModelName,
+            customBaseUrl: s.localModelUrl,
+          }
+        : null;
+    case 'openai':
+    default:
+      return s.openAIApiKey
+        ? { provider: 'openai', apiKey: s.openAIApiKey, model: s.selectedOpenAIModel }
+        : null;
+  }
+}
+
+/**
+ * Fallback chain for the LLM provider: every other provider that has
+ * credentials configured, in a fixed order (Claude → OpenAI → custom → local).
+ */
+function buildFallbackEndpoints(s: AppSettings): ProviderEndpoint[] {
+  if (s.providerFallbackEnabled === false) return [];
+  const endpoints: ProviderEndpoint[] = [];
+  if (s.selectedProvider !== 'claude' && s.claudeApiKey) {
+    endpoints.push({ provider: 'claude', apiKey: s.claudeApiKey, model: s.selectedClaudeModel });
+  }
+  if (s.selectedProvider !== 'openai' && s.openAIApiKey) {
+    endpoints.push({ provider: 'openai', apiKey: s.openAIApiKey, model: s.selectedOpenAIModel });
+  }
+  if (s.selectedProvider !== 'custom' && s.customModelUrl && s.customModelName) {
+    endpoints.push({
+      provider: 'custom',
+      apiKey: s.customApiKey,
+      model: s.customModelName,
+      customBaseUrl: s.customModelUrl,
+    });
+  }
+  if (s.selectedProvider !== 'local' && s.localModelUrl && s.localModelName) {
+    endpoints.push({
+      provider: 'local',
+      apiKey: '',
+      model: s.localModelName,
+      customBaseUrl: s.localModelUrl,
+    });
+  }
+  return endpoints;
+}
+
+/**
+ * Speech engine and voice from Settings → Language, as saved for headless
+ * tasks. The speech API stays unconfigured (Android fallback) until a URL or
+ * key is set – the same as the TTSService configuration in App().
+ */
+function ttsSettings(s: AppSettings): TTSSettings {
+  return {
+    engine: s.ttsEngine ?? 'android',
+    voice: s.ttsVoice ?? '',
+    rate: s.ttsRate ?? 1,
+    pitch: s.ttsPitch ?? 1,
+    speechApi:
+      s.ttsApiUrl || s.ttsApiKey
+        ? { baseUrl: s.ttsApiUrl, apiKey: s.ttsApiKey, model: s.ttsApiModel }
+        : null,
+  };
 }
 
 /** App preferences (stored as JSON blob in Keychain) */
 interface AppPreferences {
-  selectedProvider: 'claude' | 'openai' | 'custom';
+  selectedProvider: 'claude' | 'openai' | 'custom' | 'local';
   wakeWordEnabled: boolean;
   enabledSkillNames: string[];
   drivingMode: boolean;
   darkMode: boolean;
   sttLanguage: 'system' | string;
-  sttMode: 'auto' | 'offline' | 'online';
+  sttMode: STTMode;
   /** App UI language. 'system' = detect from device locale. Falls back to 'en'. */
   appLanguage: 'system' | string;
   /** Max iterations for the main ConversationPipeline agent loop (default: 10) */
@@ -185,14 +282,32 @@ interface AppPreferences {
   maxSubAgentIterations?: number;
   /** Max iterations for the accessibility sub-agent (default: 12) */
   maxAccessibilityIterations?: number;
-  /** Max messages kept in LLM context history (ConversationPipeline). */
+  /** Max messages kept in LLM context history before older turns are summarized (ConversationPipeline). */
   llmContextMaxMessages?: number;
+  /** Estimated LLM context tokens before older turns are summarized (default: 8000) */
+  llmContextTokenBudget?: number;
   /** Max messages kept in persisted/UI conversation history. */
   conversationHistoryMaxMessages?: number;
   /** Enable debug logging (default: false) */
   debugLogEnabled?: boolean;
   /** Enable debug file logging to Documents/sanna.txt (default: false) */
   debugFileEnabled?: boolean;
+  /** Fall over to the other configured LLM providers when the selected one fails (default: true) */
+  providerFallbackEnabled?: boolean;
+  /** When risky tool calls (SMS, email, calls, …) need confirmation (default: 'app') */
+  toolConfirmationPolicy?: ToolConfirmationPolicy;
+  /** Driving mode: talking over Sanna interrupts her, without the wake word (default: false) */
+  voiceBargeIn?: boolean;
+  /** Driving mode: seconds to keep listening after every answer, 0 = only after questions (default: 0) */
+  followUpWindowSeconds?: number;
+  /** Speech engine: Android voices or a speech API (default: 'android') */
+  ttsEngine?: TTSEngine;
+  /** Voice name of the engine, '' = automatic (a SOUL "Voice:" line wins) */
+  ttsVoice?: string;
+  /** Speech rate, 1.0 = normal */
+  ttsRate?: number;
+  /** Voice pitch, 1.0 = normal (Android voices only) */
+  ttsPitch?: number;
 }
 
 /** Full app settings (preferences + secure keys loaded from Keychain) */
@@ -205,11 +320,21 @@ interface AppSettings extends AppPreferences {
   customApiKey: string;
   customModelUrl: string;
   customModelName: string;
+  localModelUrl: string;
+  localModelName: string;
   googleWebClientId: string;
   spotifyClientId: string;
   slackClientId: string;
   googleMapsApiKey: string;
   braveSearchApiKey: string;
+  /** Transcription API for sttMode 'api' (OpenAI-compatible /audio/transcriptions) */
+  sttApiUrl: string;
+  sttApiKey: string;
+  sttApiModel: string;
+  /** Speech API for ttsEngine 'http' (OpenAI-compatible /audio/speech) */
+  ttsApiUrl: string;
+  ttsApiKey: string;
+  ttsApiModel: string;
 }
 
 const DEFAULT_PREFS: AppPreferences = {
@@ -225,9 +350,18 @@ const DEFAULT_PREFS: AppPreferences = {
   maxSubAgentIterations: 8,
   maxAccessibilityIterations: 12,
   llmContextMaxMessages: 20,
+  llmContextTokenBudget: 8000,
   conversationHistoryMaxMessages: 50,
   debugLogEnabled: LOCAL_CONFIG.debugLogEnabled ?? false,
   debugFileEnabled: LOCAL_CONFIG.debugFileEnabled ?? false,
+  providerFallbackEnabled: true,
+  toolConfirmationPolicy: DEFAULT_CONFIRMATION_POLICY,
+  voiceBargeIn: false,
+  followUpWindowSeconds: 0,
+  ttsEngine: 'android',
+  ttsVoice: '',
+  ttsRate: 1,
+  ttsPitch: 1,
 };
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -240,11 +374,19 @@ const DEFAULT_SETTINGS: AppSettings = {
   customApiKey: LOCAL_CONFIG.customApiKey || '',
   customModelUrl: LOCAL_CONFIG.customModelUrl || '',
   customModelName: LOCAL_CONFIG.customModelName || '',
+  localModelUrl: LOCAL_CONFIG.localModelUrl || '',
+  localModelName: LOCAL_CONFIG.localModelName || '',
   googleWebClientId: '',
   spotifyClientId: '',
   slackClientId: '',
   googleMapsApiKey: '',
   braveSearchApiKey: '',
+  sttApiUrl: '',
+  sttApiKey: '',
+  sttApiModel: '',
+  ttsApiUrl: '',
+  ttsApiKey: '',
+  ttsApiModel: '',
 };
 
 // Keychain IDs for secure key storage
@@ -257,12 +399,20 @@ const SECURE_KEY_IDS = {
   customApiKey: 'llm_custom',
   customModelUrl: 'llm_custom_url',
   customModelName: 'llm_custom_model',
+  localModelUrl: 'llm_local_url',
+  localModelName: 'llm_local_model',
   preferences: 'app_preferences',
   googleWebClientId: 'svc_google_web_client_id',
   spotifyClientId: 'svc_spotify_client_id',
   slackClientId: 'svc_slack_client_id',
   googleMapsApiKey: 'google_maps_api_key',
   braveSearchApiKey: 'brave_search_api_key',
+  sttApiUrl: 'stt_api_url',
+  sttApiKey: 'stt_api_key',
+  sttApiModel: 'stt_api_model',
+  ttsApiUrl: 'tts_api_url',
+  ttsApiKey: 'tts_api_key',
+  ttsApiModel: 'tts_api_model',
 } as const;
 
 /** AsyncStorage key for dark-mode preference – readable without biometric unlock */
@@ -319,8 +469,17 @@ async function savePreferences(
       maxSubAgentIterations: s.maxSubAgentIterations,
       maxAccessibilityIterations: s.maxAccessibilityIterations,
       llmContextMaxMessages: s.llmContextMaxMessages,
+      llmContextTokenBudget: s.llmContextTokenBudget,
       conversationHistoryMaxMessages: s.conversationHistoryMaxMessages,
       debugLogEnabled: s.debugLogEnabled,
+      providerFallbackEnabled: s.providerFallbackEnabled,
+      toolConfirmationPolicy: s.toolConfirmationPolicy,
+      voiceBargeIn: s.voiceBargeIn,
+      followUpWindowSeconds: s.followUpWindowSeconds,
+      ttsEngine: s.ttsEngine,
+      ttsVoice: s.ttsVoice,
+      ttsRate: s.ttsRate,
+      ttsPitch: s.ttsPitch,
     };
     await store.saveApiKey(SECURE_KEY_IDS.preferences, JSON.stringify(toSave));
   } catch {
@@ -338,13 +497,21 @@ async function loadSecureKeys(store: TokenStore): Promise<{
   customApiKey: string;
   customModelUrl: string;
   customModelName: string;
+  localModelUrl: string;
+  localModelName: string;
   googleWebClientId: string;
   spotifyClientId: string;
   slackClientId: string;
   googleMapsApiKey: string;
   braveSearchApiKey: string;
+  sttApiUrl: string;
+  sttApiKey: string;
+  sttApiModel: string;
+  ttsApiUrl: string;
+  ttsApiKey: string;
+  ttsApiModel: string;
 }> {
-  const [claude, openai, wakeWord, openAIModel, claudeModel, customApiKey, customModelUrl, customModelName, googleWebClientId, spotifyClientId, slackClientId, googleMapsApiKey, braveSearchApiKey] = await Promise.all([
+  const [claude, openai, wakeWord, openAIModel, claudeModel, customApiKey, customModelUrl, customModelName, localModelUrl, localModelName, googleWebClientId, spotifyClientId, slackClientId, googleMapsApiKey, braveSearchApiKey, sttApiUrl, sttApiKey, sttApiModel, ttsApiUrl, ttsApiKey, ttsApiModel] = await Promise.all([
     store.getApiKey(SECURE_KEY_IDS.claudeApiKey).catch(() => null),
     store.getApiKey(SECURE_KEY_IDS.openAIApiKey).catch(() => null),
     store.getApiKey(SECURE_KEY_IDS.wakeWordKey).catch(() => null),
@@ -353,11 +520,19 @@ async function loadSecureKeys(store: TokenStore): Promise<{
     store.getApiKey(SECURE_KEY_IDS.customApiKey).catch(() => null),
     store.getApiKey(SECURE_KEY_IDS.customModelUrl).catch(() => null),
     store.getApiKey(SECURE_KEY_IDS.customModelName).catch(() => null),
+    store.getApiKey(SECURE_KEY_IDS.localModelUrl).catch(() => null),
+    store.getApiKey(SECURE_KEY_IDS.localModelName).catch(() => null),
     store.getApiKey(SECURE_KEY_IDS.googleWebClientId).catch(() => null),
     store.getApiKey(SECURE_KEY_IDS.spotifyClientId).catch(() => null),
     store.getApiKey(SECURE_KEY_IDS.slackClientId).catch(() => null),
     store.getApiKey(SECURE_KEY_IDS.googleMapsApiKey).catch(() => null),
     store.getApiKey(SECURE_KEY_IDS.braveSearchApiKey).catch(() => null),
+    store.getApiKey(SECURE_KEY_IDS.sttApiUrl).catch(() => null),
+    store.getApiKey(SECURE_KEY_IDS.sttApiKey).catch(() => null),
+    store.getApiKey(SECURE_KEY_IDS.sttApiModel).catch(() => null),
+    store.getApiKey(SECURE_KEY_IDS.ttsApiUrl).catch(() => null),
+    store.getApiKey(SECURE_KEY_IDS.ttsApiKey).catch(() => null),
+    store.getApiKey(SECURE_KEY_IDS.ttsApiModel).catch(() => null),
   ]);
   return {
     claudeApiKey: claude ?? '',
@@ -369,11 +544,19 @@ async function loadSecureKeys(store: TokenStore): Promise<{
     customApiKey: customApiKey ?? '',
     customModelUrl: customModelUrl ?? '',
     customModelName: customModelName ?? '',
+    localModelUrl: localModelUrl ?? '',
+    localModelName: localModelName ?? '',
     googleWebClientId: googleWebClientId ?? '',
     spotifyClientId: spotifyClientId ?? '',
     slackClientId: slackClientId ?? '',
     googleMapsApiKey: googleMapsApiKey ?? '',
     braveSearchApiKey: braveSearchApiKey ?? '',
+    sttApiUrl: sttApiUrl ?? '',
+    sttApiKey: sttApiKey ?? '',
+    sttApiModel: sttApiModel ?? '',
+    ttsApiUrl: ttsApiUrl ?? '',
+    ttsApiKey: ttsApiKey ?? '',
+    ttsApiModel: ttsApiModel ?? '',
   };
 }
 
@@ -602,6 +785,11 @@ export default function App(): React.JSX.Element {
   const [settingsLoaded, setSettingsLoaded] = useState(false);
   const [pipelineState, setPipelineState] = useState<PipelineState>('idle');
   const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  /** Partial assistant text while the LLM response is streaming */
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  /** Risky tool call waiting for the user's answer (confirmation card) */
+  const [pendingConfirmation, setPendingConfirmation] =
+    useState<ToolConfirmationRequest | null>(null);
   const [historyLoading, setHistoryLoading] = useState(true);
   const [soulText, setSoulText] = useState('');
   const [personalMemoryText, setPersonalMemoryText] = useState('');
@@ -610,6 +798,7 @@ export default function App(): React.JSX.Element {
   const ttsService = useRef(new TTSService());
   const sttService = useRef(new STTService());
   const wakeWordService = useRef(new WakeWordService());
+  const bargeInMonitor = useRef(new BargeInMonitor());
   const tokenStore = useRef(new TokenStore());
   const credentialManager = useRef(new CredentialManager(tokenStore.current));
   const permissionManager = useRef(new PermissionManager());
@@ -624,15 +813,23 @@ export default function App(): React.JSX.Element {
     skillLoader.current.getAllSkills(),
   );
   const [dynamicSkillNames, setDynamicSkillNames] = useState<string[]>([]);
+  /** Tools of the main agent – skills with unmet tool requirements are hidden */
+  const [availableToolNames, setAvailableToolNames] = useState<string[]>();
   const [skillAvailability, setSkillAvailability] = useState<
     Record<string, boolean>
   >({});
 
-  // ─── Driving-mode auto-listening state ───────────────────────────────────
-  // Stores the last assistant response text so we can detect questions.
-  const currentResponseTextRef = useRef('');
-  // True while a concurrent STT session is active (listening during TTS).
-  const autoListeningStartedRef = useRef(false);
+  // ─── Driving-mode follow-up: listening after answers (see follow-up.ts) ────
+  const [followUpListening, setFollowUpListening] = useState(false);
+  const followUpConfig = useMemo<FollowUpConfig>(
+    () => ({
+      stt: sttService.current,
+      language: settings.sttLanguage === 'system' ? getSystemLocale() : settings.sttLanguage,
+      mode: settings.sttMode,
+      windowMs: (settings.followUpWindowSeconds ?? 0) * 1000,
+    }),
+    [settings.sttLanguage, settings.sttMode, settings.followUpWindowSeconds],
+  );
 
   // ─── Helper: process pending messages from background tasks ─────────────
   // Shared by the polling interval and the AppState foreground listener.
@@ -658,12 +855,14 @@ export default function App(): React.JSX.Element {
     }
     if (settings.drivingMode) {
       const lang = settings.appLanguage === 'system' ? getSystemLocale() : settings.appLanguage;
-      pending
-        .filter(m => m.role === 'assistant')
-        .forEach(m => {
-          const plain = m.text.replace(/[*_`#]/g, '').trim();
-          ttsService.current.speak(plain, lang).catch(() => {});
-        });
+      // One after another (TTSService turns the Markdown into speech);
+      // stopping one message skips the rest
+      (async () => {
+        for (const m of pending.filter(msg => msg.role === 'assistant')) {
+          const result = await ttsService.current.speak(m.text, lang);
+          if (!result.completed) break;
+        }
+      })().catch(() => {});
     }
   }, [settings.drivingMode, settings.appLanguage, settings.conversationHistoryMaxMessages]);
 
@@ -782,6 +981,8 @@ export default function App(): React.JSX.Element {
           ? secureKeys.claudeApiKey
           : selectedProvider === 'custom'
           ? secureKeys.customApiKey
+          : selectedProvider === 'local'
+          ? secureKeys.localModelUrl
           : secureKeys.openAIApiKey;
       const hasApiKey = apiKey && apiKey.trim().length > 0;
 
@@ -792,6 +993,8 @@ export default function App(): React.JSX.Element {
             ? 'Claude'
             : selectedProvider === 'custom'
             ? 'Custom'
+            : selectedProvider === 'local'
+            ? 'Local'
             : 'OpenAI';
         onboardingText = t('app.onboarding.welcomeNoApiKey').replace(
           '{provider}',
@@ -941,8 +1144,17 @@ export default function App(): React.JSX.Element {
     settings.sttMode,
     settings.appLanguage,
     settings.llmContextMaxMessages,
+    settings.llmContextTokenBudget,
     settings.conversationHistoryMaxMessages,
     settings.debugLogEnabled,
+    settings.providerFallbackEnabled,
+    settings.toolConfirmationPolicy,
+    settings.voiceBargeIn,
+    settings.followUpWindowSeconds,
+    settings.ttsEngine,
+    settings.ttsVoice,
+    settings.ttsRate,
+    settings.ttsPitch,
     settingsLoaded,
     vaultUnlocked,
   ]);
@@ -1004,6 +1216,47 @@ export default function App(): React.JSX.Element {
     };
   }, []);
 
+  // Transcription API for sttMode 'api' – unconfigured (Android fallback) until a URL or key is set
+  useEffect(() => {
+    sttService.current.setTranscriptionApi(
+      settings.sttApiUrl || settings.sttApiKey
+        ? {
+            baseUrl: settings.sttApiUrl,
+            apiKey: settings.sttApiKey,
+            model: settings.sttApiModel,
+          }
+        : null,
+    );
+  }, [settings.sttApiUrl, settings.sttApiKey, settings.sttApiModel]);
+
+  // Speech engine, voice and the SOUL persona voice – see ttsSettings()
+  useEffect(() => {
+    ttsService.current.configure({
+      engine: settings.ttsEngine ?? 'android',
+      voice: settings.ttsVoice ?? '',
+      rate: settings.ttsRate ?? 1,
+      pitch: settings.ttsPitch ?? 1,
+      speechApi:
+        settings.ttsApiUrl || settings.ttsApiKey
+          ? {
+              baseUrl: settings.ttsApiUrl,
+              apiKey: settings.ttsApiKey,
+              model: settings.ttsApiModel,
+            }
+          : null,
+      personaVoice: SoulStore.parseVoice(soulText),
+    });
+  }, [
+    settings.ttsEngine,
+    settings.ttsVoice,
+    settings.ttsRate,
+    settings.ttsPitch,
+    settings.ttsApiUrl,
+    settings.ttsApiKey,
+    settings.ttsApiModel,
+    soulText,
+  ]);
+
   // Re-configure OAuth services whenever the stored client IDs change.
   // This runs after settings are loaded from Keychain and whenever the user
   // updates a client ID in the Services settings section.
@@ -1043,36 +1296,12 @@ export default function App(): React.JSX.Element {
   useEffect(() => {
     if (!vaultUnlocked || !settingsLoaded) return;
 
-    const {
-      claudeApiKey,
-      openAIApiKey,
-      selectedProvider,
-      enabledSkillNames,
-      customApiKey,
-      customModelUrl,
-    } = settings;
-    const apiKey =
-      selectedProvider === 'claude'
-        ? claudeApiKey
-        : selectedProvider === 'custom'
-        ? customApiKey
-        : openAIApiKey;
-
-    if (!apiKey) return;
-
-    const selectedModel =
-      selectedProvider === 'claude'
-        ? settings.selectedClaudeModel
-        : selectedProvider === 'custom'
-        ? settings.customModelName
-        : settings.selectedOpenAIModel;
-
-    const provider = createLLMProvider({
-      provider: selectedProvider === 'claude' ? 'claude' : selectedProvider === 'custom' ? 'custom' : 'openai',
-      apiKey,
-      model: selectedModel,
-      customBaseUrl: selectedProvider === 'custom' ? customModelUrl : undefined,
-    });
+    const { enabledSkillNames } = settings;
+    const endpoint = selectedEndpoint(settings);
+    if (!endpoint) return;
+
+    const fallbacks = buildFallbackEndpoints(settings);
+    const provider = createLLMProvider({ ...endpoint, fallbacks });
 
     // Resolve 'system' → actual device locale before passing to pipeline.
     // The pipeline uses this for both TTS and the system-prompt language rule.
@@ -1087,7 +1316,10 @@ export default function App(): React.JSX.Element {
         skillLoader: skillLoader.current,
         includePersonalMemoryTool: true,
         provider,
+        testNotificationRule: async (sample, ruleId) =>
+          dryRunNotification(await buildDryRunConfig(provider, credentialManager.current), sample, ruleId),
       });
+      setAvailableToolNames(toolRegistry.list());
       toolRegistry.removeDisabledSkillTools(
         skillLoader.current,
         enabledSkillNames,
@@ -1102,9 +1334,12 @@ export default function App(): React.JSX.Element {
         drivingMode: settings.drivingMode,
         maxIterations: settings.maxIterations ?? 10,
         maxHistoryMessages: settings.llmContextMaxMessages ?? 20,
+        contextTokenBudget: settings.llmContextTokenBudget ?? 8000,
         language: resolvedLanguage,
         soul: soulText,
         personalMemory: personalMemoryText,
+        confirmationPolicy: settings.toolConfirmationPolicy ?? DEFAULT_CONFIRMATION_POLICY,
+        followUp: followUpConfig,
       });
 
       pipeline.setEnabledSkills(enabledSkillNames);
@@ -1114,12 +1349,6 @@ export default function App(): React.JSX.Element {
           Alert.alert(t('alert.error'), err);
         },
         onTranscript: (role: 'user' | 'assistant', text: string) => {
-          // Capture the latest assistant response for driving-mode question detection.
-          // This ref is read by the tts_started handler to decide whether to start
-          // concurrent listening.
-          if (role === 'assistant') {
-            currentResponseTextRef.current = text;
-          }
           setMessages(prev => {
             const updated = [...prev, { role, text, timestamp: new Date() }];
             // Fire-and-forget: persist conversation after each message
@@ -1134,6 +1363,9 @@ export default function App(): React.JSX.Element {
             return updated;
           });
         },
+        onPartialTranscript: setStreamingText,
+        onConfirmationRequest: setPendingConfirmation,
+        onFollowUpChange: setFollowUpListening,
       });
 
       // Preserve conversation history across pipeline recreations
@@ -1141,12 +1373,18 @@ export default function App(): React.JSX.Element {
       if (oldPipeline) {
         pipeline.importHistory(oldPipeline.exportHistory());
       } else {
-        // First pipeline creation: restore LLM history from AsyncStorage.
-        // Inject only the last N messages configured for LLM context.
-        ConversationStore.loadHistory(
-          settings.conversationHistoryMaxMessages ?? 50,
-        )
-          .then(stored => {
+        // First pipeline creation: restore the LLM context (summary + recent
+        // turns) from AsyncStorage. Older installs only have the UI history –
+        // inject the last N messages configured for LLM context instead.
+        ConversationStore.loadContext()
+          .then(async context => {
+            if (context) {
+              pipeline.importHistory(context);
+              return;
+            }
+            const stored = await ConversationStore.loadHistory(
+              settings.conversationHistoryMaxMessages ?? 50,
+            );
             if (stored.length > 0) {
               pipeline.importHistory(
                 stored
@@ -1161,22 +1399,18 @@ export default function App(): React.JSX.Element {
       pipelineRef.current = pipeline;
 
       // Persist agent config so all headless sub-agents (scheduler, notifications, …) can use it
-      const agentConfig = {
-        apiKey: apiKey,
-        provider: selectedProvider,
-        model: selectedModel,
+      saveAgentConfig({
+        ...endpoint,
         enabledSkillNames,
         googleWebClientId: settings.googleWebClientId || '',
         drivingMode: settings.drivingMode,
         language: resolvedLanguage,
         maxSubAgentIterations: settings.maxSubAgentIterations ?? 8,
         maxAccessibilityIterations: settings.maxAccessibilityIterations ?? 12,
-      };
-      const agentConfigJson = JSON.stringify(agentConfig);
-      SchedulerModule.saveAgentConfig(agentConfigJson).catch(() => {});
-      NotificationListenerModule?.saveAgentConfig(agentConfigJson).catch(
-        () => {},
-      );
+        toolConfirmationPolicy: settings.toolConfirmationPolicy ?? DEFAULT_CONFIRMATION_POLICY,
+        tts: ttsSettings(settings),
+        fallbacks,
+      }).catch(() => {});
     })();
   }, [
     vaultUnlocked,
@@ -1186,6 +1420,11 @@ export default function App(): React.JSX.Element {
     settings.selectedProvider,
     settings.selectedOpenAIModel,
     settings.selectedClaudeModel,
+    settings.customApiKey,
+    settings.customModelUrl,
+    settings.customModelName,
+    settings.localModelUrl,
+    settings.localModelName,
     settings.enabledSkillNames,
     settings.drivingMode,
     settings.appLanguage,
@@ -1194,7 +1433,18 @@ export default function App(): React.JSX.Element {
     settings.maxSubAgentIterations,
     settings.maxAccessibilityIterations,
     settings.llmContextMaxMessages,
+    settings.llmContextTokenBudget,
     settings.conversationHistoryMaxMessages,
+    settings.providerFallbackEnabled,
+    settings.toolConfirmationPolicy,
+    settings.ttsEngine,
+    settings.ttsVoice,
+    settings.ttsRate,
+    settings.ttsPitch,
+    settings.ttsApiUrl,
+    settings.ttsApiKey,
+    settings.ttsApiModel,
+    followUpConfig,
     soulText,
     personalMemoryText,
   ]);
@@ -1215,6 +1465,36 @@ export default function App(): React.JSX.Element {
 
   // ─── Handlers (defined early for use in useEffects) ────────────────────────
 
+  /**
+   * Record one utterance and run it through the pipeline.
+   * The pipeline must be idle or already listening (after a barge-in).
+   */
+  const listenAndProcess = useCallback(async () => {
+    if (!pipelineRef.current) return;
+    try {
+      pipelineRef.current.startListening();
+      // Resolve language: 'system' -> device locale, otherwise use setting
+      const language =
+        settings.sttLanguage === 'system'
+          ? getSystemLocale()
+          : settings.sttLanguage;
+      const transcript = await sttService.current.listen(
+        language,
+        settings.sttMode,
+      );
+      if (!transcript?.trim()) {
+        pipelineRef.current.stopListening();
+        return;
+      }
+      await pipelineRef.current.processUtterance(transcript);
+    } catch (err) {
+      pipelineRef.current.stopListening();
+      if (err instanceof Error && !err.message.includes('cancel')) {
+        Alert.alert(t('alert.sttError'), err.message);
+      }
+    }
+  }, [settings.sttLanguage, settings.sttMode]);
+
   const handleMicPress = useCallback(async () => {
     if (!pipelineRef.current) {
       Alert.alert(t('alert.noApiKey.title'), t('alert.noApiKey.message'));
@@ -1223,27 +1503,18 @@ export default function App(): React.JSX.Element {
     // Check current state from pipeline
     const currentState = pipelineRef.current.getState();
 
-    // If currently listening, stop it (allow user to cancel recording)
+    // If currently listening, stop it (allow user to cancel recording –
+    // this also ends a follow-up session)
     if (currentState === 'listening') {
-      // Cancel any auto-listening that might be active
-      if (autoListeningStartedRef.current) {
-        autoListeningStartedRef.current = false;
-      }
       await sttService.current.cancel().catch(() => {});
       pipelineRef.current.stopListening();
       return;
     }
 
-    // If concurrent auto-listening is already active (driving-mode question flow),
-    // cancel it first so we don't have two overlapping STT sessions.
-    if (autoListeningStartedRef.current) {
-      autoListeningStartedRef.current = false;
-      await sttService.current.cancel().catch(() => {});
-    }
-
-    // If TTS is currently speaking, stop it immediately and start listening
-    if (currentState === 'speaking') {
-      await pipelineRef.current.stopSpeaking();
+    // If TTS is currently speaking, cut it (barge-in) and start listening –
+    // also while the answer is still being generated
+    if (pipelineRef.current.isSpeaking()) {
+      await pipelineRef.current.bargeIn();
     } else if (currentState !== 'idle') {
       return;
     }
@@ -1259,44 +1530,26 @@ export default function App(): React.JSX.Element {
       return;
     }
 
-    try {
-      pipelineRef.current.startListening();
-      // Resolve language: 'system' -> device locale, otherwise use setting
-      const language =
-        settings.sttLanguage === 'system'
-          ? getSystemLocale()
-          : settings.sttLanguage;
-      const transcript = await sttService.current.listen(
-        language,
-        settings.sttMode,
-      );
-      if (!transcript?.trim()) {
-        pipelineRef.current.stopListening();
-        return;
-      }
-      await pipelineRef.current.processUtterance(transcript);
-    } catch (err) {
-      pipelineRef.current.stopListening();
-      if (err instanceof Error && !err.message.includes('cancel')) {
-        Alert.alert(t('alert.sttError'), err.message);
-      }
-    }
-  }, [settings.sttLanguage, settings.sttMode]);
+    await listenAndProcess();
+  }, [listenAndProcess]);
 
   const handleWakeWordDetected = useCallback(async (_keyword: string) => {
     if (!pipelineRef.current) return;
-    const state = pipelineRef.current.getState();
-    // Erlaubt nur idle oder speaking (nicht processing/listening)
-    if (state !== 'idle' && state !== 'speaking') return;
-    // TTS unterbrechen falls Sanna gerade spricht
-    if (state === 'speaking') {
-      await pipelineRef.current.stopSpeaking();
+    // Barge-in: Sanna spricht gerade (auch noch während der Generierung) –
+    // Antwort abbrechen und sofort zuhören (ohne Begrüßung)
+    if (pipelineRef.current.isSpeaking()) {
+      if (await pipelineRef.current.bargeIn()) {
+        await listenAndProcess();
+      }
+      return;
     }
+    // Sonst nur im Leerlauf (nicht processing/listening)
+    if (pipelineRef.current.getState() !== 'idle') return;
     const lang = settings.appLanguage === 'system' ? getSystemLocale() : settings.appLanguage;
     DebugLogger.add('info', 'WakeWord', `Speaking greeting in language: ${lang}`);
     await ttsService.current.speak(t('wakeWord.greeting'), lang);
     handleMicPress();
-  }, [handleMicPress, settings.appLanguage]);
+  }, [handleMicPress, listenAndProcess, settings.appLanguage]);
 
   // Wake word management
   useEffect(() => {
@@ -1325,116 +1578,56 @@ export default function App(): React.JSX.Element {
     handleWakeWordDetected,
   ]);
 
-  // ─── Driving-mode: auto-listening after TTS ──────────────────────────────
-
-  /**
-   * Automatically start STT after TTS has finished speaking.
-   * Only called (via the tts_done handler below) when a question is detected
-   * in the assistant's response and driving mode is active.
-   */
-  const startAutoListening = useCallback(async () => {
-    // Prevent starting if already listening (either manually or auto)
-    if (autoListeningStartedRef.current) return;
-    if (pipelineRef.current?.getState() === 'listening') return;
-
-    const permResult = await permissionManager.current.ensurePermissions([
-      'android.permission.RECORD_AUDIO',
-    ]);
-    if (!permResult.allGranted) return;
-
-    autoListeningStartedRef.current = true;
-    pipelineRef.current?.startListening();
-    try {
-      const language =
-        settings.sttLanguage === 'system'
-          ? getSystemLocale()
-          : settings.sttLanguage;
-      const transcript = await sttService.current.listen(
-        language,
-        settings.sttMode,
-      );
-      autoListeningStartedRef.current = false;
-
-      if (!transcript?.trim()) {
-        pipelineRef.current?.stopListening();
-        return;
-      }
-
-      // Stop TTS if it is still speaking (it may have finished on its own)
-      if (pipelineRef.current?.getState() === 'speaking') {
-        await pipelineRef.current.stopSpeaking();
-      }
-
-      await pipelineRef.current?.processUtterance(transcript);
-    } catch (err) {
-      autoListeningStartedRef.current = false;
-      pipelineRef.current?.stopListening();
-      if (err instanceof Error && !err.message.includes('cancel')) {
-        Alert.alert(t('alert.sttError'), err.message);
-      }
-    }
-  }, [settings.sttLanguage, settings.sttMode]);
-
-  /**
-   * Subscribe to tts_done:
-   * Consolidated handler for TTS completion that:
-   * 1. Resets pipeline state to 'idle' when TTS finishes (for TTS started outside pipeline)
-   * 2. Starts auto-listening in driving mode if a question was detected
-   *
-   * We deliberately wait for tts_done (not tts_started) to avoid the echo
-   * problem: if we open the microphone while the phone speaker is still playing,
-   * the mic picks up the TTS audio and submits it as user input.
-   * A 300 ms delay is added to let the last TTS audio fade and allow the
-   * pipeline state to settle back to 'idle'.
-   */
+  // ─── Driving-mode barge-in: voice activity while Sanna speaks ──────────────
+  // The wake word is armed anyway (handleWakeWordDetected); this adds a plain
+  // "start talking" trigger for users who opted in (echo-prone on loudspeaker).
   useEffect(() => {
-    let delayTimer: ReturnType<typeof setTimeout> | null = null;
-    const sub = TTSEvents.addListener('tts_done', () => {
-      const currentState = pipelineRef.current?.getState();
-
-      // 1. Reset to idle if currently speaking (handles TTS started outside pipeline)
-      // CRITICAL: Double-check state right before setting idle to avoid race condition
-      // If user clicked mic between the check above and here, state might be 'listening' now
-      // In that case, we must NOT call setIdle() as it would stop the user's recording
-      if (currentState === 'speaking' && pipelineRef.current) {
-        // Re-check state immediately before setting idle to prevent race condition
-        // where user clicks mic right after TTS finishes but before this handler runs
-        const stateNow = pipelineRef.current.getState();
-        if (stateNow === 'speaking') {
-          pipelineRef.current.setIdle();
-        }
-        // If state is now 'listening', do nothing - user has already started recording
-      }
-
-      // 2. Auto-start listening in driving mode if question detected
-      if (
-        settings.drivingMode &&
-        containsQuestion(currentResponseTextRef.current)
-      ) {
-        delayTimer = setTimeout(() => {
-          // Only start if pipeline is idle (not already processing a new utterance)
-          // Double-check state after delay to avoid race conditions
-          const stateAfterDelay = pipelineRef.current?.getState();
-          if (stateAfterDelay === 'idle') {
-            startAutoListening();
-          }
-        }, 300);
+    const monitor = bargeInMonitor.current;
+    // Sentences are spoken while the answer is still generated ('processing')
+    const mayBeSpeaking = pipelineState === 'speaking' || pipelineState === 'processing';
+    if (!settings.drivingMode || !settings.voiceBargeIn || !mayBeSpeaking) {
+      monitor.stop();
+      return;
+    }
+    monitor.start(async () => {
+      if (await pipelineRef.current?.bargeIn()) {
+        await listenAndProcess();
       }
     });
     return () => {
-      if (delayTimer !== null) clearTimeout(delayTimer);
-      sub.remove();
+      monitor.stop();
     };
-  }, [settings.drivingMode, startAutoListening]);
+  }, [pipelineState, settings.drivingMode, settings.voiceBargeIn, listenAndProcess]);
+
+  // ─── Driving-mode end: deliver held notification digests ──────────────────
+  const wasDrivingRef = useRef(false);
+  useEffect(() => {
+    const wasDriving = wasDrivingRef.current;
+    wasDrivingRef.current = settings.drivingMode;
+    if (wasDriving && !settings.drivingMode) {
+      // Results arrive via the pending queue like any other background result
+      deliverNotificationDigests({ drivingEnded: true }).catch(err => {
+        DebugLogger.add('error', 'Digest', `Delivering digests failed: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    }
+  }, [settings.drivingMode]);
 
   // ─── Driving-mode: periodic beep during processing ────────────────────────
   /**
    * Plays a beep every few seconds while SannaBot is thinking in driving mode.
    * Provides audio feedback that processing is ongoing.
    */
+  const isStreaming = streamingText !== null;
   useEffect(() => {
-    // Only play beeps if in driving mode and currently processing
-    if (!settings.drivingMode || pipelineState !== 'processing') {
+    // Only play beeps if in driving mode and currently processing.
+    // Once the answer is streaming (and being spoken), the beep would only interfere.
+    // While a confirmation question is asked by voice, the beep would talk over it.
+    if (
+      !settings.drivingMode ||
+      pipelineState !== 'processing' ||
+      isStreaming ||
+      pendingConfirmation
+    ) {
       return;
     }
 
@@ -1457,7 +1650,79 @@ export default function App(): React.JSX.Element {
     return () => {
       clearInterval(beepInterval);
     };
-  }, [pipelineState, settings.drivingMode]);
+  }, [pipelineState, settings.drivingMode, isStreaming, pendingConfirmation]);
+
+  // ─── Risky tool calls: confirmation ───────────────────────────────────────
+  /**
+   * Answer the pending confirmation from the HomeScreen card.
+   */
+  const handleConfirmToolCall = useCallback((approved: boolean) => {
+    const request = pipelineRef.current?.getPendingConfirmation();
+    if (request) {
+      pipelineRef.current?.resolveConfirmation(request.id, approved);
+    }
+  }, []);
+
+  /**
+   * In driving mode the confirmation is also asked by voice: speak the
+   * question, listen for yes/no and ask once more if the answer is unclear.
+   * No usable answer declines the call. Tapping the card meanwhile resolves
+   * the request and cancels the voice dialog.
+   */
+  useEffect(() => {
+    if (!pendingConfirmation || !settings.drivingMode) return;
+
+    const request = pendingConfirmation;
+    const stt = sttService.current;
+    const tts = ttsService.current;
+    const ttsLanguage =
+      settings.appLanguage === 'system' ? getSystemLocale() : settings.appLanguage;
+    const sttLanguage =
+      settings.sttLanguage === 'system' ? getSystemLocale() : settings.sttLanguage;
+    let active = true;
+
+    (async () => {
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const question =
+          attempt === 0
+            ? t('confirmation.voice.question').replace('{action}', request.description)
+            : t('confirmation.voice.repeat');
+        await tts.speak(question, ttsLanguage);
+        if (!active) return;
+
+        // Let the last TTS audio fade before opening the microphone (echo)
+        await new Promise<void>(resolve => setTimeout(resolve, 300));
+        if (!active) return;
+
+        let answer = '';
+        try {
+          answer = await stt.listen(sttLanguage, settings.sttMode);
+        } catch {
+          // No answer – treated like an unclear one
+        }
+        if (!active) return;
+
+        const approved = parseYesNo(answer);
+        DebugLogger.add('info', 'CONFIRM', `Spoken answer: "${answer}" → ${approved}`);
+        if (approved !== null) {
+          pipelineRef.current?.resolveConfirmation(request.id, approved);
+          return;
+        }
+      }
+      pipelineRef.current?.resolveConfirmation(request.id, false);
+    })().catch(() => {});
+
+    return () => {
+      active = false;
+      stt.cancel().catch(() => {});
+    };
+  }, [
+    pendingConfirmation,
+    settings.drivingMode,
+    settings.appLanguage,
+    settings.sttLanguage,
+    settings.sttMode,
+  ]);
 
   const handleTextSubmit = useCallback(async (text: string) => {
     if (!pipelineRef.current) {
@@ -1468,7 +1733,7 @@ export default function App(): React.JSX.Element {
     const currentState = pipelineRef.current.getState();
 
     // If TTS is currently speaking, stop it immediately
-    if (currentState === 'speaking') {
+    if (pipelineRef.current.isSpeaking()) {
       await pipelineRef.current.stopSpeaking();
     }
 
@@ -1547,7 +1812,7 @@ export default function App(): React.JSX.Element {
 
   /** Save a secure key to Keychain AND update local state */
   const updateSecureKey = useCallback(
-    async (field: 'claudeApiKey' | 'openAIApiKey' | 'customApiKey' | 'customModelUrl' | 'customModelName'| 'wakeWordKey' | 'selectedOpenAIModel' | 'selectedClaudeModel' | 'googleWebClientId' | 'spotifyClientId' | 'slackClientId' | 'googleMapsApiKey' | 'braveSearchApiKey', value: string) => {
+    async (field: 'claudeApiKey' | 'openAIApiKey' | 'customApiKey' | 'customModelUrl' | 'customModelName' | 'localModelUrl' | 'localModelName' | 'wakeWordKey' | 'selectedOpenAIModel' | 'selectedClaudeModel' | 'googleWebClientId' | 'spotifyClientId' | 'slackClientId' | 'googleMapsApiKey' | 'braveSearchApiKey' | 'sttApiUrl' | 'sttApiKey' | 'sttApiModel' | 'ttsApiUrl' | 'ttsApiKey' | 'ttsApiModel', value: string) => {
       setSettings(s => ({ ...s, [field]: value }));
       const keychainId =
         field === 'selectedOpenAIModel'
@@ -1560,6 +1825,10 @@ export default function App(): React.JSX.Element {
           ? SECURE_KEY_IDS.customModelUrl
           : field === 'customModelName'
           ? SECURE_KEY_IDS.customModelName
+          : field === 'localModelUrl'
+          ? SECURE_KEY_IDS.localModelUrl
+          : field === 'localModelName'
+          ? SECURE_KEY_IDS.localModelName
           : SECURE_KEY_IDS[field];
       await saveSecureKey(tokenStore.current, keychainId, value);
     },
@@ -1688,30 +1957,42 @@ export default function App(): React.JSX.Element {
     [],
   );
 
-  const handleAddSkill = useCallback(
-    async (content: string): Promise<{ success: boolean; error?: string }> => {
-      // Validate
-      const validation = validateSkillContent(content);
+  /** Validate, persist and register a skill package (new skill or update) */
+  const installSkillPackage = useCallback(
+    async (
+      pkg: SkillPackage,
+      updateOf?: string,
+    ): Promise<{ success: boolean; error?: string }> => {
+      const validation = validateSkillPackage(pkg);
       if (!validation.valid) {
         return { success: false, error: validation.error };
       }
 
-      const skillName = extractSkillName(content);
-
-      // Check for duplicate dynamic skills
-      const alreadyDynamic = await dynamicSkillStore.current.hasSkill(
-        skillName,
-      );
-      if (alreadyDynamic) {
+      const skillName = extractSkillName(pkg.skill);
+      if (updateOf !== undefined && skillName !== updateOf) {
         return {
           success: false,
-          error: `A custom skill named "${skillName}" already exists. Delete it first or use a different name.`,
+          error: `The update is for skill "${skillName}", not "${updateOf}".`,
         };
       }
 
+      // Check for duplicate dynamic skills
+      if (updateOf === undefined) {
+        const alreadyDynamic = await dynamicSkillStore.current.hasSkill(
+          skillName,
+        );
+        if (alreadyDynamic) {
+          return {
+            success: false,
+            error: `A custom skill named "${skillName}" already exists. Delete it first or use a different name.`,
+          };
+        }
+      }
+
       // Persist + register
-      await dynamicSkillStore.current.saveSkill(skillName, content);
-      skillLoader.current.registerDynamicSkill(skillName, content);
+      const extras = { files: pkg.files, changelog: pkg.changelog };
+      await dynamicSkillStore.current.saveSkill(skillName, pkg.skill, extras);
+      skillLoader.current.registerDynamicSkill(skillName, pkg.skill, extras);
 
       // Update UI
       const newDynamicNames = await dynamicSkillStore.current.getSkillNames();
@@ -1723,6 +2004,32 @@ export default function App(): React.JSX.Element {
     [],
   );
 
+  const handleAddSkill = useCallback(
+    async (content: string): Promise<{ success: boolean; error?: string }> => {
+      // A plain SKILL.md or a skill package (JSON)
+      const pkg = parseSkillPackage(content);
+      if (typeof pkg === 'string') {
+        return { success: false, error: pkg };
+      }
+      return installSkillPackage(pkg);
+    },
+    [installSkillPackage],
+  );
+
+  const handleCheckSkillUpdate = useCallback(
+    async (skillName: string): Promise<SkillUpdate | null> => {
+      const skill = skillLoader.current.getSkill(skillName);
+      return skill ? checkSkillUpdate(skill) : null;
+    },
+    [],
+  );
+
+  const handleInstallSkillUpdate = useCallback(
+    (skillName: string, update: SkillUpdate) =>
+      installSkillPackage(update.package, skillName),
+    [installSkillPackage],
+  );
+
   const handleDeleteSkill = useCallback(
     async (skillName: string): Promise<void> => {
       await dynamicSkillStore.current.deleteSkill(skillName);
@@ -1743,16 +2050,8 @@ export default function App(): React.JSX.Element {
 
   const handleTestSkill = useCallback(
     async (skillName: string) => {
-      const { claudeApiKey, openAIApiKey, selectedProvider, customApiKey } =
-        settings;
-      const apiKey =
-        selectedProvider === 'claude'
-          ? claudeApiKey
-          : selectedProvider === 'custom'
-          ? customApiKey
-          : openAIApiKey;
-
-      if (!apiKey) {
+      const endpoint = selectedEndpoint(settings);
+      if (!endpoint) {
         return {
           success: false,
           message: t('alert.noApiKey.title'),
@@ -1769,19 +2068,7 @@ export default function App(): React.JSX.Element {
         };
       }
 
-      const selectedModel =
-        selectedProvider === 'claude'
-          ? settings.selectedClaudeModel
-          : selectedProvider === 'custom'
-          ? settings.customModelName
-          : settings.selectedOpenAIModel;
-
-      const provider = createLLMProvider({
-        provider: selectedProvider === 'claude' ? 'claude' : selectedProvider === 'custom' ? 'custom' : 'openai',
-        apiKey,
-        model: selectedModel,
-        customBaseUrl: selectedProvider === 'custom' ? settings.customModelUrl : undefined,
-      });
+      const provider = createLLMProvider(endpoint);
 
       const toolRegistry = await createToolRegistry({
         credentialManager: credentialManager.current,
@@ -1801,20 +2088,32 @@ export default function App(): React.JSX.Element {
     [settings],
   );
 
-  const handleTestConnection = useCallback(async () => {
-    const { claudeApiKey, openAIApiKey, selectedProvider, customApiKey, customModelUrl, customModelName, selectedClaudeModel, selectedOpenAIModel } = settings;
+  const handleTestNotificationRule = useCallback<NotificationRuleTester>(
+    async (sample, ruleId) => {
+      const endpoint = selectedEndpoint(settings);
+      if (!endpoint) {
+        throw new Error(t('alert.noApiKey.message'));
+      }
+      const provider = createLLMProvider(endpoint);
+      return dryRunNotification(
+        await buildDryRunConfig(provider, credentialManager.current),
+        sample,
+        ruleId,
+      );
+    },
+    [settings],
+  );
 
-    const apiKey =
-      selectedProvider === 'claude'
-        ? claudeApiKey
-        : selectedProvider === 'custom'
-        ? customApiKey
-        : openAIApiKey;
+  const handleTestConnection = useCallback(async () => {
+    const { selectedProvider, customModelUrl, customModelName } = settings;
 
-    if (!apiKey) {
+    const endpoint = selectedEndpoint(settings);
+    if (!endpoint) {
       Alert.alert(
         t('alert.error'),
-        t('settings.provider.testError.noApiKey'),
+        selectedProvider === 'local'
+          ? t('settings.provider.testError.missingFields')
+          : t('settings.provider.testError.noApiKey'),
       );
       return;
     }
@@ -1830,19 +2129,7 @@ export default function App(): React.JSX.Element {
       }
     }
 
-    const selectedModel =
-      selectedProvider === 'claude'
-        ? selectedClaudeModel
-        : selectedProvider === 'custom'
-        ? customModelName
-        : selectedOpenAIModel;
-
-    const provider = createLLMProvider({
-      provider: selectedProvider,
-      apiKey,
-      model: selectedModel,
-      customBaseUrl: selectedProvider === 'custom' ? customModelUrl : undefined,
-    });
+    const provider = createLLMProvider(endpoint);
     
     const result = await provider.testConnection();
 
@@ -1920,6 +2207,7 @@ export default function App(): React.JSX.Element {
             onBack={() => setScreen('home')}
             enabledSkillNames={settings.enabledSkillNames}
             isDark={isDark}
+            onTestRule={handleTestNotificationRule}
           />
         </SafeAreaProvider>
       </View>
@@ -1944,6 +2232,7 @@ export default function App(): React.JSX.Element {
             onBack={() => setScreen('home')}
             credentialManager={credentialManager.current}
             allSkills={allSkills}
+            availableToolNames={availableToolNames}
             enabledSkillNames={settings.enabledSkillNames}
             skillAvailability={skillAvailability}
             onToggleSkill={handleToggleSkill}
@@ -1973,13 +2262,33 @@ export default function App(): React.JSX.Element {
             onCustomModelNameChange={name =>
               updateSecureKey('customModelName', name)
             }
+            localModelUrl={settings.localModelUrl}
+            onLocalModelUrlChange={url =>
+              updateSecureKey('localModelUrl', url)
+            }
+            localModelName={settings.localModelName}
+            onLocalModelNameChange={name =>
+              updateSecureKey('localModelName', name)
+            }
             onTestConnection={handleTestConnection}
+            providerFallbackEnabled={settings.providerFallbackEnabled ?? true}
+            onProviderFallbackEnabledChange={v =>
+              setSettings(s => ({ ...s, providerFallbackEnabled: v }))
+            }
             wakeWordEnabled={settings.wakeWordEnabled}
             onWakeWordToggle={v =>
               setSettings(s => ({ ...s, wakeWordEnabled: v }))
             }
             wakeWordKey={settings.wakeWordKey}
             onWakeWordKeyChange={k => updateSecureKey('wakeWordKey', k)}
+            voiceBargeIn={settings.voiceBargeIn ?? false}
+            onVoiceBargeInChange={v =>
+              setSettings(s => ({ ...s, voiceBargeIn: v }))
+            }
+            followUpWindowSeconds={settings.followUpWindowSeconds ?? 0}
+            onFollowUpWindowSecondsChange={v =>
+              setSettings(s => ({ ...s, followUpWindowSeconds: v }))
+            }
             sttLanguage={settings.sttLanguage}
             onSttLanguageChange={lang =>
               setSettings(s => ({ ...s, sttLanguage: lang }))
@@ -1988,6 +2297,42 @@ export default function App(): React.JSX.Element {
             onSttModeChange={mode =>
               setSettings(s => ({ ...s, sttMode: mode }))
             }
+            sttApiUrl={settings.sttApiUrl}
+            onSttApiUrlChange={url => updateSecureKey('sttApiUrl', url)}
+            sttApiKey={settings.sttApiKey}
+            onSttApiKeyChange={key => updateSecureKey('sttApiKey', key)}
+            sttApiModel={settings.sttApiModel}
+            onSttApiModelChange={model => updateSecureKey('sttApiModel', model)}
+            ttsEngine={settings.ttsEngine ?? 'android'}
+            onTtsEngineChange={engine =>
+              setSettings(s => ({ ...s, ttsEngine: engine }))
+            }
+            ttsVoice={settings.ttsVoice ?? ''}
+            onTtsVoiceChange={voice =>
+              setSettings(s => ({ ...s, ttsVoice: voice }))
+            }
+            ttsRate={settings.ttsRate ?? 1}
+            onTtsRateChange={rate =>
+              setSettings(s => ({ ...s, ttsRate: rate }))
+            }
+            ttsPitch={settings.ttsPitch ?? 1}
+            onTtsPitchChange={pitch =>
+              setSettings(s => ({ ...s, ttsPitch: pitch }))
+            }
+            ttsApiUrl={settings.ttsApiUrl}
+            onTtsApiUrlChange={url => updateSecureKey('ttsApiUrl', url)}
+            ttsApiKey={settings.ttsApiKey}
+            onTtsApiKeyChange={key => updateSecureKey('ttsApiKey', key)}
+            ttsApiModel={settings.ttsApiModel}
+            onTtsApiModelChange={model => updateSecureKey('ttsApiModel', model)}
+            personaVoice={SoulStore.parseVoice(soulText)}
+            onPreviewVoice={() => {
+              const lang = settings.appLanguage === 'system' ? getSystemLocale() : settings.appLanguage;
+              ttsService.current
+                .stop()
+                .then(() => ttsService.current.speak(t('settings.speech.tts.previewText'), lang))
+                .catch(() => {});
+            }}
             appLanguage={settings.appLanguage}
             onAppLanguageChange={lang =>
               setSettings(s => ({ ...s, appLanguage: lang, sttLanguage: lang }))
@@ -2012,6 +2357,8 @@ export default function App(): React.JSX.Element {
             ttsService={ttsService.current}
             onAddSkill={handleAddSkill}
             onDeleteSkill={handleDeleteSkill}
+            onCheckSkillUpdate={handleCheckSkillUpdate}
+            onInstallSkillUpdate={handleInstallSkillUpdate}
             dynamicSkillNames={dynamicSkillNames}
             onClearHistory={handleClearHistory}
             maxIterations={settings.maxIterations ?? 10}
@@ -2028,6 +2375,10 @@ export default function App(): React.JSX.Element {
             onMaxAccessibilityIterationsChange={v =>
               setSettings(s => ({ ...s, maxAccessibilityIterations: v }))
             }
+            toolConfirmationPolicy={settings.toolConfirmationPolicy ?? DEFAULT_CONFIRMATION_POLICY}
+            onToolConfirmationPolicyChange={v =>
+              setSettings(s => ({ ...s, toolConfirmationPolicy: v }))
+            }
             llmContextMaxMessages={settings.llmContextMaxMessages ?? 20}
             onLlmContextMaxMessagesChange={v =>
               setSettings(s => ({
@@ -2035,6 +2386,13 @@ export default function App(): React.JSX.Element {
                 llmContextMaxMessages: Math.min(200, Math.max(10, v)),
               }))
             }
+            llmContextTokenBudget={settings.llmContextTokenBudget ?? 8000}
+            onLlmContextTokenBudgetChange={v =>
+              setSettings(s => ({
+                ...s,
+                llmContextTokenBudget: Math.min(64000, Math.max(2000, v)),
+              }))
+            }
             conversationHistoryMaxMessages={
               settings.conversationHistoryMaxMessages ?? 50
             }
@@ -2080,6 +2438,7 @@ export default function App(): React.JSX.Element {
           onMicPress={handleMicPress}
           onTextSubmit={handleTextSubmit}
           pipelineState={pipelineState}
+          followUpListening={followUpListening}
           drivingMode={settings.drivingMode}
           onToggleDrivingMode={handleToggleDrivingMode}
           onSettingsPress={() => setScreen('settings')}
@@ -2090,11 +2449,14 @@ export default function App(): React.JSX.Element {
           }
           onJournalPress={() => setScreen('journal')}
           messages={messages}
+          streamingText={streamingText}
           isDark={isDark}
           onToggleDarkMode={handleToggleDarkMode}
           historyLoading={historyLoading}
           language={resolvedLanguage}
           debugLogEnabled={settings.debugLogEnabled ?? false}
+          pendingConfirmation={pendingConfirmation}
+          onConfirmToolCall={handleConfirmToolCall}
         />
       </SafeAreaProvider>
     </View>
@@ -0,0 +1,30 @@
+/**
+ * @format
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { APP_VERSION, compareVersions } from '../src/agent/app-version';
+
+const root = join(__dirname, '..');
+
+describe('app version', () => {
+  test('Android takes its versionName from package.json', () => {
+    const gradle = readFileSync(join(root, 'android/app/build.gradle'), 'utf8');
+    expect(gradle).toMatch(/^\s*versionName appVersion$/m);
+    expect(gradle).toContain('file("../../package.json")');
+  });
+
+  test('iOS marketing version matches package.json', () => {
+    const project = readFileSync(join(root, 'ios/SannaBot.xcodeproj/project.pbxproj'), 'utf8');
+    const versions = [...project.matchAll(/MARKETING_VERSION = ([^;]+);/g)].map(m => m[1]);
+    expect(versions.length).toBeGreaterThan(0);
+    versions.forEach(v => expect(v).toBe(APP_VERSION));
+  });
+
+  test('compares dotted versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9')).toBeGreaterThan(0);
+    expect(compareVersions('1.0', '1.0.0')).toBe(0);
+    expect(compareVersions('0.9.1', '1.0')).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @format
+ */
+
+import type { LLMProvider, LLMResponse, Message } from '../src/llm/types';
+import { ToolRegistry } from '../src/agent/tool-registry';
+import { runScheduleWorkflow, type WorkflowConfig } from '../src/agent/schedule-workflow';
+
+jest.mock('../src/agent/debug-logger', () => ({
+  DebugLogger: new Proxy({}, { get: () => () => {} }),
+}));
+jest.mock('../src/agent/usage-ledger', () => ({
+  UsageLedger: { checkBudget: async () => null, recordResponse: () => {} },
+}));
+jest.mock('../src/native/SchedulerModule', () => ({ __esModule: true, default: {} }));
+
+/** Provider that keeps calling the lookup tool while the prompt contains `loopOn` */
+function fakeProvider(loopOn: string): LLMProvider & { calls: number } {
+  const provider = {
+    calls: 0,
+    async chat(messages: Message[]): Promise<LLMResponse> {
+      provider.calls++;
+      if (messages[1].content.includes(loopOn)) {
+        return {
+          content: '',
+          toolCalls: [{ id: `call_${provider.calls}`, type: 'function', name: 'lookup', arguments: {} }],
+          finishReason: 'tool_calls',
+        };
+      }
+      return { content: 'Done.', toolCalls: [], finishReason: 'stop' };
+    },
+    getCurrentModel: () => 'fake',
+    testConnection: async () => ({ success: true }),
+  };
+  return provider as unknown as LLMProvider & { calls: number };
+}
+
+function config(provider: LLMProvider): WorkflowConfig {
+  const tools = new ToolRegistry();
+  tools.register({
+    name: () => 'lookup',
+    description: () => 'Look something up',
+    parameters: () => ({ type: 'object', properties: {} }),
+    execute: async () => ({ forLLM: 'nothing found', isError: false }),
+  });
+  return {
+    provider,
+    tools,
+    systemPrompt: 'system',
+    scheduleId: 'test',
+    header: '[SCHEDULED TASK]',
+    maxIterations: 3,
+  };
+}
+
+describe('schedule workflow', () => {
+  test('a step that hits the iteration limit fails and is retried', async () => {
+    const provider = fakeProvider('Execute step 2');
+    const result = await runScheduleWorkflow(config(provider), [
+      { instruction: 'Fetch the weather' },
+      { instruction: 'Search forever', maxRetries: 1 },
+      { instruction: 'Send the summary' },
+    ]);
+
+    expect(result.steps.map(s => s.status)).toEqual(['done', 'failed', 'not_run']);
+    expect(result.failedStep).toBe(1);
+    expect(result.steps[1].attempts).toBe(2);
+    expect(result.steps[1].output).toContain('iteration limit');
+    // Step 1 once, step 2 twice with 3 iterations each
+    expect(provider.calls).toBe(1 + 2 * 3);
+    expect(result.content).not.toContain('Maximum iterations');
+  });
+
+  test('steps within the limit complete', async () => {
+    const provider = fakeProvider('never');
+    const result = await runScheduleWorkflow(config(provider), [
+      { instruction: 'Fetch the weather' },
+      { instruction: 'Send the summary' },
+    ]);
+
+    expect(result.failedStep).toBeNull();
+    expect(result.steps.map(s => s.status)).toEqual(['done', 'done']);
+  });
+});
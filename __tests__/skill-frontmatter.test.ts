@@ -0,0 +1,159 @@
+/**
+ * @format
+ */
+
+/// <reference types="node" />
+import fs from 'fs';
+import path from 'path';
+import { parseFrontmatter } from '../src/agent/skill-frontmatter';
+import { validateSkillContent } from '../src/agent/skill-validator';
+import { parseYamlMapping, YamlError } from '../src/agent/yaml-subset';
+
+const SKILLS_DIR = path.join(__dirname, '../assets/skills');
+
+const bundledSkills = fs
+  .readdirSync(SKILLS_DIR)
+  .filter(name => fs.existsSync(path.join(SKILLS_DIR, name, 'SKILL.md')));
+
+function yamlErrorLine(text: string): number | null {
+  try {
+    parseYamlMapping(text);
+    return null;
+  } catch (err) {
+    return err instanceof YamlError ? err.line : null;
+  }
+}
+
+describe('bundled skills', () => {
+  test('are all found', () => {
+    expect(bundledSkills.length).toBeGreaterThan(0);
+  });
+
+  test.each(bundledSkills)('%s has valid frontmatter', name => {
+    const content = fs.readFileSync(path.join(SKILLS_DIR, name, 'SKILL.md'), 'utf8');
+    const { frontmatter, body, error } = parseFrontmatter(content);
+
+    expect(error).toBeUndefined();
+    expect(frontmatter.name).toBe(name);
+    expect(frontmatter.description).not.toBe('');
+    expect(body.trim()).not.toBe('');
+    for (const permission of frontmatter.permissions ?? []) {
+      expect(permission).toMatch(/^android\.permission\.[A-Z_]+$/);
+    }
+    for (const cred of frontmatter.credentials ?? []) {
+      expect(cred.id).toEqual(expect.any(String));
+      expect(cred.label).toEqual(expect.any(String));
+      expect(['oauth', 'api_key', 'password']).toContain(cred.type);
+    }
+    expect(validateSkillContent(content)).toEqual({ valid: true });
+  });
+});
+
+describe('parseYamlMapping', () => {
+  test('parses inline arrays', () => {
+    const { data } = parseYamlMapping('permissions: [a, "b, c", \'d\']\nempty: []');
+    expect(data).toEqual({ permissions: ['a', 'b, c', 'd'], empty: [] });
+  });
+
+  test('keeps colons in plain and quoted strings', () => {
+    const { data } = parseYamlMapping(
+      'description: Primary: wttr.in, fallback: Open-Meteo\nprompt: "Say: hello"\nurl: https://example.com/#top',
+    );
+    expect(data).toEqual({
+      description: 'Primary: wttr.in, fallback: Open-Meteo',
+      prompt: 'Say: hello',
+      url: 'https://example.com/#top',
+    });
+  });
+
+  test('parses multi-line descriptions', () => {
+    const { data } = parseYamlMapping(
+      [
+        'folded: >',
+        '  first line',
+        '  second line',
+        'literal: |-',
+        '  line 1',
+        '  line 2',
+        'plain: starts here',
+        '  and continues',
+        'quoted: "starts here',
+        '  and continues"',
+      ].join('\n'),
+    );
+    expect(data).toEqual({
+      folded: 'first line second line\n',
+      literal: 'line 1\nline 2',
+      plain: 'starts here and continues',
+      quoted: 'starts here and continues',
+    });
+  });
+
+  test('parses nested objects and lists of objects', () => {
+    const { data } = parseYamlMapping(
+      [
+        'credentials:',
+        ' - id: google',
+        '   label: Google Account',
+        '   type: oauth',
+        'options:',
+        '  retry:',
+        '    count: 3 # comment',
+        '  flow: { a: x, b: [y, z] }',
+        'list:',
+        '- top-level item',
+      ].join('\n'),
+    );
+    expect(data).toEqual({
+      credentials: [{ id: 'google', label: 'Google Account', type: 'oauth' }],
+      options: { retry: { count: '3' }, flow: { a: 'x', b: ['y', 'z'] } },
+      list: ['top-level item'],
+    });
+  });
+
+  test('keeps scalars as strings and reads empty values as null', () => {
+    const { data } = parseYamlMapping('version: 1.10\nenabled: true\nempty:\ntilde: ~');
+    expect(data).toEqual({ version: '1.10', enabled: 'true', empty: null, tilde: null });
+  });
+
+  test('reports errors with line numbers', () => {
+    expect(yamlErrorLine('a: 1\nb: 2\na: 3')).toBe(3);
+    expect(yamlErrorLine('a:\n\tb: 1')).toBe(2);
+    expect(yamlErrorLine('a: 1\nb: "open')).toBe(2);
+    expect(yamlErrorLine('a: [x, y')).toBe(1);
+    expect(yamlErrorLine('a: 1\n\nno colon here')).toBe(3);
+  });
+});
+
+describe('parseFrontmatter', () => {
+  test('reports errors with the line number in the file', () => {
+    const content = '---\nname: my-skill\ndescription: [a, b]\n---\nBody';
+    const { error } = parseFrontmatter(content);
+    expect(error).toBe('Invalid frontmatter – Line 3: "description" must be a text, found a list');
+    expect(validateSkillContent(content)).toEqual({ valid: false, error });
+  });
+
+  test('maps lists and credentials', () => {
+    const { frontmatter } = parseFrontmatter(
+      [
+        '---',
+        'name: my-skill',
+        'description: >',
+        '  Does things.',
+        'requires_tools: [http, file_storage]',
+        'permissions:',
+        'credentials:',
+        '  - { id: key, label: API Key, type: api_key }',
+        '---',
+        'Body',
+      ].join('\n'),
+    );
+    expect(frontmatter).toEqual({
+      name: 'my-skill',
+      description: 'Does things.',
+      requires_tools: ['http', 'file_storage'],
+      permissions: [],
+      credentials: [{ id: 'key', label: 'API Key', type: 'api_key' }],
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @format
+ */
+
+import { sourceOffset, toSpeech, toUtterances } from '../src/audio/speech-text';
+
+describe('markdown', () => {
+  test('drops emphasis, code and headings', () => {
+    expect(toSpeech('## Weather\nIt is **sunny** and _warm_, run `npm start`.', 'en-US')).toBe(
+      'Weather. It is sunny and warm, run npm start.',
+    );
+  });
+
+  test('keeps snake_case words intact', () => {
+    expect(toSpeech('Set my_variable now', 'en-US')).toBe('Set my_variable now.');
+  });
+
+  test('reads list items as sentences', () => {
+    expect(toSpeech('You need:\n- Milk\n- Bread\n* [x] Eggs\n1. Butter', 'en-US')).toBe(
+      'You need: Milk. Bread. Eggs. Butter.',
+    );
+  });
+
+  test('keeps link text and reads URLs as their domain', () => {
+    expect(
+      toSpeech('See [the docs](https://example.com/a), <https://github.com/x> or https://www.orf.at/news?id=1.', 'en-US'),
+    ).toBe('See the docs, github.com or orf.at.');
+  });
+
+  test('reads table rows with their headers', () => {
+    const table = '| Day | Weather |\n|---|---|\n| Monday | Rain |\n| Tuesday | Sun |';
+    expect(toSpeech(table, 'en-US')).toBe('Day: Monday, Weather: Rain. Day: Tuesday, Weather: Sun.');
+  });
+
+  test('skips code blocks, rules, quotes and emoji', () => {
+    expect(toSpeech('> Done 🎉\n---\n```ts\nconst a = 1;\n```\nAll good ✅', 'en-US')).toBe(
+      'Done. All good.',
+    );
+  });
+});
+
+describe('numbers, times and currencies', () => {
+  test('English', () => {
+    expect(toSpeech('It costs $3.50 and €1 at 14:30.', 'en-US')).toBe(
+      'It costs 3 dollars and 50 cents and 1 euro at 2:30 PM.',
+    );
+    expect(toSpeech('1,234 people, 3.14 km, 20% off, 10-15 minutes', 'en-US')).toBe(
+      '1234 people, 3 point 1 4 km, 20 percent off, 10 to 15 minutes.',
+    );
+    expect(toSpeech('Meet at 9:00 or 9:05 or 2:30 PM.', 'en-US')).toBe(
+      "Meet at 9 o'clock or 9:05 or 2:30 PM.",
+    );
+  });
+
+  test('German', () => {
+    expect(toSpeech('Es kostet 12,50 € und 0,99 EUR, Treffen um 14:30 Uhr.', 'de-AT')).toBe(
+      'Es kostet 12 Euro 50 und 99 Cent, Treffen um 14 Uhr 30.',
+    );
+    expect(toSpeech('1.500 Leute, 3,5 %, 20 °C, 8:00 bis 10:15', 'de-DE')).toBe(
+      '1500 Leute, 3 Komma 5 Prozent, 20 Grad Celsius, 8 Uhr bis 10 Uhr 15.',
+    );
+  });
+
+  test('leaves dates and versions alone', () => {
+    expect(toSpeech('Am 19.10. kommt Version 1.2.3.', 'de-DE')).toBe('Am 19.10. kommt Version 1.2.3.');
+  });
+});
+
+describe('utterances', () => {
+  test('joins short blocks and splits long text', () => {
+    const sentence = 'This is a sentence of moderate length.';
+    const text = Array(12).fill(sentence).join(' ');
+    const utterances = toUtterances(text, 'en-US', 100);
+    expect(utterances.length).toBeGreaterThan(1);
+    utterances.forEach(u => expect(u.text.length).toBeLessThanOrEqual(100));
+    expect(utterances.map(u => u.text).join(' ')).toBe(text);
+    expect(toUtterances('- One\n- Two', 'en-US')).toEqual([{ text: 'One. Two.', start: 0, end: 11 }]);
+  });
+
+  test('maps an interruption back to the original text', () => {
+    const text = '**First** part.\n\nSecond part here.';
+    const [first, second] = toUtterances(text, 'en-US', 12);
+    expect(first.text).toBe('First part.');
+    expect(sourceOffset(text, first, first.text.length)).toBe(first.end);
+    expect(sourceOffset(text, second, 0)).toBe(text.indexOf('Second'));
+    // Cut in the middle of "part" – back to the start of the word
+    expect(sourceOffset(text, second, 'Second pa'.length)).toBe(text.indexOf('part here'));
+  });
+});
@@ -12,7 +12,7 @@ import android.util.Base64
  * AudioRecorderModule – PCM Audio Streaming to JavaScript
  *
  * Records audio from the microphone and streams PCM chunks to JS via events.
- * Used by WakeWordService and STTService.
+ * Used by the transcription STT backend (transcription-stt-backend.ts).
  *
  * Events emitted:
  *   - audio_chunk: { data: string (base64 PCM) }
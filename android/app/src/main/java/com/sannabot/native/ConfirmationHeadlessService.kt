@@ -0,0 +1,31 @@
+package com.sannabot.native
+
+import android.content.Intent
+import com.facebook.react.HeadlessJsTaskService
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.jstasks.HeadlessJsTaskConfig
+
+/**
+ * ConfirmationHeadlessService – Runs the JS confirmation task in the background.
+ *
+ * The JS task (confirmation-headless.ts) executes the approved tool call
+ * and reports the outcome to the conversation.
+ */
+class ConfirmationHeadlessService : HeadlessJsTaskService() {
+
+    override fun getTaskConfig(intent: Intent?): HeadlessJsTaskConfig? {
+        val extras = intent?.extras ?: return null
+
+        val data = Arguments.createMap().apply {
+            putString("confirmationId", extras.getString("confirmationId", ""))
+            putBoolean("approved", extras.getBoolean("approved", false))
+        }
+
+        return HeadlessJsTaskConfig(
+            "SannaConfirmationTask", // Must match AppRegistry.registerHeadlessTask name
+            data,
+            60_000,                  // Timeout: 60 seconds (one tool call)
+            true                     // Allow task in foreground too
+        )
+    }
+}
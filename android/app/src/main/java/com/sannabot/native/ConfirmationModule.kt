@@ -0,0 +1,102 @@
+package com.sannabot.native
+
+import android.app.NotificationChannel
+import android.app.NotificationManager
+import android.app.PendingIntent
+import android.content.Context
+import android.content.Intent
+import android.os.Build
+import androidx.core.app.NotificationCompat
+import androidx.core.app.NotificationManagerCompat
+import com.facebook.react.bridge.*
+
+/**
+ * ConfirmationModule – Asks the user to approve a risky tool call via notification.
+ *
+ * Used by headless tasks (scheduler, notification rules), which cannot show
+ * the in-app confirmation card. The notification carries Allow / Deny
+ * actions; tapping one broadcasts to ConfirmationReceiver, which starts the
+ * SannaConfirmationTask to run (or drop) the stored call.
+ */
+class ConfirmationModule(reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        const val CHANNEL_ID = "sanna_confirmations"
+        const val EXTRA_CONFIRMATION_ID = "confirmation_id"
+        const val EXTRA_APPROVED = "approved"
+
+        /** Stable notification id per confirmation */
+        fun notificationId(confirmationId: String): Int = confirmationId.hashCode()
+    }
+
+    override fun getName(): String = "ConfirmationModule"
+
+    /**
+     * Post the confirmation notification.
+     * @param id Confirmation id (matches the pending entry stored by JS)
+     * @param title Notification title
+     * @param text What the tool call would do
+     */
+    @ReactMethod
+    fun showConfirmation(id: String, title: String, text: String, promise: Promise) {
+        try {
+            val context = reactApplicationContext
+            createChannel(context)
+
+            val notification = NotificationCompat.Builder(context, CHANNEL_ID)
+                .setContentTitle(title)
+                .setContentText(text)
+                .setStyle(NotificationCompat.BigTextStyle().bigText(text))
+                .setSmallIcon(android.R.drawable.ic_dialog_alert)
+                .setPriority(NotificationCompat.PRIORITY_HIGH)
+                .setCategory(NotificationCompat.CATEGORY_REMINDER)
+                .setAutoCancel(false)
+                .addAction(0, "Allow", actionIntent(context, id, true))
+                .addAction(0, "Deny", actionIntent(context, id, false))
+                .setDeleteIntent(actionIntent(context, id, false))
+                .build()
+
+            NotificationManagerCompat.from(context).notify(notificationId(id), notification)
+            promise.resolve(true)
+        } catch (e: SecurityException) {
+            // POST_NOTIFICATIONS not granted
+            promise.reject("CONFIRMATION_ERROR", "Notification permission missing: ${e.message}", e)
+        } catch (e: Exception) {
+            promise.reject("CONFIRMATION_ERROR", e.message, e)
+        }
+    }
+
+    /** Remove the confirmation notification (e.g. after it expired) */
+    @ReactMethod
+    fun cancelConfirmation(id: String, promise: Promise) {
+        NotificationManagerCompat.from(reactApplicationContext).cancel(notificationId(id))
+        promise.resolve(true)
+    }
+
+    // ── Helpers ───────────────────────────────────────────────────────────────
+
+    private fun actionIntent(context: Context, id: String, approved: Boolean): PendingIntent {
+        val intent = Intent(context, ConfirmationReceiver::class.java).apply {
+            // Unique action per button, otherwise the two PendingIntents collide
+            action = "com.sannabot.CONFIRMATION_${if (approved) "ALLOW" else "DENY"}"
+            putExtra(EXTRA_CONFIRMATION_ID, id)
+            putExtra(EXTRA_APPROVED, approved)
+        }
+        return PendingIntent.getBroadcast(
+            context,
+            notificationId(id) * 2 + if (approved) 1 else 0,
+            intent,
+            PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+        )
+    }
+
+    private fun createChannel(context: Context) {
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
+            val channel = NotificationChannel(
+                CHANNEL_ID, "Sanna Confirmations", NotificationManager.IMPORTANCE_HIGH
+            ).apply { description = "Approve actions requested by background tasks" }
+            context.getSystemService(NotificationManager::class.java).createNotificationChannel(channel)
+        }
+    }
+}
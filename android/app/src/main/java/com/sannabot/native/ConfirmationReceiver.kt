@@ -0,0 +1,44 @@
+package com.sannabot.native
+
+import android.content.BroadcastReceiver
+import android.content.Context
+import android.content.Intent
+import android.os.Bundle
+import android.util.Log
+import androidx.core.app.NotificationManagerCompat
+import com.facebook.react.HeadlessJsTaskService
+
+/**
+ * ConfirmationReceiver – Handles the Allow / Deny actions of a confirmation notification.
+ *
+ * Dismisses the notification and starts the HeadlessJS confirmation task,
+ * which executes the stored tool call (Allow) or discards it (Deny / swipe).
+ */
+class ConfirmationReceiver : BroadcastReceiver() {
+
+    companion object {
+        private const val TAG = "ConfirmationReceiver"
+    }
+
+    override fun onReceive(context: Context, intent: Intent) {
+        val confirmationId = intent.getStringExtra(ConfirmationModule.EXTRA_CONFIRMATION_ID) ?: return
+        val approved = intent.getBooleanExtra(ConfirmationModule.EXTRA_APPROVED, false)
+        Log.d(TAG, "Confirmation $confirmationId answered: approved=$approved")
+
+        NotificationManagerCompat.from(context).cancel(ConfirmationModule.notificationId(confirmationId))
+
+        val serviceIntent = Intent(context, ConfirmationHeadlessService::class.java).apply {
+            putExtras(Bundle().apply {
+                putString("confirmationId", confirmationId)
+                putBoolean("approved", approved)
+            })
+        }
+
+        try {
+            context.startService(serviceIntent)
+            HeadlessJsTaskService.acquireWakeLockNow(context)
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to start headless service: ${e.message}", e)
+        }
+    }
+}
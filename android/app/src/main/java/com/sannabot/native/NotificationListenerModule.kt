@@ -19,6 +19,7 @@ import org.json.JSONObject
  * - Open Android's notification access settings
  * - Manage subscribed apps (allowlist)
  * - Retrieve buffered notifications
+ * - Act on shown notifications: reply via RemoteInput, mark as read, dismiss
  */
 class NotificationListenerModule(reactContext: ReactApplicationContext) :
     ReactContextBaseJavaModule(reactContext) {
@@ -159,11 +160,63 @@ class NotificationListenerModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    // ── Notification actions ─────────────────────────────────────────────────
+
+    /**
+     * Reply to a shown notification through its own reply action (RemoteInput).
+     */
+    @ReactMethod
+    fun replyToNotification(key: String, text: String, promise: Promise) {
+        try {
+            val error = SannaNotificationListenerService.reply(reactApplicationContext, key, text)
+            if (error != null) {
+                promise.reject("REPLY_ERROR", error)
+            } else {
+                promise.resolve("ok")
+            }
+        } catch (e: Exception) {
+            promise.reject("REPLY_ERROR", e.message ?: "replyToNotification failed", e)
+        }
+    }
+
+    /**
+     * Trigger the "mark as read" action of a shown notification.
+     */
+    @ReactMethod
+    fun markNotificationAsRead(key: String, promise: Promise) {
+        try {
+            val error = SannaNotificationListenerService.markAsRead(reactApplicationContext, key)
+            if (error != null) {
+                promise.reject("MARK_READ_ERROR", error)
+            } else {
+                promise.resolve("ok")
+            }
+        } catch (e: Exception) {
+            promise.reject("MARK_READ_ERROR", e.message ?: "markNotificationAsRead failed", e)
+        }
+    }
+
+    /**
+     * Remove a notification from the notification shade.
+     */
+    @ReactMethod
+    fun dismissNotification(key: String, promise: Promise) {
+        try {
+            if (SannaNotificationListenerService.dismissNotification(key)) {
+                promise.resolve("ok")
+            } else {
+                promise.reject("DISMISS_ERROR", "Notification listener is not connected")
+            }
+        } catch (e: Exception) {
+            promise.reject("DISMISS_ERROR", e.message ?: "dismissNotification failed", e)
+        }
+    }
+
     // ── Agent Config (for HeadlessJS notification sub-agent) ─────────────────
 
     /**
      * Save agent config so the headless notification sub-agent can create a pipeline.
-     * Config: { apiKey, provider, model, enabledSkillNames, drivingMode, language, ... }
+     * Config: versioned JSON, opaque to native code (see src/agent/agent-config.ts)
      */
     @ReactMethod
     fun saveAgentConfig(configJson: String, promise: Promise) {
@@ -1,8 +1,12 @@
 package com.sannabot.native
 
+import android.app.Notification
+import android.app.RemoteInput
 import android.content.ComponentName
 import android.content.Context
 import android.content.Intent
+import android.os.Build
+import android.os.Bundle
 import android.service.notification.NotificationListenerService
 import android.service.notification.StatusBarNotification
 import android.util.Log
@@ -35,12 +39,21 @@ class SannaNotificationListenerService : NotificationListenerService() {
         private const val MAX_BUFFER_SIZE = 50 // Keep last 50 notifications
         private const val MAX_PROCESSED_KEYS = 200
 
+        /** "Mark as read" labels as whole words – not "thread" or "already" */
+        private val MARK_AS_READ_LABEL = Regex("\\b(read|gelesen)\\b")
+
         /**
-         * Set of notification keys that have already been processed.
+         * Content hash of the last processed post per notification key.
          * Prevents duplicate processing when Android re-posts existing
-         * child notifications (e.g. Gmail re-posts all emails when a new one arrives).
+         * child notifications unchanged (e.g. Gmail re-posts all emails when a
+         * new one arrives), while updates under the same key (messengers re-post
+         * the conversation with every new message) are still forwarded.
          */
-        private val processedKeys = LinkedHashSet<String>()
+        private val processedKeys = LinkedHashMap<String, Int>()
+
+        /** The connected listener – needed to act on live notifications (reply, dismiss) */
+        @Volatile
+        private var instance: SannaNotificationListenerService? = null
 
         /**
          * Get the list of subscribed package names from SharedPreferences.
@@ -57,6 +70,88 @@ class SannaNotificationListenerService : NotificationListenerService() {
             }
         }
 
+        /**
+         * Find a notification that is still shown, by key.
+         * Returns null if it was dismissed or the listener is not connected.
+         */
+        fun findActiveNotification(key: String): StatusBarNotification? {
+            val service = instance ?: return null
+            return try {
+                service.activeNotifications?.firstOrNull { it.key == key }
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to read active notifications: ${e.message}", e)
+                null
+            }
+        }
+
+        /**
+         * Remove a notification from the shade. Returns false if the listener
+         * is not connected.
+         */
+        fun dismissNotification(key: String): Boolean {
+            val service = instance ?: return false
+            service.cancelNotification(key)
+            return true
+        }
+
+        /**
+         * All actions of a notification: its own actions, plus the wearable
+         * ones (some messengers only put the reply action there).
+         */
+        fun allActions(notification: Notification): List<Notification.Action> {
+            val own = notification.actions?.toList() ?: emptyList()
+            @Suppress("DEPRECATION")
+            val wearable = Notification.WearableExtender(notification).actions
+            return own + wearable.filter { w -> own.none { it.title?.toString() == w.title?.toString() } }
+        }
+
+        /** Whether the action takes free-form text via RemoteInput */
+        fun canReply(action: Notification.Action): Boolean =
+            action.remoteInputs?.any { it.allowFreeFormInput } == true
+
+        /** Whether the action marks the conversation as read */
+        fun isMarkAsRead(action: Notification.Action): Boolean {
+            if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.P &&
+                action.semanticAction == Notification.Action.SEMANTIC_ACTION_MARK_AS_READ) {
+                return true
+            }
+            // Apps without semantic actions: match the usual labels
+            val title = action.title?.toString()?.lowercase() ?: return false
+            return MARK_AS_READ_LABEL.containsMatchIn(title)
+        }
+
+        /**
+         * Send `text` through the notification's reply action (RemoteInput).
+         * Returns null on success or an error message.
+         */
+        fun reply(context: Context, key: String, text: String): String? {
+            val sbn = findActiveNotification(key)
+                ?: return "Notification is no longer shown – it can only be answered while it is visible"
+            val action = allActions(sbn.notification).firstOrNull { canReply(it) }
+                ?: return "This notification has no reply action"
+            val remoteInputs = action.remoteInputs.filter { it.allowFreeFormInput }.toTypedArray()
+            val results = Bundle().apply {
+                for (input in remoteInputs) putCharSequence(input.resultKey, text)
+            }
+            val intent = Intent().addFlags(Intent.FLAG_RECEIVER_FOREGROUND)
+            RemoteInput.addResultsToIntent(remoteInputs, intent, results)
+            action.actionIntent.send(context, 0, intent)
+            return null
+        }
+
+        /**
+         * Trigger the notification's mark-as-read action.
+         * Returns null on success or an error message.
+         */
+        fun markAsRead(context: Context, key: String): String? {
+            val sbn = findActiveNotification(key)
+                ?: return "Notification is no longer shown"
+            val action = allActions(sbn.notification).firstOrNull { isMarkAsRead(it) }
+                ?: return "This notification has no mark-as-read action"
+            action.actionIntent.send(context, 0, Intent())
+            return null
+        }
+
         /**
          * Save a notification to the buffer (for get_recent retrieval).
          */
@@ -80,12 +175,14 @@ class SannaNotificationListenerService : NotificationListenerService() {
 
     override fun onListenerConnected() {
         super.onListenerConnected()
+        instance = this
         Log.i(TAG, "✅ NotificationListener CONNECTED")
         emitDebugLog("info", "✅ NotificationListener connected")
     }
 
     override fun onListenerDisconnected() {
         super.onListenerDisconnected()
+        instance = null
         Log.w(TAG, "⚠️ NotificationListener DISCONNECTED – requesting rebind")
         emitDebugLog("error", "⚠️ NotificationListener disconnected – requesting rebind")
         // Ask Android to rebind the service so notifications resume as soon as possible.
@@ -125,28 +222,34 @@ class SannaNotificationListenerService : NotificationListenerService() {
             // Skip group summary notifications (e.g. Gmail's "3 new messages").
             // We process the individual child notifications instead, which contain
             // the actual sender + subject per email.
-            val isGroupSummary = (notification.flags and android.app.Notification.FLAG_GROUP_SUMMARY) != 0
+            val isGroupSummary = (notification.flags and Notification.FLAG_GROUP_SUMMARY) != 0
             if (isGroupSummary) {
-                Log.d(TAG, "Skipping group summary from $packageName: ${extras?.getCharSequence(android.app.Notification.EXTRA_TEXT)}")
+                Log.d(TAG, "Skipping group summary from $packageName: ${extras?.getCharSequence(Notification.EXTRA_TEXT)}")
                 return
             }
 
-            // Deduplicate: skip notifications that have already been processed.
+            // Extract notification data
+            val title = extras?.getCharSequence(Notification.EXTRA_TITLE)?.toString() ?: ""
+            val text = extras?.getCharSequence(Notification.EXTRA_TEXT)?.toString() ?: ""
+
+            // Deduplicate: skip unchanged re-posts of an already processed notification.
             // Android re-posts existing child notifications when a new sibling arrives
             // (e.g. Gmail re-fires all individual emails when a new email comes in).
-            if (!processedKeys.add(sbn.key)) {
-                Log.d(TAG, "Skipping already-processed notification: ${sbn.key}")
+            // Changed content under the same key is an update and is forwarded –
+            // the JS side passes the previous content on to the sub-agent.
+            val contentHash = "$title\n$text".hashCode()
+            if (processedKeys[sbn.key] == contentHash) {
+                Log.d(TAG, "Skipping unchanged re-post of notification: ${sbn.key}")
                 return
             }
+            // Re-insert so the key becomes the newest entry
+            processedKeys.remove(sbn.key)
+            processedKeys[sbn.key] = contentHash
             // Trim oldest entries to prevent unbounded growth
             while (processedKeys.size > MAX_PROCESSED_KEYS) {
-                processedKeys.iterator().let { it.next(); it.remove() }
+                processedKeys.keys.iterator().let { it.next(); it.remove() }
             }
 
-            // Extract notification data
-            val title = extras?.getCharSequence(android.app.Notification.EXTRA_TITLE)?.toString() ?: ""
-            val text = extras?.getCharSequence(android.app.Notification.EXTRA_TEXT)?.toString() ?: ""
-
             // Extract sender depending on app type.
             // Email apps (Gmail, Outlook): EXTRA_TITLE = sender name, EXTRA_SUB_TEXT = account email (receiver!)
             // Messaging apps (WhatsApp, Telegram): EXTRA_TITLE = contact/group name
@@ -166,13 +269,23 @@ class SannaNotificationListenerService : NotificationListenerService() {
                     ?: title
             }
 
+            val actions = allActions(notification).mapIndexed { index, action ->
+                ActionData(
+                    index = index,
+                    title = action.title?.toString() ?: "",
+                    canReply = canReply(action),
+                    marksAsRead = isMarkAsRead(action)
+                )
+            }
+
             val notificationData = NotificationData(
                 packageName = packageName,
                 title = title,
                 text = text,
                 sender = sender,
                 timestamp = sbn.postTime,
-                key = sbn.key
+                key = sbn.key,
+                actions = actions
             )
 
             // Save to buffer (for get_recent tool access)
@@ -208,6 +321,37 @@ class SannaNotificationListenerService : NotificationListenerService() {
         }
     }
 
+    /**
+     * An action button of a notification, as exposed to JS.
+     */
+    data class ActionData(
+        val index: Int,
+        val title: String,
+        /** Takes free-form text via RemoteInput (reply in place) */
+        val canReply: Boolean,
+        val marksAsRead: Boolean
+    ) {
+        fun toJSON(): org.json.JSONObject {
+            return org.json.JSONObject().apply {
+                put("index", index)
+                put("title", title)
+                put("canReply", canReply)
+                put("marksAsRead", marksAsRead)
+            }
+        }
+
+        companion object {
+            fun fromJSON(json: org.json.JSONObject): ActionData {
+                return ActionData(
+                    index = json.optInt("index", 0),
+                    title = json.optString("title", ""),
+                    canReply = json.optBoolean("canReply", false),
+                    marksAsRead = json.optBoolean("marksAsRead", false)
+                )
+            }
+        }
+    }
+
     /**
      * Data class for notification information.
      */
@@ -217,7 +361,8 @@ class SannaNotificationListenerService : NotificationListenerService() {
         val text: String,
         val sender: String,
         val timestamp: Long,
-        val key: String
+        val key: String,
+        val actions: List<ActionData> = emptyList()
     ) {
         fun toJSON(): org.json.JSONObject {
             return org.json.JSONObject().apply {
@@ -227,18 +372,23 @@ class SannaNotificationListenerService : NotificationListenerService() {
                 put("sender", sender)
                 put("timestamp", timestamp)
                 put("key", key)
+                put("actions", JSONArray().apply { actions.forEach { put(it.toJSON()) } })
             }
         }
 
         companion object {
             fun fromJSON(json: org.json.JSONObject): NotificationData {
+                val actionsJson = json.optJSONArray("actions") ?: JSONArray()
                 return NotificationData(
                     packageName = json.getString("packageName"),
                     title = json.optString("title", ""),
                     text = json.optString("text", ""),
                     sender = json.optString("sender", ""),
                     timestamp = json.getLong("timestamp"),
-                    key = json.getString("key")
+                    key = json.getString("key"),
+                    actions = (0 until actionsJson.length()).map {
+                        ActionData.fromJSON(actionsJson.getJSONObject(it))
+                    }
                 )
             }
         }
@@ -171,7 +171,7 @@ class SchedulerModule(reactContext: ReactApplicationContext) :
 
     /**
      * Save agent config so the headless sub-agent can create a pipeline.
-     * Config: { apiKey, provider, model, enabledSkillNames }
+     * Config: versioned JSON, opaque to native code (see src/agent/agent-config.ts)
      */
     @ReactMethod
     fun saveAgentConfig(configJson: String, promise: Promise) {
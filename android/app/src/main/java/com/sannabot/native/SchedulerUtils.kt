@@ -3,12 +3,27 @@ package com.sannabot.native
 import org.json.JSONArray
 import org.json.JSONObject
 import java.util.Calendar
+import java.util.Locale
+import java.util.TimeZone
 
 /**
  * Shared utility functions for schedule recurrence calculations.
  * Used by both SchedulerModule and BootReceiver to avoid code duplication.
+ *
+ * Mirrors src/tools/schedule-recurrence.ts: daily/weekly/monthly/yearly rules
+ * and cron expressions, evaluated in the schedule's IANA timezone, with
+ * exclusion dates. DST gaps fire right after the gap, overlaps fire once at
+ * the first occurrence.
  */
 object SchedulerUtils {
+    private const val MINUTE_MS = 60_000L
+    private const val DAY_MS = 24 * 60 * MINUTE_MS
+
+    /** How far ahead a rule is searched (days) – covers every "29 February" rule */
+    private const val SEARCH_HORIZON_DAYS = 8 * 366
+
+    private val UTC: TimeZone = TimeZone.getTimeZone("UTC")
+
     /**
      * Calculate the next future trigger time for a recurring schedule.
      * Mirrors the logic in scheduler-tool.ts calculateNextTrigger().
@@ -17,87 +32,253 @@ object SchedulerUtils {
     fun calculateNextTrigger(schedule: JSONObject, now: Long): Long? {
         val recurrence = schedule.optJSONObject("recurrence") ?: return null
         val type = recurrence.optString("type", "once")
+        val timezoneId = recurrence.optString("timezone", "")
+        val timeZone = if (timezoneId.isEmpty()) TimeZone.getDefault() else TimeZone.getTimeZone(timezoneId)
+        val excluded = toStringSet(recurrence.optJSONArray("excludeDates"))
 
         return when (type) {
             "once" -> null
 
             "interval" -> {
-                val intervalMs = recurrence.optLong("intervalMs", 60_000)
-                now + intervalMs
+                val intervalMs = maxOf(recurrence.optLong("intervalMs", 60_000), 60_000L)
+                var next = now + intervalMs
+                while (excluded.contains(dateKey(next, timeZone)) && next - now < SEARCH_HORIZON_DAYS * DAY_MS) {
+                    next += intervalMs
+                }
+                next
             }
 
-            "daily" -> {
-                val time = recurrence.optString("time", "") ?: ""
-                if (time.isEmpty()) return null
-                getNextDailyTrigger(time, now)
+            "cron" -> {
+                val spec = CronSpec.parse(recurrence.optString("cron", "")) ?: return null
+                nextCalendarOccurrence(now, timeZone, excluded, spec.times()) { spec.matchesDay(it) }
             }
 
-            "weekly" -> {
+            "daily", "weekly", "monthly", "yearly" -> {
                 val time = recurrence.optString("time", "") ?: ""
-                val daysArray = recurrence.optJSONArray("daysOfWeek")
-                if (time.isEmpty() || daysArray == null || daysArray.length() == 0) return null
-                val days = (0 until daysArray.length()).map { daysArray.getInt(it) }
-                getNextWeeklyTrigger(time, days, now)
+                if (!Regex("^\\d{2}:\\d{2}$").matches(time)) return null
+                val parts = time.split(":")
+                val times = listOf(parts[0].toInt() to parts[1].toInt())
+                val daysOfWeek = toIntList(recurrence.optJSONArray("daysOfWeek"))
+                if (type == "weekly" && daysOfWeek.isEmpty()) return null
+                nextCalendarOccurrence(now, timeZone, excluded, times) { day ->
+                    matchesRule(type, day, recurrence, daysOfWeek)
+                }
             }
 
             else -> null
         }
     }
 
-    /**
-     * Get the next occurrence of a daily time (HH:mm) after [after] timestamp.
-     */
-    fun getNextDailyTrigger(time: String, after: Long): Long {
-        val parts = time.split(":")
-        val hours = parts[0].toInt()
-        val minutes = parts[1].toInt()
-
-        val cal = Calendar.getInstance().apply {
-            timeInMillis = after
-            set(Calendar.HOUR_OF_DAY, hours)
-            set(Calendar.MINUTE, minutes)
-            set(Calendar.SECOND, 0)
-            set(Calendar.MILLISECOND, 0)
-        }
+    // ── Calendar search ──────────────────────────────────────────────────────
 
-        // If this time today has already passed, schedule for tomorrow
-        if (cal.timeInMillis <= after) {
-            cal.add(Calendar.DAY_OF_MONTH, 1)
+    /** A calendar date; weekday 0 = Sunday … 6 = Saturday */
+    class CalendarDay(val year: Int, val month: Int, val day: Int, val weekday: Int, val daysInMonth: Int)
+
+    private fun nextCalendarOccurrence(
+        after: Long,
+        timeZone: TimeZone,
+        excluded: Set<String>,
+        times: List<Pair<Int, Int>>,
+        matchesDay: (CalendarDay) -> Boolean,
+    ): Long? {
+        if (times.isEmpty()) return null
+        val start = Calendar.getInstance(timeZone).apply { timeInMillis = after }
+        val cursor = Calendar.getInstance(UTC).apply {
+            clear()
+            set(start.get(Calendar.YEAR), start.get(Calendar.MONTH), start.get(Calendar.DAY_OF_MONTH))
         }
 
-        return cal.timeInMillis
+        repeat(SEARCH_HORIZON_DAYS + 1) {
+            val day = CalendarDay(
+                cursor.get(Calendar.YEAR),
+                cursor.get(Calendar.MONTH) + 1,
+                cursor.get(Calendar.DAY_OF_MONTH),
+                cursor.get(Calendar.DAY_OF_WEEK) - 1,
+                cursor.getActualMaximum(Calendar.DAY_OF_MONTH),
+            )
+            if (matchesDay(day) && !excluded.contains(dateKey(day.year, day.month, day.day))) {
+                for ((hour, minute) in times) {
+                    val ms = fromWallClock(day, hour, minute, timeZone)
+                    if (ms > after) return ms
+                }
+            }
+            cursor.add(Calendar.DAY_OF_MONTH, 1)
+        }
+        return null
     }
 
     /**
-     * Get the next occurrence of a weekly schedule after [after] timestamp.
-     * daysOfWeek: 1=Mon, 2=Tue, ..., 7=Sun
+     * Convert a wall-clock time in [timeZone] to epoch ms. Non-existent times
+     * resolve to the same clock reading after the gap, ambiguous ones to the first.
      */
-    fun getNextWeeklyTrigger(time: String, daysOfWeek: List<Int>, after: Long): Long {
-        val parts = time.split(":")
-        val hours = parts[0].toInt()
-        val minutes = parts[1].toInt()
-
-        for (daysAhead in 0..7) {
-            val cal = Calendar.getInstance().apply {
-                timeInMillis = after
-                add(Calendar.DAY_OF_MONTH, daysAhead)
-                set(Calendar.HOUR_OF_DAY, hours)
-                set(Calendar.MINUTE, minutes)
-                set(Calendar.SECOND, 0)
-                set(Calendar.MILLISECOND, 0)
+    private fun fromWallClock(day: CalendarDay, hour: Int, minute: Int, timeZone: TimeZone): Long {
+        val asUtc = Calendar.getInstance(UTC).apply {
+            clear()
+            set(day.year, day.month - 1, day.day, hour, minute)
+        }.timeInMillis
+        val offsets = listOf(timeZone.getOffset(asUtc - DAY_MS).toLong(), timeZone.getOffset(asUtc + DAY_MS).toLong())
+        val valid = offsets.map { asUtc - it }.filter { timeZone.getOffset(it).toLong() == asUtc - it }
+        return valid.minOrNull() ?: (asUtc - offsets.minOrNull()!!)
+    }
+
+    private fun matchesRule(type: String, day: CalendarDay, recurrence: JSONObject, daysOfWeek: List<Int>): Boolean =
+        when (type) {
+            "daily" -> true
+            // Our weekdays are 1=Mon … 7=Sun
+            "weekly" -> daysOfWeek.contains(if (day.weekday == 0) 7 else day.weekday)
+            "monthly" -> matchesMonthDay(day, recurrence)
+            "yearly" -> day.month == recurrence.optInt("month", 1) && matchesMonthDay(day, recurrence)
+            else -> false
+        }
+
+    /** Whether [day] is the nth (1–5) or last (-1) [weekday] of its month */
+    private fun isNthWeekday(day: CalendarDay, weekday: Int, nth: Int): Boolean {
+        if (day.weekday != weekday) return false
+        return if (nth == -1) day.day + 7 > day.daysInMonth else (day.day + 6) / 7 == nth
+    }
+
+    /** Day-of-month rule shared by 'monthly' and 'yearly' (see matchesMonthDay in TS) */
+    private fun matchesMonthDay(day: CalendarDay, recurrence: JSONObject): Boolean {
+        if (recurrence.has("weekOfMonth") && recurrence.has("weekday")) {
+            return isNthWeekday(day, recurrence.getInt("weekday") % 7, recurrence.getInt("weekOfMonth"))
+        }
+        val dom = recurrence.optInt("dayOfMonth", 1)
+        return if (dom == -1) day.day == day.daysInMonth else day.day == minOf(dom, day.daysInMonth)
+    }
+
+    // ── Cron ─────────────────────────────────────────────────────────────────
+
+    class CronSpec(
+        private val minutes: BooleanArray,
+        private val hours: BooleanArray,
+        private val daysOfMonth: BooleanArray,
+        private val months: BooleanArray,
+        private val daysOfWeek: BooleanArray,
+        private val lastDayOfMonth: Boolean,
+        private val nthWeekdays: List<Pair<Int, Int>>,
+        private val domRestricted: Boolean,
+        private val dowRestricted: Boolean,
+    ) {
+        fun times(): List<Pair<Int, Int>> =
+            (0..23).filter { hours[it] }.flatMap { h -> (0..59).filter { minutes[it] }.map { m -> h to m } }
+
+        fun matchesDay(day: CalendarDay): Boolean {
+            if (!months[day.month]) return false
+            val domMatch = daysOfMonth[day.day] || (lastDayOfMonth && day.day == day.daysInMonth)
+            val dowMatch = daysOfWeek[day.weekday] ||
+                nthWeekdays.any { (weekday, nth) -> isNthWeekday(day, weekday, nth) }
+            return when {
+                domRestricted && dowRestricted -> domMatch || dowMatch
+                domRestricted -> domMatch
+                dowRestricted -> dowMatch
+                else -> true
             }
+        }
+
+        companion object {
+            private val MONTH_NAMES = listOf("JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC")
+            private val DAY_NAMES = listOf("SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT")
+            private val MACROS = mapOf(
+                "@yearly" to "0 0 1 1 *",
+                "@annually" to "0 0 1 1 *",
+                "@monthly" to "0 0 1 * *",
+                "@weekly" to "0 0 * * 0",
+                "@daily" to "0 0 * * *",
+                "@midnight" to "0 0 * * *",
+                "@hourly" to "0 * * * *",
+            )
 
-            // Calendar.DAY_OF_WEEK: 1=Sun, 2=Mon, ..., 7=Sat
-            // Convert to our format: 1=Mon, ..., 7=Sun
-            val calDay = cal.get(Calendar.DAY_OF_WEEK)
-            val ourDay = if (calDay == Calendar.SUNDAY) 7 else calDay - 1
+            /** Parse a 5-field cron expression; returns null on invalid input (validated in TS) */
+            fun parse(expression: String): CronSpec? {
+                val trimmed = expression.trim()
+                val fields = (MACROS[trimmed.lowercase()] ?: trimmed).split(Regex("\\s+"))
+                if (fields.size != 5) return null
 
-            if (daysOfWeek.contains(ourDay) && cal.timeInMillis > after) {
-                return cal.timeInMillis
+                val minutes = parseField(fields[0], 0, 59) ?: return null
+                val hours = parseField(fields[1], 0, 23) ?: return null
+                val months = parseField(fields[3], 1, 12, MONTH_NAMES, 1) ?: return null
+
+                val domParts = fields[2].split(",")
+                val lastDayOfMonth = domParts.any { it.equals("L", ignoreCase = true) }
+                val domEntries = domParts.filterNot { it.equals("L", ignoreCase = true) }
+                val daysOfMonth = if (domEntries.isEmpty()) BooleanArray(32)
+                else parseField(domEntries.joinToString(","), 1, 31) ?: return null
+
+                val nthWeekdays = mutableListOf<Pair<Int, Int>>()
+                val dowEntries = mutableListOf<String>()
+                for (part in fields[4].split(",")) {
+                    val nthMatch = Regex("^(\\w+)#([1-5])$").find(part)
+                    val lastMatch = Regex("^(\\w+)L$", RegexOption.IGNORE_CASE).find(part)
+                    val match = nthMatch ?: lastMatch
+                    if (match != null) {
+                        val weekday = parseValue(match.groupValues[1], DAY_NAMES, 0) ?: return null
+                        if (weekday > 7) return null
+                        nthWeekdays.add((weekday % 7) to (if (nthMatch != null) nthMatch.groupValues[2].toInt() else -1))
+                    } else {
+                        dowEntries.add(part)
+                    }
+                }
+                val dowValues = if (dowEntries.isEmpty()) BooleanArray(8)
+                else parseField(dowEntries.joinToString(","), 0, 7, DAY_NAMES, 0) ?: return null
+                val daysOfWeek = dowValues.copyOf(7)
+                daysOfWeek[0] = daysOfWeek[0] || dowValues[7]
+
+                return CronSpec(
+                    minutes, hours, daysOfMonth, months, daysOfWeek, lastDayOfMonth, nthWeekdays,
+                    fields[2] != "*", fields[4] != "*",
+                )
+            }
+
+            private fun parseValue(raw: String, names: List<String>?, nameOffset: Int): Int? {
+                val index = names?.indexOf(raw.uppercase()) ?: -1
+                if (index >= 0) return index + nameOffset
+                return if (Regex("^\\d+$").matches(raw)) raw.toInt() else null
+            }
+
+            private fun parseField(
+                field: String, min: Int, max: Int, names: List<String>? = null, nameOffset: Int = 0,
+            ): BooleanArray? {
+                val values = BooleanArray(max + 1)
+                for (part in field.split(",")) {
+                    val pieces = part.split("/")
+                    val range = pieces[0]
+                    val step = if (pieces.size > 1) pieces[1].toIntOrNull() ?: return null else 1
+                    if (step < 1) return null
+                    val start: Int
+                    val end: Int
+                    if (range == "*") {
+                        start = min
+                        end = max
+                    } else {
+                        val bounds = range.split("-")
+                        start = parseValue(bounds[0], names, nameOffset) ?: return null
+                        end = when {
+                            bounds.size > 1 -> parseValue(bounds[1], names, nameOffset) ?: return null
+                            pieces.size > 1 -> max
+                            else -> start
+                        }
+                    }
+                    if (start < min || end > max || start > end) return null
+                    for (v in start..end step step) values[v] = true
+                }
+                return values
             }
         }
+    }
 
-        // Fallback: 7 days from now
-        return after + 7 * 24 * 60 * 60 * 1000
+    // ── Helpers ──────────────────────────────────────────────────────────────
+
+    private fun dateKey(year: Int, month: Int, day: Int): String =
+        String.format(Locale.US, "%04d-%02d-%02d", year, month, day)
+
+    private fun dateKey(ms: Long, timeZone: TimeZone): String {
+        val cal = Calendar.getInstance(timeZone).apply { timeInMillis = ms }
+        return dateKey(cal.get(Calendar.YEAR), cal.get(Calendar.MONTH) + 1, cal.get(Calendar.DAY_OF_MONTH))
     }
+
+    private fun toStringSet(array: JSONArray?): Set<String> =
+        if (array == null) emptySet() else (0 until array.length()).map { array.getString(it) }.toSet()
+
+    private fun toIntList(array: JSONArray?): List<Int> =
+        if (array == null) emptyList() else (0 until array.length()).map { array.getInt(it) }
 }
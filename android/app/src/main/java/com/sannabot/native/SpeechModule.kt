@@ -32,6 +32,7 @@ import java.util.concurrent.Executors
  * Events emitted:
  *   - speech_results:        { value: string[] }  – final results
  *   - speech_partial_results: { value: string[] } – partial results
+ *   - speech_start:          {}  – the user started speaking
  *   - speech_end:            {}
  *   - speech_error:          { code: int, message: string }
  *   - speech_volume_changed: { value: float }
@@ -373,6 +374,7 @@ class SpeechModule(reactContext: ReactApplicationContext) :
 
         override fun onBeginningOfSpeech() {
             Log.d(TAG, "Speech started")
+            sendEvent("speech_start", Arguments.createMap())
         }
 
         override fun onRmsChanged(rmsdB: Float) {
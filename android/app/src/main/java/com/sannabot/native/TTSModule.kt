@@ -16,6 +16,7 @@ import java.util.Locale
  * Emits events:
  *   - tts_started:  { utteranceId }
  *   - tts_done:     { utteranceId }
+ *   - tts_progress: { utteranceId, start, end } – character range about to be spoken
  *   - tts_error:    { utteranceId, error }
  */
 class TTSModule(reactContext: ReactApplicationContext) :
@@ -49,6 +50,9 @@ class TTSModule(reactContext: ReactApplicationContext) :
     private var isReady = false
     private var pendingSpeak: (() -> Unit)? = null
 
+    /** Voice chosen in Settings or by the SOUL persona (null = best offline voice) */
+    private var preferredVoiceName: String? = null
+
     init {
         tts = TextToSpeech(reactContext, this)
     }
@@ -73,6 +77,15 @@ class TTSModule(reactContext: ReactApplicationContext) :
                     })
                 }
 
+                // Lets JS know how much of an interrupted utterance was heard (barge-in, API 26+)
+                override fun onRangeStart(utteranceId: String?, start: Int, end: Int, frame: Int) {
+                    sendEvent("tts_progress", Arguments.createMap().apply {
+                        putString("utteranceId", utteranceId)
+                        putInt("start", start)
+                        putInt("end", end)
+                    })
+                }
+
                 override fun onDone(utteranceId: String?) {
                     sendEvent("tts_done", Arguments.createMap().apply {
                         putString("utteranceId", utteranceId)
@@ -153,6 +166,39 @@ class TTSModule(reactContext: ReactApplicationContext) :
         promise.resolve("ok")
     }
 
+    /** Set voice pitch (1.0 = normal, 0.5 = lower, 2.0 = higher) */
+    @ReactMethod
+    fun setPitch(pitch: Float, promise: Promise) {
+        tts?.setPitch(pitch)
+        promise.resolve("ok")
+    }
+
+    /**
+     * Prefer a voice by name (see getVoices). Used whenever its language
+     * matches the requested one; null or "" restores the automatic choice.
+     */
+    @ReactMethod
+    fun setVoice(name: String?, promise: Promise) {
+        preferredVoiceName = name?.takeIf { it.isNotBlank() }
+        tts?.voice?.locale?.let { selectBestVoice(it) }
+        promise.resolve("ok")
+    }
+
+    /** Installed voices: [{ name, locale, quality, networkRequired }] */
+    @ReactMethod
+    fun getVoices(promise: Promise) {
+        val list = Arguments.createArray()
+        tts?.voices?.sortedBy { it.name }?.forEach { voice ->
+            list.pushMap(Arguments.createMap().apply {
+                putString("name", voice.name)
+                putString("locale", voice.locale.toLanguageTag())
+                putInt("quality", voice.quality)
+                putBoolean("networkRequired", voice.isNetworkConnectionRequired)
+            })
+        }
+        promise.resolve(list)
+    }
+
     /**
      * Play a beep / alert tone.
      *
@@ -225,9 +271,19 @@ class TTSModule(reactContext: ReactApplicationContext) :
     }
 
     /**
-     * Pick the highest-quality offline voice whose language matches the given locale.
+     * Use the preferred voice if it speaks the given locale's language,
+     * otherwise pick the highest-quality offline voice that does.
      */
     private fun selectBestVoice(locale: Locale) {
+        val preferred = tts?.voices?.firstOrNull { voice ->
+            voice.name == preferredVoiceName && voice.locale.language == locale.language
+        }
+        if (preferred != null) {
+            tts?.voice = preferred
+            android.util.Log.i(TAG, "Selected preferred TTS voice: ${preferred.name}")
+            return
+        }
+
         val best = tts?.voices
             ?.filter { voice ->
                 voice.locale.language == locale.language &&
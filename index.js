@@ -89,3 +89,11 @@ AppRegistry.registerHeadlessTask(
   'SannaTimerTask',
   () => require('./src/agent/timer-headless').default,
 );
+
+// Register the headless task for risky tool calls requested by background tasks.
+// ConfirmationReceiver starts this task when the user taps Allow / Deny on the
+// confirmation notification; it runs (or drops) the stored tool call.
+AppRegistry.registerHeadlessTask(
+  'SannaConfirmationTask',
+  () => require('./src/agent/confirmation-headless').default,
+);
@@ -15,7 +15,7 @@
  *
  * Flow:
  *   1.  Parse job parameters
- *   2.  Load agent config (API key, model, language, drivingMode)
+ *   2.  Load agent config (provider, language, drivingMode – agent-config.ts)
  *   3.  Build LLM provider
  *   4.  Check Accessibility Service is enabled
  *   5.  Open the target app via Intent
@@ -27,19 +27,21 @@
  *   11. Bring SannaBot back to foreground
  *   12. Append result to ConversationStore pending queue
  */
-import { createLLMProvider } from '../llm/llm-registry';
+import { createLLMProvider, type ProviderEndpoint } from '../llm/llm-registry';
+import { loadAgentConfig, agentEndpoint, type AgentConfig } from './agent-config';
 import type { LLMProvider, Message } from '../llm/types';
 import IntentModule from '../native/IntentModule';
 import AccessibilityModule from '../native/AccessibilityModule';
 import { bringToForeground } from './bring-to-foreground';
 import { runAccessibilitySubAgent } from './accessibility-sub-agent';
-import SchedulerModule from '../native/SchedulerModule';
 import { ConversationStore } from './conversation-store';
 import { DebugLogger } from './debug-logger';
+import { UsageLedger } from './usage-ledger';
 import { DebugFileLogger } from './debug-file-logger';
 import { formulateResponse } from './system-prompt';
 import { AccessibilityHintStore } from './accessibility-hint-store';
 import { PersonalMemoryStore } from './personal-memory-store';
+import { loadHeadlessSkills } from './headless-skills';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -50,16 +52,6 @@ interface AccessibilityJob {
   intentUri?: string | null;
 }
 
-interface AgentConfig {
-  apiKey: string;
-  provider: 'claude' | 'openai';
-  model?: string;
-  drivingMode?: boolean;
-  language?: string;
-  /** Max iterations for the accessibility sub-agent (default: 12) */
-  maxAccessibilityIterations?: number;
-}
-
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
 /**
@@ -191,6 +183,7 @@ async function extractAndCondenseHints(
     DebugLogger.logLLMRequest(provider.getCurrentModel(), condenseMessages.length, 0, condenseMessages);
 
     const response = await provider.chat(condenseMessages, []);
+    UsageLedger.recordResponse(provider.getCurrentModel(), response.usage, { type: 'accessibility', id: packageName });
 
     DebugLogger.logLLMResponse(response.content, [], response.usage, response);
 
@@ -390,6 +383,7 @@ export default async function accessibilityHeadlessTask(
 ): Promise<void> {
   DebugFileLogger.writeSystemLog('LIFECYCLE', '▶ SannaAccessibilityTask started');
   DebugLogger.add('info', 'AccessibilityTask', 'Starting background UI automation');
+  await loadHeadlessSkills();
 
   // 1. Parse job  (no provider yet → raw message on error)
   let job: AccessibilityJob;
@@ -407,11 +401,14 @@ export default async function accessibilityHeadlessTask(
 
   // 2. Load agent config  (no provider yet → raw message on error)
   let config: AgentConfig;
+  let endpoint: ProviderEndpoint;
   try {
-    const configJson = await SchedulerModule.getAgentConfig();
-    if (!configJson) throw new Error('No agent config found');
-    config = JSON.parse(configJson) as AgentConfig;
-    if (!config.apiKey) throw new Error('No API key configured');
+    const loaded = await loadAgentConfig();
+    if (!loaded) throw new Error('No agent config found');
+    const loadedEndpoint = agentEndpoint(loaded);
+    if (!loadedEndpoint) throw new Error('No API key configured');
+    config = loaded;
+    endpoint = loadedEndpoint;
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     DebugLogger.add('error', 'AccessibilityTask', `Config error: ${msg}`);
@@ -421,14 +418,10 @@ export default async function accessibilityHeadlessTask(
   }
 
   // 3. Build LLM provider  (all error paths below this point use failFormatted)
-  const provider: LLMProvider = createLLMProvider({
-    provider: config.provider,
-    apiKey: config.apiKey,
-    model: config.model || '',
-  });
+  const provider: LLMProvider = createLLMProvider({ ...endpoint, fallbacks: config.fallbacks });
 
-  const drivingMode = config.drivingMode ?? false;
-  const language = config.language ?? 'en-US';
+  const drivingMode = config.drivingMode;
+  const language = config.language;
 
   // 4. Run automation
   let result: RunAccessibilityAutomationResult;
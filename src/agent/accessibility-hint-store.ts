@@ -15,6 +15,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { LLMProvider, Message } from '../llm/types';
 import { DebugLogger } from './debug-logger';
+import { UsageLedger } from './usage-ledger';
 
 const HINT_KEY_PREFIX = 'accessibility_hint_';
 
@@ -102,6 +103,7 @@ export class AccessibilityHintStore {
       DebugLogger.logLLMRequest(provider.getCurrentModel(), condenseMessages.length, 0, condenseMessages);
 
       const response = await provider.chat(condenseMessages, []);
+      UsageLedger.recordResponse(provider.getCurrentModel(), response.usage, { type: 'accessibility', id: packageName });
 
       DebugLogger.logLLMResponse(response.content, [], response.usage, response);
 
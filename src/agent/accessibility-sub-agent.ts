@@ -198,6 +198,7 @@ ${goal}
       provider,
       tools: toolRegistry,
       maxIterations: maxIterations ?? 12,
+      usageSource: { type: 'accessibility', id: packageName },
       shouldExit: () => termination.done,
       earlyExitContent: () => termination.message,
       onIterationComplete: () => {
@@ -0,0 +1,193 @@
+/**
+ * AgentConfig – Shared, versioned config for all headless agents
+ *
+ * App.tsx saves it whenever the pipeline is rebuilt, through both
+ * SchedulerModule and NotificationListenerModule (native SharedPreferences),
+ * so that headless tasks (scheduler, notifications, timer, accessibility,
+ * confirmation) run with the same LLM provider, fallbacks, agent and speech
+ * settings as the foreground app – without unlocking the vault.
+ *
+ * Schema versions:
+ *   1 – unversioned: provider, apiKey and model of the primary provider only;
+ *       the server URL of 'custom' and 'local' providers was missing
+ *   2 – version field; the primary provider is a full ProviderEndpoint
+ *       (customBaseUrl); incomplete fallback endpoints are dropped
+ *
+ * Configs written by older app versions are migrated when loaded and written
+ * back. A v1 config of a 'custom' or 'local' provider cannot be completed
+ * without the vault – headless tasks treat it as "no provider configured"
+ * until the app has been opened once after the upgrade and saved a v2 config.
+ */
+import SchedulerModule from '../native/SchedulerModule';
+import NotificationListenerModule from '../native/NotificationListenerModule';
+import type { ProviderEndpoint, ProviderType } from '../llm/llm-registry';
+import { DEFAULT_CONFIRMATION_POLICY, type ToolConfirmationPolicy } from './tool-confirmation';
+import type { TTSEngine, TTSSettings } from '../audio/tts-service';
+
+export const AGENT_CONFIG_VERSION = 2;
+
+// ── Schema ───────────────────────────────────────────────────────────────────
+
+export interface AgentConfig extends ProviderEndpoint {
+  /** Schema version – AGENT_CONFIG_VERSION for configs saved by this app version */
+  version: number;
+  /** Other configured providers to fall over to when the primary one fails */
+  fallbacks: ProviderEndpoint[];
+  enabledSkillNames: string[];
+  googleWebClientId: string;
+  drivingMode: boolean;
+  /** BCP-47 language tag, e.g. 'de-AT', 'en-US' */
+  language: string;
+  /** Max iterations for scheduler and notification sub-agents */
+  maxSubAgentIterations: number;
+  /** Max iterations for the accessibility sub-agent */
+  maxAccessibilityIterations: number;
+  /** When risky tool calls need confirmation */
+  toolConfirmationPolicy: ToolConfirmationPolicy;
+  /** Speech engine and voice for announcements of the tts tool */
+  tts: TTSSettings;
+}
+
+const DEFAULTS: Omit<AgentConfig, keyof ProviderEndpoint | 'version'> = {
+  fallbacks: [],
+  enabledSkillNames: [],
+  googleWebClientId: '',
+  drivingMode: false,
+  language: 'en-US',
+  maxSubAgentIterations: 8,
+  maxAccessibilityIterations: 12,
+  toolConfirmationPolicy: DEFAULT_CONFIRMATION_POLICY,
+  tts: { engine: 'android', voice: '', rate: 1, pitch: 1, speechApi: null },
+};
+
+const PROVIDER_TYPES: ProviderType[] = ['claude', 'openai', 'custom', 'local'];
+const CONFIRMATION_POLICIES: ToolConfirmationPolicy[] = ['app', 'always', 'driving', 'never'];
+const TTS_ENGINES: TTSEngine[] = ['android', 'http'];
+
+// ── Migration ────────────────────────────────────────────────────────────────
+
+function str(value: unknown, fallback = ''): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function num(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function parseEndpoint(raw: unknown): ProviderEndpoint | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const provider = PROVIDER_TYPES.includes(r.provider as ProviderType)
+    ? (r.provider as ProviderType)
+    : 'openai';
+  const endpoint: ProviderEndpoint = { provider, apiKey: str(r.apiKey), model: str(r.model) };
+  const customBaseUrl = str(r.customBaseUrl);
+  if (customBaseUrl) endpoint.customBaseUrl = customBaseUrl;
+  return endpoint;
+}
+
+function parseTTSSettings(raw: unknown): TTSSettings {
+  if (!raw || typeof raw !== 'object') return DEFAULTS.tts;
+  const r = raw as Record<string, unknown>;
+  const api = r.speechApi && typeof r.speechApi === 'object' ? (r.speechApi as Record<string, unknown>) : null;
+  return {
+    engine: TTS_ENGINES.includes(r.engine as TTSEngine) ? (r.engine as TTSEngine) : DEFAULTS.tts.engine,
+    voice: str(r.voice),
+    rate: num(r.rate, DEFAULTS.tts.rate),
+    pitch: num(r.pitch, DEFAULTS.tts.pitch),
+    speechApi: api ? { baseUrl: str(api.baseUrl), apiKey: str(api.apiKey), model: str(api.model) } : null,
+  };
+}
+
+/**
+ * Whether a provider can be built from the endpoint – the same rules as the
+ * provider selection in App.tsx: an API key for hosted providers, a server URL
+ * for 'custom', and URL plus model for 'local' (which needs no key).
+ */
+export function isEndpointComplete(endpoint: ProviderEndpoint): boolean {
+  switch (endpoint.provider) {
+    case 'custom':
+      return !!endpoint.apiKey && !!endpoint.customBaseUrl;
+    case 'local':
+      return !!endpoint.customBaseUrl && !!endpoint.model;
+    default:
+      return !!endpoint.apiKey;
+  }
+}
+
+/**
+ * Bring a saved config of any schema version to the current one. Missing or
+ * malformed fields get their defaults.
+ */
+export function migrateAgentConfig(raw: unknown): AgentConfig {
+  const r = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const primary = parseEndpoint(r) ?? { provider: 'openai', apiKey: '', model: '' };
+
+  // v1 → v2: the primary provider had no server URL; fallbacks already were
+  // full endpoints, but a broken one would make createLLMProvider throw
+  const fallbacks = (Array.isArray(r.fallbacks) ? r.fallbacks : [])
+    .map(parseEndpoint)
+    .filter((e): e is ProviderEndpoint => e !== null && isEndpointComplete(e));
+
+  const policy = r.toolConfirmationPolicy as ToolConfirmationPolicy;
+  return {
+    ...primary,
+    version: AGENT_CONFIG_VERSION,
+    fallbacks,
+    enabledSkillNames: Array.isArray(r.enabledSkillNames)
+      ? r.enabledSkillNames.filter((n): n is string => typeof n === 'string')
+      : DEFAULTS.enabledSkillNames,
+    googleWebClientId: str(r.googleWebClientId, DEFAULTS.googleWebClientId),
+    drivingMode: typeof r.drivingMode === 'boolean' ? r.drivingMode : DEFAULTS.drivingMode,
+    language: str(r.language) || DEFAULTS.language,
+    maxSubAgentIterations: num(r.maxSubAgentIterations, DEFAULTS.maxSubAgentIterations),
+    maxAccessibilityIterations: num(r.maxAccessibilityIterations, DEFAULTS.maxAccessibilityIterations),
+    toolConfirmationPolicy: CONFIRMATION_POLICIES.includes(policy)
+      ? policy
+      : DEFAULTS.toolConfirmationPolicy,
+    tts: parseTTSSettings(r.tts),
+  };
+}
+
+// ── Persistence ──────────────────────────────────────────────────────────────
+
+/** Save the config for all headless tasks (both native stores) */
+export async function saveAgentConfig(config: Omit<AgentConfig, 'version'>): Promise<void> {
+  const json = JSON.stringify({ ...config, version: AGENT_CONFIG_VERSION });
+  await Promise.all([
+    SchedulerModule.saveAgentConfig(json),
+    NotificationListenerModule?.saveAgentConfig(json),
+  ]);
+}
+
+/**
+ * Load the saved config, migrated to the current schema (and written back if
+ * it was older). Returns null if the app has never saved one.
+ * Throws if the saved JSON is corrupt.
+ */
+export async function loadAgentConfig(): Promise<AgentConfig | null> {
+  const json = await SchedulerModule.getAgentConfig();
+  if (!json) return null;
+
+  const raw = JSON.parse(json);
+  const config = migrateAgentConfig(raw);
+  if ((raw?.version ?? 1) < AGENT_CONFIG_VERSION) {
+    await saveAgentConfig(config).catch(() => {});
+  }
+  return config;
+}
+
+/**
+ * Endpoint of the primary provider, or null if it is not (completely)
+ * configured. Headless tasks build their provider like App.tsx:
+ *   createLLMProvider({ ...endpoint, fallbacks: config.fallbacks })
+ */
+export function agentEndpoint(config: AgentConfig): ProviderEndpoint | null {
+  const endpoint: ProviderEndpoint = {
+    provider: config.provider,
+    apiKey: config.apiKey,
+    model: config.model,
+    customBaseUrl: config.customBaseUrl,
+  };
+  return isEndpointComplete(endpoint) ? endpoint : null;
+}
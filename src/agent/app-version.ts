@@ -0,0 +1,28 @@
+/**
+ * AppVersion – Version of the running app and version comparison
+ *
+ * Skills declare the app version they need (`min_app_version`) and their own
+ * version for update checks (`version`) – both are compared here.
+ */
+import { version } from '../../package.json';
+
+/**
+ * Version of the running app (package.json). The Android build takes its
+ * versionName from there as well; the iOS MARKETING_VERSION is kept equal
+ * (checked in __tests__/app-version.test.ts).
+ */
+export const APP_VERSION: string = version;
+
+/**
+ * Compare two dotted version numbers ("1.2", "1.10.0").
+ * Returns < 0 if a is older than b, 0 if equal, > 0 if newer.
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(n => parseInt(n, 10) || 0);
+  const pb = b.split('.').map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
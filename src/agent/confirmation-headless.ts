@@ -0,0 +1,182 @@
+/**
+ * Confirmation Headless Task – Notification fallback for risky tool calls
+ *
+ * Headless tasks (scheduler, notification rules) cannot show the in-app
+ * confirmation card. Instead, createHeadlessConfirmation() stores the call,
+ * posts a notification with Allow / Deny actions and tells the tool loop
+ * that the call is deferred.
+ *
+ * Registered via AppRegistry.registerHeadlessTask in index.js as
+ * 'SannaConfirmationTask'. When the user answers the notification, this
+ * task:
+ *   1. Loads and removes the stored call
+ *   2. Allow: executes it with the standard tool set; Deny: drops it
+ *   3. Writes the outcome to the conversation
+ *
+ * Persistence: AsyncStorage key 'sanna_pending_confirmations'.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SkillLoader } from './skill-loader';
+import { loadHeadlessSkills } from './headless-skills';
+import { createToolRegistry } from './create-tool-registry';
+import { DebugLogger } from './debug-logger';
+import { DebugFileLogger } from './debug-file-logger';
+import { ConversationStore } from './conversation-store';
+import { bringToForeground } from './bring-to-foreground';
+import {
+  isConfirmationRequired,
+  type ConfirmToolCall,
+  type ToolConfirmationPolicy,
+  type ToolConfirmationRequest,
+} from './tool-confirmation';
+import { TokenStore } from '../permissions/token-store';
+import { CredentialManager } from '../permissions/credential-manager';
+import ConfirmationModule from '../native/ConfirmationModule';
+import { loadAgentConfig } from './agent-config';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface PendingConfirmation extends ToolConfirmationRequest {
+  /** What requested the call, e.g. 'Scheduled task' */
+  origin: string;
+  createdAt: number;
+}
+
+const STORAGE_KEY = 'sanna_pending_confirmations';
+
+/** Unanswered confirmations expire after one day */
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const TAG = 'Confirmation';
+
+// ── Pending store ────────────────────────────────────────────────────────────
+
+async function loadPending(): Promise<PendingConfirmation[]> {
+  try {
+    const json = await AsyncStorage.getItem(STORAGE_KEY);
+    const parsed = json ? (JSON.parse(json) as unknown) : [];
+    if (!Array.isArray(parsed)) return [];
+    const cutoff = Date.now() - MAX_AGE_MS;
+    return (parsed as PendingConfirmation[]).filter(p => p.createdAt >= cutoff);
+  } catch {
+    return [];
+  }
+}
+
+async function savePending(pending: PendingConfirmation[]): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+}
+
+/** Remove and return the stored call with `id` */
+async function takePending(id: string): Promise<PendingConfirmation | null> {
+  const pending = await loadPending();
+  const entry = pending.find(p => p.id === id) ?? null;
+  await savePending(pending.filter(p => p.id !== id));
+  return entry;
+}
+
+// ── Tool-loop integration ────────────────────────────────────────────────────
+
+/**
+ * Build the confirmToolCall callback for a headless tool loop.
+ * Returns undefined when the policy does not require confirmation.
+ *
+ * @param origin Shown in the notification title, e.g. 'Scheduled task'
+ */
+export function createHeadlessConfirmation(
+  policy: ToolConfirmationPolicy | undefined,
+  drivingMode: boolean,
+  origin: string,
+): ConfirmToolCall | undefined {
+  if (!isConfirmationRequired(policy, drivingMode, true)) {
+    return undefined;
+  }
+
+  return async request => {
+    try {
+      const pending = await loadPending();
+      pending.push({ ...request, origin, createdAt: Date.now() });
+      await savePending(pending);
+      await ConfirmationModule.showConfirmation(
+        request.id,
+        `${origin}: confirm action?`,
+        request.description,
+      );
+      DebugLogger.add('info', TAG, `Waiting for approval via notification: ${request.description}`);
+      return 'deferred';
+    } catch (err) {
+      // Without a notification the user cannot approve – never run unconfirmed
+      DebugLogger.add(
+        'error',
+        TAG,
+        `Could not ask for confirmation: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      await takePending(request.id).catch(() => null);
+      return 'denied';
+    }
+  };
+}
+
+// ── Main headless task ───────────────────────────────────────────────────────
+
+export default async function confirmationHeadlessTask(
+  taskData: { confirmationId: string; approved: boolean },
+): Promise<void> {
+  const { confirmationId, approved } = taskData;
+  DebugFileLogger.writeSystemLog(
+    'LIFECYCLE',
+    `▶ SannaConfirmationTask started (id=${confirmationId}, approved=${approved})`,
+  );
+
+  const entry = await takePending(confirmationId);
+  if (!entry) {
+    DebugLogger.add('info', TAG, `Confirmation ${confirmationId} not found (expired or already answered)`);
+    return;
+  }
+
+  if (!approved) {
+    DebugLogger.add('info', TAG, `Declined: ${entry.description}`);
+    await ConversationStore.appendPending(
+      'assistant',
+      `${entry.origin}: action cancelled – ${entry.description}`,
+    ).catch(() => {});
+    return;
+  }
+
+  let message: string;
+  try {
+    // Headless tasks can't show a biometric prompt – see scheduler-headless.ts
+    const tokenStore = new TokenStore();
+    tokenStore.unlockForHeadless();
+    const credentialManager = new CredentialManager(tokenStore);
+
+    const config = await loadAgentConfig();
+    if (config?.googleWebClientId) {
+      credentialManager.configureGoogleTokenRefresh(config.googleWebClientId);
+    }
+
+    await loadHeadlessSkills();
+    const toolRegistry = await createToolRegistry({
+      credentialManager,
+      skillLoader: new SkillLoader(),
+      includeTts: true,
+      includeScheduler: true,
+      includeAccessibility: false,
+      includePersonalMemoryTool: false,
+    });
+
+    const result = await toolRegistry.execute(entry.toolName, entry.args);
+    DebugLogger.add('tool', TAG, `Approved ${entry.toolName}`, result.forLLM);
+    message = result.isError
+      ? `${entry.origin}: approved action failed – ${entry.description}\n${result.forLLM}`
+      : `${entry.origin}: approved action done – ${entry.description}`;
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    DebugLogger.add('error', TAG, `Approved call ${entry.toolName} failed: ${errMsg}`);
+    message = `${entry.origin}: approved action failed – ${entry.description}\n${errMsg}`;
+  }
+
+  await ConversationStore.appendPending('assistant', message).catch(() => {});
+  await bringToForeground(TAG);
+  DebugFileLogger.writeSystemLog('LIFECYCLE', `✅ SannaConfirmationTask finished (id=${confirmationId})`);
+}
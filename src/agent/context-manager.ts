@@ -1,33 +1,97 @@
 /**
- * ContextManager – Session history with summarization and compression
- *   - Tracks token usage across messages
- *   - Summarizes old messages when context window gets full
- *   - Preserves the most recent messages verbatim
+ * ContextManager – Session history with token-budget summarization
+ *   - Estimates the token footprint of every message (incl. tool calls/results)
+ *   - Folds the oldest turns into a rolling summary once the budget is exceeded
+ *   - Preserves the most recent turns verbatim
+ *
+ * Turns are only ever cut at user-message boundaries, so an assistant
+ * tool-call message and its tool results are always summarized (or kept)
+ * together – providers reject histories with orphaned tool results.
  */
 import type { LLMProvider, Message } from '../llm/types';
+import { DebugLogger } from './debug-logger';
+import { UsageLedger } from './usage-ledger';
 
 export interface ContextConfig {
-  /** Max messages before compression (default: 20) */
+  /** Estimated history tokens (summary + messages) before compression (default: 8000) */
+  tokenBudget: number;
+  /** Max messages before compression, regardless of tokens (default: 20) */
   maxMessages: number;
-  /** How many recent messages to keep verbatim (default: 6) */
-  keepRecentCount: number;
+  /** Share of the token budget kept verbatim after compression (default: 0.5) */
+  keepRecentRatio: number;
+  /** Upper bound for the summary length in tokens (default: 600) */
+  summaryMaxTokens: number;
   /** LLM provider for generating summaries */
   summarizeProvider: LLMProvider;
-  /** Model to use for summarization */
-  summarizeModel: string;
 }
 
 const DEFAULT_CONFIG: ContextConfig = {
+  tokenBudget: 8000,
   maxMessages: 20,
-  keepRecentCount: 6,
+  keepRecentRatio: 0.5,
+  summaryMaxTokens: 600,
   summarizeProvider: null as unknown as LLMProvider, // Must be provided
-  summarizeModel: 'claude-3-haiku-20240307',
 };
 
+/** Rough per-message overhead of the chat encoding (role, separators) */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Tool results are clipped to this many characters in the summary prompt */
+const MAX_TOOL_RESULT_CHARS = 400;
+
+const TAG = 'Context';
+
 export interface ContextStats {
   totalMessages: number;
   hasSummary: boolean;
   summaryMessageCount: number;
+  estimatedTokens: number;
+}
+
+/** Serializable context state (see ConversationStore.saveContext) */
+export interface ContextSnapshot {
+  history: Message[];
+  summary: string | null;
+  count: number;
+}
+
+/**
+ * Estimate the token count of a text. Uses the common ~4 characters per
+ * token heuristic – precise enough for budget decisions, no tokenizer needed.
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Estimate the token count of a message including tool-call arguments */
+export function estimateTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(message.content);
+  for (const tc of message.toolCalls ?? []) {
+    tokens += estimateTextTokens(tc.name) + estimateTextTokens(JSON.stringify(tc.arguments));
+  }
+  return tokens;
+}
+
+/** Render messages as plain text for the summarizer, including tool activity */
+function renderTranscript(messages: Message[]): string {
+  const lines: string[] = [];
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      const result = m.content.length > MAX_TOOL_RESULT_CHARS
+        ? `${m.content.slice(0, MAX_TOOL_RESULT_CHARS)}…`
+        : m.content;
+      lines.push(`Tool result: ${result}`);
+      continue;
+    }
+    const role = m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : m.role;
+    if (m.content) {
+      lines.push(`${role}: ${m.content}`);
+    }
+    for (const tc of m.toolCalls ?? []) {
+      lines.push(`Assistant called tool ${tc.name}(${JSON.stringify(tc.arguments)})`);
+    }
+  }
+  return lines.join('\n\n');
 }
 
 export class ContextManager {
@@ -35,6 +99,9 @@ export class ContextManager {
   private history: Message[] = [];
   private summaryPrefix: string | null = null;
   private summarizedMessageCount = 0;
+  /** Bumped on clear()/import() so in-flight compressions are discarded */
+  private generation = 0;
+  private compressing: Promise<boolean> | null = null;
 
   constructor(config: Partial<ContextConfig> & { summarizeProvider: LLMProvider }) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -45,12 +112,28 @@ export class ContextManager {
     this.history.push(message);
   }
 
+  /** Replace the content of the latest assistant message (e.g. an interrupted answer) */
+  replaceLastAssistant(content: string): void {
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      if (this.history[i].role === 'assistant') {
+        this.history[i] = { ...this.history[i], content };
+        return;
+      }
+    }
+  }
+
+  /** Update budget limits at runtime (e.g. after a settings change) */
+  configure(config: Partial<ContextConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
   /** Get current stats */
   getStats(): ContextStats {
     return {
       totalMessages: this.history.length + (this.summaryPrefix ? 1 : 0),
       hasSummary: this.summaryPrefix !== null,
       summaryMessageCount: this.summarizedMessageCount,
+      estimatedTokens: this.estimateTotal(),
     };
   }
 
@@ -76,57 +159,106 @@ export class ContextManager {
     ];
   }
 
+  /** Whether the history exceeds the token budget or the message limit */
+  needsCompression(): boolean {
+    return (
+      this.history.length > this.config.maxMessages ||
+      this.estimateTotal() > this.config.tokenBudget
+    );
+  }
+
   /**
    * Check if context should be compressed and do it if needed.
    * Returns true if compression was performed.
+   * Concurrent calls share the same in-flight compression.
    */
   async maybeCompress(): Promise<boolean> {
-    if (this.history.length < this.config.maxMessages) {
+    if (this.compressing) {
+      return this.compressing;
+    }
+    if (!this.needsCompression()) {
       return false;
     }
 
-    await this.compress();
-    return true;
+    this.compressing = this.compress().finally(() => {
+      this.compressing = null;
+    });
+    return this.compressing;
   }
 
   /**
-   * Force compress: summarize old messages, keep recent ones verbatim.
+   * Force compress: fold the oldest turns into the rolling summary and keep
+   * the most recent turns (up to keepRecentRatio of the budget) verbatim.
+   * Messages added while the summary is generated are preserved.
    */
-  async compress(): Promise<void> {
-    const keepCount = this.config.keepRecentCount;
-    const toSummarize = this.history.slice(0, this.history.length - keepCount);
-    const toKeep = this.history.slice(this.history.length - keepCount);
-
-    if (toSummarize.length === 0) return;
+  async compress(): Promise<boolean> {
+    const cut = this.findCutIndex();
+    if (cut <= 0) return false;
 
+    const generation = this.generation;
+    const toSummarize = this.history.slice(0, cut);
     const summary = await this.summarize(toSummarize);
 
-    // Combine with existing summary
-    if (this.summaryPrefix) {
-      this.summaryPrefix = `${this.summaryPrefix}\n\n${summary}`;
-    } else {
-      this.summaryPrefix = summary;
+    // History was cleared or replaced while summarizing – discard the result
+    if (generation !== this.generation || this.history[cut - 1] !== toSummarize[cut - 1]) {
+      return false;
     }
 
+    this.summaryPrefix = summary;
     this.summarizedMessageCount += toSummarize.length;
-    this.history = toKeep;
+    this.history = this.history.slice(cut);
+    DebugLogger.add(
+      'info',
+      TAG,
+      `Summarized ${toSummarize.length} messages (~${this.estimateTotal()} tokens left)`,
+      summary,
+    );
+    return true;
   }
 
-  /** Generate a summary of a list of messages using the LLM */
+  /**
+   * Pick the first message to keep verbatim. Only user messages start a
+   * turn, so cutting there never separates tool calls from their results.
+   * Keeps as many recent turns as fit into the verbatim share of the budget
+   * (and the message limit), but always at least the latest turn.
+   */
+  private findCutIndex(): number {
+    const keepTokens = this.config.tokenBudget * this.config.keepRecentRatio;
+    const keepMessages = Math.max(1, Math.floor(this.config.maxMessages / 2));
+
+    let cut = 0;
+    let tokens = 0;
+    for (let i = this.history.length - 1; i > 0; i--) {
+      tokens += estimateTokens(this.history[i]);
+      if (this.history[i].role !== 'user') continue;
+
+      const kept = this.history.length - i;
+      if (cut > 0 && (tokens > keepTokens || kept > keepMessages)) {
+        break;
+      }
+      cut = i;
+    }
+    return cut;
+  }
+
+  /**
+   * Merge the previous summary and the folded messages into a new summary.
+   * The summary is rolling: it replaces the old one instead of growing by
+   * appending, so its size stays bounded by summaryMaxTokens.
+   */
   private async summarize(messages: Message[]): Promise<string> {
-    const conversationText = messages
-      .map(m => {
-        const role = m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : m.role;
-        return `${role}: ${m.content}`;
-      })
-      .join('\n\n');
+    const conversationText = renderTranscript(messages);
+    const previous = this.summaryPrefix
+      ? `Previous summary:\n${this.summaryPrefix}\n\n`
+      : '';
+    const maxWords = Math.round(this.config.summaryMaxTokens * 0.75);
 
     const summaryPrompt: Message[] = [
       {
         role: 'user',
-        content: `Summarize the following conversation briefly and concisely. Keep all important facts, decisions made, and actions taken. Use bullet points.
+        content: `Update the summary of this conversation between a user and their voice assistant. Merge the previous summary (if any) with the new messages. Keep all important facts, names, numbers, decisions made, and actions taken (including which tools were used and their outcome). Drop small talk. Use bullet points, at most ${maxWords} words. Reply with the summary only.
 
-Conversation:
+${previous}New messages:
 ${conversationText}
 
 Summary:`,
@@ -134,17 +266,36 @@ Summary:`,
     ];
 
     try {
-      const response = await this.config.summarizeProvider.chat(
+      const provider = this.config.summarizeProvider;
+      const response = await provider.chat(
         summaryPrompt,
         [],
-        { maxTokens: 1024, temperature: 0 },
+        { maxTokens: this.config.summaryMaxTokens * 2, temperature: 0 },
       );
-      return response.content;
+      UsageLedger.recordResponse(provider.getCurrentModel(), response.usage, {
+        type: 'pipeline',
+        id: 'summary',
+      });
+      return response.content.trim();
     } catch (err) {
+      DebugLogger.add(
+        'error',
+        TAG,
+        `Summarization failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
       // Fallback: simple truncation summary
       const words = conversationText.split(' ').slice(0, 100);
-      return `[Summary not available] Topics: ${words.join(' ')}...`;
+      const fallback = `[Summary not available] Topics: ${words.join(' ')}...`;
+      return this.summaryPrefix ? `${this.summaryPrefix}\n\n${fallback}` : fallback;
+    }
+  }
+
+  private estimateTotal(): number {
+    let tokens = this.summaryPrefix ? estimateTextTokens(this.summaryPrefix) + 2 * MESSAGE_OVERHEAD_TOKENS : 0;
+    for (const m of this.history) {
+      tokens += estimateTokens(m);
     }
+    return tokens;
   }
 
   /** Clear all history and summary */
@@ -152,10 +303,11 @@ Summary:`,
     this.history = [];
     this.summaryPrefix = null;
     this.summarizedMessageCount = 0;
+    this.generation++;
   }
 
   /** Export for persistence */
-  export(): { history: Message[]; summary: string | null; count: number } {
+  export(): ContextSnapshot {
     return {
       history: [...this.history],
       summary: this.summaryPrefix,
@@ -164,9 +316,10 @@ Summary:`,
   }
 
   /** Import from persistence */
-  import(data: { history: Message[]; summary: string | null; count: number }): void {
+  import(data: ContextSnapshot): void {
     this.history = [...data.history];
     this.summaryPrefix = data.summary;
     this.summarizedMessageCount = data.count;
+    this.generation++;
   }
 }
@@ -4,19 +4,41 @@
  * Flow: Wake Word → STT → LLM (tool loop) → TTS
  *
  * Responsibilities:
- *   - Manage the agent's conversation history (with context management)
+ *   - Manage the agent's conversation history (token-budget summarization
+ *     via ContextManager, persisted via ConversationStore)
  *   - Build system prompt from skill loader + tool registry
  *   - Run the LLM tool loop
+ *   - Pause risky tool calls until the user confirms them (see tool-confirmation.ts)
  *   - Speak responses via TTS in driving mode
+ *   - Barge-in: cut the spoken answer when the user starts talking and
+ *     record in the history what was heard and what was skipped
+ *   - Follow-up: keep listening after a spoken answer, so the conversation
+ *     continues without the wake word (see follow-up.ts)
  */
 import type { LLMProvider, Message } from '../llm/types';
 import type { ToolRegistry } from './tool-registry';
 import type { SkillLoader } from './skill-loader';
 import { runToolLoop } from './tool-loop';
+import { ContextManager, type ContextSnapshot } from './context-manager';
+import { ConversationStore } from './conversation-store';
 import { buildSystemPrompt } from './system-prompt';
-import type { TTSService } from '../audio/tts-service';
+import type { SpeakResult, TTSService } from '../audio/tts-service';
+import { StreamingSpeaker } from '../audio/streaming-speaker';
 import { DebugLogger } from './debug-logger';
 import { PersonalMemoryStore } from './personal-memory-store';
+import { SILENT_REPLY_TOKEN } from './tokens';
+import {
+  FOLLOW_UP_DELAY_MS,
+  followUpWindowFor,
+  isClosingPhrase,
+  type FollowUpConfig,
+} from './follow-up';
+import {
+  isConfirmationRequired,
+  type ToolConfirmationDecision,
+  type ToolConfirmationPolicy,
+  type ToolConfirmationRequest,
+} from './tool-confirmation';
 
 export type PipelineState =
   | 'idle'
@@ -33,37 +55,82 @@ export interface PipelineConfig {
   ttsService: TTSService;
   drivingMode: boolean;
   maxIterations?: number;
+  /** Messages before older turns are summarized (default: 20) */
   maxHistoryMessages?: number;
+  /** Estimated history tokens before older turns are summarized (default: 8000) */
+  contextTokenBudget?: number;
   language?: string;
   soul?: string;
   personalMemory?: string;
+  /** When risky tool calls need confirmation (default: 'always') */
+  confirmationPolicy?: ToolConfirmationPolicy;
+  /** Listening after spoken answers (driving mode); null = never */
+  followUp?: FollowUpConfig | null;
 }
 
+/** Unanswered confirmations are treated as declined after this time */
+const CONFIRMATION_TIMEOUT_MS = 120_000;
+
 export type StateChangeCallback = (state: PipelineState) => void;
 export type ErrorCallback = (error: string) => void;
 export type TranscriptCallback = (role: 'user' | 'assistant', text: string) => void;
+/** Partial assistant text while the LLM is streaming; null clears the partial bubble */
+export type PartialTranscriptCallback = (text: string | null) => void;
+/** A risky tool call waits for the user's answer; null once it was answered */
+export type ConfirmationRequestCallback = (request: ToolConfirmationRequest | null) => void;
+/** The microphone was reopened for a follow-up (true) or closed again (false) */
+export type FollowUpChangeCallback = (listening: boolean) => void;
 
 export class ConversationPipeline {
   private config: PipelineConfig;
-  private history: Message[] = [];
+  private context: ContextManager;
   private enabledSkillNames: string[] = [];
   private onStateChange?: StateChangeCallback;
   private onError?: ErrorCallback;
   private onTranscript?: TranscriptCallback;
+  private onPartialTranscript?: PartialTranscriptCallback;
+  private onConfirmationRequest?: ConfirmationRequestCallback;
+  private onFollowUpChange?: FollowUpChangeCallback;
+  private pendingConfirmation: {
+    request: ToolConfirmationRequest;
+    resolve: (decision: ToolConfirmationDecision) => void;
+  } | null = null;
   private state: PipelineState = 'idle';
+  /** Speech of the current answer (driving mode) – see bargeIn() */
+  private speaker: StreamingSpeaker | null = null;
+  private spokenParts: string[] = [];
+  private speechInterrupted = false;
+  /** Incremented per turn – a turn cut by a barge-in no longer sets the state */
+  private turnId = 0;
+  /** Settles when the latest turn is over */
+  private turnDone: Promise<void> = Promise.resolve();
+  /** Incremented per follow-up – a stale session must not start a turn */
+  private followUpSession = 0;
+  private followUpListening = false;
 
   constructor(config: PipelineConfig) {
     this.config = config;
+    this.context = new ContextManager({
+      summarizeProvider: config.provider,
+      maxMessages: config.maxHistoryMessages ?? 20,
+      tokenBudget: config.contextTokenBudget ?? 8000,
+    });
   }
 
   setCallbacks(callbacks: {
     onStateChange?: StateChangeCallback;
     onError?: ErrorCallback;
     onTranscript?: TranscriptCallback;
+    onPartialTranscript?: PartialTranscriptCallback;
+    onConfirmationRequest?: ConfirmationRequestCallback;
+    onFollowUpChange?: FollowUpChangeCallback;
   }): void {
     this.onStateChange = callbacks.onStateChange;
     this.onError = callbacks.onError;
     this.onTranscript = callbacks.onTranscript;
+    this.onPartialTranscript = callbacks.onPartialTranscript;
+    this.onConfirmationRequest = callbacks.onConfirmationRequest;
+    this.onFollowUpChange = callbacks.onFollowUpChange;
   }
 
   setEnabledSkills(skillNames: string[]): void {
@@ -86,9 +153,34 @@ export class ConversationPipeline {
     return this.state;
   }
 
-  /** Clear conversation history */
+  /**
+   * Whether an answer is being spoken – also in 'processing', where the
+   * sentences streamed so far are spoken while the LLM is still generating.
+   */
+  isSpeaking(): boolean {
+    return this.state === 'speaking' || Boolean(this.speaker?.isSpeaking());
+  }
+
+  /** The risky tool call currently waiting for the user's answer, if any */
+  getPendingConfirmation(): ToolConfirmationRequest | null {
+    return this.pendingConfirmation?.request ?? null;
+  }
+
+  /**
+   * Answer the pending confirmation (card button or spoken yes/no).
+   * Ignored if `id` does not match – the request was already answered.
+   */
+  resolveConfirmation(id: string, approved: boolean): void {
+    const pending = this.pendingConfirmation;
+    if (!pending || pending.request.id !== id) return;
+    this.pendingConfirmation = null;
+    this.onConfirmationRequest?.(null);
+    pending.resolve(approved ? 'approved' : 'denied');
+  }
+
+  /** Clear conversation history (including the summary) */
   clearHistory(): void {
-    this.history = [];
+    this.context.clear();
   }
 
   /**
@@ -125,16 +217,36 @@ export class ConversationPipeline {
   }
 
   /**
-   * Interrupt ongoing TTS playback and return to idle.
+   * Interrupt ongoing TTS playback. Returns to idle once the answer is
+   * complete; while it is still being generated, the turn finishes silently.
    * Safe to call at any time; no-op if not currently speaking.
    */
   async stopSpeaking(): Promise<void> {
-    if (this.state === 'speaking') {
+    if (this.isSpeaking()) {
+      this.interruptSpeech();
       await this.config.ttsService.stop();
-      this.setState('idle');
+      if (this.state === 'speaking') {
+        this.setState('idle');
+      }
     }
   }
 
+  /**
+   * Barge-in: the user started talking (wake word, voice activity or mic tap)
+   * while the answer is spoken. Cuts TTS, records the heard and skipped part
+   * of the answer in the history and switches straight to 'listening' – the
+   * caller starts STT. An answer still being generated finishes silently;
+   * the next turn waits for it. Returns false if nothing was being spoken.
+   */
+  async bargeIn(): Promise<boolean> {
+    if (!this.isSpeaking()) return false;
+    DebugLogger.add('info', 'PIPELINE', 'Barge-in – stopping the spoken answer');
+    this.setState('listening');
+    this.interruptSpeech();
+    await this.config.ttsService.stop();
+    return true;
+  }
+
   /**
    * Process a user utterance through the full pipeline:
    * text → system prompt + history → LLM tool loop → TTS response
@@ -156,6 +268,39 @@ export class ConversationPipeline {
     } else {
       this.setState('processing');
     }
+    const turnId = ++this.turnId;
+    // Only the latest turn drives the state, and a barge-in's 'listening'
+    // is left to the STT – see bargeIn()
+    const ownsState = () => turnId === this.turnId && this.state !== 'listening';
+    const setTurnState = (state: PipelineState) => {
+      if (ownsState()) this.setState(state);
+    };
+    const previousTurn = this.turnDone;
+    let endTurn: () => void = () => {};
+    this.turnDone = new Promise<void>(resolve => { endTurn = resolve; });
+
+    // Typed while a follow-up was listening – that session is over
+    this.followUpSession++;
+    if (this.followUpListening) {
+      this.config.followUp?.stt.cancel().catch(() => {});
+    }
+
+    // After a barge-in during generation, the interrupted turn still adds
+    // its answer to the history – wait for it before reading the history
+    await previousTurn;
+
+    // In driving mode, completed sentences are spoken while the LLM is still
+    // streaming; the final sentence is spoken after the loop (see below).
+    const speaker = this.config.drivingMode
+      ? new StreamingSpeaker(
+          this.config.ttsService,
+          this.config.language ?? 'en-US',
+          (text, result) => this.noteSpoken(text, result),
+        )
+      : null;
+    this.speaker = speaker;
+    this.spokenParts = [];
+    this.speechInterrupted = false;
 
     try {
       if (!options?.silent) {
@@ -184,42 +329,64 @@ export class ConversationPipeline {
       const systemMsg: Message = { role: 'system', content: systemPrompt };
       const userMsg: Message = { role: 'user', content: userText };
 
-      const messages: Message[] = [systemMsg, ...this.history, userMsg];
+      const messages: Message[] = [systemMsg, ...this.context.getMessages(), userMsg];
       DebugLogger.logRegisteredTools(
         this.config.tools.list(),
         this.config.tools.definitions(),
       );
 
       // Save user message to history
-      this.history.push(userMsg);
+      this.context.add(userMsg);
 
-      // Run the agent tool loop
+      // Run the agent tool loop (streamed when the provider supports it)
+      let streamIteration = -1;
+      let partialText = '';
       const result = await runToolLoop(
         {
           provider: this.config.provider,
           tools: this.config.tools,
           maxIterations: this.config.maxIterations ?? 10,
+          usageSource: { type: 'pipeline' },
+          confirmToolCall: isConfirmationRequired(this.config.confirmationPolicy, this.config.drivingMode)
+            ? request => this.requestConfirmation(request)
+            : undefined,
+          onTextDelta: (delta, iteration) => {
+            // A new iteration means the previous text preceded tool calls
+            if (iteration !== streamIteration) {
+              streamIteration = iteration;
+              partialText = '';
+              speaker?.reset();
+            }
+            partialText += delta;
+            if (!partialText.includes(SILENT_REPLY_TOKEN)) {
+              this.onPartialTranscript?.(partialText);
+            }
+            speaker?.push(delta);
+          },
         },
         messages,
       );
+      this.onPartialTranscript?.(null);
 
       const assistantText = result.content || 'Task started.';
 
       // Check for silent reply token (e.g., from accessibility tool waiting for background result)
-      const isSilent = assistantText.includes('__SILENT__');
+      const isSilent = assistantText.includes(SILENT_REPLY_TOKEN);
 
       // Save intermediate tool call messages to history (assistant tool calls + tool results)
-      this.history.push(...result.newMessages);
+      result.newMessages.forEach(m => this.context.add(m));
 
       // Save final assistant response to history
-      this.history.push({ role: 'assistant', content: assistantText });
+      this.context.add({ role: 'assistant', content: assistantText });
 
-      // Trim history to avoid context overflow
-      this.trimHistory(this.config.maxHistoryMessages ?? 20);
+      // Summarize older turns in the background once over budget
+      this.compactHistory();
 
       // If silent, don't show bubble or speak - the actual result will come via appendPending
       if (isSilent) {
-        this.setState('idle');
+        speaker?.cancel();
+        this.speaker = null;
+        setTurnState('idle');
         return '';
       }
 
@@ -229,118 +396,240 @@ export class ConversationPipeline {
       if (assistantText) {
         this.onTranscript?.('assistant', assistantText);
         if (this.config.drivingMode) {
-          this.setState('speaking');
-          // Start TTS - wait for completion
+          // 'speaking' already while the sentences spoken during streaming
+          // finish, so a barge-in can cut them as well
+          if (!this.speechInterrupted) {
+            setTurnState('speaking');
+          }
+          await speaker?.drain();
+          // Start TTS for the unspoken rest - wait for completion
           try {
-            await this.config.ttsService.speak(assistantText, this.config.language ?? 'en-US');
+            const remainder = speaker ? speaker.remainder(assistantText) : assistantText;
+            if (remainder && !this.speechInterrupted) {
+              const spoken = await this.config.ttsService.speak(remainder, this.config.language ?? 'en-US');
+              this.noteSpoken(remainder, spoken);
+            }
           } catch (ttsErr) {
             // TTS error - log but don't fail the whole pipeline
             DebugLogger.logError('TTS', `TTS error: ${ttsErr instanceof Error ? ttsErr.message : String(ttsErr)}`);
           }
+          this.speaker = null;
+          if (this.speechInterrupted) {
+            this.recordInterruption(assistantText);
+          }
           // After speak() completes (or errors), TTS is done, so set idle
-          // The tts_done listener in App.tsx should also set it, but this is a fallback
-          // Don't override 'listening' state - user might have started listening
+          // Don't override 'listening' state - user might have barged in
           if (this.getState() !== 'listening') {
-            this.setState('idle');
+            setTurnState('idle');
+            const windowMs = this.speechInterrupted
+              ? 0
+              : followUpWindowFor(this.config.followUp ?? null, assistantText);
+            if (windowMs > 0) {
+              this.listenForFollowUp(windowMs);
+            }
           }
         } else {
           // Normal mode: no TTS, so we can set idle immediately
           // Don't override 'listening' state - user might have started listening
           if (this.getState() !== 'listening') {
-            this.setState('idle');
+            setTurnState('idle');
           }
         }
       } else {
         // No assistant text, set idle immediately
         // Don't override 'listening' state - user might have started listening
         if (this.getState() !== 'listening') {
-          this.setState('idle');
+          setTurnState('idle');
         }
       }
 
       return assistantText;
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
+      speaker?.cancel();
+      this.speaker = null;
+      this.onPartialTranscript?.(null);
       DebugLogger.logError('PIPELINE', message);
-      this.setState('error');
+      const speakError = this.config.drivingMode && ownsState();
+      setTurnState('error');
       this.onError?.(message);
 
       // Save an error assistant message so the LLM has context on the next turn
-      this.history.push({
+      this.context.add({
         role: 'assistant',
         content: `[Error: ${message}] I was unable to process the request.`,
       });
+      this.compactHistory();
 
       // Try to speak error in driving mode
-      if (this.config.drivingMode) {
+      if (speakError) {
         this.config.ttsService.speakAsync(
           'An error has occurred.',
           this.config.language ?? 'en-US',
         );
       }
 
-      this.setState('idle');
+      setTurnState('idle');
       return '';
+    } finally {
+      endTurn();
     }
   }
 
-  private setState(state: PipelineState): void {
-    this.state = state;
-    this.onStateChange?.(state);
+  /**
+   * Publish a confirmation request and wait for resolveConfirmation().
+   * The loop stays in 'processing'; App.tsx shows the card and, in driving
+   * mode, asks by voice.
+   */
+  private requestConfirmation(request: ToolConfirmationRequest): Promise<ToolConfirmationDecision> {
+    // Only one call can wait at a time – a stale request counts as declined
+    if (this.pendingConfirmation) {
+      this.resolveConfirmation(this.pendingConfirmation.request.id, false);
+    }
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        DebugLogger.add('info', 'CONFIRM', `No answer for ${request.toolName} – declined`);
+        this.resolveConfirmation(request.id, false);
+      }, CONFIRMATION_TIMEOUT_MS);
+      this.pendingConfirmation = {
+        request,
+        resolve: decision => {
+          clearTimeout(timer);
+          resolve(decision);
+        },
+      };
+      this.onConfirmationRequest?.(request);
+    });
+  }
+
+  // ── Barge-in ──────────────────────────────────────────────────────────────
+
+  /** Stop feeding TTS – the rest of the answer will not be spoken */
+  private interruptSpeech(): void {
+    this.speechInterrupted = true;
+    this.speaker?.cancel();
+  }
+
+  /** Remember which part of `text` the user actually heard */
+  private noteSpoken(text: string, result: SpeakResult): void {
+    const heard = result.completed ? text : text.slice(0, result.spokenChars);
+    if (heard.trim()) {
+      this.spokenParts.push(heard.trim());
+    }
   }
 
   /**
-   * Trim conversation history to prevent context overflow.
-   * Keeps the most recent messages, but ensures we never break tool-call chains.
-   *
-   * OpenAI requires that every message with role 'tool' is preceded by an
-   * 'assistant' message that contains the matching tool_calls. A naive slice
-   * can cut off the assistant message while keeping orphaned tool results,
-   * causing a 400 error.
-   *
-   * Strategy: slice to ~maxMessages, then advance the start index past any
-   * orphaned 'tool' or 'assistant-with-toolCalls' messages so the history
-   * always begins with a clean 'user' or plain 'assistant' message.
+   * Replace the interrupted answer in the history with what was spoken and
+   * a note on what was skipped, so the next turn ("stop, next") can build
+   * on what the user actually heard.
    */
-  private trimHistory(maxMessages: number): void {
-    if (this.history.length <= maxMessages) {
-      return;
-    }
+  private recordInterruption(answer: string): void {
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+    const full = normalize(answer);
+    const heard = normalize(this.spokenParts.join(' '));
+    DebugLogger.add('info', 'PIPELINE', `Answer interrupted after ${heard.length} of ${full.length} characters`);
+
+    // Sentences spoken before a tool call are not part of the final answer
+    const content = full.startsWith(heard)
+      ? `${heard}\n[Interrupted by the user – not spoken: "${full.slice(heard.length).trim()}"]`
+      : `${answer}\n[Interrupted by the user – only this was spoken: "${heard}"]`;
+    this.context.replaceLastAssistant(content);
+    this.persistContext();
+  }
 
-    let start = this.history.length - maxMessages;
-
-    // Advance past any orphaned messages at the cut point:
-    // - 'tool' messages without their preceding assistant+toolCalls
-    // - 'assistant' messages with toolCalls whose tool results follow
-    while (start < this.history.length) {
-      const msg = this.history[start];
-      if (msg.role === 'tool') {
-        // Orphaned tool result – skip
-        start++;
-      } else if (
-        msg.role === 'assistant' &&
-        msg.toolCalls &&
-        msg.toolCalls.length > 0
-      ) {
-        // Assistant with tool calls – the following tool results belong to it,
-        // but we'd also need those. Safest to skip the whole group.
-        start++;
-      } else {
-        break;
+  // ── Follow-up ─────────────────────────────────────────────────────────────
+
+  /**
+   * Reopen the microphone after a spoken answer. A transcript starts the
+   * next turn (which opens the next window); silence or a closing phrase
+   * ("thanks, that's all") ends the session.
+   */
+  private async listenForFollowUp(windowMs: number): Promise<void> {
+    const followUp = this.config.followUp;
+    if (!followUp) return;
+    const session = ++this.followUpSession;
+
+    await new Promise<void>(resolve => setTimeout(resolve, FOLLOW_UP_DELAY_MS));
+    // Wake word, mic tap or a background message came first
+    if (this.state !== 'idle' || session !== this.followUpSession) return;
+
+    DebugLogger.add('info', 'PIPELINE', `Follow-up: listening for ${windowMs} ms`);
+    this.setState('listening');
+    this.followUpListening = true;
+    this.onFollowUpChange?.(true);
+    let transcript = '';
+    try {
+      transcript = await followUp.stt.listen(followUp.language, followUp.mode, {
+        noSpeechTimeoutMs: windowMs,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (!message.includes('cancel')) {
+        DebugLogger.logError('STT', `Follow-up listening failed: ${message}`);
       }
+    } finally {
+      this.followUpListening = false;
+      this.onFollowUpChange?.(false);
     }
 
-    this.history = this.history.slice(start);
+    // Cancelled by a mic tap (stopListening) or superseded by typed input
+    if (this.getState() !== 'listening' || session !== this.followUpSession) return;
+
+    if (!transcript.trim()) {
+      DebugLogger.add('info', 'PIPELINE', 'Follow-up window closed without speech');
+      this.setState('idle');
+      return;
+    }
+    if (isClosingPhrase(transcript)) {
+      DebugLogger.add('info', 'PIPELINE', `Follow-up session ended by the user: "${transcript}"`);
+      this.onTranscript?.('user', transcript);
+      this.setState('idle');
+      return;
+    }
+    await this.processUtterance(transcript);
+  }
+
+  private setState(state: PipelineState): void {
+    this.state = state;
+    this.onStateChange?.(state);
+  }
+
+  /**
+   * Persist the context and, if it exceeds the token budget or message
+   * limit, fold the oldest turns into the rolling summary. Runs in the
+   * background: the summary call must not delay TTS or the next turn.
+   */
+  private compactHistory(): void {
+    this.persistContext();
+    this.context
+      .maybeCompress()
+      .then(compressed => {
+        if (compressed) {
+          this.persistContext();
+        }
+      })
+      .catch(err => {
+        DebugLogger.logError('PIPELINE', `Context compression failed: ${err instanceof Error ? err.message : String(err)}`);
+      });
   }
 
-  /** Export history for session persistence */
-  exportHistory(): Message[] {
-    return [...this.history];
+  private persistContext(): void {
+    ConversationStore.saveContext(this.context.export()).catch(() => {});
   }
 
-  /** Import saved history (replaces current history) */
-  importHistory(history: Message[]): void {
-    this.history = [...history];
+  /** Export history and summary for session persistence */
+  exportHistory(): ContextSnapshot {
+    return this.context.export();
+  }
+
+  /**
+   * Import saved history (replaces current history and summary).
+   * Accepts a full snapshot or plain messages (no summary).
+   */
+  importHistory(history: ContextSnapshot | Message[]): void {
+    this.context.import(
+      Array.isArray(history) ? { history, summary: null, count: 0 } : history,
+    );
   }
 
   /**
@@ -349,7 +638,7 @@ export class ConversationPipeline {
    * into the LLM context after the pipeline is already running.
    */
   appendToHistory(messages: Message[]): void {
-    this.history.push(...messages);
-    this.trimHistory(this.config.maxHistoryMessages ?? 20);
+    messages.forEach(m => this.context.add(m));
+    this.compactHistory();
   }
 }
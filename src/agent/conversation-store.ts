@@ -1,5 +1,5 @@
 /**
- * ConversationStore – Two-key AsyncStorage persistence for conversation history
+ * ConversationStore – AsyncStorage persistence for conversation history
  *
  * Key design principle: each key has exactly ONE writer, eliminating race conditions.
  *
@@ -13,15 +13,23 @@
  *   Reader: Main app only (drainPending, called when app comes to foreground)
  *   Max:    MAX_PENDING entries (oldest dropped)
  *
- * Both keys store StoredMessage[] in JSON.
- * Only clean user/assistant messages are stored (no tool calls, no tool results).
+ * Key: 'conversation_context'
+ *   Writer: Main app only (saveContext, called by the pipeline after each turn)
+ *   Reader: Main app only (loadContext, called when the pipeline is created)
+ *   Holds the LLM context: rolling summary + recent messages verbatim
+ *
+ * The first two keys store StoredMessage[] in JSON.
+ * Only clean user/assistant messages are stored there (no tool calls, no tool
+ * results); the LLM context snapshot keeps tool-call chains intact.
  */
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ContextSnapshot } from './context-manager';
 
 // ── Constants ────────────────────────────────────────────────────────────────
 
 const HISTORY_KEY = 'conversation_history';
 const PENDING_KEY = 'background_pending';
+const CONTEXT_KEY = 'conversation_context';
 
 /** Default max messages stored in conversation_history (shown in UI) */
 const DEFAULT_MAX_HISTORY = 50;
@@ -145,9 +153,37 @@ export class ConversationStore {
   }
 
   /**
-   * Clear the full conversation history (e.g. when user clears chat).
+   * Save the LLM context snapshot (summary + recent messages).
+   * Called by the pipeline after each turn and after each compression.
+   */
+  static async saveContext(snapshot: ContextSnapshot): Promise<void> {
+    await AsyncStorage.setItem(CONTEXT_KEY, JSON.stringify(snapshot));
+  }
+
+  /**
+   * Load the LLM context snapshot.
+   * Returns null if nothing is stored yet (e.g. first start after upgrade).
+   */
+  static async loadContext(): Promise<ContextSnapshot | null> {
+    try {
+      const json = await AsyncStorage.getItem(CONTEXT_KEY);
+      if (!json) return null;
+      const parsed = JSON.parse(json) as Partial<ContextSnapshot> | null;
+      if (!parsed || !Array.isArray(parsed.history)) return null;
+      return {
+        history: parsed.history,
+        summary: typeof parsed.summary === 'string' ? parsed.summary : null,
+        count: typeof parsed.count === 'number' ? parsed.count : 0,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Clear the full conversation history and LLM context (e.g. when user clears chat).
    */
   static async clearHistory(): Promise<void> {
-    await AsyncStorage.removeItem(HISTORY_KEY);
+    await AsyncStorage.multiRemove([HISTORY_KEY, CONTEXT_KEY]);
   }
 }
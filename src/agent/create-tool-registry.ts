@@ -9,6 +9,7 @@ import { ToolRegistry } from './tool-registry';
 import { CredentialManager } from '../permissions/credential-manager';
 import type { SkillLoader } from './skill-loader';
 import type { LLMProvider } from '../llm/types';
+import type { NotificationRuleTester } from './notification-dry-run';
 
 // Tools
 import { IntentTool } from '../tools/intent-tool';
@@ -21,6 +22,7 @@ import { DeviceTool } from '../tools/device-tool';
 import { SmsTool } from '../tools/sms-tool';
 import { SchedulerTool } from '../tools/scheduler-tool';
 import { NotificationListenerTool } from '../tools/notification-listener-tool';
+import { NotificationActionTool } from '../tools/notification-action-tool';
 import { AccessibilityTool } from '../tools/accessibility-tool';
 import { FileStorageTool } from '../tools/file-storage-tool';
 import { BeepTool } from '../tools/beep-tool';
@@ -72,6 +74,12 @@ export interface CreateToolRegistryOptions {
    * Only used when includePersonalMemoryTool is true.
    */
   provider?: LLMProvider;
+
+  /**
+   * Dry-run tester for notification rules (action test_rule of the
+   * notifications tool). Only the main agent passes one.
+   */
+  testNotificationRule?: NotificationRuleTester;
 }
 
 /**
@@ -97,7 +105,8 @@ export async function createToolRegistry(opts: CreateToolRegistryOptions): Promi
   if (opts.includeScheduler !== false) {
     registry.register(new SchedulerTool());
   }
-  registry.register(new NotificationListenerTool());
+  registry.register(new NotificationListenerTool(opts.testNotificationRule));
+  registry.register(new NotificationActionTool());
   
   // Check if Accessibility Service is enabled (only once, reuse result)
   let accessibilityServiceEnabled = false;
@@ -0,0 +1,85 @@
+/**
+ * DryRunRegistry – Tool registry for simulated agent runs
+ *
+ * Wraps a registry so that an agent run can be replayed without touching the
+ * outside world (see notification-dry-run.ts):
+ *   - calls that only read state (isConcurrencySafe) run for real, so the
+ *     agent sees realistic contact names, dates, skill docs, …
+ *   - every other call is stubbed: it reports success without executing
+ *
+ * Every call is recorded with whether it ran and what it returned.
+ */
+import { ToolRegistry } from './tool-registry';
+import { describeToolCallFallback } from './tool-confirmation';
+import type { Tool, ToolResult } from '../tools/types';
+import { successResult } from '../tools/types';
+
+export interface DryRunToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+  /** Human-readable summary (the tool's describeCall) */
+  description: string;
+  /** true = read-only call that was executed, false = stubbed */
+  executed: boolean;
+  /** Result returned to the agent (clipped) */
+  result: string;
+}
+
+/** Max characters of a result kept in the record */
+const MAX_RESULT_CHARS = 500;
+
+function isReadOnly(tool: Tool, args: Record<string, unknown>): boolean {
+  try {
+    return tool.isConcurrencySafe?.(args) ?? false;
+  } catch {
+    return false;
+  }
+}
+
+function describe(tool: Tool, args: Record<string, unknown>): string {
+  try {
+    return tool.describeCall?.(args) ?? describeToolCallFallback(tool.name(), args);
+  } catch {
+    return describeToolCallFallback(tool.name(), args);
+  }
+}
+
+/**
+ * Build a copy of `original` whose side-effect tools are stubbed. Calls are
+ * appended to `calls` in the order the agent makes them.
+ */
+export function buildDryRunRegistry(original: ToolRegistry, calls: DryRunToolCall[]): ToolRegistry {
+  const dryRun = new ToolRegistry();
+
+  for (const name of original.list()) {
+    const tool = original.get(name);
+    if (!tool) continue;
+
+    // isRisky is left out on purpose – stubbed calls need no confirmation
+    const wrapped: Tool = {
+      name: () => name,
+      description: () => tool.description(),
+      parameters: () => tool.parameters(),
+      systemHint: tool.systemHint ? () => tool.systemHint!() : undefined,
+      isConcurrencySafe: args => isReadOnly(tool, args),
+      describeCall: args => describe(tool, args),
+      execute: async (args: Record<string, unknown>): Promise<ToolResult> => {
+        const executed = isReadOnly(tool, args);
+        const result = executed
+          ? await tool.execute(args)
+          : successResult(`[Dry run – not executed] ${describe(tool, args)}`);
+        calls.push({
+          name,
+          arguments: args,
+          description: describe(tool, args),
+          executed,
+          result: result.forLLM.slice(0, MAX_RESULT_CHARS),
+        });
+        return result;
+      },
+    };
+    dryRun.register(wrapped);
+  }
+
+  return dryRun;
+}
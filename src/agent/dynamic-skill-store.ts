@@ -4,10 +4,15 @@
  * Key convention: `dynamic_skill_<skillName>`
  * This prefix is used in backup_rules.xml to selectively include these keys
  * in Google Auto Backup, ensuring skills survive app reinstallation.
+ *
+ * Skills imported as a package (skill-package.ts) additionally store their
+ * auxiliary files and changelog as JSON under `dynamic_skillpkg_<skillName>`.
  */
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SkillPackageExtras } from './skill-loader';
 
 const SKILL_KEY_PREFIX = 'dynamic_skill_';
+const PACKAGE_KEY_PREFIX = 'dynamic_skillpkg_';
 
 export class DynamicSkillStore {
   /** Build the AsyncStorage key for a given skill name */
@@ -15,9 +20,22 @@ export class DynamicSkillStore {
     return `${SKILL_KEY_PREFIX}${name}`;
   }
 
-  /** Persist a skill's raw SKILL.md content */
-  async saveSkill(name: string, content: string): Promise<void> {
+  /** Build the AsyncStorage key for a skill's package extras */
+  private static packageKey(name: string): string {
+    return `${PACKAGE_KEY_PREFIX}${name}`;
+  }
+
+  /**
+   * Persist a skill's raw SKILL.md content – and the files and changelog if
+   * it came as a package. Replaces extras stored for an earlier version.
+   */
+  async saveSkill(name: string, content: string, extras?: SkillPackageExtras): Promise<void> {
     await AsyncStorage.setItem(DynamicSkillStore.key(name), content);
+    if (extras && (Object.keys(extras.files).length > 0 || extras.changelog)) {
+      await AsyncStorage.setItem(DynamicSkillStore.packageKey(name), JSON.stringify(extras));
+    } else {
+      await AsyncStorage.removeItem(DynamicSkillStore.packageKey(name));
+    }
   }
 
   /** Load a single skill's content by name. Returns null if not found. */
@@ -47,9 +65,36 @@ export class DynamicSkillStore {
     return result;
   }
 
-  /** Delete a skill from AsyncStorage */
+  /** Load the package extras of all skills imported as a package. Returns a map of name → extras. */
+  async loadAllPackageExtras(): Promise<Record<string, SkillPackageExtras>> {
+    const allKeys = await AsyncStorage.getAllKeys();
+    const packageKeys = allKeys.filter(k => k.startsWith(PACKAGE_KEY_PREFIX));
+
+    if (packageKeys.length === 0) {
+      return {};
+    }
+
+    const pairs = await AsyncStorage.multiGet(packageKeys);
+    const result: Record<string, SkillPackageExtras> = {};
+
+    for (const [key, value] of pairs) {
+      if (value === null) continue;
+      try {
+        result[key.slice(PACKAGE_KEY_PREFIX.length)] = JSON.parse(value);
+      } catch {
+        // Corrupt entry – the skill still works without its files
+      }
+    }
+
+    return result;
+  }
+
+  /** Delete a skill (and its package extras) from AsyncStorage */
   async deleteSkill(name: string): Promise<void> {
-    await AsyncStorage.removeItem(DynamicSkillStore.key(name));
+    await AsyncStorage.multiRemove([
+      DynamicSkillStore.key(name),
+      DynamicSkillStore.packageKey(name),
+    ]);
   }
 
   /** Get names of all stored dynamic skills */
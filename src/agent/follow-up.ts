@@ -0,0 +1,92 @@
+/**
+ * FollowUp – Continuous conversation in driving mode
+ *
+ * After a spoken answer the pipeline keeps the microphone open for a short
+ * window, so multi-turn tasks (dictating a shopping list, answering a
+ * clarification question) need no wake word per turn. The session ends when
+ * the window passes in silence or the user closes it ("thanks, that's all").
+ */
+import type { STTMode, STTService } from '../audio/stt-service';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface FollowUpConfig {
+  stt: STTService;
+  /** BCP-47 language tag for STT */
+  language: string;
+  mode: STTMode;
+  /**
+   * Time the user has to start speaking after every answer.
+   * 0 = only after answers that ask a question (QUESTION_FOLLOW_UP_WINDOW_MS).
+   */
+  windowMs: number;
+}
+
+/** Window used after questions when the follow-up mode itself is off */
+export const QUESTION_FOLLOW_UP_WINDOW_MS = 8000;
+
+/** Let the last TTS audio fade before the microphone opens (echo) */
+export const FOLLOW_UP_DELAY_MS = 300;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Window for the answer just spoken, 0 = do not listen */
+export function followUpWindowFor(config: FollowUpConfig | null, answer: string): number {
+  if (!config) return 0;
+  if (config.windowMs > 0) return config.windowMs;
+  return answer.includes('?') ? QUESTION_FOLLOW_UP_WINDOW_MS : 0;
+}
+
+/** Phrases that close the conversation */
+const CLOSING_PHRASES = [
+  "that's all", 'that is all', "that's it", 'that is it', "that'll be all", 'that will be all',
+  'nothing else', 'nothing more', "i'm done", 'i am done', "we're done", 'all done', 'never mind',
+  'thanks', 'thank you', 'thanks a lot', 'cheers', 'bye', 'goodbye', 'see you', 'stop',
+  "das war's", 'das wars', 'das war es', "das wär's", 'das wärs', 'das wäre es', 'das wäre alles',
+  'das ist alles', 'sonst nichts', 'nichts mehr', 'danke', 'danke schön', 'dankeschön',
+  'vielen dank', 'tschüss', 'ciao', 'stopp', 'fertig', 'passt schon',
+];
+
+/** Words allowed around a closing phrase ("ok, thanks Sanna, that's all") */
+const FILLER_WORDS = [
+  'ok', 'okay', 'alright', 'great', 'perfect', 'good', 'no', 'nope', 'yes', 'sanna', 'for now',
+  'gut', 'super', 'perfekt', 'alles klar', 'nein', 'ja', 'für jetzt', 'erstmal',
+];
+
+function removePhrase(text: string, phrase: string): { text: string; found: boolean } {
+  let found = false;
+  while (text.includes(` ${phrase} `)) {
+    text = text.replace(` ${phrase} `, ' ');
+    found = true;
+  }
+  return { text, found };
+}
+
+/**
+ * Whether a follow-up utterance only closes the conversation (English +
+ * German). Needs at least one closing phrase and nothing else – "thanks,
+ * and what's the weather?" is a new request, a bare "no" is an answer.
+ */
+export function isClosingPhrase(transcript: string): boolean {
+  let text = ` ${transcript
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/[.,!?;:"…-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()} `;
+  if (!text.trim()) return false;
+
+  // Longest first, so "thanks a lot" is not left as "a lot"
+  const byLength = (a: string, b: string) => b.length - a.length;
+  let closed = false;
+  for (const phrase of [...CLOSING_PHRASES].sort(byLength)) {
+    const result = removePhrase(text, phrase);
+    text = result.text;
+    closed = closed || result.found;
+  }
+  if (!closed) return false;
+  for (const word of [...FILLER_WORDS].sort(byLength)) {
+    text = removePhrase(text, word).text;
+  }
+  return text.trim() === '';
+}
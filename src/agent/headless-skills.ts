@@ -0,0 +1,53 @@
+/**
+ * HeadlessSkills – Skill bootstrap shared by all headless tasks
+ *
+ * Headless tasks (scheduler, notification, timer, accessibility,
+ * confirmation) can start before the app UI has ever run. Each of them awaits
+ * loadHeadlessSkills() before building a SkillLoader, so that every headless
+ * agent sees the same skills as the foreground agent:
+ *   - all bundled skills – registered by skill-auto-register.ts, which picks
+ *     up every assets/skills/<name>/SKILL.md at bundle time
+ *   - all user-uploaded skills from DynamicSkillStore
+ *
+ * Dynamic skills are loaded once per JS runtime; uploads and deletions in the
+ * app afterwards update the shared registry directly (SkillLoader
+ * registerDynamicSkill / unregisterSkill).
+ */
+import './skill-auto-register';
+import { registerDynamicSkillContent } from './skill-loader';
+import { DynamicSkillStore } from './dynamic-skill-store';
+import { DebugLogger } from './debug-logger';
+
+const TAG = 'HeadlessSkills';
+
+let dynamicSkillsLoaded: Promise<void> | null = null;
+
+/**
+ * Make all bundled and user-uploaded skills available to SkillLoaders
+ * created afterwards. Never throws – without dynamic skills the task still
+ * runs with the bundled ones.
+ */
+export function loadHeadlessSkills(): Promise<void> {
+  if (!dynamicSkillsLoaded) {
+    dynamicSkillsLoaded = (async () => {
+      try {
+        const store = new DynamicSkillStore();
+        const [skills, extras] = await Promise.all([
+          store.loadAllSkills(),
+          store.loadAllPackageExtras(),
+        ]);
+        for (const [name, content] of Object.entries(skills)) {
+          registerDynamicSkillContent(name, content, extras[name]);
+        }
+        const names = Object.keys(skills);
+        if (names.length > 0) {
+          DebugLogger.add('info', TAG, `Loaded ${names.length} uploaded skill(s): ${names.join(', ')}`);
+        }
+      } catch (err) {
+        DebugLogger.add('error', TAG, `Failed to load uploaded skills: ${err}`);
+        dynamicSkillsLoaded = null; // retry with the next task
+      }
+    })();
+  }
+  return dynamicSkillsLoaded;
+}
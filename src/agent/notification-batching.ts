@@ -0,0 +1,180 @@
+/**
+ * NotificationBatching – De-duplication and burst coalescing
+ *
+ * Messengers re-post the same conversation notification (same `key`) with
+ * every new message, and people tend to send several short messages in a row.
+ * Before the sub-agent runs, every notification goes through:
+ *
+ *   1. Key tracking (checkNotificationKey): the last content seen per
+ *      notification key is remembered. An identical re-post is dropped; a
+ *      changed one is marked as an update and carries the previous content,
+ *      so the sub-agent only reports what is new.
+ *   2. Burst coalescing (joinBurst): the first notification of a sender is
+ *      processed right away. Notifications from the same app and sender that
+ *      arrive while its sub-agent is still running are queued and processed
+ *      together by one follow-up run once it is done – the first queued
+ *      task runs it, later ones only add their message and return.
+ *
+ * Bursts live in memory – all headless notification tasks share one JS
+ * runtime. Key state: AsyncStorage key 'sanna_notification_keys'.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createSerialQueue } from './serial-queue';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface BatchedNotification {
+  key: string;
+  title: string;
+  text: string;
+  timestamp: number;
+  /** Content previously seen under the same key (set for updates) */
+  previousText?: string;
+  /** Whether the notification offers a reply action (see NotificationActionTool) */
+  canReply: boolean;
+  /** IDs of the rules that passed the pre-filters for this notification */
+  ruleIds: string[];
+  /** Entry in the notification history (notification-history-store.ts) */
+  historyId?: string;
+}
+
+export type KeyCheck =
+  | { status: 'new' }
+  | { status: 'update'; previousText: string }
+  | { status: 'duplicate' };
+
+interface SeenKey {
+  title: string;
+  text: string;
+  at: number;
+}
+
+/** Notifications handed to one sub-agent run */
+export interface Burst {
+  /** Oldest first */
+  notifications: BatchedNotification[];
+  /** Call once the sub-agent run is over – starts the run for queued notifications */
+  done: () => void;
+}
+
+interface BurstRun {
+  /** Arrived while this run was active – processed by the next run */
+  queued: BatchedNotification[];
+  finished: Promise<void>;
+}
+
+const KEYS_STORAGE_KEY = 'sanna_notification_keys';
+
+/** Max notification keys remembered (oldest are forgotten first) */
+const MAX_SEEN_KEYS = 200;
+
+/**
+ * Longest a queued notification waits for the running sub-agent before it is
+ * processed anyway – the headless task times out after 120 s
+ */
+const MAX_BURST_WAIT_MS = 60_000;
+
+/** Sub-agent run currently active per burst key */
+const bursts = new Map<string, BurstRun>();
+
+/** Runs key checks after all previously queued ones */
+const serialized = createSerialQueue();
+
+// ── Key tracking ─────────────────────────────────────────────────────────────
+
+async function loadSeenKeys(): Promise<Record<string, SeenKey>> {
+  try {
+    const json = await AsyncStorage.getItem(KEYS_STORAGE_KEY);
+    return json ? (JSON.parse(json) as Record<string, SeenKey>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record a notification's content under its key and report whether it is
+ * new, an update of an earlier notification, or an identical re-post.
+ * Checks run one after another, so two re-posts arriving together cannot
+ * both be reported as new.
+ */
+export function checkNotificationKey(
+  key: string,
+  title: string,
+  text: string,
+  timestamp: number,
+): Promise<KeyCheck> {
+  if (!key) return Promise.resolve({ status: 'new' });
+
+  return serialized(() => recordKey(key, title, text, timestamp));
+}
+
+async function recordKey(key: string, title: string, text: string, timestamp: number): Promise<KeyCheck> {
+  const seen = await loadSeenKeys();
+  const previous = seen[key];
+  if (previous && previous.title === title && previous.text === text) {
+    return { status: 'duplicate' };
+  }
+
+  // Re-insert so the key moves to the end (newest) of the insertion order
+  delete seen[key];
+  seen[key] = { title, text, at: timestamp };
+  const keys = Object.keys(seen);
+  for (const old of keys.slice(0, Math.max(0, keys.length - MAX_SEEN_KEYS))) {
+    delete seen[old];
+  }
+  await AsyncStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(seen)).catch(() => {});
+
+  return previous ? { status: 'update', previousText: previous.text } : { status: 'new' };
+}
+
+// ── Burst coalescing ─────────────────────────────────────────────────────────
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function startRun(burstKey: string, notifications: BatchedNotification[]): Burst {
+  let finish: () => void = () => {};
+  const run: BurstRun = {
+    queued: [],
+    finished: new Promise<void>(resolve => { finish = resolve; }),
+  };
+  bursts.set(burstKey, run);
+
+  return {
+    notifications,
+    done: () => {
+      if (bursts.get(burstKey) === run && run.queued.length === 0) {
+        bursts.delete(burstKey);
+      }
+      finish();
+    },
+  };
+}
+
+/**
+ * Add a notification to the burst of its sender.
+ *
+ * Without a running sub-agent for the sender the notification is returned
+ * at once. Otherwise it is queued: the first queued task waits for the
+ * running one and then gets all queued notifications (oldest first), later
+ * ones get null – their notification is processed by that task.
+ */
+export async function joinBurst(
+  burstKey: string,
+  notification: BatchedNotification,
+): Promise<Burst | null> {
+  const running = bursts.get(burstKey);
+  if (!running) {
+    return startRun(burstKey, [notification]);
+  }
+
+  running.queued.push(notification);
+  if (running.queued.length > 1) {
+    return null;
+  }
+
+  // A run that never reports back (e.g. its task was killed) must not hold the queue
+  await Promise.race([running.finished, sleep(MAX_BURST_WAIT_MS)]);
+  return startRun(burstKey, running.queued.splice(0));
+}
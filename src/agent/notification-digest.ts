@@ -0,0 +1,193 @@
+/**
+ * NotificationDigest – Holds rule matches for a later summary
+ *
+ * A rule with a `digest` setting does not run its instruction for every
+ * notification. Notifications that pass its pre-filters are stored here
+ * instead and summarised by the LLM in one go (see
+ * deliverNotificationDigests in notification-headless.ts):
+ *   - daily at `digest.time` – via a recurring schedule with
+ *     `digestRuleId` set, kept in sync with the rules by syncDigests()
+ *   - when driving mode ends, if `digest.onDrivingEnd` is set
+ *
+ * Held notifications are removed only once they have been summarised, so a
+ * failed run delivers them with the next digest. Those of rules that are
+ * deleted or lose their digest setting are discarded.
+ *
+ * Persistence: AsyncStorage key 'sanna_notification_digest'.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import SchedulerModule from '../native/SchedulerModule';
+import type { Schedule } from '../tools/scheduler-tool';
+import { getNextOccurrence } from '../tools/schedule-recurrence';
+import { isValidTime } from './notification-prefilter';
+import type { NotificationRule, NotificationRuleDigest } from './notification-rules-store';
+import { createSerialQueue } from './serial-queue';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface DigestItem {
+  sender: string;
+  title: string;
+  text: string;
+  timestamp: number;
+}
+
+/** Held notifications: ruleId → items (oldest first) */
+type DigestState = Record<string, DigestItem[]>;
+
+const STORAGE_KEY = 'sanna_notification_digest';
+
+/** Max held notifications per rule – the oldest are dropped first */
+const MAX_DIGEST_ITEMS = 100;
+
+/** Schedule IDs of digest schedules are derived from the rule ID */
+const SCHEDULE_ID_PREFIX = 'digest_';
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+/** Check a digest setting; returns an error message or null */
+export function validateDigest(digest: NotificationRuleDigest): string | null {
+  if (digest.time !== undefined && !isValidTime(digest.time)) {
+    return 'Digest time must be given as "HH:mm" (e.g. "18:00")';
+  }
+  if (!digest.time && !digest.onDrivingEnd) {
+    return 'A digest needs a time and/or delivery when driving mode ends';
+  }
+  return null;
+}
+
+/** One-line description, e.g. "daily at 18:00, when driving mode ends" */
+export function describeDigest(digest: NotificationRuleDigest | undefined): string {
+  if (!digest) return '';
+  const parts: string[] = [];
+  if (digest.time) parts.push(`daily at ${digest.time}`);
+  if (digest.onDrivingEnd) parts.push('when driving mode ends');
+  return parts.join(', ');
+}
+
+// ── Store ────────────────────────────────────────────────────────────────────
+
+async function loadState(): Promise<DigestState> {
+  try {
+    const json = await AsyncStorage.getItem(STORAGE_KEY);
+    return json ? (JSON.parse(json) as DigestState) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function saveState(state: DigestState): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
+
+/** Runs read-modify-writes after all previously queued ones */
+const serialized = createSerialQueue();
+
+function sameItem(a: DigestItem, b: DigestItem): boolean {
+  return a.timestamp === b.timestamp && a.sender === b.sender && a.title === b.title && a.text === b.text;
+}
+
+/** Hold a notification for the digest of `ruleId` */
+export function addToDigest(ruleId: string, item: DigestItem): Promise<void> {
+  return serialized(async () => {
+    const state = await loadState();
+    state[ruleId] = [...(state[ruleId] ?? []), item].slice(-MAX_DIGEST_ITEMS);
+    await saveState(state);
+  });
+}
+
+/**
+ * Return the held notifications of `ruleId` without removing them –
+ * call removeFromDigest() once they have been summarised.
+ */
+export async function peekDigest(ruleId: string): Promise<DigestItem[]> {
+  const state = await loadState();
+  return state[ruleId] ?? [];
+}
+
+/** Remove delivered notifications; ones held in the meantime are kept */
+export function removeFromDigest(ruleId: string, items: DigestItem[]): Promise<void> {
+  return serialized(async () => {
+    const state = await loadState();
+    const held = state[ruleId];
+    if (!held) return;
+    const remaining = held.filter(h => !items.some(item => sameItem(item, h)));
+    if (remaining.length === held.length) return;
+    if (remaining.length > 0) {
+      state[ruleId] = remaining;
+    } else {
+      delete state[ruleId];
+    }
+    await saveState(state);
+  });
+}
+
+/** Number of held notifications per rule ID */
+export async function getDigestCounts(): Promise<Record<string, number>> {
+  const state = await loadState();
+  const counts: Record<string, number> = {};
+  for (const ruleId of Object.keys(state)) {
+    counts[ruleId] = state[ruleId].length;
+  }
+  return counts;
+}
+
+// ── Sync with rules ──────────────────────────────────────────────────────────
+
+export function digestScheduleId(ruleId: string): string {
+  return `${SCHEDULE_ID_PREFIX}${ruleId}`;
+}
+
+/**
+ * Bring digest schedules and held notifications in line with the rules:
+ * one daily schedule per enabled rule with a digest time, no held
+ * notifications for rules without a digest.
+ */
+export async function syncDigests(rules: NotificationRule[]): Promise<void> {
+  const digestRuleIds = new Set(rules.filter(r => r.digest).map(r => r.id));
+  await serialized(async () => {
+    const state = await loadState();
+    const stale = Object.keys(state).filter(id => !digestRuleIds.has(id));
+    if (stale.length > 0) {
+      for (const id of stale) delete state[id];
+      await saveState(state);
+    }
+  });
+
+  let schedules: Schedule[];
+  try {
+    schedules = JSON.parse(await SchedulerModule.getAllSchedules()) as Schedule[];
+  } catch {
+    return; // Scheduler not available (e.g. tests)
+  }
+
+  const timed = rules.filter(r => r.enabled && r.digest?.time);
+  for (const rule of timed) {
+    const id = digestScheduleId(rule.id);
+    const time = rule.digest!.time!;
+    const existing = schedules.find(s => s.id === id);
+    if (existing && existing.enabled && existing.recurrence.time === time) continue;
+
+    const now = Date.now();
+    const recurrence: Schedule['recurrence'] = { type: 'daily', time };
+    const schedule: Schedule = {
+      id,
+      label: `Notification digest – ${rule.appLabel}`,
+      instruction: `Summarise the held ${rule.appLabel} notifications of rule ${rule.id}`,
+      triggerAtMs: getNextOccurrence(recurrence, now) ?? now,
+      enabled: true,
+      recurrence,
+      createdAt: existing?.createdAt ?? now,
+      lastExecutedAt: existing?.lastExecutedAt ?? null,
+      digestRuleId: rule.id,
+    };
+    await SchedulerModule.setSchedule(JSON.stringify(schedule));
+  }
+
+  const timedIds = new Set(timed.map(r => r.id));
+  for (const schedule of schedules) {
+    if (schedule.digestRuleId && !timedIds.has(schedule.digestRuleId)) {
+      await SchedulerModule.removeSchedule(schedule.id);
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * NotificationDryRun – Test notification rules against a sample notification
+ *
+ * Replays what the notification headless task would do with a notification,
+ * without side effects:
+ *   1. Rules for the app (or the one rule under test)
+ *   2. Deterministic pre-filters – without consuming rate-limit quota
+ *   3. Digest rules – reported as "would be held"
+ *   4. The notification sub-agent with side-effect tools stubbed
+ *      (dry-run-registry.ts) – reports the matched rule, why it matched and
+ *      the tool calls it would have made
+ *
+ * Used by NotificationListenersScreen (rule tester) and the notifications
+ * tool (action test_rule) – both get it injected from App.tsx, as this
+ * module builds on the sub-agent, which builds the tool registry.
+ */
+import type { LLMProvider } from '../llm/types';
+import type { CredentialManager } from '../permissions/credential-manager';
+import { loadAgentConfig } from './agent-config';
+import { SoulStore } from './soul-store';
+import { PersonalMemoryStore } from './personal-memory-store';
+import { loadRules, getRulesForApp, type NotificationRule } from './notification-rules-store';
+import { prefilterRules } from './notification-prefilter';
+import { runNotificationSubAgent } from './notification-sub-agent';
+import type { NotificationPayload, NotificationSubAgentConfig } from './notification-sub-agent';
+import type { NotificationOutcome } from './notification-history-store';
+import type { DryRunToolCall } from './dry-run-registry';
+import { SILENT_REPLY_TOKEN, NO_MATCH_TOKEN } from './tokens';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface NotificationSample {
+  packageName: string;
+  sender: string;
+  title: string;
+  text: string;
+  /** When the notification is posted – matters for quiet hours (default: now) */
+  timestamp?: number;
+  /** Whether the notification offers a reply action (default: false) */
+  canReply?: boolean;
+  /** Key of a real notification the sample was picked from */
+  key?: string;
+}
+
+/** Runs a dry run – injected into the notifications tool and the rules screen */
+export type NotificationRuleTester = (
+  sample: NotificationSample,
+  ruleId?: string,
+) => Promise<NotificationDryRunResult>;
+
+/** Stands in for the notification key of a typed-in sample */
+const SAMPLE_KEY = 'dry-run-sample';
+
+export interface NotificationDryRunResult {
+  /** What would have happened – same outcomes as the notification history */
+  outcome: Exclude<NotificationOutcome, 'pending'>;
+  /** Pre-filter result per rule – why a rule was passed on or dropped */
+  prefilter: Array<{ ruleId: string; passed: boolean; reasons: string[] }>;
+  /** Rules that would hold the notification for their digest */
+  heldForDigest: string[];
+  /** Rule the sub-agent executed */
+  matchedRuleId?: string;
+  /** The sub-agent's explanation why the rule matched or none did */
+  reason?: string;
+  /** Response that would have been shown / spoken */
+  response?: string;
+  /** Tool calls the sub-agent made (stubbed unless read-only) */
+  toolCalls: DryRunToolCall[];
+  error?: string;
+}
+
+// ── Config ───────────────────────────────────────────────────────────────────
+
+/**
+ * Sub-agent config for a dry run: the given provider and credentials plus
+ * enabled skills, language and driving mode from the saved agent config
+ * (the same values the headless notification task uses).
+ */
+export async function buildDryRunConfig(
+  provider: LLMProvider,
+  credentialManager: CredentialManager,
+): Promise<NotificationSubAgentConfig> {
+  const saved = await loadAgentConfig().catch(() => null);
+
+  return {
+    provider,
+    credentialManager,
+    enabledSkillNames: saved?.enabledSkillNames ?? ['notifications'],
+    drivingMode: saved?.drivingMode ?? false,
+    language: saved?.language ?? 'en-US',
+    soul: await SoulStore.getSoul(),
+    personalMemory: await PersonalMemoryStore.getMemory(),
+    maxIterations: saved?.maxSubAgentIterations,
+  };
+}
+
+// ── Dry run ──────────────────────────────────────────────────────────────────
+
+/**
+ * Run the rules for `sample` without side effects.
+ *
+ * @param ruleId  Test only this rule (also if it is disabled); default: all
+ *                enabled rules for the sample's app
+ */
+export async function dryRunNotification(
+  config: NotificationSubAgentConfig,
+  sample: NotificationSample,
+  ruleId?: string,
+): Promise<NotificationDryRunResult> {
+  const allRules = await loadRules();
+  let rules: NotificationRule[];
+  if (ruleId) {
+    const rule = allRules.find(r => r.id === ruleId);
+    if (!rule) {
+      throw new Error(`Rule ${ruleId} not found`);
+    }
+    rules = [rule];
+  } else {
+    rules = getRulesForApp(allRules, sample.packageName);
+  }
+
+  const result: NotificationDryRunResult = {
+    outcome: 'skipped',
+    prefilter: [],
+    heldForDigest: [],
+    toolCalls: [],
+  };
+  if (rules.length === 0) {
+    return result;
+  }
+
+  // 2. Pre-filters – rate-limit quota is only checked, not consumed
+  const prefiltered = await prefilterRules(
+    rules,
+    {
+      sender: sample.sender || sample.title,
+      title: sample.title,
+      text: sample.text,
+      timestamp: sample.timestamp ?? Date.now(),
+    },
+    false,
+  );
+  result.prefilter = prefiltered.map(p => ({ ruleId: p.rule.id, passed: p.passed, reasons: p.reasons }));
+  rules = prefiltered.filter(p => p.passed).map(p => p.rule);
+
+  // 3. Digest rules would hold the notification
+  result.heldForDigest = rules.filter(r => r.digest).map(r => r.id);
+  rules = rules.filter(r => !r.digest);
+  if (rules.length === 0) {
+    result.outcome = result.heldForDigest.length > 0 ? 'held' : 'filtered';
+    return result;
+  }
+
+  // 4. Sub-agent with stubbed side effects
+  const appName = rules[0].appLabel || sample.packageName;
+  const isEmail = appName === 'Email' || appName === 'Gmail';
+  const payload: NotificationPayload = {
+    appName,
+    sender: sample.sender || sample.title,
+    subject: isEmail ? sample.text : '',
+    preview: isEmail ? '' : sample.text,
+    packageName: sample.packageName,
+    key: sample.key || SAMPLE_KEY,
+    canReply: sample.canReply,
+  };
+
+  try {
+    const agentResult = await runNotificationSubAgent(
+      { ...config, confirmToolCall: undefined, dryRunCalls: result.toolCalls },
+      payload,
+      rules,
+    );
+    const content = agentResult.content;
+    result.matchedRuleId = agentResult.matchedRuleId;
+    result.reason = agentResult.matchReason;
+    if (content.includes(NO_MATCH_TOKEN)) {
+      result.outcome = 'no_match';
+    } else if (content.includes(SILENT_REPLY_TOKEN)) {
+      result.outcome = 'silent';
+    } else {
+      result.outcome = 'handled';
+      result.response = content;
+    }
+  } catch (err) {
+    result.outcome = 'error';
+    result.error = err instanceof Error ? err.message : String(err);
+  }
+  return result;
+}
@@ -7,17 +7,30 @@
  * thread entirely.
  *
  * This module:
- *   1. Parses the incoming notification data
- *   2. Loads agent config (API key, provider, enabled skills) from native storage
+ *   1. Parses the incoming notification data and drops identical re-posts of
+ *      an already handled notification key (updates are kept and marked);
+ *      records the notification in the history (notification-history-store.ts)
+ *   2. Loads agent config (provider, enabled skills) from native storage
+ *      (agent-config.ts)
  *   3. Loads notification rules from AsyncStorage
- *   4. Checks if any rules apply to this notification's app
- *   5. Runs the full notification sub-agent (evaluates conditions, executes matching rule)
- *   6. Writes the final result to ConversationStore pending queue
- *   7. Brings SannaBot back to the foreground – the app then speaks the result via drainPending
+ *   4. Checks if any rules apply to this notification's app and drops those
+ *      whose deterministic pre-filters fail (no LLM call if none are left)
+ *   5. Holds the notification for digest rules (notification-digest.ts) and
+ *      coalesces bursts from one sender (notification-batching.ts)
+ *   6. Runs the full notification sub-agent (evaluates conditions, executes matching rule)
+ *   7. Writes the final result to ConversationStore pending queue
+ *   8. Brings SannaBot back to the foreground – the app then speaks the result via drainPending
+ *
+ * Every exit records what happened to the notification (and which rule
+ * handled it) in the history.
+ *
+ * deliverNotificationDigests() summarises held digest notifications – called
+ * by the scheduler task for digest schedules and by App.tsx when driving
+ * mode ends.
  */
-import { SkillLoader, registerSkillContent } from './skill-loader';
-import { runNotificationSubAgent } from './notification-sub-agent';
-import type { NotificationPayload } from './notification-sub-agent';
+import { loadHeadlessSkills } from './headless-skills';
+import { runNotificationSubAgent, runNotificationDigestAgent } from './notification-sub-agent';
+import type { NotificationPayload, NotificationSubAgentConfig } from './notification-sub-agent';
 import { createLLMProvider } from '../llm/llm-registry';
 import type { LLMProvider } from '../llm/types';
 import { DebugLogger } from './debug-logger';
@@ -27,68 +40,28 @@ import { SoulStore } from './soul-store';
 import { PersonalMemoryStore } from './personal-memory-store';
 import { addEntry } from './journal-store';
 import { loadRules, getRulesForApp } from './notification-rules-store';
+import { prefilterRules } from './notification-prefilter';
+import { checkNotificationKey, joinBurst } from './notification-batching';
+import { addToDigest, getDigestCounts, peekDigest, removeFromDigest } from './notification-digest';
+import { recordNotification, setOutcome, type NotificationOutcome } from './notification-history-store';
 import type { NotificationRule } from './notification-rules-store';
+import type { NotificationData } from '../native/NotificationListenerModule';
 import { bringToForeground } from './bring-to-foreground';
 import { formulateError } from './system-prompt';
 import { SILENT_REPLY_TOKEN, NO_MATCH_TOKEN } from './tokens';
+import { createHeadlessConfirmation } from './confirmation-headless';
 
 // Credential infrastructure
 import { TokenStore } from '../permissions/token-store';
 import { CredentialManager } from '../permissions/credential-manager';
 
-
-// Agent config – reuse SchedulerModule (same config as all headless tasks)
-import SchedulerModule from '../native/SchedulerModule';
-
-// Skills – imported at bundle time (metro md-transformer)
-import googleMapsSkill from '../../assets/skills/google-maps/SKILL.md';
-import phoneSkill from '../../assets/skills/phone/SKILL.md';
-import smsSkill from '../../assets/skills/sms/SKILL.md';
-import gmailSkill from '../../assets/skills/gmail/SKILL.md';
-import spotifySkill from '../../assets/skills/spotify/SKILL.md';
-import contactsSkill from '../../assets/skills/contacts/SKILL.md';
-import calendarSkill from '../../assets/skills/calendar/SKILL.md';
-import googleTasksSkill from '../../assets/skills/google-tasks/SKILL.md';
-import schedulerSkill from '../../assets/skills/scheduler/SKILL.md';
-import whatsappSkill from '../../assets/skills/whatsapp/SKILL.md';
-import listsSkill from '../../assets/skills/lists/SKILL.md';
-import notificationsSkill from '../../assets/skills/notifications/SKILL.md';
-import weatherSkill from '../../assets/skills/weather/SKILL.md';
-import slackSkill from '../../assets/skills/slack/SKILL.md';
-
-// Register all skill content so SkillLoader can build the system prompt in headless context
-registerSkillContent('google-maps', googleMapsSkill);
-registerSkillContent('phone', phoneSkill);
-registerSkillContent('sms', smsSkill);
-registerSkillContent('gmail', gmailSkill);
-registerSkillContent('spotify', spotifySkill);
-registerSkillContent('contacts', contactsSkill);
-registerSkillContent('calendar', calendarSkill);
-registerSkillContent('google-tasks', googleTasksSkill);
-registerSkillContent('scheduler', schedulerSkill);
-registerSkillContent('whatsapp', whatsappSkill);
-registerSkillContent('lists', listsSkill);
-registerSkillContent('notifications', notificationsSkill);
-registerSkillContent('weather', weatherSkill);
-registerSkillContent('slack', slackSkill);
+// Agent config – same config as all headless tasks
+import { loadAgentConfig, agentEndpoint, type AgentConfig } from './agent-config';
 
 // ── Config & constants ────────────────────────────────────────────────────────
 
 const TAG = 'NotifHeadless';
 
-interface AgentConfig {
-  apiKey: string;
-  provider: 'claude' | 'openai';
-  model?: string;
-  enabledSkillNames: string[];
-  googleWebClientId?: string;
-  drivingMode?: boolean;
-  /** BCP-47 language tag, e.g. 'de-AT', 'en-US'. Falls back to 'en-US'. */
-  language?: string;
-  /** Max iterations for notification sub-agents (default: 8) */
-  maxSubAgentIterations?: number;
-}
-
 /** Maps Android package names to human-readable app names. */
 const APP_ALIAS_MAP: Record<string, string> = {
   'com.whatsapp': 'WhatsApp',
@@ -98,6 +71,99 @@ const APP_ALIAS_MAP: Record<string, string> = {
   'com.android.mms': 'SMS',
 };
 
+// ── Shared setup ──────────────────────────────────────────────────────────────
+
+interface HeadlessContext {
+  config: AgentConfig;
+  provider: LLMProvider;
+  credentialManager: CredentialManager;
+  lang: string;
+  drivingMode: boolean;
+}
+
+/**
+ * Load the agent config and build provider + credentials.
+ * Returns null (after logging why) if notifications cannot be processed.
+ */
+async function loadHeadlessContext(): Promise<HeadlessContext | null> {
+  await loadHeadlessSkills();
+  const config = await loadAgentConfig();
+  if (!config) {
+    DebugLogger.add('error', TAG, 'No agent config found – cannot run sub-agent');
+    return null;
+  }
+
+  // Check if notifications skill is enabled
+  if (!config.enabledSkillNames.includes('notifications')) {
+    DebugLogger.add('info', TAG, 'Notifications skill is disabled – skipping processing');
+    return null;
+  }
+
+  const endpoint = agentEndpoint(config);
+  if (!endpoint) {
+    DebugLogger.add('error', TAG, `Provider ${config.provider} is not configured completely in agent config`);
+    return null;
+  }
+
+  const provider: LLMProvider = createLLMProvider({ ...endpoint, fallbacks: config.fallbacks });
+
+  DebugLogger.add('info', TAG, `Provider: ${config.provider} (${provider.getCurrentModel()})`);
+
+  // Headless unlock – no biometric prompt
+  const tokenStore = new TokenStore();
+  tokenStore.unlockForHeadless();
+  const credentialManager = new CredentialManager(tokenStore);
+
+  if (config.googleWebClientId) {
+    credentialManager.configureGoogleTokenRefresh(config.googleWebClientId);
+  }
+
+  return {
+    config,
+    provider,
+    credentialManager,
+    lang: config.language,
+    drivingMode: config.drivingMode,
+  };
+}
+
+/** Record what happened to notifications in the history – failures are non-fatal */
+async function recordOutcome(
+  historyIds: (string | undefined)[],
+  outcome: NotificationOutcome,
+  extra?: { ruleId?: string; detail?: string },
+): Promise<void> {
+  const ids = historyIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return;
+  try {
+    await setOutcome(ids, outcome, extra);
+  } catch (err) {
+    DebugLogger.add('error', TAG, `Failed to update notification history: ${err}`);
+  }
+}
+
+async function buildSubAgentConfig(
+  ctx: HeadlessContext,
+  origin: string,
+): Promise<NotificationSubAgentConfig> {
+  return {
+    provider: ctx.provider,
+    credentialManager: ctx.credentialManager,
+    enabledSkillNames: ctx.config.enabledSkillNames,
+    drivingMode: ctx.drivingMode,
+    language: ctx.lang,
+    soul: await SoulStore.getSoul(),
+    personalMemory: await PersonalMemoryStore.getMemory(),
+    maxIterations: ctx.config.maxSubAgentIterations,
+    confirmToolCall: createHeadlessConfirmation(
+      ctx.config.toolConfirmationPolicy,
+      ctx.drivingMode,
+      origin,
+    ),
+    confirmationPolicy: ctx.config.toolConfirmationPolicy,
+  };
+}
+
 // ── Main headless task ────────────────────────────────────────────────────────
 
 export default async function notificationHeadlessTask(
@@ -107,14 +173,7 @@ export default async function notificationHeadlessTask(
   DebugLogger.add('info', TAG, '▶ Notification headless task started');
 
   // 1. Parse notification data
-  let notifData: {
-    packageName: string;
-    title: string;
-    text: string;
-    sender: string;
-    timestamp: number;
-    key: string;
-  };
+  let notifData: NotificationData;
 
   try {
     notifData = JSON.parse(taskData.notificationJson);
@@ -124,6 +183,7 @@ export default async function notificationHeadlessTask(
   }
 
   const { packageName, title, text, sender } = notifData;
+  const timestamp = notifData.timestamp || Date.now();
 
   // Detailed logging – mirrors what App.tsx previously logged on the foreground thread
   DebugLogger.add(
@@ -137,54 +197,63 @@ export default async function notificationHeadlessTask(
       `sender: ${sender}`,
       `timestamp: ${notifData.timestamp}`,
       `key: ${notifData.key}`,
+      `actions: ${(notifData.actions ?? []).map(a => a.title).join(', ') || '(none)'}`,
     ].join('\n'),
   );
 
-  // 2. Load agent config
-  const configJson = await SchedulerModule.getAgentConfig();
-  if (!configJson) {
-    DebugLogger.add('error', TAG, 'No agent config found – cannot run sub-agent');
+  // 1b. Same key: identical re-posts are dropped, changed content is an update
+  const keyCheck = await checkNotificationKey(notifData.key, title || '', text || '', timestamp);
+  if (keyCheck.status === 'duplicate') {
+    DebugLogger.add('info', TAG, `Re-post of already handled notification ${notifData.key} – skipping`);
     return;
   }
-
-  const config: AgentConfig = JSON.parse(configJson);
-
-  // Check if notifications skill is enabled
-  if (!config.enabledSkillNames.includes('notifications')) {
-    DebugLogger.add('info', TAG, 'Notifications skill is disabled – skipping processing');
-    return;
+  const previousText = keyCheck.status === 'update' ? keyCheck.previousText : undefined;
+  if (previousText !== undefined) {
+    DebugLogger.add('info', TAG, `Update of notification ${notifData.key}`, `previous text: ${previousText}`);
   }
 
-  const lang = config.language || 'en-US';
-  const drivingMode = config.drivingMode ?? false;
+  const appName = APP_ALIAS_MAP[packageName] || packageName;
+  let historyId: string | undefined;
+  try {
+    const entry = await recordNotification({
+      key: notifData.key,
+      packageName,
+      appName,
+      sender: sender || '',
+      title: title || '',
+      text: text || '',
+      timestamp,
+    });
+    historyId = entry.id;
+  } catch (err) {
+    DebugLogger.add('error', TAG, `Failed to record notification in history: ${err}`);
+  }
 
-  if (!config.apiKey) {
-    DebugLogger.add('error', TAG, 'No API key in agent config');
+  // 2.–3. Load agent config, build LLM provider and credentials
+  const ctx = await loadHeadlessContext();
+  if (!ctx) {
+    await recordOutcome([historyId], 'skipped', {
+      detail: 'Not processed – notifications skill disabled or agent not configured',
+    });
     return;
   }
-
-  // 3. Build LLM provider
-  const provider: LLMProvider = createLLMProvider({
-    provider: config.provider,
-    apiKey: config.apiKey,
-    model: config.model || '',
-  });
-
-  const model = provider.getCurrentModel();
-  DebugLogger.add('info', TAG, `Provider: ${config.provider} (${model})`);
+  const { provider, lang, drivingMode } = ctx;
 
   // 4. Load rules from AsyncStorage and filter for this app
+  let allRules: NotificationRule[] = [];
   let rules: NotificationRule[] = [];
   try {
-    const allRules = await loadRules();
+    allRules = await loadRules();
     rules = getRulesForApp(allRules, packageName);
   } catch (err) {
     DebugLogger.add('error', TAG, `Failed to load rules: ${err}`);
+    await recordOutcome([historyId], 'error', { detail: `Failed to load rules: ${err}` });
     return;
   }
 
   if (rules.length === 0) {
     DebugLogger.add('info', TAG, `No enabled rules for ${packageName} – skipping`);
+    await recordOutcome([historyId], 'skipped', { detail: 'No enabled rule for this app' });
     return;
   }
 
@@ -195,50 +264,111 @@ export default async function notificationHeadlessTask(
     rules.map(r => `[${r.id}] ${r.condition || '(catch-all)'} → ${r.instruction}`).join('\n'),
   );
 
-  // 5. Map package name to display name and build payload
-  const appName = APP_ALIAS_MAP[packageName] || packageName;
+  // 4b. Deterministic pre-filters – rules that fail are dropped before any LLM call
+  let filterReasons: string[] = [];
+  try {
+    const prefiltered = await prefilterRules(rules, {
+      sender: sender || title || '',
+      title: title || '',
+      text: text || '',
+      timestamp,
+    });
+    const dropped = prefiltered.filter(p => !p.passed);
+    if (dropped.length > 0) {
+      DebugLogger.add(
+        'info',
+        TAG,
+        `Pre-filters dropped ${dropped.length} of ${rules.length} rule(s)`,
+        dropped.map(p => `[${p.rule.id}] ${p.reasons.join(', ')}`).join('\n'),
+      );
+      filterReasons = dropped.map(p => `[${p.rule.id}] ${p.reasons.join(', ')}`);
+    }
+    rules = prefiltered.filter(p => p.passed).map(p => p.rule);
+  } catch (err) {
+    DebugLogger.add('error', TAG, `Pre-filters failed – passing all rules to the sub-agent: ${err}`);
+  }
+
+  // 5. Digest rules hold the notification – they are summarised later
+  const digestRules = rules.filter(r => r.digest);
+  for (const rule of digestRules) {
+    try {
+      await addToDigest(rule.id, { sender: sender || '', title: title || '', text: text || '', timestamp });
+    } catch (err) {
+      DebugLogger.add('error', TAG, `Failed to hold notification for digest [${rule.id}]: ${err}`);
+    }
+  }
+  if (digestRules.length > 0) {
+    DebugLogger.add('info', TAG, `Held for digest: ${digestRules.map(r => r.id).join(', ')}`);
+  }
+  rules = rules.filter(r => !r.digest);
+
+  if (rules.length === 0) {
+    if (digestRules.length > 0) {
+      await recordOutcome([historyId], 'held', {
+        ruleId: digestRules[0].id,
+        detail: `Held for digest: ${digestRules.map(r => r.id).join(', ')}`,
+      });
+    } else {
+      await recordOutcome([historyId], 'filtered', { detail: filterReasons.join('\n') });
+    }
+    DebugLogger.add('info', TAG, `No rule left to run now for ${packageName} – skipping sub-agent`);
+    DebugFileLogger.writeSystemLog('LIFECYCLE', `✅ SannaNotificationTask finished – pre-filtered or held (${packageName})`);
+    return;
+  }
+
+  // 5b. Coalesce bursts – messages arriving while the sender's sub-agent runs
+  //     are processed together by the next run
+  const burst = await joinBurst(`${packageName}|${sender || title || ''}`, {
+    key: notifData.key,
+    title: title || '',
+    text: text || '',
+    timestamp,
+    previousText,
+    canReply: (notifData.actions ?? []).some(a => a.canReply),
+    ruleIds: rules.map(r => r.id),
+    historyId,
+  });
+  if (!burst) {
+    DebugLogger.add('info', TAG, `Queued behind the running sub-agent for "${sender || title}" – handled with the next run`);
+    DebugFileLogger.writeSystemLog('LIFECYCLE', `✅ SannaNotificationTask finished – coalesced (${packageName})`);
+    return;
+  }
+  const batch = burst.notifications;
+  if (batch.length > 1) {
+    // Union of the rules that passed for any message of the burst, in rule order
+    const burstRuleIds = new Set(batch.flatMap(n => n.ruleIds));
+    rules = allRules.filter(r => burstRuleIds.has(r.id));
+    DebugLogger.add('info', TAG, `Coalesced ${batch.length} notifications from "${sender || title}"`);
+  }
+  const latest = batch[batch.length - 1];
+  const burstHistoryIds = batch.map(n => n.historyId);
+
+  // 6. Build payload
   const isEmail = appName === 'Email' || appName === 'Gmail';
 
   const payload: NotificationPayload = {
     appName,
     sender: sender || title || '',
-    subject: isEmail ? (text || '') : '',
-    preview: isEmail ? '' : (text || ''),
+    subject: isEmail ? (latest.text || '') : '',
+    preview: isEmail ? '' : (latest.text || ''),
     packageName,
+    earlierMessages: batch.length > 1 ? batch.slice(0, -1).map(n => n.text || n.title) : undefined,
+    previousContent: batch[0].previousText,
+    key: latest.key,
+    canReply: latest.canReply,
   };
 
-  // 6. Set up credential manager (headless unlock – no biometric prompt)
-  const tokenStore = new TokenStore();
-  tokenStore.unlockForHeadless();
-  const credentialManager = new CredentialManager(tokenStore);
-
-  if (config.googleWebClientId) {
-    credentialManager.configureGoogleTokenRefresh(config.googleWebClientId);
-  }
-
   // 7. Run notification sub-agent
   try {
-    const soul = await SoulStore.getSoul();
-    const personalMemory = await PersonalMemoryStore.getMemory();
     DebugLogger.add('info', TAG, `Running sub-agent for: "${appName} – ${payload.sender}"`);
 
-    const result = await runNotificationSubAgent(
-      {
-        provider,
-        credentialManager,
-        enabledSkillNames: config.enabledSkillNames,
-        drivingMode,
-        language: lang,
-        soul,
-        personalMemory,
-        maxIterations: config.maxSubAgentIterations,
-      },
-      payload,
-      rules,
-    );
+    const result = await buildSubAgentConfig(ctx, `${appName} rule`)
+      .then(config => runNotificationSubAgent(config, payload, rules))
+      // Messages queued meanwhile are processed by the next run
+      .finally(burst.done);
 
     const resultText = result.content;
-    const isMaxIterationsReached = result.iterations >= (config.maxSubAgentIterations ?? 8);
+    const isMaxIterationsReached = result.iterations >= ctx.config.maxSubAgentIterations;
 
     // Silent tokens: skip UI output entirely
     const isSilent = resultText?.includes(SILENT_REPLY_TOKEN) || resultText?.includes(NO_MATCH_TOKEN);
@@ -248,7 +378,7 @@ export default async function notificationHeadlessTask(
       let messageToShow = resultText;
       if (isMaxIterationsReached || !messageToShow) {
         const rawError = isMaxIterationsReached
-          ? `Notification processing reached iteration limit (${result.iterations} iterations) and could not be completed. You can increase the iteration limit in Settings → Agent Iterations → Sub-Agent (App Rules & Scheduler).`
+          ? `Notification processing reached iteration limit (${result.iterations} iterations) and could not be completed. You can increase the iteration limit in Settings → Agent & Confirmations → Sub-Agent (App Rules & Scheduler).`
           : `Notification processing for "${packageName}" completed, but no output was generated.`;
         messageToShow = await formulateError({
           provider,
@@ -256,7 +386,11 @@ export default async function notificationHeadlessTask(
           rawError,
           drivingMode,
           language: lang,
+          usageSource: { type: 'notification', id: result.matchedRuleId },
         });
+        await recordOutcome(burstHistoryIds, 'error', { ruleId: result.matchedRuleId, detail: rawError });
+      } else {
+        await recordOutcome(burstHistoryIds, 'handled', { ruleId: result.matchedRuleId, detail: messageToShow });
       }
 
       // 9. Write result to pending queue first, then restore foreground.
@@ -282,19 +416,25 @@ export default async function notificationHeadlessTask(
       DebugFileLogger.writeSystemLog('LIFECYCLE', `✅ SannaNotificationTask finished (${packageName})`);
     } else if (isSilent) {
       // Silent reply – no condition matched or sub-agent decided output is not user-facing
-      const reason = resultText?.includes(NO_MATCH_TOKEN) ? 'no condition matched' : 'silent reply';
+      const noMatch = resultText?.includes(NO_MATCH_TOKEN);
+      const reason = noMatch ? 'no condition matched' : 'silent reply';
+      await recordOutcome(burstHistoryIds, noMatch ? 'no_match' : 'silent', {
+        ruleId: noMatch ? undefined : result.matchedRuleId,
+      });
       DebugLogger.add('info', TAG, `${reason} for "${packageName}" – no bubble shown`);
       DebugFileLogger.writeSystemLog('LIFECYCLE', `✅ SannaNotificationTask finished – ${reason} (${packageName})`);
     } else {
       // resultText is empty (shouldn't happen with tool-loop fix, but safety fallback)
       DebugLogger.add('info', TAG, `Sub-agent returned empty result for "${packageName}"`);
       const rawError = `Notification processing for "${packageName}" completed, but no output was generated.`;
+      await recordOutcome(burstHistoryIds, 'error', { ruleId: result.matchedRuleId, detail: rawError });
       const formattedError = await formulateError({
         provider,
         instruction: `Process notification from ${packageName}`,
         rawError,
         drivingMode,
         language: lang,
+        usageSource: { type: 'notification', id: result.matchedRuleId },
       });
       await ConversationStore.appendPending('assistant', formattedError).catch(() => {});
       
@@ -316,12 +456,14 @@ export default async function notificationHeadlessTask(
     const errMsg = err instanceof Error ? err.message : String(err);
     DebugFileLogger.writeSystemLog('LIFECYCLE', `❌ SannaNotificationTask crashed (${packageName}): ${errMsg}`);
     DebugLogger.add('error', TAG, `Sub-agent failed: ${errMsg}`);
+    await recordOutcome(burstHistoryIds, 'error', { detail: errMsg });
     const formattedError = await formulateError({
       provider,
       instruction: `Process notification from ${packageName}`,
       rawError: errMsg,
       drivingMode,
       language: lang,
+      usageSource: { type: 'notification' },
     });
     await ConversationStore.appendPending('assistant', formattedError).catch(() => {});
     
@@ -340,3 +482,100 @@ export default async function notificationHeadlessTask(
     await bringToForeground(TAG);
   }
 }
+
+// ── Digest delivery ───────────────────────────────────────────────────────────
+
+/**
+ * Summarise the held notifications of digest rules.
+ *
+ * @param trigger  `{ ruleId }` for one rule (its digest schedule fired) or
+ *                 `{ drivingEnded: true }` for all rules with `onDrivingEnd`
+ */
+export async function deliverNotificationDigests(
+  trigger: { ruleId: string } | { drivingEnded: true },
+): Promise<void> {
+  const allRules = await loadRules();
+  const counts = await getDigestCounts();
+  const rules = ('ruleId' in trigger
+    ? allRules.filter(r => r.id === trigger.ruleId && r.digest)
+    : allRules.filter(r => r.digest?.onDrivingEnd)
+  ).filter(r => (counts[r.id] ?? 0) > 0);
+  if (rules.length === 0) {
+    return;
+  }
+
+  // Held notifications stay stored if they cannot be processed now
+  const ctx = await loadHeadlessContext();
+  if (!ctx) {
+    return;
+  }
+  let delivered = false;
+
+  for (const rule of rules) {
+    // Removed only once summarised – a failed run keeps them for the next digest
+    const items = await peekDigest(rule.id);
+    if (items.length === 0) {
+      continue;
+    }
+
+    const reason = 'ruleId' in trigger
+      ? `scheduled digest at ${rule.digest?.time}`
+      : 'driving mode was switched off';
+    const title = `${rule.appLabel} – digest`;
+    let messageToShow: string | null = null;
+
+    try {
+      const result = await runNotificationDigestAgent(
+        await buildSubAgentConfig(ctx, `${rule.appLabel} digest`),
+        rule,
+        items,
+        reason,
+      );
+      const isSilent = result.content.includes(SILENT_REPLY_TOKEN) || result.content.includes(NO_MATCH_TOKEN);
+      if (isSilent) {
+        DebugLogger.add('info', TAG, `Digest ${rule.id}: silent reply – no bubble shown`);
+        await removeFromDigest(rule.id, items);
+      } else if (!result.content || result.iterations >= ctx.config.maxSubAgentIterations) {
+        messageToShow = await formulateError({
+          provider: ctx.provider,
+          instruction: `Summarise ${items.length} held ${rule.appLabel} notifications`,
+          rawError: result.content
+            ? `Notification digest reached iteration limit (${result.iterations} iterations) and could not be completed.`
+            : 'Notification digest completed, but no output was generated.',
+          drivingMode: ctx.drivingMode,
+          language: ctx.lang,
+          usageSource: { type: 'notification', id: rule.id },
+        });
+      } else {
+        messageToShow = result.content;
+        await removeFromDigest(rule.id, items);
+      }
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      DebugLogger.add('error', TAG, `Digest ${rule.id} failed: ${errMsg}`);
+      messageToShow = await formulateError({
+        provider: ctx.provider,
+        instruction: `Summarise ${items.length} held ${rule.appLabel} notifications`,
+        rawError: errMsg,
+        drivingMode: ctx.drivingMode,
+        language: ctx.lang,
+        usageSource: { type: 'notification', id: rule.id },
+      });
+    }
+
+    if (messageToShow) {
+      await ConversationStore.appendPending('assistant', messageToShow).catch(() => {});
+      try {
+        await addEntry({ category: 'Notifications', title, details: messageToShow });
+      } catch (err) {
+        // Non-fatal: journal entry creation failed
+        DebugLogger.add('error', TAG, `Failed to create journal entry: ${err}`);
+      }
+      delivered = true;
+    }
+  }
+
+  if (delivered) {
+    await bringToForeground(TAG);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * NotificationHistoryStore – Persistent log of forwarded notifications
+ *
+ * Every notification the native listener forwards to the headless task is
+ * recorded here together with what happened to it: which rule handled it,
+ * whether the pre-filters dropped it, whether it was held for a digest, etc.
+ * Unlike the native buffer (last 50 notifications), the history is kept for
+ * MAX_AGE_DAYS and can be searched by app, sender, text and time – by the
+ * agent (notifications tool, action search_history) and in
+ * NotificationListenersScreen.
+ *
+ * Size-bounded: at most MAX_ENTRIES entries; text is clipped to
+ * MAX_TEXT_CHARS. Writes are serialised because several headless tasks
+ * may record at the same time.
+ *
+ * Persistence: AsyncStorage key 'sanna_notification_history'.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createSerialQueue } from './serial-queue';
+
+const STORAGE_KEY = 'sanna_notification_history';
+
+/** Max entries kept (oldest are dropped first) */
+const MAX_ENTRIES = 500;
+
+/** Entries older than this are dropped */
+const MAX_AGE_DAYS = 30;
+
+/** Title, text and detail are clipped to this many characters */
+const MAX_TEXT_CHARS = 1000;
+
+// ── Data model ───────────────────────────────────────────────────────────────
+
+/**
+ * What happened to a notification:
+ *   pending   – recorded, processing not finished (or the task was killed)
+ *   handled   – a rule ran and reported to the user (messages of a burst
+ *               share the outcome of the run that handled them together)
+ *   silent    – a rule ran without user-facing output
+ *   no_match  – no rule condition matched
+ *   filtered  – the pre-filters dropped every rule
+ *   held      – held for a digest
+ *   skipped   – not processed (no enabled rule, skill disabled, no API key)
+ *   error     – processing failed
+ */
+export type NotificationOutcome =
+  | 'pending'
+  | 'handled'
+  | 'silent'
+  | 'no_match'
+  | 'filtered'
+  | 'held'
+  | 'skipped'
+  | 'error';
+
+export interface NotificationHistoryEntry {
+  /** Unique entry ID */
+  id: string;
+  /** Android notification key */
+  key: string;
+  packageName: string;
+  /** Human-readable app name (e.g. "WhatsApp") */
+  appName: string;
+  sender: string;
+  title: string;
+  text: string;
+  /** When the notification was posted (epoch ms) */
+  timestamp: number;
+  outcome: NotificationOutcome;
+  /** ID of the rule that handled the notification (handled / silent / held) */
+  ruleId?: string;
+  /** Result shown to the user, filter reasons or error message */
+  detail?: string;
+}
+
+export interface HistoryQuery {
+  /** Part of the app name or package name (case-insensitive) */
+  app?: string;
+  /** Part of the sender name (case-insensitive) */
+  sender?: string;
+  /** Words that must all appear in app name, sender, title or text (case-insensitive) */
+  text?: string;
+  /** Only entries posted at or after this time (epoch ms) */
+  since?: number;
+  /** Only entries posted at or before this time (epoch ms) */
+  until?: number;
+  outcome?: NotificationOutcome;
+  /** Max entries returned (default: all) */
+  limit?: number;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function generateId(): string {
+  return `notif_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function clip(text: string): string {
+  return text.length > MAX_TEXT_CHARS ? `${text.slice(0, MAX_TEXT_CHARS)}…` : text;
+}
+
+/** Runs read-modify-writes after all previously queued ones */
+const serialized = createSerialQueue();
+
+async function loadEntries(): Promise<NotificationHistoryEntry[]> {
+  try {
+    const json = await AsyncStorage.getItem(STORAGE_KEY);
+    return json ? (JSON.parse(json) as NotificationHistoryEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveEntries(entries: NotificationHistoryEntry[]): Promise<void> {
+  const cutoff = Date.now() - MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+  const kept = entries.filter(e => e.timestamp >= cutoff).slice(-MAX_ENTRIES);
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+}
+
+// ── Store API ────────────────────────────────────────────────────────────────
+
+/**
+ * Record a forwarded notification (outcome 'pending' unless given).
+ * Returns the created entry.
+ */
+export function recordNotification(
+  partial: Omit<NotificationHistoryEntry, 'id' | 'outcome'> & { outcome?: NotificationOutcome },
+): Promise<NotificationHistoryEntry> {
+  return serialized(async () => {
+    const entries = await loadEntries();
+    const entry: NotificationHistoryEntry = {
+      ...partial,
+      id: generateId(),
+      outcome: partial.outcome ?? 'pending',
+      title: clip(partial.title),
+      text: clip(partial.text),
+    };
+    entries.push(entry);
+    await saveEntries(entries);
+    return entry;
+  });
+}
+
+/**
+ * Set the outcome of recorded entries (by id).
+ */
+export function setOutcome(
+  ids: string[],
+  outcome: NotificationOutcome,
+  extra?: { ruleId?: string; detail?: string },
+): Promise<void> {
+  return serialized(async () => {
+    const entries = await loadEntries();
+    let changed = false;
+    for (const entry of entries) {
+      if (!ids.includes(entry.id)) continue;
+      entry.outcome = outcome;
+      if (extra?.ruleId !== undefined) entry.ruleId = extra.ruleId;
+      if (extra?.detail !== undefined) entry.detail = clip(extra.detail);
+      changed = true;
+    }
+    if (changed) await saveEntries(entries);
+  });
+}
+
+/**
+ * Load entries matching `query`, newest first.
+ */
+export async function queryHistory(query: HistoryQuery = {}): Promise<NotificationHistoryEntry[]> {
+  const entries = await loadEntries();
+  const app = query.app?.trim().toLowerCase();
+  const sender = query.sender?.trim().toLowerCase();
+  const words = (query.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matches = entries.filter(e => {
+    if (app && !e.packageName.toLowerCase().includes(app) && !e.appName.toLowerCase().includes(app)) return false;
+    if (sender && !e.sender.toLowerCase().includes(sender)) return false;
+    if (query.since !== undefined && e.timestamp < query.since) return false;
+    if (query.until !== undefined && e.timestamp > query.until) return false;
+    if (query.outcome && e.outcome !== query.outcome) return false;
+    if (words.length > 0) {
+      const haystack = `${e.appName}\n${e.sender}\n${e.title}\n${e.text}`.toLowerCase();
+      if (!words.every(w => haystack.includes(w))) return false;
+    }
+    return true;
+  });
+
+  matches.sort((a, b) => b.timestamp - a.timestamp);
+  return query.limit ? matches.slice(0, query.limit) : matches;
+}
+
+/**
+ * Delete all entries.
+ */
+export function clearHistory(): Promise<void> {
+  return serialized(() => AsyncStorage.removeItem(STORAGE_KEY));
+}
@@ -0,0 +1,345 @@
+/**
+ * NotificationPrefilter – Deterministic rule matching before the LLM runs
+ *
+ * A rule's optional `filters` (see NotificationRuleFilters) are checked
+ * without any LLM call:
+ *   - senderEquals / senderContains: case-insensitive; a filter value that
+ *     is exactly a contact's name also matches that contact's phone numbers
+ *     and vice versa (looked up via searchContacts from QueryContactsTool)
+ *   - titleRegex / textRegex: case-insensitive regular expressions
+ *   - keywords: at least one must appear in title or text
+ *   - quietHours: notifications inside the window are dropped
+ *   - rateLimit: at most N notifications per sender and window reach the LLM
+ *
+ * Only rules that pass go on to the sub-agent, which still evaluates the
+ * natural-language `condition`. If no rule passes, no sub-agent runs.
+ *
+ * Rate-limit state: AsyncStorage key 'sanna_notification_rate_limits'.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { searchContacts } from '../tools/query-contacts-tool';
+import type { NotificationRule, NotificationRuleFilters } from './notification-rules-store';
+import { createSerialQueue } from './serial-queue';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** The notification fields the filters look at */
+export interface PrefilterInput {
+  sender: string;
+  title: string;
+  text: string;
+  timestamp: number;
+}
+
+export interface PrefilterResult {
+  rule: NotificationRule;
+  passed: boolean;
+  /** Why the rule passed (filters satisfied) or the first filter that failed */
+  reasons: string[];
+}
+
+/** Timestamps of forwarded notifications: ruleId → sender → epoch ms[] */
+type RateLimitState = Record<string, Record<string, number[]>>;
+
+const RATE_LIMIT_KEY = 'sanna_notification_rate_limits';
+
+/** Max contacts fetched per sender lookup */
+const CONTACT_LOOKUP_LIMIT = 5;
+
+/** Phone numbers match if their last digits agree (ignores +43 / 0 prefixes) */
+const PHONE_SUFFIX_DIGITS = 8;
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+/** Whether `time` is a 24h "HH:mm" time */
+export function isValidTime(time: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+}
+
+/** Check filters for invalid values; returns an error message or null */
+export function validateFilters(filters: NotificationRuleFilters): string | null {
+  for (const [field, pattern] of [['title_regex', filters.titleRegex], ['text_regex', filters.textRegex]]) {
+    if (!pattern) continue;
+    try {
+      new RegExp(pattern, 'i').test('');
+    } catch (err) {
+      return `Invalid ${field} "${pattern}": ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+  if (filters.quietHours) {
+    const { start, end } = filters.quietHours;
+    if (!isValidTime(start) || !isValidTime(end)) {
+      return 'Quiet hours must be given as "HH:mm" (e.g. start "22:00", end "07:00")';
+    }
+  }
+  if (filters.rateLimit) {
+    const { max, windowMinutes } = filters.rateLimit;
+    if (!Number.isInteger(max) || max < 1 || !Number.isInteger(windowMinutes) || windowMinutes < 1) {
+      return 'Rate limit needs a positive max count and window in minutes';
+    }
+  }
+  return null;
+}
+
+/** Whether any filter is set */
+export function hasFilters(filters: NotificationRuleFilters | undefined): boolean {
+  if (!filters) return false;
+  return Boolean(
+    filters.senderEquals?.length || filters.senderContains?.length || filters.keywords?.length
+      || filters.titleRegex || filters.textRegex || filters.quietHours || filters.rateLimit,
+  );
+}
+
+/** One-line description of the filters, e.g. for list_subscriptions */
+export function describeFilters(filters: NotificationRuleFilters | undefined): string {
+  if (!filters) return '';
+  const parts: string[] = [];
+  if (filters.senderEquals?.length) parts.push(`sender is ${filters.senderEquals.join(' / ')}`);
+  if (filters.senderContains?.length) parts.push(`sender contains ${filters.senderContains.join(' / ')}`);
+  if (filters.titleRegex) parts.push(`title matches /${filters.titleRegex}/`);
+  if (filters.textRegex) parts.push(`text matches /${filters.textRegex}/`);
+  if (filters.keywords?.length) parts.push(`mentions ${filters.keywords.join(' / ')}`);
+  if (filters.quietHours) parts.push(`not during ${filters.quietHours.start}–${filters.quietHours.end}`);
+  if (filters.rateLimit) {
+    parts.push(`max ${filters.rateLimit.max} per sender per ${filters.rateLimit.windowMinutes} min`);
+  }
+  return parts.join('; ');
+}
+
+// ── Matchers ─────────────────────────────────────────────────────────────────
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function phoneSuffix(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 6 ? digits.slice(-PHONE_SUFFIX_DIGITS) : null;
+}
+
+/**
+ * Names and phone-number suffixes a sender string is known by.
+ * searchContacts() matches substrings, so only contacts whose name equals
+ * the value are used – "Anna" must not pick up the numbers of "Annabell".
+ * Contacts are looked up once per value and cached for the current batch.
+ */
+async function identitiesOf(value: string, cache: Map<string, string[]>): Promise<string[]> {
+  const key = normalize(value);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const identities = [key];
+  const suffix = phoneSuffix(value);
+  if (suffix) identities.push(suffix);
+  // Phone numbers cannot be searched by name – only names are looked up
+  if (!suffix && key.length >= 2) {
+    try {
+      const contacts = await searchContacts(value, CONTACT_LOOKUP_LIMIT);
+      for (const contact of contacts) {
+        if (normalize(contact.name) !== key) continue;
+        const numberSuffix = phoneSuffix(contact.number);
+        if (numberSuffix) identities.push(numberSuffix);
+      }
+    } catch {
+      // No contacts permission or module – plain text matching only
+    }
+  }
+  cache.set(key, identities);
+  return identities;
+}
+
+async function senderEquals(sender: string, value: string, cache: Map<string, string[]>): Promise<boolean> {
+  if (normalize(sender) === normalize(value)) return true;
+  const [senderIds, valueIds] = await Promise.all([identitiesOf(sender, cache), identitiesOf(value, cache)]);
+  return valueIds.some(id => senderIds.includes(id));
+}
+
+async function senderContains(sender: string, value: string, cache: Map<string, string[]>): Promise<boolean> {
+  const needle = normalize(value);
+  if (normalize(sender).includes(needle)) return true;
+  // e.g. filter "1234567" and sender "Anna Berger" saved with +43 660 1234567
+  const senderIds = await identitiesOf(sender, cache);
+  return senderIds.some(id => id.includes(needle));
+}
+
+/** Whether `timestamp` (device time) lies in the quiet window; windows may wrap midnight */
+export function isInQuietHours(timestamp: number, start: string, end: string): boolean {
+  const toMinutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+  };
+  const d = new Date(timestamp);
+  const minute = d.getHours() * 60 + d.getMinutes();
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+  return from <= to ? minute >= from && minute < to : minute >= from || minute < to;
+}
+
+/**
+ * Check all stateless filters of one rule.
+ * Returns the satisfied filters, or the failed one with `passed: false`.
+ */
+async function checkFilters(
+  filters: NotificationRuleFilters,
+  input: PrefilterInput,
+  cache: Map<string, string[]>,
+): Promise<{ passed: boolean; reasons: string[] }> {
+  const reasons: string[] = [];
+  const fail = (reason: string) => ({ passed: false, reasons: [reason] });
+
+  if (filters.quietHours) {
+    const { start, end } = filters.quietHours;
+    if (isInQuietHours(input.timestamp, start, end)) {
+      return fail(`quiet hours ${start}–${end}`);
+    }
+    reasons.push(`outside quiet hours ${start}–${end}`);
+  }
+
+  if (filters.titleRegex) {
+    if (!new RegExp(filters.titleRegex, 'i').test(input.title)) {
+      return fail(`title does not match /${filters.titleRegex}/`);
+    }
+    reasons.push(`title matches /${filters.titleRegex}/`);
+  }
+
+  if (filters.textRegex) {
+    if (!new RegExp(filters.textRegex, 'i').test(input.text)) {
+      return fail(`text does not match /${filters.textRegex}/`);
+    }
+    reasons.push(`text matches /${filters.textRegex}/`);
+  }
+
+  if (filters.keywords?.length) {
+    const haystack = normalize(`${input.title}\n${input.text}`);
+    const found = filters.keywords.find(k => haystack.includes(normalize(k)));
+    if (!found) {
+      return fail(`none of the keywords ${filters.keywords.join(', ')}`);
+    }
+    reasons.push(`mentions "${found}"`);
+  }
+
+  if (filters.senderEquals?.length) {
+    let match: string | undefined;
+    for (const value of filters.senderEquals) {
+      if (await senderEquals(input.sender, value, cache)) {
+        match = value;
+        break;
+      }
+    }
+    if (!match) {
+      return fail(`sender "${input.sender}" is not ${filters.senderEquals.join(' / ')}`);
+    }
+    reasons.push(`sender is ${match}`);
+  }
+
+  if (filters.senderContains?.length) {
+    let match: string | undefined;
+    for (const value of filters.senderContains) {
+      if (await senderContains(input.sender, value, cache)) {
+        match = value;
+        break;
+      }
+    }
+    if (!match) {
+      return fail(`sender "${input.sender}" does not contain ${filters.senderContains.join(' / ')}`);
+    }
+    reasons.push(`sender contains ${match}`);
+  }
+
+  return { passed: true, reasons };
+}
+
+// ── Rate limit state ─────────────────────────────────────────────────────────
+
+/** Runs read-modify-writes after all previously queued ones */
+const serialized = createSerialQueue();
+
+async function loadRateLimits(): Promise<RateLimitState> {
+  try {
+    const json = await AsyncStorage.getItem(RATE_LIMIT_KEY);
+    return json ? (JSON.parse(json) as RateLimitState) : {};
+  } catch {
+    return {};
+  }
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Run the deterministic filters of all `rules` against one notification.
+ * Rate-limit quota is only consumed by rules that pass every other filter,
+ * and only when `consumeQuota` is true (false for dry runs).
+ */
+export async function prefilterRules(
+  rules: NotificationRule[],
+  input: PrefilterInput,
+  consumeQuota = true,
+): Promise<PrefilterResult[]> {
+  const cache = new Map<string, string[]>();
+  const results: PrefilterResult[] = [];
+
+  for (const rule of rules) {
+    const filters = rule.filters;
+    if (!hasFilters(filters)) {
+      results.push({ rule, passed: true, reasons: [] });
+      continue;
+    }
+
+    let check: { passed: boolean; reasons: string[] };
+    try {
+      check = await checkFilters(filters!, input, cache);
+    } catch (err) {
+      // e.g. a regex saved before validation existed
+      check = { passed: false, reasons: [`filter error: ${err instanceof Error ? err.message : String(err)}`] };
+    }
+    results.push({ rule, ...check });
+  }
+
+  const limited = results.filter(r => r.passed && r.rule.filters?.rateLimit);
+  if (limited.length > 0) {
+    // Concurrent notifications must not both read the old counters
+    await serialized(() => applyRateLimits(limited, input, consumeQuota));
+  }
+
+  return results;
+}
+
+/** Check (and consume) the rate limit of every passed rule that has one */
+async function applyRateLimits(
+  results: PrefilterResult[],
+  input: PrefilterInput,
+  consumeQuota: boolean,
+): Promise<void> {
+  const rateLimits = await loadRateLimits();
+  let rateLimitsChanged = false;
+
+  for (const result of results) {
+    const { rule } = result;
+    const { max, windowMinutes } = rule.filters!.rateLimit!;
+    const senderKey = normalize(input.sender) || '(unknown)';
+    const cutoff = input.timestamp - windowMinutes * 60_000;
+    const ruleState = rateLimits[rule.id] ?? {};
+    const recent = (ruleState[senderKey] ?? []).filter(ts => ts > cutoff);
+    if (recent.length >= max) {
+      result.passed = false;
+      result.reasons = [`rate limit: ${recent.length} from this sender in the last ${windowMinutes} min`];
+      continue;
+    }
+    result.reasons.push(`within rate limit (${recent.length + 1}/${max})`);
+    if (consumeQuota) {
+      // Forget senders whose window has passed
+      const pruned: Record<string, number[]> = {};
+      for (const key of Object.keys(ruleState)) {
+        const kept = ruleState[key].filter(ts => ts > cutoff);
+        if (kept.length > 0) pruned[key] = kept;
+      }
+      pruned[senderKey] = [...recent, input.timestamp];
+      rateLimits[rule.id] = pruned;
+      rateLimitsChanged = true;
+    }
+  }
+
+  if (rateLimitsChanged) {
+    await AsyncStorage.setItem(RATE_LIMIT_KEY, JSON.stringify(rateLimits)).catch(() => {});
+  }
+}
@@ -5,29 +5,63 @@
  * Each rule has:
  *   - An app (package name) – cheap native-level filter
  *   - An instruction (what the sub-agent should execute)
+ *   - Optional structured filters (sender, regex, keywords, quiet hours,
+ *     rate limit) – deterministic, checked before any LLM call
  *   - An optional condition (natural language – evaluated by the LLM)
+ *   - An optional digest setting – matches are held and summarised later
+ *     instead of being handled one by one (notification-digest.ts)
  *
  * Filtering logic:
  *   1. The Android NotificationListenerService forwards only notifications
  *      from subscribed package names (derived from enabled rules).
- *   2. On the JS side, all enabled rules for that app are passed to a
- *      single sub-agent which uses the LLM to evaluate each rule's
- *      condition and execute the first matching instruction.
+ *   2. On the JS side, the structured filters of all enabled rules for that
+ *      app are checked (notification-prefilter.ts). Rules that fail are
+ *      dropped; if none are left, no sub-agent runs.
+ *   3. The remaining rules are passed to a single sub-agent which uses the
+ *      LLM to evaluate each rule's condition and execute the first matching
+ *      instruction.
  *
  * The unique set of package names from all enabled rules is synced
  * to the native NotificationListenerService so Android knows which
- * apps to forward.
+ * apps to forward. Digest schedules are synced the same way.
  *
  * Persistence: AsyncStorage (key "sanna_notification_rules"), which is
  * included in Google Auto Backup via backup_rules.xml.
  */
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getNotificationListenerModule } from '../native/NotificationListenerModule';
+import { syncDigests } from './notification-digest';
 
 const STORAGE_KEY = 'sanna_notification_rules';
 
 // ── Data model ───────────────────────────────────────────────────────────────
 
+/** Deterministic pre-filters of a rule – all set filters must match */
+export interface NotificationRuleFilters {
+  /** Sender equals one of these (case-insensitive; contact names also match their numbers) */
+  senderEquals?: string[];
+  /** Sender contains one of these (case-insensitive; also checked against the sender's contact name) */
+  senderContains?: string[];
+  /** Case-insensitive regular expression the title must match */
+  titleRegex?: string;
+  /** Case-insensitive regular expression the text must match */
+  textRegex?: string;
+  /** At least one of these must appear in title or text (case-insensitive) */
+  keywords?: string[];
+  /** Notifications in this daily window ("HH:mm", device time, may wrap midnight) are dropped */
+  quietHours?: { start: string; end: string };
+  /** At most `max` notifications per sender within `windowMinutes` are processed */
+  rateLimit?: { max: number; windowMinutes: number };
+}
+
+/** When held notifications of a digest rule are summarised – at least one must be set */
+export interface NotificationRuleDigest {
+  /** Daily delivery time ("HH:mm", device time) */
+  time?: string;
+  /** Deliver when driving mode is switched off */
+  onDrivingEnd?: boolean;
+}
+
 export interface NotificationRule {
   /** Unique rule ID */
   id: string;
@@ -48,6 +82,16 @@ export interface NotificationRule {
    * Example: "The sender is my team lead" or "The message mentions 'urgent'"
    */
   condition: string;
+  /** Optional deterministic pre-filters, checked before the LLM runs */
+  filters?: NotificationRuleFilters;
+  /** If set, matches are held for a digest instead of running the instruction right away */
+  digest?: NotificationRuleDigest;
+  /**
+   * Replies to the handled notification skip confirmation (except under the
+   * 'always' policy). Set in the app only – the notifications tool cannot
+   * change it, so notification text cannot switch it on.
+   */
+  autoReply?: boolean;
   /** When the rule was created */
   created_at: string;
 }
@@ -74,12 +118,14 @@ export async function loadRules(): Promise<NotificationRule[]> {
 }
 
 /**
- * Persist all rules to storage and sync the package-name allowlist
- * to the native Android NotificationListenerService.
+ * Persist all rules to storage, sync the package-name allowlist
+ * to the native Android NotificationListenerService and update the
+ * digest schedules.
  */
 export async function saveRules(rules: NotificationRule[]): Promise<void> {
   await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
   await syncNativeAllowlist(rules);
+  await syncDigests(rules);
 }
 
 /**
@@ -105,7 +151,7 @@ export async function addRule(
  */
 export async function updateRule(
   id: string,
-  updates: Partial<Pick<NotificationRule, 'instruction' | 'condition' | 'enabled'>>,
+  updates: Partial<Pick<NotificationRule, 'instruction' | 'condition' | 'enabled' | 'filters' | 'digest' | 'autoReply'>>,
 ): Promise<NotificationRule | null> {
   const rules = await loadRules();
   const idx = rules.findIndex(r => r.id === id);
@@ -140,7 +186,7 @@ export async function deleteRulesForApp(packageName: string): Promise<number> {
 
 /**
  * Get all enabled rules for a given package name.
- * These are the candidate rules that will be evaluated by the LLM.
+ * These are the candidate rules for the pre-filters and the LLM.
  */
 export function getRulesForApp(
   rules: NotificationRule[],
@@ -157,6 +203,7 @@ export function getRulesForApp(
 export async function syncOnStartup(): Promise<void> {
   const rules = await loadRules();
   await syncNativeAllowlist(rules);
+  await syncDigests(rules);
 }
 
 // ── Native sync ──────────────────────────────────────────────────────────────
@@ -4,10 +4,15 @@
  * Each notification gets its own sub-agent with a dedicated tool loop,
  * independent from the main ConversationPipeline. This means:
  *   - The main pipeline stays free for user interaction
- *   - Multiple notifications are queued and processed sequentially
+ *   - Multiple notifications are queued and processed sequentially; a burst
+ *     from one sender is handled in a single run (notification-batching.ts)
+ *   - Digest rules get one run for all held notifications
+ *     (runNotificationDigestAgent)
  *   - The LLM evaluates which rule(s) match the notification based on
  *     each rule's natural-language condition, then executes the matching
  *     rule's instruction – no hardcoded string matching
+ *   - With `dryRunCalls` set, side-effect tools are stubbed and every call
+ *     is recorded (rule tester, notification-dry-run.ts)
  */
 import { SkillLoader } from './skill-loader';
 import { createToolRegistry } from './create-tool-registry';
@@ -17,7 +22,11 @@ import { DebugLogger } from './debug-logger';
 import type { LLMProvider, Message } from '../llm/types';
 import type { CredentialManager } from '../permissions/credential-manager';
 import type { NotificationRule } from './notification-rules-store';
-import { SILENT_REPLY_TOKEN, NO_MATCH_TOKEN } from './tokens';
+import { SILENT_REPLY_TOKEN, NO_MATCH_TOKEN, MATCHED_RULE_PREFIX, MATCH_REASON_PREFIX } from './tokens';
+import type { ConfirmToolCall, ToolConfirmationPolicy } from './tool-confirmation';
+import type { ToolRegistry } from './tool-registry';
+import type { DigestItem } from './notification-digest';
+import { buildDryRunRegistry, type DryRunToolCall } from './dry-run-registry';
 
 const TAG = 'NotifAgent';
 
@@ -33,6 +42,12 @@ export interface NotificationSubAgentConfig {
   personalMemory?: string;
   /** Maximum number of tool loop iterations (default: 8) */
   maxIterations?: number;
+  /** Asked before risky tool calls run (see createHeadlessConfirmation) */
+  confirmToolCall?: ConfirmToolCall;
+  /** Policy behind confirmToolCall – under 'always' even auto-reply rules ask */
+  confirmationPolicy?: ToolConfirmationPolicy;
+  /** Dry run: side-effect tools are stubbed and every tool call is appended here */
+  dryRunCalls?: DryRunToolCall[];
 }
 
 export interface NotificationPayload {
@@ -41,49 +56,28 @@ export interface NotificationPayload {
   subject: string;
   preview: string;
   packageName: string;
+  /** Earlier messages from the same sender, coalesced into this run (oldest first) */
+  earlierMessages?: string[];
+  /** What the notification showed before, when this is an update of an already handled one */
+  previousContent?: string;
+  /** Notification key – for the notification_action tool */
+  key?: string;
+  /** Whether the notification can be answered in place (notification_action "reply") */
+  canReply?: boolean;
 }
 
-// ── Sub-agent execution ───────────────────────────────────────────────────
-
-/**
- * Run a notification sub-agent.
- *
- * @param config      Agent configuration (provider, tools, language, etc.)
- * @param notification  The incoming notification data
- * @param rules       All enabled rules for this notification's app.
- *                    The LLM evaluates each rule's condition and executes
- *                    the first matching instruction.
- */
-export interface NotificationSubAgentResult {
-  content: string;
-  iterations: number;
-}
+// ── Shared setup ──────────────────────────────────────────────────────────
 
-export async function runNotificationSubAgent(
+/** Tool registry and system prompt for a notification sub-agent run */
+async function prepareSubAgent(
   config: NotificationSubAgentConfig,
-  notification: NotificationPayload,
-  rules: NotificationRule[],
-): Promise<NotificationSubAgentResult> {
-  const { provider, credentialManager, enabledSkillNames, drivingMode, language, soul, personalMemory, maxIterations } = config;
-
-  DebugLogger.add(
-    'info',
-    TAG,
-    `▶ Processing: ${notification.appName} – ${notification.sender}`,
-    [
-      `Rules (${rules.length}):`,
-      ...rules.map((r, i) =>
-        `  ${i + 1}. [${r.id}] ${r.condition ? `IF: ${r.condition}` : '(catch-all)'} → ${r.instruction}`,
-      ),
-      `---`,
-      `Notification: ${JSON.stringify(notification, null, 2)}`,
-    ].join('\n'),
-  );
+): Promise<{ toolRegistry: ToolRegistry; systemPrompt: string }> {
+  const { credentialManager, enabledSkillNames, drivingMode, language, soul, personalMemory } = config;
 
   // 1. Create tool registry (TTS available, but only use if explicitly requested; scheduler+notifications included so sub-agent can self-deactivate)
   DebugLogger.add('info', TAG, 'Creating tool registry…');
   const skillLoader = new SkillLoader();
-  const toolRegistry = await createToolRegistry({
+  let toolRegistry = await createToolRegistry({
     credentialManager,
     skillLoader,
     includeTts: true, // TTS available, but only use if explicitly requested by user
@@ -93,6 +87,9 @@ export async function runNotificationSubAgent(
   });
 
   toolRegistry.removeDisabledSkillTools(skillLoader, enabledSkillNames);
+  if (config.dryRunCalls) {
+    toolRegistry = buildDryRunRegistry(toolRegistry, config.dryRunCalls);
+  }
 
   const toolNames = toolRegistry.list();
   DebugLogger.add(
@@ -118,6 +115,102 @@ export async function runNotificationSubAgent(
     systemPrompt.slice(0, 500) + (systemPrompt.length > 500 ? '\n…(truncated)' : ''),
   );
 
+  return { toolRegistry, systemPrompt };
+}
+
+// ── Sub-agent execution ───────────────────────────────────────────────────
+
+/**
+ * Run a notification sub-agent.
+ *
+ * @param config      Agent configuration (provider, tools, language, etc.)
+ * @param notification  The incoming notification data
+ * @param rules       All enabled rules for this notification's app.
+ *                    The LLM evaluates each rule's condition and executes
+ *                    the first matching instruction.
+ */
+export interface NotificationSubAgentResult {
+  content: string;
+  iterations: number;
+  /** ID of the rule the sub-agent executed, if known (not set for NO_MATCH) */
+  matchedRuleId?: string;
+  /** Dry run only: why the rule matched or none did */
+  matchReason?: string;
+}
+
+/** Remove the first line starting with `prefix`; returns its value and the rest */
+function takePrefixedLine(content: string, prefix: string): { content: string; value?: string } {
+  const lines = content.split('\n');
+  const index = lines.findIndex(line => line.trim().startsWith(prefix));
+  if (index < 0) return { content };
+  const value = lines[index].trim().slice(prefix.length).trim();
+  lines.splice(index, 1);
+  return { content: lines.join('\n').trim(), value };
+}
+
+/**
+ * Strip the MATCHED_RULE_PREFIX and MATCH_REASON_PREFIX lines from the result
+ * and return what they name. A single catch-all rule is always the executed one.
+ */
+function extractMatchedRule(
+  content: string,
+  rules: NotificationRule[],
+): Pick<NotificationSubAgentResult, 'content' | 'matchedRuleId' | 'matchReason'> {
+  const rule = takePrefixedLine(content, MATCHED_RULE_PREFIX);
+  const reason = takePrefixedLine(rule.content, MATCH_REASON_PREFIX);
+  let matchedRuleId = rules.find(r => r.id === rule.value)?.id;
+  if (!matchedRuleId && rules.length === 1 && !reason.content.includes(NO_MATCH_TOKEN)) {
+    matchedRuleId = rules[0].id;
+  }
+  return { content: reason.content, matchedRuleId, matchReason: reason.value || undefined };
+}
+
+/**
+ * Rules the user opted in to auto-reply (NotificationRule.autoReply) may
+ * reply to the notification being handled without confirmation. The
+ * notification text is not trusted, so this needs every rule of the run to
+ * have opted in (the LLM picks the rule) and never applies under 'always'.
+ * Replies to other notifications still ask as configured.
+ */
+function allowRuleReplies(
+  confirmToolCall: ConfirmToolCall | undefined,
+  policy: ToolConfirmationPolicy | undefined,
+  key: string | undefined,
+  rules: NotificationRule[],
+): ConfirmToolCall | undefined {
+  if (!confirmToolCall || !key || policy === 'always' || !rules.every(r => r.autoReply)) {
+    return confirmToolCall;
+  }
+  return request =>
+    request.toolName === 'notification_action' && request.args.action === 'reply' && request.args.key === key
+      ? Promise.resolve('approved')
+      : confirmToolCall(request);
+}
+
+export async function runNotificationSubAgent(
+  config: NotificationSubAgentConfig,
+  notification: NotificationPayload,
+  rules: NotificationRule[],
+): Promise<NotificationSubAgentResult> {
+  const { provider, language, maxIterations, confirmToolCall, confirmationPolicy, dryRunCalls } = config;
+
+  DebugLogger.add(
+    'info',
+    TAG,
+    `${dryRunCalls ? '▶ Dry run' : '▶ Processing'}: ${notification.appName} – ${notification.sender}`,
+    [
+      `Rules (${rules.length}):`,
+      ...rules.map((r, i) =>
+        `  ${i + 1}. [${r.id}] ${r.condition ? `IF: ${r.condition}` : '(catch-all)'} → ${r.instruction}`,
+      ),
+      `---`,
+      `Notification: ${JSON.stringify(notification, null, 2)}`,
+    ].join('\n'),
+  );
+
+  // 1.–2. Tool registry and system prompt
+  const { toolRegistry, systemPrompt } = await prepareSubAgent(config);
+
   // 3. Build user instruction with notification context + rules
   const isEmail =
     notification.appName === 'Email' || notification.appName === 'Gmail';
@@ -135,7 +228,16 @@ export async function runNotificationSubAgent(
     `App: ${notification.appName}`,
     notification.sender ? `Sender: ${notification.sender}` : '',
     notification.subject ? `Subject: ${notification.subject}` : '',
+    notification.earlierMessages?.length
+      ? `Earlier messages (oldest first):\n${notification.earlierMessages.map(m => `- ${m}`).join('\n')}`
+      : '',
     notification.preview ? `Message: ${notification.preview}` : '',
+    notification.earlierMessages?.length
+      ? `These messages arrived in quick succession from the same sender. Handle them together in ONE run of the rule – not once per message.`
+      : '',
+    notification.previousContent
+      ? `This notification is an update of one that was already handled and showed: "${notification.previousContent}". Only act on what is new.`
+      : '',
     ``,
     `You are a background sub-agent processing a single notification.`,
     `There is no direct user interaction — do not ask questions.`,
@@ -157,6 +259,7 @@ export async function runNotificationSubAgent(
           `Execute the FIRST rule whose condition matches (or the catch-all rule if no conditional rule matches).`,
           `If NO rule matches at all, respond with EXACTLY the text ${NO_MATCH_TOKEN} and nothing else. Do NOT use any tools.`,
           `You can use the notifications tool with the matching rule_id to disable (action: "update_rule", rule_id, enabled: false) or delete (action: "delete_rule", rule_id) a rule if the instruction asks you to deactivate it after use.`,
+          `When you executed a rule, start your final response with a line "${MATCHED_RULE_PREFIX} <rule ID>" naming it (it is removed before the user sees the response).`,
           ``,
           rulesBlock,
         ].join('\n'),
@@ -167,6 +270,19 @@ export async function runNotificationSubAgent(
     isEmail
       ? `Context: for follow-up email detail, search with: from:${notification.sender} subject:${notification.subject}`
       : '',
+    notification.key
+      ? `Notification key: ${notification.key} (for the notification_action tool: mark_read, dismiss${notification.canReply ? ', reply' : ''})`
+      : '',
+    notification.canReply
+      ? `To answer the sender, use notification_action with action "reply" and this key – it replies directly in the ${notification.appName} conversation.`
+      : '',
+    dryRunCalls
+      ? [
+          ``,
+          `This is a test run of the rules. Tool calls with side effects are simulated, so proceed exactly as for a real notification and make every tool call the rule requires.`,
+          `Also add a line "${MATCH_REASON_PREFIX} <one sentence>" explaining why the executed rule's condition matches the notification, or why no rule matches (also together with ${NO_MATCH_TOKEN}).`,
+        ].join('\n')
+      : '',
   ];
 
   const userInstruction = parts.filter(Boolean).join('\n');
@@ -193,6 +309,8 @@ export async function runNotificationSubAgent(
         provider,
         tools: toolRegistry,
         maxIterations: resolvedMaxIterations,
+        usageSource: { type: 'notification', id: rules.map(r => r.id).join(',') },
+        confirmToolCall: allowRuleReplies(confirmToolCall, confirmationPolicy, notification.key, rules),
       },
       messages,
     );
@@ -205,7 +323,7 @@ export async function runNotificationSubAgent(
     );
 
     return {
-      content: result.content,
+      ...extractMatchedRule(result.content, rules),
       iterations: result.iterations,
     };
   } catch (err) {
@@ -214,3 +332,78 @@ export async function runNotificationSubAgent(
     throw err;
   }
 }
+
+// ── Digest ────────────────────────────────────────────────────────────────
+
+/**
+ * Summarise the notifications held for a digest rule in one sub-agent run.
+ *
+ * @param reason  Why the digest is delivered now, e.g. "scheduled digest at 18:00"
+ */
+export async function runNotificationDigestAgent(
+  config: NotificationSubAgentConfig,
+  rule: NotificationRule,
+  items: DigestItem[],
+  reason: string,
+): Promise<NotificationSubAgentResult> {
+  const { provider, language, maxIterations, confirmToolCall } = config;
+
+  DebugLogger.add('info', TAG, `▶ Digest: ${rule.appLabel} (${items.length} notifications, ${reason})`);
+
+  const { toolRegistry, systemPrompt } = await prepareSubAgent(config);
+
+  const itemLines = items.map((item, i) => {
+    const time = new Date(item.timestamp).toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' });
+    const from = item.sender || item.title;
+    return `${i + 1}. ${time}${from ? ` – ${from}` : ''}: ${item.text || item.title}`;
+  });
+
+  const userInstruction = [
+    `[NOTIFICATION DIGEST – automatic, not typed by the user]`,
+    `App: ${rule.appLabel}`,
+    `Delivered because: ${reason}`,
+    ``,
+    `Held notifications (${items.length}, oldest first):`,
+    ...itemLines,
+    ``,
+    `You are a background sub-agent. These notifications were held back for a digest instead of being handled one by one.`,
+    `There is no direct user interaction — do not ask questions.`,
+    `IMPORTANT: Do NOT use TTS (text-to-speech) unless the user explicitly requests it in the rule instruction (e.g., "speak", "say aloud", "read out", "announce").`,
+    `IMPORTANT: Only describe actions that have been fully executed. Use past tense when reporting completed actions. Never describe planned actions as if they are already done.`,
+    ``,
+    `Rule ID: ${rule.id}`,
+    rule.condition
+      ? `Condition: ${rule.condition} – only include notifications for which it holds. If it holds for none, respond with EXACTLY the text ${NO_MATCH_TOKEN} and nothing else.`
+      : '',
+    `Instruction: ${rule.instruction}`,
+    ``,
+    `YOUR TASK: Apply the instruction to the digest as a whole, not once per notification. Summarise concisely: group by sender, lead with what needs attention, and merge repeated or follow-up messages.`,
+    `If the result is purely internal and not useful to show the user, respond with EXACTLY: ${SILENT_REPLY_TOKEN}`,
+    `Respond in the language with BCP-47 code "${language}".`,
+  ].filter(Boolean).join('\n');
+
+  DebugLogger.add('info', TAG, `User instruction for digest`, userInstruction);
+
+  const messages: Message[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userInstruction },
+  ];
+
+  const result = await runToolLoop(
+    {
+      provider,
+      tools: toolRegistry,
+      maxIterations: maxIterations ?? 8,
+      usageSource: { type: 'notification', id: rule.id },
+      confirmToolCall,
+    },
+    messages,
+  );
+
+  DebugLogger.add('info', TAG, `✅ Digest done (${result.iterations} iter): ${rule.appLabel}`, result.content);
+
+  return {
+    content: result.content,
+    iterations: result.iterations,
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * ScheduleWorkflow – Runs multi-step schedules step by step
+ *
+ * A schedule may hold an ordered list of steps instead of one instruction
+ * (see ScheduleStep in scheduler-tool.ts). For every step:
+ *   1. The optional precondition is checked by the LLM (with tool access,
+ *      e.g. a weather lookup for "only if it is raining"). If it is not met,
+ *      the step is skipped and the workflow continues.
+ *   2. The step instruction runs in its own tool loop. The outputs of all
+ *      previous steps are passed along as context.
+ *   3. A failed step (exception, STEP_FAILED_TOKEN or the iteration limit)
+ *      is retried up to `maxRetries` times. If it still fails, the remaining
+ *      steps are not run.
+ *
+ * Each step gets a fresh message list, so a long workflow does not grow a
+ * single ever-larger context.
+ */
+import type { LLMProvider, Message } from '../llm/types';
+import type { ToolRegistry } from './tool-registry';
+import { MAX_STEP_RETRIES, type ScheduleStep } from '../tools/scheduler-tool';
+import type { ConfirmToolCall } from './tool-confirmation';
+import { runToolLoop } from './tool-loop';
+import { DebugLogger } from './debug-logger';
+import {
+  CONDITION_FALSE_TOKEN,
+  CONDITION_TRUE_TOKEN,
+  SILENT_REPLY_TOKEN,
+  STEP_FAILED_TOKEN,
+} from './tokens';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type WorkflowStepStatus = 'done' | 'skipped' | 'failed' | 'not_run';
+
+export interface WorkflowStepResult {
+  instruction: string;
+  status: WorkflowStepStatus;
+  /** Step output (done), skip reason (skipped) or error (failed) */
+  output: string;
+  attempts: number;
+}
+
+export interface WorkflowResult {
+  steps: WorkflowStepResult[];
+  /** Index of the step that failed, or null if the workflow completed */
+  failedStep: number | null;
+  /** User-facing outputs of the completed steps (silent outputs excluded) */
+  content: string;
+}
+
+export interface WorkflowConfig {
+  provider: LLMProvider;
+  tools: ToolRegistry;
+  systemPrompt: string;
+  scheduleId: string;
+  /** Context header for every step, e.g. "[SCHEDULED TASK – … at 07:00]" */
+  header: string;
+  maxIterations: number;
+  confirmToolCall?: ConfirmToolCall;
+}
+
+/** Step outputs are clipped to this many characters when passed on */
+const MAX_CONTEXT_OUTPUT_CHARS = 1500;
+
+const TAG = 'Workflow';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function clip(text: string): string {
+  return text.length > MAX_CONTEXT_OUTPUT_CHARS
+    ? `${text.slice(0, MAX_CONTEXT_OUTPUT_CHARS)}…`
+    : text;
+}
+
+/** Render previous step results as context for the next step */
+function renderPreviousSteps(results: WorkflowStepResult[]): string {
+  if (results.length === 0) return '';
+  const lines = results.map((r, i) => {
+    const outcome = r.status === 'skipped'
+      ? `skipped (${r.output})`
+      : clip(r.output.replace(SILENT_REPLY_TOKEN, '(no output)'));
+    return `Step ${i + 1} – "${r.instruction}": ${outcome}`;
+  });
+  return `Results of the previous steps:\n${lines.join('\n')}`;
+}
+
+async function runLoop(
+  config: WorkflowConfig,
+  prompt: string,
+  stepIndex: number,
+): Promise<string> {
+  const messages: Message[] = [
+    { role: 'system', content: config.systemPrompt },
+    { role: 'user', content: prompt },
+  ];
+  const result = await runToolLoop(
+    {
+      provider: config.provider,
+      tools: config.tools,
+      maxIterations: config.maxIterations,
+      usageSource: { type: 'schedule', id: config.scheduleId },
+      confirmToolCall: config.confirmToolCall,
+    },
+    messages,
+  );
+  if (result.hitLimit) {
+    throw new Error(`Step ${stepIndex + 1} reached the iteration limit (${config.maxIterations}).`);
+  }
+  return result.content;
+}
+
+/** Ask the LLM whether the step's precondition holds (tools allowed) */
+async function checkCondition(
+  config: WorkflowConfig,
+  step: ScheduleStep,
+  stepIndex: number,
+  previous: WorkflowStepResult[],
+): Promise<boolean> {
+  const prompt = [
+    config.header,
+    '',
+    `Before step ${stepIndex + 1} of this scheduled workflow runs, check the following precondition: "${step.condition}"`,
+    '',
+    renderPreviousSteps(previous),
+    '',
+    'Use tools only to gather the information needed for the check – do NOT perform any other action.',
+    `Reply with EXACTLY ${CONDITION_TRUE_TOKEN} if the precondition is met, or ${CONDITION_FALSE_TOKEN} if it is not. No other text.`,
+  ].join('\n');
+
+  const answer = await runLoop(config, prompt, stepIndex);
+  if (answer.includes(CONDITION_FALSE_TOKEN)) return false;
+  if (answer.includes(CONDITION_TRUE_TOKEN)) return true;
+  throw new Error(`Precondition check gave no clear answer: "${answer.slice(0, 200)}"`);
+}
+
+function buildStepPrompt(
+  config: WorkflowConfig,
+  steps: ScheduleStep[],
+  stepIndex: number,
+  previous: WorkflowStepResult[],
+): string {
+  const step = steps[stepIndex];
+  const isLast = stepIndex === steps.length - 1;
+  return [
+    config.header,
+    '',
+    `This scheduled task is a workflow of ${steps.length} steps. You are executing step ${stepIndex + 1}.`,
+    '',
+    renderPreviousSteps(previous),
+    '',
+    `Execute step ${stepIndex + 1}: ${step.instruction}`,
+    '',
+    'IMPORTANT: You are a background agent. There is no direct user interaction.',
+    '- Execute ONLY this step. Do not perform the other steps of the workflow.',
+    '- Do NOT use TTS (text-to-speech) unless the step explicitly requests it.',
+    '- Only describe actions that have been fully executed, in past tense.',
+    `- If the step cannot be completed, respond with ${STEP_FAILED_TOKEN} followed by the reason.`,
+    isLast
+      ? `- If there is nothing worth telling the user, respond with EXACTLY: ${SILENT_REPLY_TOKEN}`
+      : '- Your reply is passed to the next step – include all data the next steps may need.',
+  ].join('\n');
+}
+
+// ── Workflow ─────────────────────────────────────────────────────────────────
+
+/**
+ * Run all steps of a multi-step schedule in order.
+ * Never throws for step failures – they are reported in the result.
+ */
+export async function runScheduleWorkflow(
+  config: WorkflowConfig,
+  steps: ScheduleStep[],
+): Promise<WorkflowResult> {
+  const results: WorkflowStepResult[] = [];
+  let failedStep: number | null = null;
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+
+    if (failedStep !== null) {
+      results.push({ instruction: step.instruction, status: 'not_run', output: '', attempts: 0 });
+      continue;
+    }
+
+    const maxAttempts = 1 + Math.min(Math.max(step.maxRetries ?? 0, 0), MAX_STEP_RETRIES);
+    let result: WorkflowStepResult | null = null;
+
+    for (let attempt = 1; attempt <= maxAttempts && !result; attempt++) {
+      try {
+        if (step.condition && !(await checkCondition(config, step, i, results))) {
+          DebugLogger.add('info', TAG, `Step ${i + 1} skipped – condition not met: "${step.condition}"`);
+          result = {
+            instruction: step.instruction,
+            status: 'skipped',
+            output: `condition not met: ${step.condition}`,
+            attempts: attempt,
+          };
+          break;
+        }
+
+        const output = await runLoop(config, buildStepPrompt(config, steps, i, results), i);
+        if (output.includes(STEP_FAILED_TOKEN)) {
+          throw new Error(output.replace(STEP_FAILED_TOKEN, '').replace(/^[\s:–-]+/, '').trim() || 'Step failed');
+        }
+        DebugLogger.add('info', TAG, `✅ Step ${i + 1}/${steps.length} done (attempt ${attempt})`, output);
+        result = { instruction: step.instruction, status: 'done', output, attempts: attempt };
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        DebugLogger.add('error', TAG, `Step ${i + 1} attempt ${attempt}/${maxAttempts} failed: ${errMsg}`);
+        if (attempt === maxAttempts) {
+          result = { instruction: step.instruction, status: 'failed', output: errMsg, attempts: attempt };
+        }
+      }
+    }
+
+    results.push(result!);
+    if (result!.status === 'failed') {
+      failedStep = i;
+    }
+  }
+
+  const content = results
+    .filter(r => r.status === 'done' && r.output && !r.output.includes(SILENT_REPLY_TOKEN))
+    .map(r => r.output.trim())
+    .join('\n\n');
+
+  return { steps: results, failedStep, content };
+}
+
+/** Describe a failed workflow for formulateError() */
+export function describeWorkflowFailure(result: WorkflowResult): string {
+  if (result.failedStep === null) return '';
+  const failed = result.steps[result.failedStep];
+  const completed = result.steps
+    .map((r, i) => ({ r, i }))
+    .filter(({ r }) => r.status === 'done' || r.status === 'skipped')
+    .map(({ r, i }) => `step ${i + 1} ${r.status === 'done' ? 'completed' : 'skipped'}`);
+  return [
+    `Step ${result.failedStep + 1} of ${result.steps.length} ("${failed.instruction}") failed after ` +
+      `${failed.attempts} attempt(s): ${failed.output}`,
+    completed.length > 0 ? `Before that: ${completed.join(', ')}.` : '',
+    result.content ? `Output of the completed steps:\n${result.content}` : '',
+    'The remaining steps were not run.',
+  ].filter(Boolean).join('\n');
+}
@@ -6,13 +6,18 @@
  *
  * This module:
  *   1. Loads the schedule from native storage
- *   2. Loads the agent config (API key, provider, enabled skills)
+ *   2. Loads the agent config (provider, enabled skills – see agent-config.ts)
  *   3. Creates a mini ConversationPipeline (same tools as the main app)
- *   4. Executes the stored instruction through the LLM
+ *   4. Executes the stored instruction through the LLM (or, for multi-step
+ *      schedules, each step in order – see schedule-workflow.ts)
  *   5. Handles recurrence: calculates next trigger or cleans up one-time schedules
  *   6. Shows a notification with the execution result
+ *
+ * Digest schedules (`digestRuleId` set) skip steps 2–4 and deliver the held
+ * notifications of their rule instead (see notification-digest.ts).
  */
-import { SkillLoader, registerSkillContent } from './skill-loader';
+import { SkillLoader } from './skill-loader';
+import { loadHeadlessSkills } from './headless-skills';
 import { createToolRegistry } from './create-tool-registry';
 import { runToolLoop } from './tool-loop';
 import { buildSystemPrompt, formulateError } from './system-prompt';
@@ -24,6 +29,9 @@ import { DebugFileLogger } from './debug-file-logger';
 import { ConversationStore } from './conversation-store';
 import { PersonalMemoryStore } from './personal-memory-store';
 import { addEntry } from './journal-store';
+import { createHeadlessConfirmation } from './confirmation-headless';
+import { runScheduleWorkflow, describeWorkflowFailure } from './schedule-workflow';
+import { loadAgentConfig, agentEndpoint } from './agent-config';
 
 // Credential infrastructure
 import { TokenStore } from '../permissions/token-store';
@@ -35,54 +43,31 @@ import SchedulerModule from '../native/SchedulerModule';
 import { calculateNextTrigger } from '../tools/scheduler-tool';
 import type { Schedule } from '../tools/scheduler-tool';
 
+// Notification digests
+import { deliverNotificationDigests } from './notification-headless';
+
 // Foreground restore
 import { bringToForeground } from './bring-to-foreground';
 
-// Skills – imported at bundle time (metro md-transformer)
-import googleMapsSkill from '../../assets/skills/google-maps/SKILL.md';
-import phoneSkill from '../../assets/skills/phone/SKILL.md';
-import smsSkill from '../../assets/skills/sms/SKILL.md';
-import gmailSkill from '../../assets/skills/gmail/SKILL.md';
-import spotifySkill from '../../assets/skills/spotify/SKILL.md';
-import contactsSkill from '../../assets/skills/contacts/SKILL.md';
-import calendarSkill from '../../assets/skills/calendar/SKILL.md';
-import googleTasksSkill from '../../assets/skills/google-tasks/SKILL.md';
-import schedulerSkill from '../../assets/skills/scheduler/SKILL.md';
-import whatsappSkill from '../../assets/skills/whatsapp/SKILL.md';
-import listsSkill from '../../assets/skills/lists/SKILL.md';
-
-// Register all skill content
-registerSkillContent('google-maps', googleMapsSkill);
-registerSkillContent('phone', phoneSkill);
-registerSkillContent('sms', smsSkill);
-registerSkillContent('gmail', gmailSkill);
-registerSkillContent('spotify', spotifySkill);
-registerSkillContent('contacts', contactsSkill);
-registerSkillContent('calendar', calendarSkill);
-registerSkillContent('google-tasks', googleTasksSkill);
-registerSkillContent('scheduler', schedulerSkill);
-registerSkillContent('whatsapp', whatsappSkill);
-registerSkillContent('lists', listsSkill);
-
-// ── Agent Config (persisted by App.tsx) ──────────────────────────────────
-
-interface AgentConfig {
-  apiKey: string;
-  provider: 'claude' | 'openai';
-  model?: string;
-  enabledSkillNames: string[];
-  googleWebClientId?: string;
-  drivingMode?: boolean;
-  /** BCP-47 language tag, e.g. 'de-AT', 'en-US'. Falls back to 'en-US'. */
-  language?: string;
-  /** Max iterations for scheduler sub-agents (default: 8) */
-  maxSubAgentIterations?: number;
-}
-
 // ── Helpers ──────────────────────────────────────────────────────────────
 
 const TAG = 'Scheduler';
 
+/** Mark a schedule as executed, then set its next trigger or remove it if one-time */
+async function completeExecution(schedule: Schedule): Promise<void> {
+  await SchedulerModule.markExecuted(schedule.id);
+
+  const nextTrigger = calculateNextTrigger(schedule);
+  if (nextTrigger !== null) {
+    // Recurring: set next trigger
+    await SchedulerModule.updateTrigger(schedule.id, nextTrigger);
+    DebugLogger.add('info', TAG, `Next execution at ${new Date(nextTrigger).toISOString()}`);
+  } else {
+    // One-time: remove the schedule
+    await SchedulerModule.removeSchedule(schedule.id);
+    DebugLogger.add('info', TAG, `One-time schedule ${schedule.id} removed`);
+  }
+}
 
 // ── Main headless task ───────────────────────────────────────────────────
 
@@ -117,14 +102,21 @@ export default async function schedulerHeadlessTask(
 
     DebugLogger.add('info', TAG, `Schedule loaded: "${instruction}"`, JSON.stringify(schedule, null, 2));
 
+    // Notification digest schedules deliver the held notifications of their rule
+    if (schedule.digestRuleId) {
+      await deliverNotificationDigests({ ruleId: schedule.digestRuleId });
+      await completeExecution(schedule);
+      DebugFileLogger.writeSystemLog('LIFECYCLE', `✅ SannaSchedulerTask finished – digest (id=${scheduleId})`);
+      return;
+    }
+
     // 2. Load agent config
-    const configJson = await SchedulerModule.getAgentConfig();
-    if (!configJson) {
+    const config = await loadAgentConfig();
+    if (!config) {
       DebugLogger.add('error', TAG, 'No agent config found – cannot run sub-agent');
       await ConversationStore.appendPending('assistant', 'Scheduled task could not run: No API key configured.').catch(() => {});
       return;
     }
-    const config: AgentConfig = JSON.parse(configJson);
 
     // Check if scheduler skill is enabled
     if (!config.enabledSkillNames.includes('scheduler')) {
@@ -132,21 +124,18 @@ export default async function schedulerHeadlessTask(
       return;
     }
 
-    lang = config.language || 'en-US';
-    drivingMode = config.drivingMode ?? false;
+    lang = config.language;
+    drivingMode = config.drivingMode;
 
-    if (!config.apiKey) {
-      DebugLogger.add('error', TAG, 'No API key in agent config');
-      await ConversationStore.appendPending('assistant', 'Scheduled task could not run: No API key.').catch(() => {});
+    const endpoint = agentEndpoint(config);
+    if (!endpoint) {
+      DebugLogger.add('error', TAG, `Provider ${config.provider} is not configured completely in agent config`);
+      await ConversationStore.appendPending('assistant', 'Scheduled task could not run: LLM provider not configured.').catch(() => {});
       return;
     }
 
     // 3. Create LLM provider
-    provider = createLLMProvider({
-      provider: config.provider,
-      apiKey: config.apiKey,
-      model: config.model || '',
-    });
+    provider = createLLMProvider({ ...endpoint, fallbacks: config.fallbacks });
 
     model = provider.getCurrentModel();
     DebugLogger.add('info', TAG, `Provider: ${config.provider} (${model})`);
@@ -165,6 +154,7 @@ export default async function schedulerHeadlessTask(
       credentialManager.configureGoogleTokenRefresh(config.googleWebClientId);
     }
 
+    await loadHeadlessSkills();
     const skillLoader = new SkillLoader();
 
     const toolRegistry = await createToolRegistry({
@@ -193,64 +183,112 @@ export default async function schedulerHeadlessTask(
     const now = new Date();
     const timeStr = now.toLocaleTimeString(lang, { hour: '2-digit', minute: '2-digit' });
     const dateStr = now.toLocaleDateString(lang, { weekday: 'long', day: 'numeric', month: 'long' });
-
-    const userInstruction = [
-      `[SCHEDULED TASK – Automatic execution at ${timeStr}, ${dateStr}]`,
-      ``,
-      `Schedule ID: ${scheduleId}`,
-      `You can use the scheduler tool with this ID to disable (action: "disable") or delete (action: "delete") this schedule after execution if needed (e.g. for one-shot tasks that should not recur, or if the task is complete).`,
-      ``,
-      `Execute the following instruction: ${instruction}`,
-      ``,
-      `IMPORTANT: You are a background agent. There is no direct user interaction.`,
-      `- Execute the task directly without asking for clarification.`,
-      `- Do NOT use TTS (text-to-speech) unless the user explicitly requests it in the instruction (e.g., "speak", "say aloud", "read out", "announce").`,
-      `- Return your result as text only unless speech is explicitly requested.`,
-      `- Only describe actions that have been fully executed. Use past tense when reporting completed actions. Never describe planned actions as if they are already done.`,
-      `- If the task is conditional and the condition is NOT met, respond with EXACTLY: ${SILENT_REPLY_TOKEN} (no other text). Example: "If it rains tomorrow, remind me to bring an umbrella" → weather check shows no rain → respond ${SILENT_REPLY_TOKEN}.`,
-    ].join('\n');
-
-    // 7. Run the sub-agent
-    const messages: Message[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userInstruction },
-    ];
-
-    DebugLogger.add('info', TAG, `Running sub-agent for: "${instruction}"`);
-
-    const result = await runToolLoop(
-      {
-        provider,
-        tools: toolRegistry,
-        maxIterations: config.maxSubAgentIterations ?? 8,
-      },
-      messages,
+    const header = `[SCHEDULED TASK – Automatic execution at ${timeStr}, ${dateStr}]`;
+    const maxIterations = config.maxSubAgentIterations;
+    const confirmToolCall = createHeadlessConfirmation(
+      config.toolConfirmationPolicy,
+      drivingMode,
+      'Scheduled task',
     );
 
-    DebugLogger.add('info', TAG, `✅ Sub-agent done (${result.iterations} iterations)`, result.content);
+    // 7. Run the sub-agent – step by step for workflows, otherwise as one instruction
+    let resultContent: string;
+    let rawError: string | null = null;
+
+    if (schedule.steps && schedule.steps.length > 0) {
+      DebugLogger.add('info', TAG, `Running ${schedule.steps.length}-step workflow for: "${instruction}"`);
+      const workflow = await runScheduleWorkflow(
+        {
+          provider,
+          tools: toolRegistry,
+          systemPrompt,
+          scheduleId,
+          header: [
+            header,
+            ``,
+            `Schedule ID: ${scheduleId}`,
+            `Overall goal of this schedule: ${instruction}`,
+          ].join('\n'),
+          maxIterations,
+          confirmToolCall,
+        },
+        schedule.steps,
+      );
+      DebugLogger.add(
+        'info',
+        TAG,
+        `Workflow finished: ${workflow.steps.map((st, i) => `${i + 1}=${st.status}`).join(', ')}`,
+        workflow.content,
+      );
+      if (workflow.failedStep !== null) {
+        rawError = describeWorkflowFailure(workflow);
+        resultContent = workflow.content;
+      } else {
+        // Every step skipped or silent → nothing to report
+        resultContent = workflow.content || SILENT_REPLY_TOKEN;
+      }
+    } else {
+      const userInstruction = [
+        header,
+        ``,
+        `Schedule ID: ${scheduleId}`,
+        `You can use the scheduler tool with this ID to disable (action: "disable") or delete (action: "delete") this schedule after execution if needed (e.g. for one-shot tasks that should not recur, or if the task is complete).`,
+        ``,
+        `Execute the following instruction: ${instruction}`,
+        ``,
+        `IMPORTANT: You are a background agent. There is no direct user interaction.`,
+        `- Execute the task directly without asking for clarification.`,
+        `- Do NOT use TTS (text-to-speech) unless the user explicitly requests it in the instruction (e.g., "speak", "say aloud", "read out", "announce").`,
+        `- Return your result as text only unless speech is explicitly requested.`,
+        `- Only describe actions that have been fully executed. Use past tense when reporting completed actions. Never describe planned actions as if they are already done.`,
+        `- If the task is conditional and the condition is NOT met, respond with EXACTLY: ${SILENT_REPLY_TOKEN} (no other text). Example: "If it rains tomorrow, remind me to bring an umbrella" → weather check shows no rain → respond ${SILENT_REPLY_TOKEN}.`,
+      ].join('\n');
+
+      const messages: Message[] = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userInstruction },
+      ];
+
+      DebugLogger.add('info', TAG, `Running sub-agent for: "${instruction}"`);
+
+      const result = await runToolLoop(
+        {
+          provider,
+          tools: toolRegistry,
+          maxIterations,
+          usageSource: { type: 'schedule', id: scheduleId },
+          confirmToolCall,
+        },
+        messages,
+      );
+
+      DebugLogger.add('info', TAG, `✅ Sub-agent done (${result.iterations} iterations)`, result.content);
+
+      resultContent = result.content;
+      if (result.iterations >= maxIterations) {
+        rawError = `Scheduled task reached iteration limit (${result.iterations} iterations) and could not be completed. You can increase the iteration limit in Settings → Agent & Confirmations → Sub-Agent (App Rules & Scheduler).`;
+      }
+    }
 
     // Silent reply: sub-agent decided the result is not user-facing (e.g., conditional task where condition was false)
-    if (result.content?.includes(SILENT_REPLY_TOKEN)) {
+    if (!rawError && resultContent?.includes(SILENT_REPLY_TOKEN)) {
       DebugLogger.add('info', TAG, `Silent reply for "${instruction}" – no bubble shown`);
       // Still mark as executed and handle recurrence (below), but skip UI output
     } else {
       // Write the assistant result to the pending queue so it appears as a bubble,
       // then bring the app to the foreground so the user sees it immediately.
       // ALWAYS write something, even if content is empty (e.g., max iterations reached)
-      let messageToShow = result.content;
-      const isMaxIterationsReached = result.iterations >= (config.maxSubAgentIterations ?? 8);
-
-      // If content is empty or max iterations reached, format it via LLM for consistency
-      if (!messageToShow || isMaxIterationsReached) {
-        const rawError = isMaxIterationsReached
-          ? `Scheduled task reached iteration limit (${result.iterations} iterations) and could not be completed. You can increase the iteration limit in Settings → Agent Iterations → Sub-Agent (App Rules & Scheduler).`
-          : `Scheduled task completed but no output was generated.`;
+      let messageToShow = resultContent;
+
+      // If content is empty or the run failed, format it via LLM for consistency
+      if (!messageToShow || rawError) {
         messageToShow = await formulateError({
           provider,
           instruction: instruction,
-          rawError,
+          rawError: rawError ?? `Scheduled task completed but no output was generated.`,
           drivingMode,
           language: lang,
+          usageSource: { type: 'schedule', id: scheduleId },
         });
       }
 
@@ -270,20 +308,8 @@ export default async function schedulerHeadlessTask(
       }
     }
 
-    // 9. Mark as executed
-    await SchedulerModule.markExecuted(scheduleId);
-
-    // 10. Handle recurrence
-    const nextTrigger = calculateNextTrigger(schedule);
-    if (nextTrigger !== null) {
-      // Recurring: set next trigger
-      await SchedulerModule.updateTrigger(scheduleId, nextTrigger);
-      DebugLogger.add('info', TAG, `Next execution at ${new Date(nextTrigger).toISOString()}`);
-    } else {
-      // One-time: remove the schedule
-      await SchedulerModule.removeSchedule(scheduleId);
-      DebugLogger.add('info', TAG, `One-time schedule ${scheduleId} removed`);
-    }
+    // 9.–10. Mark as executed and handle recurrence
+    await completeExecution(schedule);
 
     DebugFileLogger.writeSystemLog('LIFECYCLE', `✅ SannaSchedulerTask finished (id=${scheduleId})`);
 
@@ -301,6 +327,7 @@ export default async function schedulerHeadlessTask(
         rawError: errMsg,
         drivingMode,
         language: lang,
+        usageSource: { type: 'schedule', id: scheduleId },
       });
     } else {
       // No provider available (config/key error) – write raw error to pending
@@ -0,0 +1,19 @@
+/**
+ * createSerialQueue – Run async read-modify-write cycles one after another
+ *
+ * AsyncStorage has no transactions: two headless tasks that load, change
+ * and save the same key concurrently lose one of the writes. Every store
+ * keeps its own queue so unrelated keys do not wait for each other. A failed
+ * cycle rejects its own promise but does not block the queue.
+ */
+export type SerialQueue = <T>(fn: () => Promise<T>) => Promise<T>;
+
+export function createSerialQueue(): SerialQueue {
+  let chain: Promise<unknown> = Promise.resolve();
+
+  return <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = chain.then(fn, fn);
+    chain = run.catch(() => {});
+    return run;
+  };
+}
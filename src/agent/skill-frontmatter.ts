@@ -0,0 +1,168 @@
+/**
+ * SkillFrontmatter – Parses the YAML frontmatter of a SKILL.md
+ *
+ * The --- block is parsed with the YAML subset parser (yaml-subset.ts) and
+ * mapped onto the typed SkillFrontmatter fields. Problems (invalid YAML, a
+ * list where a text is expected, …) are reported with the line number in the
+ * SKILL.md and surfaced by validateSkillContent.
+ *
+ * Unknown keys are ignored so that skills written for newer app versions
+ * still load.
+ */
+import { parseYamlMapping, YamlError } from './yaml-subset';
+import type { YamlMapping, YamlValue } from './yaml-subset';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface CredentialRequirement {
+  id: string;
+  label: string;
+  type: 'oauth' | 'api_key' | 'password';
+  auth_provider?: string;
+}
+
+export interface SkillFrontmatter {
+  name: string;
+  description: string;
+  category?: string;
+  test_prompt?: string;
+  android_package?: string;
+  /** If set, this tool is exclusive to this skill and will be removed when the skill is disabled. */
+  exclusive_tool?: string;
+  /** Version of the skill, e.g. "1.2.0" – needed for update checks */
+  version?: string;
+  /** Where updates of the skill (package or SKILL.md) are published */
+  source_url?: string;
+  /** Tools the skill cannot work without */
+  requires_tools?: string[];
+  /** Other skills that must be enabled for this one to work */
+  requires_skills?: string[];
+  /** Oldest app version the skill works with */
+  min_app_version?: string;
+  permissions?: string[];
+  credentials?: CredentialRequirement[];
+}
+
+export interface ParsedSkill {
+  frontmatter: SkillFrontmatter;
+  body: string;
+  /** Line-numbered description of the first frontmatter problem */
+  error?: string;
+}
+
+const TEXT_KEYS = [
+  'name',
+  'description',
+  'category',
+  'test_prompt',
+  'android_package',
+  'exclusive_tool',
+  'version',
+  'source_url',
+  'min_app_version',
+] as const;
+
+const LIST_KEYS = ['permissions', 'requires_tools', 'requires_skills'] as const;
+
+const CREDENTIAL_KEYS = ['id', 'label', 'type', 'auth_provider'] as const;
+
+// ── Conversion ───────────────────────────────────────────────────────────────
+
+function describe(value: YamlValue): string {
+  if (Array.isArray(value)) return 'a list';
+  if (value !== null && typeof value === 'object') return 'a nested object';
+  return 'a text';
+}
+
+function toList(key: string, value: YamlValue, line: number): string[] {
+  if (value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new YamlError(`"${key}" must be a list (e.g. ${key}: [a, b]), found ${describe(value)}`, line);
+  }
+  return value.map(item => {
+    if (typeof item !== 'string') {
+      throw new YamlError(`Each entry in "${key}" must be a text, found ${describe(item)}`, line);
+    }
+    return item;
+  });
+}
+
+function toCredentials(value: YamlValue, line: number): CredentialRequirement[] {
+  if (value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new YamlError(`"credentials" must be a list of objects, found ${describe(value)}`, line);
+  }
+  return value.map(item => {
+    if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+      throw new YamlError(`Each entry in "credentials" must be an object with id, label and type, found ${describe(item)}`, line);
+    }
+    const cred: Partial<Record<(typeof CREDENTIAL_KEYS)[number], string>> = {};
+    for (const key of CREDENTIAL_KEYS) {
+      const field = (item as YamlMapping)[key];
+      if (field === undefined || field === null) continue;
+      if (typeof field !== 'string') {
+        throw new YamlError(`"credentials.${key}" must be a text, found ${describe(field)}`, line);
+      }
+      cred[key] = field;
+    }
+    return cred as CredentialRequirement;
+  });
+}
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parse the frontmatter of SKILL.md content.
+ * Without a --- block, name is "unknown" and the whole content is the body.
+ * If the frontmatter is invalid, `error` says why and where and the
+ * frontmatter is empty.
+ */
+export function parseFrontmatter(content: string): ParsedSkill {
+  const match = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+  if (!match) {
+    // No frontmatter – use filename as fallback
+    return {
+      frontmatter: { name: 'unknown', description: '' },
+      body: content,
+    };
+  }
+
+  const body = match[2] ?? '';
+  const frontmatter: SkillFrontmatter = {
+    name: '',
+    description: '',
+    permissions: [],
+    credentials: [],
+  };
+
+  try {
+    // The YAML starts on line 2 of the file (after the opening ---)
+    const { data, keyLines } = parseYamlMapping(match[1], 2);
+
+    for (const key of TEXT_KEYS) {
+      const value = data[key];
+      if (value === undefined || value === null) continue;
+      if (typeof value !== 'string') {
+        throw new YamlError(`"${key}" must be a text, found ${describe(value)}`, keyLines[key]);
+      }
+      frontmatter[key] = value.trim();
+    }
+    for (const key of LIST_KEYS) {
+      if (data[key] !== undefined) {
+        frontmatter[key] = toList(key, data[key], keyLines[key]);
+      }
+    }
+    if (data.credentials !== undefined) {
+      frontmatter.credentials = toCredentials(data.credentials, keyLines.credentials);
+    }
+  } catch (err) {
+    if (!(err instanceof YamlError)) throw err;
+    return {
+      frontmatter: { name: '', description: '', permissions: [], credentials: [] },
+      body,
+      error: `Invalid frontmatter – ${err.message}`,
+    };
+  }
+
+  return { frontmatter, body };
+}
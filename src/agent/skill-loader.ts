@@ -7,26 +7,18 @@
 import { Platform } from 'react-native';
 import IntentModule from '../native/IntentModule';
 import type { DynamicSkillStore } from './dynamic-skill-store';
+import type { SkillPackage } from './skill-package';
+import { getUsableSkillNames } from './skill-requirements';
 import { registerBundledSkillName } from './skill-validator';
+import { parseFrontmatter } from './skill-frontmatter';
+import { DebugLogger } from './debug-logger';
+import type { CredentialRequirement } from './skill-frontmatter';
 
-export interface CredentialRequirement {
-  id: string;
-  label: string;
-  type: 'oauth' | 'api_key' | 'password';
-  auth_provider?: string;
-}
+export type { CredentialRequirement, SkillFrontmatter } from './skill-frontmatter';
+export { parseFrontmatter };
 
-export interface SkillFrontmatter {
-  name: string;
-  description: string;
-  category?: string;
-  test_prompt?: string;
-  android_package?: string;
-  /** If set, this tool is exclusive to this skill and will be removed when the skill is disabled. */
-  exclusive_tool?: string;
-  permissions?: string[];
-  credentials?: CredentialRequirement[];
-}
+/** Everything of a skill package besides its SKILL.md */
+export type SkillPackageExtras = Omit<SkillPackage, 'skill'>;
 
 export interface SkillInfo {
   name: string;
@@ -38,109 +30,18 @@ export interface SkillInfo {
   android_package?: string;
   /** If set, this tool is exclusive to this skill and will be removed when the skill is disabled. */
   exclusiveTool?: string;
+  version?: string;
+  sourceUrl?: string;
+  /** See skill-requirements.ts */
+  requiredTools: string[];
+  requiredSkills: string[];
+  minAppVersion?: string;
   permissions: string[];
   credentials: CredentialRequirement[];
-}
-
-/**
- * Parse YAML-like frontmatter from SKILL.md content.
- * Supports simple key: value pairs and arrays.
- */
-export function parseFrontmatter(content: string): {
-  frontmatter: SkillFrontmatter;
-  body: string;
-} {
-  const match = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
-  if (!match) {
-    // No frontmatter – use filename as fallback
-    return {
-      frontmatter: { name: 'unknown', description: '' },
-      body: content,
-    };
-  }
-
-  const yamlBlock = match[1];
-  const body = match[2] ?? '';
-
-  const frontmatter: SkillFrontmatter = {
-    name: '',
-    description: '',
-    permissions: [],
-    credentials: [],
-  };
-
-  // Simple line-by-line YAML parser (supports scalars and simple arrays)
-  const lines = yamlBlock.split('\n');
-  let i = 0;
-  while (i < lines.length) {
-    const line = lines[i];
-    const keyMatch = line.match(/^(\w+):\s*(.*)$/);
-    if (keyMatch) {
-      const key = keyMatch[1];
-      const value = keyMatch[2].trim();
-
-      if (value === '' || value === '|' || value === '>') {
-        // Potentially a block or array – collect indented lines
-        const items: string[] = [];
-        i++;
-        while (i < lines.length && (lines[i].startsWith(' ') || lines[i].startsWith('\t'))) {
-          items.push(lines[i].trim().replace(/^-\s*/, ''));
-          i++;
-        }
-
-        if (key === 'permissions') {
-          frontmatter.permissions = items;
-        } else if (key === 'credentials') {
-          // Parse credential objects
-          const creds: CredentialRequirement[] = [];
-          let currentCred: Partial<CredentialRequirement> = {};
-          for (const item of items) {
-            const credMatch = item.match(/^(\w+):\s*(.+)$/);
-            if (credMatch) {
-              const [, credKey, credVal] = credMatch;
-              if (credKey === 'id') {
-                if (currentCred.id) {
-                  creds.push(currentCred as CredentialRequirement);
-                  currentCred = {};
-                }
-                currentCred.id = credVal.replace(/^['"]|['"]$/g, '');
-              } else if (credKey === 'label') {
-                currentCred.label = credVal.replace(/^['"]|['"]$/g, '');
-              } else if (credKey === 'type') {
-                currentCred.type = credVal.replace(/^['"]|['"]$/g, '') as CredentialRequirement['type'];
-              } else if (credKey === 'auth_provider') {
-                currentCred.auth_provider = credVal.replace(/^['"]|['"]$/g, '');
-              }
-            }
-          }
-          if (currentCred.id) {
-            creds.push(currentCred as CredentialRequirement);
-          }
-          frontmatter.credentials = creds;
-        }
-        continue;
-      } else {
-        // Simple scalar
-        const cleanValue = value.replace(/^['"]|['"]$/g, '');
-        if (key === 'name') {
-          frontmatter.name = cleanValue;
-        } else if (key === 'description') {
-          frontmatter.description = cleanValue;
-        } else if (key === 'test_prompt') {
-          frontmatter.test_prompt = cleanValue;
-        } else if (key === 'android_package') {
-          frontmatter.android_package = cleanValue;
-        } else if (key === 'category') {
-          frontmatter.category = cleanValue;
-        } else if (key === 'exclusive_tool') {
-          frontmatter.exclusive_tool = cleanValue;
-        }
-      }
-    }
-    i++;
-  }
-
-  return { frontmatter, body };
+  /** Auxiliary files of a skill package: relative path → content */
+  files: Record<string, string>;
+  /** Markdown changelog of a skill package */
+  changelog?: string;
 }
 
 /**
@@ -168,11 +69,74 @@ async function checkAppInstalled(packageName: string): Promise<boolean> {
  */
 const SKILL_REGISTRY: Record<string, string> = {};
 
+/** Keys in SKILL_REGISTRY that hold user-uploaded (dynamic) skills */
+const DYNAMIC_SKILL_KEYS = new Set<string>();
+
+/** Auxiliary files and changelogs of dynamic skills imported as a package */
+const SKILL_PACKAGE_EXTRAS: Record<string, SkillPackageExtras> = {};
+
 /** Register a skill's raw markdown content at startup */
 export function registerSkillContent(name: string, content: string): void {
   SKILL_REGISTRY[name] = content;
 }
 
+/**
+ * Register a user-uploaded skill's content so every SkillLoader created
+ * afterwards (e.g. in headless tasks) includes it as a dynamic skill.
+ */
+export function registerDynamicSkillContent(
+  name: string,
+  content: string,
+  extras?: SkillPackageExtras,
+): void {
+  SKILL_REGISTRY[name] = content;
+  DYNAMIC_SKILL_KEYS.add(name);
+  if (extras) {
+    SKILL_PACKAGE_EXTRAS[name] = extras;
+  } else {
+    delete SKILL_PACKAGE_EXTRAS[name];
+  }
+}
+
+/** Remove a user-uploaded skill's content from the registry */
+export function unregisterDynamicSkillContent(name: string): void {
+  if (DYNAMIC_SKILL_KEYS.delete(name)) {
+    delete SKILL_REGISTRY[name];
+    delete SKILL_PACKAGE_EXTRAS[name];
+  }
+}
+
+function toSkillInfo(
+  key: string,
+  content: string,
+  path: string,
+  extras?: SkillPackageExtras,
+): SkillInfo {
+  const { frontmatter, body, error } = parseFrontmatter(content);
+  if (error) {
+    DebugLogger.logError('SkillLoader', `${key}: ${error}`);
+  }
+  return {
+    name: frontmatter.name || key,
+    description: frontmatter.description,
+    category: frontmatter.category ?? 'other',
+    path,
+    content: body,
+    testPrompt: frontmatter.test_prompt,
+    android_package: frontmatter.android_package,
+    exclusiveTool: frontmatter.exclusive_tool,
+    version: frontmatter.version,
+    sourceUrl: frontmatter.source_url,
+    requiredTools: frontmatter.requires_tools ?? [],
+    requiredSkills: frontmatter.requires_skills ?? [],
+    minAppVersion: frontmatter.min_app_version,
+    permissions: frontmatter.permissions ?? [],
+    credentials: frontmatter.credentials ?? [],
+    files: extras?.files ?? {},
+    changelog: extras?.changelog,
+  };
+}
+
 /**
  * SkillLoader loads and parses all registered skills.
  * Bundled (build-time) skills are loaded synchronously in the constructor.
@@ -188,22 +152,18 @@ export class SkillLoader {
 
   private loadAll(): void {
     for (const [key, content] of Object.entries(SKILL_REGISTRY)) {
-      const { frontmatter, body } = parseFrontmatter(content);
-      const skillInfo: SkillInfo = {
-        name: frontmatter.name || key,
-        description: frontmatter.description,
-        category: frontmatter.category ?? 'other',
-        path: `assets/skills/${key}/SKILL.md`,
-        content: body,
-        testPrompt: frontmatter.test_prompt,
-        android_package: frontmatter.android_package,
-        exclusiveTool: frontmatter.exclusive_tool,
-        permissions: frontmatter.permissions ?? [],
-        credentials: frontmatter.credentials ?? [],
-      };
+      const isDynamic = DYNAMIC_SKILL_KEYS.has(key);
+      const skillInfo = toSkillInfo(
+        key,
+        content,
+        isDynamic ? `dynamic/${key}/SKILL.md` : `assets/skills/${key}/SKILL.md`,
+        SKILL_PACKAGE_EXTRAS[key],
+      );
       this.skills.set(skillInfo.name, skillInfo);
       // Track bundled names so the validator can reject uploads with same name
-      registerBundledSkillName(skillInfo.name);
+      if (!isDynamic) {
+        registerBundledSkillName(skillInfo.name);
+      }
     }
   }
 
@@ -214,9 +174,12 @@ export class SkillLoader {
    */
   async loadDynamicSkills(store: DynamicSkillStore): Promise<void> {
     try {
-      const allSkills = await store.loadAllSkills();
+      const [allSkills, allExtras] = await Promise.all([
+        store.loadAllSkills(),
+        store.loadAllPackageExtras(),
+      ]);
       for (const [key, content] of Object.entries(allSkills)) {
-        this.registerDynamicSkill(key, content);
+        this.registerDynamicSkill(key, content, allExtras[key]);
       }
     } catch {
       // Non-critical – app works fine with bundled skills only
@@ -226,25 +189,14 @@ export class SkillLoader {
 
   /**
    * Register a single dynamic skill at runtime (after upload or on startup).
-   * Replaces any existing skill with the same name.
+   * Replaces any existing skill with the same name (also on update).
+   * `extras` holds the auxiliary files and changelog of a skill package.
    */
-  registerDynamicSkill(key: string, content: string): void {
-    const { frontmatter, body } = parseFrontmatter(content);
-    const skillInfo: SkillInfo = {
-      name: frontmatter.name || key,
-      description: frontmatter.description,
-      category: frontmatter.category ?? 'other',
-      path: `dynamic/${key}/SKILL.md`,
-      content: body,
-      testPrompt: frontmatter.test_prompt,
-      android_package: frontmatter.android_package,
-      exclusiveTool: frontmatter.exclusive_tool,
-      permissions: frontmatter.permissions ?? [],
-      credentials: frontmatter.credentials ?? [],
-    };
+  registerDynamicSkill(key: string, content: string, extras?: SkillPackageExtras): void {
+    const skillInfo = toSkillInfo(key, content, `dynamic/${key}/SKILL.md`, extras);
     this.skills.set(skillInfo.name, skillInfo);
     // Also push into SKILL_REGISTRY so headless tasks see it too
-    registerSkillContent(key, content);
+    registerDynamicSkillContent(key, content, extras);
     // Invalidate cache - skills changed
     this.skillsSummaryCache.clear();
   }
@@ -255,6 +207,7 @@ export class SkillLoader {
    */
   unregisterSkill(name: string): void {
     this.skills.delete(name);
+    unregisterDynamicSkillContent(name);
     // Invalidate cache - skills changed
     this.skillsSummaryCache.clear();
   }
@@ -328,16 +281,31 @@ export class SkillLoader {
   }
 
 
+  /**
+   * Names of the enabled skills whose requirements (tools, other skills,
+   * app version) are met – see skill-requirements.ts.
+   */
+  getUsableSkillNames(enabledSkillNames: string[], availableToolNames?: string[]): string[] {
+    const usable = getUsableSkillNames({
+      skills: this.getAllSkills(),
+      enabledSkillNames,
+      availableToolNames,
+    });
+    return enabledSkillNames.filter(n => usable.has(n));
+  }
+
   /**
    * Build XML skill summary for system prompt
-   * Only includes enabled skills.
+   * Only includes enabled skills whose requirements are met (tool
+   * requirements only if `availableToolNames` is given).
    * Uses LLM-generated summaries if available, otherwise falls back to description.
-   * Results are cached based on enabledSkillNames and skill summaries.
+   * Results are cached based on enabledSkillNames, tools and skill summaries.
    */
-  buildSkillsSummary(enabledSkillNames: string[]): string {
-    // Create cache key from sorted enabled skill names
+  buildSkillsSummary(enabledSkillNames: string[], availableToolNames?: string[]): string {
+    // Create cache key from sorted enabled skill names and tool names
     const sortedNames = [...enabledSkillNames].sort().join(',');
-    const cacheKey = sortedNames;
+    const sortedTools = availableToolNames ? [...availableToolNames].sort().join(',') : '*';
+    const cacheKey = `${sortedNames}|${sortedTools}`;
 
     // Check cache
     const cached = this.skillsSummaryCache.get(cacheKey);
@@ -345,7 +313,7 @@ export class SkillLoader {
       return cached;
     }
 
-    const enabled = enabledSkillNames
+    const enabled = this.getUsableSkillNames(enabledSkillNames, availableToolNames)
       .map(n => this.skills.get(n))
       .filter((s): s is SkillInfo => s !== undefined);
 
@@ -371,11 +339,11 @@ export class SkillLoader {
 
   /**
    * Build full skill content for system prompt.
-   * Includes the SKILL.md body for each enabled skill.
+   * Includes the SKILL.md body for each enabled skill whose requirements are met.
    */
-  buildSkillsContent(enabledSkillNames: string[]): string {
+  buildSkillsContent(enabledSkillNames: string[], availableToolNames?: string[]): string {
     const parts: string[] = [];
-    for (const name of enabledSkillNames) {
+    for (const name of this.getUsableSkillNames(enabledSkillNames, availableToolNames)) {
       const skill = this.skills.get(name);
       if (skill) {
         parts.push(`### Skill: ${skill.name}\n\n${skill.content}`);
@@ -0,0 +1,141 @@
+/**
+ * SkillPackage – Importable skill packages with versions and update checks
+ *
+ * A skill can be imported as a plain SKILL.md or as a package – a JSON file
+ * (".skill.json") bundling the SKILL.md with auxiliary files and a changelog:
+ *
+ *   {
+ *     "skill": "---\nname: my-skill\nversion: 1.2.0\n...",
+ *     "files": { "reference/api.md": "...", "examples.md": "..." },
+ *     "changelog": "## 1.2.0\n- ..."
+ *   }
+ *
+ * Auxiliary files are not part of the system prompt – the agent pulls them
+ * on demand via SkillDetailTool (parameter "file").
+ *
+ * Skills with `version` and `source_url` in their frontmatter can be updated:
+ * checkSkillUpdate() fetches the source URL (a package or a plain SKILL.md)
+ * and reports a newer version. Validation lives in skill-validator.ts.
+ */
+import { parseFrontmatter } from './skill-frontmatter';
+import { compareVersions } from './app-version';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface SkillPackage {
+  /** Raw SKILL.md content */
+  skill: string;
+  /** Auxiliary files: relative path → content */
+  files: Record<string, string>;
+  /** Markdown changelog of the package */
+  changelog?: string;
+}
+
+export interface SkillUpdate {
+  /** Version currently installed */
+  installedVersion: string;
+  /** Version available at the source URL */
+  version: string;
+  /** The package to install */
+  package: SkillPackage;
+}
+
+/** Timeout for fetching a package from its source URL */
+const FETCH_TIMEOUT_MS = 15_000;
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parse an imported file – a plain SKILL.md or a package JSON.
+ * Returns the package or an error message.
+ */
+export function parseSkillPackage(text: string): SkillPackage | string {
+  const trimmed = text.replace(/^\uFEFF/, '').trimStart();
+  if (!trimmed.startsWith('{')) {
+    return { skill: text.replace(/\r\n/g, '\n'), files: {} };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(trimmed);
+  } catch (err) {
+    return `Invalid skill package: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'Invalid skill package: expected a JSON object with a "skill" field.';
+  }
+
+  const r = raw as Record<string, unknown>;
+  if (typeof r.skill !== 'string' || r.skill.trim() === '') {
+    return 'Invalid skill package: "skill" must contain the SKILL.md content.';
+  }
+  if (r.files !== undefined && (typeof r.files !== 'object' || r.files === null || Array.isArray(r.files))) {
+    return 'Invalid skill package: "files" must be an object of path → content.';
+  }
+  const files: Record<string, string> = {};
+  for (const [path, content] of Object.entries((r.files ?? {}) as Record<string, unknown>)) {
+    if (typeof content !== 'string') {
+      return `Invalid skill package: file "${path}" must be a string.`;
+    }
+    files[path] = content.replace(/\r\n/g, '\n');
+  }
+  if (r.changelog !== undefined && typeof r.changelog !== 'string') {
+    return 'Invalid skill package: "changelog" must be a markdown string.';
+  }
+
+  return {
+    skill: r.skill.replace(/\r\n/g, '\n'),
+    files,
+    changelog: r.changelog as string | undefined,
+  };
+}
+
+// ── Update check ─────────────────────────────────────────────────────────────
+
+/** Download and parse the package at `url` */
+export async function fetchSkillPackage(url: string): Promise<SkillPackage> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  let text: string;
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Download failed (HTTP ${response.status})`);
+    }
+    text = await response.text();
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const pkg = parseSkillPackage(text);
+  if (typeof pkg === 'string') {
+    throw new Error(pkg);
+  }
+  return pkg;
+}
+
+/**
+ * Check the source URL of an installed skill for a newer version.
+ * Returns null if the skill has no version / source URL or is up to date.
+ * Throws if the source cannot be fetched or is not a skill.
+ */
+export async function checkSkillUpdate(skill: {
+  name: string;
+  version?: string;
+  sourceUrl?: string;
+}): Promise<SkillUpdate | null> {
+  if (!skill.version || !skill.sourceUrl) return null;
+
+  const pkg = await fetchSkillPackage(skill.sourceUrl);
+  const { frontmatter, error } = parseFrontmatter(pkg.skill);
+  if (error) {
+    throw new Error(`The source URL provides an invalid skill: ${error}`);
+  }
+  if (frontmatter.name !== skill.name) {
+    throw new Error(`The source URL provides skill "${frontmatter.name}", not "${skill.name}".`);
+  }
+  if (!frontmatter.version || compareVersions(frontmatter.version, skill.version) <= 0) {
+    return null;
+  }
+  return { installedVersion: skill.version, version: frontmatter.version, package: pkg };
+}
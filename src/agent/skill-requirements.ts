@@ -0,0 +1,105 @@
+/**
+ * SkillRequirements – Which skills can actually be used right now
+ *
+ * Skills declare in their frontmatter what they depend on:
+ *   requires_tools:   tools that must be registered (e.g. play_audio)
+ *   requires_skills:  other skills that must be enabled and usable
+ *   min_app_version:  oldest app version the skill works with
+ *
+ * A skill whose requirements are unmet is left out of the system prompt
+ * (SkillLoader.buildSkillsSummary), so the LLM never improvises without the
+ * tools it needs. SkillsSection shows the unmet requirements to the user.
+ */
+import type { SkillInfo } from './skill-loader';
+import { APP_VERSION, compareVersions } from './app-version';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type UnmetRequirement =
+  | { type: 'tool'; name: string }
+  | {
+      type: 'skill';
+      name: string;
+      /** missing: not installed, disabled: not enabled, unavailable: its own requirements are unmet */
+      reason: 'missing' | 'disabled' | 'unavailable';
+    }
+  | { type: 'app_version'; version: string };
+
+export interface RequirementContext {
+  /** All installed skills */
+  skills: SkillInfo[];
+  enabledSkillNames: string[];
+  /** Registered tools – tool requirements are not checked if omitted */
+  availableToolNames?: string[];
+}
+
+// ── Checks ───────────────────────────────────────────────────────────────────
+
+/** Requirements of `skill` that fail regardless of other skills (tools, app version) */
+function ownUnmet(skill: SkillInfo, tools: Set<string> | null): UnmetRequirement[] {
+  const unmet: UnmetRequirement[] = [];
+  if (tools) {
+    for (const tool of skill.requiredTools) {
+      if (!tools.has(tool)) unmet.push({ type: 'tool', name: tool });
+    }
+  }
+  if (skill.minAppVersion && compareVersions(APP_VERSION, skill.minAppVersion) < 0) {
+    unmet.push({ type: 'app_version', version: skill.minAppVersion });
+  }
+  return unmet;
+}
+
+/**
+ * Names of the enabled skills whose requirements are all met. A skill that
+ * requires an unusable skill is unusable too (resolved until nothing changes).
+ */
+export function getUsableSkillNames(ctx: RequirementContext): Set<string> {
+  const byName = new Map(ctx.skills.map(s => [s.name, s]));
+  const tools = ctx.availableToolNames ? new Set(ctx.availableToolNames) : null;
+
+  const usable = new Set(
+    ctx.enabledSkillNames.filter(name => {
+      const skill = byName.get(name);
+      return skill !== undefined && ownUnmet(skill, tools).length === 0;
+    }),
+  );
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const name of usable) {
+      const skill = byName.get(name)!;
+      if (skill.requiredSkills.some(required => !usable.has(required))) {
+        usable.delete(name);
+        changed = true;
+      }
+    }
+  }
+  return usable;
+}
+
+/**
+ * Requirements of `skill` that are unmet – empty if it could be used once
+ * enabled. Requirements on other skills name why that skill is not usable.
+ */
+export function getUnmetRequirements(skill: SkillInfo, ctx: RequirementContext): UnmetRequirement[] {
+  const tools = ctx.availableToolNames ? new Set(ctx.availableToolNames) : null;
+  const unmet = ownUnmet(skill, tools);
+  if (skill.requiredSkills.length === 0) {
+    return unmet;
+  }
+
+  const installed = new Set(ctx.skills.map(s => s.name));
+  const enabled = new Set(ctx.enabledSkillNames);
+  const usable = getUsableSkillNames(ctx);
+  for (const name of skill.requiredSkills) {
+    if (!installed.has(name)) {
+      unmet.push({ type: 'skill', name, reason: 'missing' });
+    } else if (!enabled.has(name)) {
+      unmet.push({ type: 'skill', name, reason: 'disabled' });
+    } else if (!usable.has(name)) {
+      unmet.push({ type: 'skill', name, reason: 'unavailable' });
+    }
+  }
+  return unmet;
+}
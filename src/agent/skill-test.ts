@@ -59,6 +59,7 @@ export async function runSkillTest(
         provider,
         tools: silentRegistry,
         maxIterations: 6,
+        usageSource: { type: 'skill_test', id: skill.name },
       },
       messages,
     );
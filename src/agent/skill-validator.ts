@@ -3,16 +3,28 @@
  *
  * Validation rules:
  *  - Max file size: 50 KB
- *  - Must have valid YAML frontmatter block (---\n...\n---)
+ *  - Must have valid YAML frontmatter block (---\n...\n---) – see yaml-subset.ts
  *  - Required fields: name (non-empty string), description (non-empty string)
  *  - Optional fields: test_prompt, android_package (strings)
+ *  - version: dotted number (e.g. 1.2.0); source_url: http(s) URL, needs version
+ *  - requires_tools / requires_skills: arrays of names; a skill cannot require itself
+ *  - min_app_version: dotted number, not newer than the running app
  *  - permissions: must be array of non-empty strings if present
  *  - credentials: must be array of objects with id, label, type if present
  *  - name must not conflict with built-in bundled skill names
+ *
+ * Skill packages (skill-package.ts) are checked by validateSkillPackage:
+ * the SKILL.md as above, plus limits on number, size and paths of the
+ * auxiliary files.
  */
-import { parseFrontmatter } from './skill-loader';
+import { parseFrontmatter } from './skill-frontmatter';
+import type { SkillPackage } from './skill-package';
+import { APP_VERSION, compareVersions } from './app-version';
 
 const MAX_SKILL_SIZE_BYTES = 50 * 1024; // 50 KB
+const MAX_PACKAGE_FILES = 20;
+const MAX_PACKAGE_FILE_BYTES = 50 * 1024; // 50 KB per auxiliary file
+const MAX_PACKAGE_SIZE_BYTES = 512 * 1024; // 512 KB for the whole package
 
 /** Names of skills bundled at build time (auto-populated at runtime) */
 const BUNDLED_SKILL_NAMES = new Set<string>();
@@ -22,6 +34,11 @@ export function registerBundledSkillName(name: string): void {
   BUNDLED_SKILL_NAMES.add(name);
 }
 
+/** UTF-8 size of a text in bytes */
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
 export interface ValidationResult {
   valid: boolean;
   error?: string;
@@ -33,11 +50,11 @@ export interface ValidationResult {
  */
 export function validateSkillContent(content: string): ValidationResult {
   // 1. Size check
-  const byteLength = new TextEncoder().encode(content).length;
-  if (byteLength > MAX_SKILL_SIZE_BYTES) {
+  const size = byteLength(content);
+  if (size > MAX_SKILL_SIZE_BYTES) {
     return {
       valid: false,
-      error: `Skill file too large (${Math.round(byteLength / 1024)} KB). Maximum allowed size is 50 KB.`,
+      error: `Skill file too large (${Math.round(size / 1024)} KB). Maximum allowed size is 50 KB.`,
     };
   }
 
@@ -51,8 +68,11 @@ export function validateSkillContent(content: string): ValidationResult {
     };
   }
 
-  // 3. Parse frontmatter
-  const { frontmatter } = parseFrontmatter(content);
+  // 3. Parse frontmatter (YAML errors carry the line number)
+  const { frontmatter, error: yamlError } = parseFrontmatter(content);
+  if (yamlError) {
+    return { valid: false, error: yamlError };
+  }
 
   // 4. Required fields: name
   if (!frontmatter.name || frontmatter.name.trim() === '' || frontmatter.name === 'unknown') {
@@ -104,7 +124,62 @@ export function validateSkillContent(content: string): ValidationResult {
     }
   }
 
-  // 9. credentials schema check
+  // 9. version / source_url
+  const { version, source_url: sourceUrl } = frontmatter;
+  if (version !== undefined && !/^\d+(\.\d+){0,3}$/.test(version)) {
+    return {
+      valid: false,
+      error: `Invalid version "${version}": use dotted numbers like "1.2.0".`,
+    };
+  }
+  if (sourceUrl !== undefined) {
+    if (!/^https?:\/\/\S+$/.test(sourceUrl)) {
+      return { valid: false, error: `Invalid source_url "${sourceUrl}": must be an http(s) URL.` };
+    }
+    if (version === undefined) {
+      return {
+        valid: false,
+        error: 'A skill with source_url also needs a version – updates are detected by comparing versions.',
+      };
+    }
+  }
+
+  // 10. requirements (see skill-requirements.ts)
+  for (const key of ['requires_tools', 'requires_skills'] as const) {
+    const names = frontmatter[key];
+    if (names === undefined) continue;
+    if (!Array.isArray(names)) {
+      return { valid: false, error: `frontmatter "${key}" must be an array of names.` };
+    }
+    for (const entry of names) {
+      if (typeof entry !== 'string' || !/^[a-z0-9_-]+$/.test(entry.trim())) {
+        return {
+          valid: false,
+          error: `Invalid entry "${entry}" in "${key}": use names like "play_audio" or "contacts".`,
+        };
+      }
+    }
+  }
+  if (frontmatter.requires_skills?.includes(frontmatter.name.trim())) {
+    return { valid: false, error: 'A skill cannot list itself in "requires_skills".' };
+  }
+  const minAppVersion = frontmatter.min_app_version;
+  if (minAppVersion !== undefined) {
+    if (!/^\d+(\.\d+){0,3}$/.test(minAppVersion)) {
+      return {
+        valid: false,
+        error: `Invalid min_app_version "${minAppVersion}": use dotted numbers like "1.2.0".`,
+      };
+    }
+    if (compareVersions(APP_VERSION, minAppVersion) < 0) {
+      return {
+        valid: false,
+        error: `This skill requires app version ${minAppVersion} or newer (installed: ${APP_VERSION}). Update the app first.`,
+      };
+    }
+  }
+
+  // 11. credentials schema check
   if (frontmatter.credentials !== undefined) {
     if (!Array.isArray(frontmatter.credentials)) {
       return { valid: false, error: 'frontmatter "credentials" must be an array of objects.' };
@@ -132,6 +207,55 @@ export function validateSkillContent(content: string): ValidationResult {
   return { valid: true };
 }
 
+/**
+ * Validate an imported skill package: its SKILL.md (validateSkillContent)
+ * and its auxiliary files.
+ */
+export function validateSkillPackage(pkg: SkillPackage): ValidationResult {
+  const skillResult = validateSkillContent(pkg.skill);
+  if (!skillResult.valid) {
+    return skillResult;
+  }
+
+  const paths = Object.keys(pkg.files);
+  if (paths.length > MAX_PACKAGE_FILES) {
+    return {
+      valid: false,
+      error: `Too many files in package (${paths.length}). Maximum is ${MAX_PACKAGE_FILES}.`,
+    };
+  }
+
+  let totalBytes = byteLength(pkg.skill) + byteLength(pkg.changelog ?? '');
+  for (const path of paths) {
+    if (!/^[\w.-]+(\/[\w.-]+)*$/.test(path) || path.split('/').some(part => /^\.+$/.test(part))) {
+      return {
+        valid: false,
+        error: `Invalid file path "${path}": use relative paths like "reference/api.md".`,
+      };
+    }
+    if (path === 'SKILL.md') {
+      return { valid: false, error: 'SKILL.md belongs into the "skill" field, not into "files".' };
+    }
+    const bytes = byteLength(pkg.files[path]);
+    if (bytes > MAX_PACKAGE_FILE_BYTES) {
+      return {
+        valid: false,
+        error: `File "${path}" too large (${Math.round(bytes / 1024)} KB). Maximum allowed size is 50 KB.`,
+      };
+    }
+    totalBytes += bytes;
+  }
+
+  if (totalBytes > MAX_PACKAGE_SIZE_BYTES) {
+    return {
+      valid: false,
+      error: `Skill package too large (${Math.round(totalBytes / 1024)} KB). Maximum allowed size is 512 KB.`,
+    };
+  }
+
+  return { valid: true };
+}
+
 /** Extract the skill name from validated content (convenience helper) */
 export function extractSkillName(content: string): string {
   const { frontmatter } = parseFrontmatter(content);
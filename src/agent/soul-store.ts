@@ -2,6 +2,12 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const SOUL_KEY = 'soul_md';
 
+/**
+ * A SOUL line that picks the persona's TTS voice, e.g. "Voice: nova" or
+ * "- Stimme: de-de-x-deb-local" (engine voice names, see Settings → Language)
+ */
+const VOICE_LINE = /^\s*(?:[-*]\s*)?(?:\*\*)?(?:voice|stimme)(?:\*\*)?\s*:\s*(?:\*\*)?\s*[`"']?([\w.-]+)[`"']?\s*$/im;
+
 export class SoulStore {
   static async getSoul(): Promise<string> {
     try {
@@ -19,4 +25,9 @@ export class SoulStore {
   static async clearSoul(): Promise<void> {
     await AsyncStorage.removeItem(SOUL_KEY);
   }
+
+  /** Preferred TTS voice declared in the SOUL text, or null */
+  static parseVoice(soul: string): string | null {
+    return VOICE_LINE.exec(soul)?.[1] ?? null;
+  }
 }
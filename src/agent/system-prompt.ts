@@ -15,6 +15,7 @@ import type { LLMProvider } from '../llm/types';
 import { DebugLogger } from './debug-logger';
 import { SoulStore } from './soul-store';
 import { PersonalMemoryStore } from './personal-memory-store';
+import { UsageLedger, type UsageSource } from './usage-ledger';
 
 export interface SystemPromptConfig {
   skillLoader: SkillLoader;
@@ -156,7 +157,8 @@ ${toolSummaries.join('\n')}`);
   }
 
   // Skills section
-  const skillsSummary = skillLoader.buildSkillsSummary(enabledSkillNames);
+  // Skills whose required tools are missing in this agent are left out
+  const skillsSummary = skillLoader.buildSkillsSummary(enabledSkillNames, toolRegistry.list());
   if (skillsSummary) {
     parts.push(`## Available Skills
 
@@ -209,8 +211,10 @@ export async function formulateError(opts: {
   rawError: string;
   drivingMode: boolean;
   language: string;
+  /** Schedule or notification rule the error belongs to (usage ledger) */
+  usageSource: UsageSource;
 }): Promise<string> {
-  const { provider, instruction, rawError, drivingMode, language } = opts;
+  const { provider, instruction, rawError, drivingMode, language, usageSource } = opts;
 
   // Load soul and personal memory directly from stores
   const soul = await SoulStore.getSoul();
@@ -263,6 +267,7 @@ ${trimmedMemory}`);
       ],
       [],
     );
+    UsageLedger.recordResponse(provider.getCurrentModel(), response.usage, usageSource);
     const result = response.content?.trim() || rawError;
     DebugLogger.add('llm', 'FormulateError', `Formatted error → ${result}`);
     return result;
@@ -314,6 +319,7 @@ export async function generateAnnouncement(opts: {
       [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }],
       [],
     );
+    UsageLedger.recordResponse(provider.getCurrentModel(), response.usage, { type: 'notification' });
     return response.content?.trim() || `${appName} von ${sender} erhalten, verarbeite…`;
   } catch (err) {
     DebugLogger.add('error', 'GenerateAnnouncement', `Announcement LLM call failed: ${err}`);
@@ -338,8 +344,11 @@ export async function formulateResponse(opts: {
   rawMessage: string;
   drivingMode: boolean;
   language: string;
+  /** Defaults to the accessibility run of `packageName` */
+  usageSource?: UsageSource;
 }): Promise<string> {
   const { provider, packageName, goal, status, rawMessage, drivingMode, language } = opts;
+  const usageSource = opts.usageSource ?? { type: 'accessibility', id: packageName };
 
   // Load soul and personal memory directly from stores
   const soul = await SoulStore.getSoul();
@@ -401,6 +410,7 @@ ${trimmedMemory}`);
       ],
       [],
     );
+    UsageLedger.recordResponse(provider.getCurrentModel(), response.usage, usageSource);
     const result = response.content?.trim() || rawMessage;
     DebugLogger.add('llm', 'FormulateResponse', `→ ${result}`);
     return result;
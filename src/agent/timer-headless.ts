@@ -6,7 +6,7 @@
  *
  * This module:
  *   1. Loads the timer from native storage
- *   2. Loads the agent config (API key, provider, language)
+ *   2. Loads the agent config (provider, language – see agent-config.ts)
  *   3. Uses formulateResponse to format a user-friendly message via LLM
  *   4. Writes the message to the conversation
  */
@@ -17,19 +17,12 @@ import { DebugLogger } from './debug-logger';
 import { DebugFileLogger } from './debug-file-logger';
 import { ConversationStore } from './conversation-store';
 import TimerModule from '../native/TimerModule';
-import SchedulerModule from '../native/SchedulerModule';
 import { bringToForeground } from './bring-to-foreground';
+import { loadHeadlessSkills } from './headless-skills';
+import { loadAgentConfig, agentEndpoint } from './agent-config';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
-interface AgentConfig {
-  apiKey: string;
-  provider: 'claude' | 'openai';
-  model?: string;
-  drivingMode?: boolean;
-  language?: string;
-}
-
 interface Timer {
   id: string;
   label?: string;
@@ -50,6 +43,7 @@ export default async function timerHeadlessTask(
   const { timerId } = taskData;
   DebugFileLogger.writeSystemLog('LIFECYCLE', `▶ SannaTimerTask started (id=${timerId})`);
   DebugLogger.add('info', TAG, `⏰ Timer expired: ${timerId}`);
+  await loadHeadlessSkills();
 
   // These are set progressively – used in the catch block for LLM error formatting
   let provider: LLMProvider | null = null;
@@ -77,9 +71,9 @@ export default async function timerHeadlessTask(
 
     DebugLogger.add('info', TAG, `Timer loaded: "${timerLabel}"`, JSON.stringify(timer, null, 2));
 
-    // 2. Load agent config (use SchedulerModule's config - same storage)
-    const configJson = await SchedulerModule.getAgentConfig();
-    if (!configJson) {
+    // 2. Load agent config (shared by all headless tasks)
+    const config = await loadAgentConfig();
+    if (!config) {
       DebugLogger.add('error', TAG, 'No agent config found – cannot format message');
       // Fallback: write simple message
       await ConversationStore.appendPending(
@@ -90,13 +84,13 @@ export default async function timerHeadlessTask(
       await TimerModule.removeTimer(timerId).catch(() => {});
       return;
     }
-    const config: AgentConfig = JSON.parse(configJson);
 
-    lang = config.language || 'en-US';
-    drivingMode = config.drivingMode ?? false;
+    lang = config.language;
+    drivingMode = config.drivingMode;
 
-    if (!config.apiKey) {
-      DebugLogger.add('error', TAG, 'No API key in agent config');
+    const endpoint = agentEndpoint(config);
+    if (!endpoint) {
+      DebugLogger.add('error', TAG, `Provider ${config.provider} is not configured completely in agent config`);
       // Fallback: write simple message
       await ConversationStore.appendPending(
         'assistant',
@@ -108,11 +102,7 @@ export default async function timerHeadlessTask(
     }
 
     // 3. Create LLM provider
-    provider = createLLMProvider({
-      provider: config.provider,
-      apiKey: config.apiKey,
-      model: config.model || '',
-    });
+    provider = createLLMProvider({ ...endpoint, fallbacks: config.fallbacks });
 
     DebugLogger.add('info', TAG, `Provider: ${config.provider} (${config.model || 'default'})`);
 
@@ -126,6 +116,7 @@ export default async function timerHeadlessTask(
       rawMessage,
       drivingMode,
       language: lang,
+      usageSource: { type: 'schedule', id: 'timer' },
     });
 
     // 5. Write to pending queue FIRST, then restore foreground.
@@ -15,3 +15,25 @@ export const SILENT_REPLY_TOKEN = '__SILENT__';
 
 /** Token returned by the notification sub-agent when no rule condition matches. */
 export const NO_MATCH_TOKEN = '__NO_MATCH__';
+
+/**
+ * Tokens of the multi-step scheduler workflow (see schedule-workflow.ts).
+ * A step precondition check answers with CONDITION_TRUE/FALSE; a step that
+ * could not be completed answers with STEP_FAILED followed by the reason.
+ */
+export const CONDITION_TRUE_TOKEN = '__CONDITION_TRUE__';
+export const CONDITION_FALSE_TOKEN = '__CONDITION_FALSE__';
+export const STEP_FAILED_TOKEN = '__STEP_FAILED__';
+
+/**
+ * Prefix of the line with which the notification sub-agent names the rule it
+ * executed (e.g. "__RULE__: rule_123"). The line is stripped from the result
+ * and recorded in the notification history.
+ */
+export const MATCHED_RULE_PREFIX = '__RULE__:';
+
+/**
+ * Prefix of the line with which the notification sub-agent explains, in a
+ * dry run, why a rule matched or none did (see notification-dry-run.ts).
+ */
+export const MATCH_REASON_PREFIX = '__REASON__:';
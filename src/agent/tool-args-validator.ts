@@ -0,0 +1,216 @@
+/**
+ * ToolArgsValidator – Validate LLM tool-call arguments against a tool's JSON schema
+ *
+ * Supports the JSON-schema subset used by the tool definitions: type
+ * (single or list), enum, required, properties, items, additionalProperties,
+ * minItems/maxItems, minimum/maximum, minLength and pattern.
+ *
+ * Lossless coercions are applied instead of reported, since models often
+ * quote numbers or stringify nested JSON:
+ *   "5" → 5 (number/integer), "true" → true (boolean), 5 → "5" (string),
+ *   '[…]' / '{…}' JSON strings → array/object.
+ * `null` for an optional property is treated as "not provided".
+ *
+ * All violations are collected (not just the first) so the model can fix
+ * every problem in a single retry.
+ */
+
+export interface ArgsValidationResult {
+  /** Arguments after coercion – pass these to the tool */
+  args: Record<string, unknown>;
+  /** Human/model-readable violations, e.g. `method: must be one of GET, POST` */
+  violations: string[];
+}
+
+type Schema = Record<string, unknown>;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function describe(value: unknown): string {
+  const json = JSON.stringify(value);
+  return json && json.length > 60 ? `${json.slice(0, 57)}...` : String(json);
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+/** Try to convert `value` losslessly into `type`; undefined if impossible */
+function coerce(value: unknown, type: string): unknown {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if ((type === 'number' || type === 'integer') && trimmed !== '' && !isNaN(Number(trimmed))) {
+      const num = Number(trimmed);
+      return type === 'integer' && !Number.isInteger(num) ? undefined : num;
+    }
+    if (type === 'boolean' && (trimmed === 'true' || trimmed === 'false')) {
+      return trimmed === 'true';
+    }
+    if ((type === 'array' && trimmed.startsWith('[')) || (type === 'object' && trimmed.startsWith('{'))) {
+      try {
+        const parsed = JSON.parse(trimmed) as unknown;
+        return matchesType(parsed, type) ? parsed : undefined;
+      } catch {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+  if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Validate one value. Returns the (possibly coerced) value and appends
+ * violations for `path` to `violations`.
+ */
+function validateValue(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  violations: string[],
+): unknown {
+  const label = path || 'arguments';
+  const rawType = schema.type;
+  const types = Array.isArray(rawType)
+    ? (rawType as string[])
+    : typeof rawType === 'string'
+    ? [rawType]
+    : [];
+
+  let current = value;
+  if (types.length > 0 && !types.some(t => matchesType(current, t))) {
+    const coerced = types
+      .map(t => coerce(current, t))
+      .find(c => c !== undefined);
+    if (coerced === undefined) {
+      violations.push(`${label}: expected ${types.join(' or ')}, got ${typeOf(current)} ${describe(current)}`);
+      return current;
+    }
+    current = coerced;
+  }
+
+  const allowed = schema.enum as unknown[] | undefined;
+  if (Array.isArray(allowed) && !allowed.includes(current)) {
+    violations.push(`${label}: must be one of ${allowed.map(a => String(a)).join(', ')} (got ${describe(current)})`);
+  }
+
+  if (typeof current === 'number') {
+    if (typeof schema.minimum === 'number' && current < schema.minimum) {
+      violations.push(`${label}: must be >= ${schema.minimum} (got ${current})`);
+    }
+    if (typeof schema.maximum === 'number' && current > schema.maximum) {
+      violations.push(`${label}: must be <= ${schema.maximum} (got ${current})`);
+    }
+  }
+
+  if (typeof current === 'string') {
+    if (typeof schema.minLength === 'number' && current.length < schema.minLength) {
+      violations.push(`${label}: must be at least ${schema.minLength} characters long`);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(current)) {
+          violations.push(`${label}: must match pattern ${schema.pattern} (got ${describe(current)})`);
+        }
+      } catch {
+        // Invalid pattern in the tool schema – not the model's fault
+      }
+    }
+  }
+
+  if (Array.isArray(current)) {
+    if (typeof schema.minItems === 'number' && current.length < schema.minItems) {
+      violations.push(`${label}: must contain at least ${schema.minItems} item(s)`);
+    }
+    if (typeof schema.maxItems === 'number' && current.length > schema.maxItems) {
+      violations.push(`${label}: must contain at most ${schema.maxItems} item(s)`);
+    }
+    const itemSchema = schema.items as Schema | undefined;
+    if (itemSchema && typeof itemSchema === 'object') {
+      current = current.map((item, i) => validateValue(item, itemSchema, joinPath(path, i), violations));
+    }
+  }
+
+  if (typeOf(current) === 'object' && (schema.properties || schema.required)) {
+    current = validateObject(current as Record<string, unknown>, schema, path, violations);
+  }
+
+  return current;
+}
+
+function validateObject(
+  obj: Record<string, unknown>,
+  schema: Schema,
+  path: string,
+  violations: string[],
+): Record<string, unknown> {
+  const properties = (schema.properties ?? {}) as Record<string, Schema>;
+  const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(obj)) {
+    const propSchema = properties[key];
+    if (value === null && !required.includes(key)) {
+      continue; // optional property explicitly set to null = not provided
+    }
+    if (!propSchema) {
+      if (schema.additionalProperties === false) {
+        violations.push(`${joinPath(path, key)}: unknown property (allowed: ${Object.keys(properties).join(', ')})`);
+      } else {
+        result[key] = value;
+      }
+      continue;
+    }
+    result[key] = validateValue(value, propSchema, joinPath(path, key), violations);
+  }
+
+  for (const key of required) {
+    if (obj[key] === undefined || obj[key] === null) {
+      violations.push(`${joinPath(path, key)}: required property is missing`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate tool-call arguments against a tool's `parameters()` schema.
+ * Returns coerced arguments and the list of violations (empty = valid).
+ */
+export function validateToolArgs(
+  schema: Record<string, unknown>,
+  args: Record<string, unknown>,
+): ArgsValidationResult {
+  const violations: string[] = [];
+  const input = args && typeof args === 'object' && !Array.isArray(args) ? args : {};
+  const validated = validateObject(input, schema, '', violations);
+  return { args: validated, violations };
+}
+
+/** Format violations as one error message the model can act on */
+export function formatArgsViolations(toolName: string, violations: string[]): string {
+  return (
+    `Invalid arguments for tool "${toolName}":\n` +
+    violations.map(v => `- ${v}`).join('\n') +
+    '\nFix all listed problems and call the tool again.'
+  );
+}
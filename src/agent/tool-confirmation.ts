@@ -0,0 +1,113 @@
+/**
+ * ToolConfirmation – User confirmation gate for risky tool calls
+ *
+ * Tools classify their own calls via Tool.isRisky() (sending messages,
+ * placing calls, mutating HTTP requests, UI automation). Depending on the
+ * configured ToolConfirmationPolicy, runToolLoop asks before such a call runs:
+ *   - Main pipeline: confirmation card on HomeScreen, in driving mode also
+ *     a spoken yes/no question (see App.tsx)
+ *   - Headless tasks: notification with Allow / Deny actions
+ *     (see confirmation-headless.ts)
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/**
+ * When risky tool calls need the user's confirmation:
+ *   - app:     in the conversation only – schedules and notification rules
+ *              the user set up run their actions unattended
+ *   - always:  also in headless tasks (approval via notification)
+ *   - driving: only in driving mode (conversation and headless tasks);
+ *              auto-reply rules answer the notification they handle unasked
+ *   - never
+ */
+export type ToolConfirmationPolicy = 'app' | 'always' | 'driving' | 'never';
+
+export interface ToolConfirmationRequest {
+  /** Unique id – used to match the user's answer to the request */
+  id: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  /** Short human-readable summary of the call (see Tool.describeCall) */
+  description: string;
+}
+
+/**
+ * - approved: run the call now
+ * - denied:   do not run the call
+ * - deferred: the call was handed over to another channel (notification)
+ *             and runs later if the user approves it there
+ */
+export type ToolConfirmationDecision = 'approved' | 'denied' | 'deferred';
+
+export type ConfirmToolCall = (
+  request: ToolConfirmationRequest,
+) => Promise<ToolConfirmationDecision>;
+
+/** Keeps existing automations running as configured */
+export const DEFAULT_CONFIRMATION_POLICY: ToolConfirmationPolicy = 'app';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Whether risky calls must be confirmed under `policy` right now */
+export function isConfirmationRequired(
+  policy: ToolConfirmationPolicy | undefined,
+  drivingMode: boolean,
+  headless = false,
+): boolean {
+  switch (policy ?? DEFAULT_CONFIRMATION_POLICY) {
+    case 'app':
+      return !headless;
+    case 'always':
+      return true;
+    case 'driving':
+      return drivingMode;
+    default:
+      return false;
+  }
+}
+
+export function createConfirmationId(): string {
+  return `confirm_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const YES_WORDS = [
+  'yes', 'yeah', 'yep', 'sure', 'ok', 'okay', 'do it', 'go ahead', 'send it', 'confirm', 'correct',
+  'ja', 'jawohl', 'genau', 'passt', 'mach das', 'bestätigen', 'richtig', 'klar',
+];
+
+const NO_WORDS = [
+  'no', 'nope', 'cancel', 'stop', "don't", 'do not', 'abort', 'wrong',
+  'nein', 'nicht', 'abbrechen', 'stopp', 'falsch', 'lass es', 'auf keinen fall',
+];
+
+function containsWord(text: string, word: string): boolean {
+  return ` ${text} `.includes(` ${word} `);
+}
+
+/**
+ * Interpret a spoken answer to a confirmation question (English + German).
+ * Returns null when the answer is empty or ambiguous – a negation wins
+ * over an affirmation ("yes, no, cancel" → false).
+ */
+export function parseYesNo(text: string): boolean | null {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[.,!?;:"]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!normalized) return null;
+
+  if (NO_WORDS.some(w => containsWord(normalized, w))) return false;
+  if (YES_WORDS.some(w => containsWord(normalized, w))) return true;
+  return null;
+}
+
+/** Describe a call for the user when the tool has no describeCall() */
+export function describeToolCallFallback(
+  toolName: string,
+  args: Record<string, unknown>,
+): string {
+  const json = JSON.stringify(args);
+  return `${toolName}(${json.length > 120 ? `${json.slice(0, 117)}...` : json})`;
+}
@@ -3,11 +3,22 @@
  *
  * Iterates: LLM call → tool calls → tool results → back to LLM
  * until no more tool calls or maxIterations reached.
+ *
+ * Independent read-only tool calls (see Tool.isConcurrencySafe) within one
+ * LLM turn are executed in parallel; their results keep the requested order.
+ *
+ * Risky calls (see Tool.isRisky) are only executed after confirmToolCall()
+ * approved them; the loop waits for the user's answer.
  */
-import type { LLMProvider, Message } from '../llm/types';
+import type { LLMProvider, Message, ToolCall } from '../llm/types';
 import type { ToolRegistry } from './tool-registry';
+import type { ToolResult } from '../tools/types';
+import { errorResult, successResult } from '../tools/types';
 import { DebugLogger } from './debug-logger';
 import { SILENT_REPLY_TOKEN } from './tokens';
+import { UsageLedger, type UsageSource } from './usage-ledger';
+import { createConfirmationId, type ConfirmToolCall } from './tool-confirmation';
+
 export interface ToolLoopConfig {
   provider: LLMProvider;
   tools: ToolRegistry;
@@ -24,6 +35,22 @@ export interface ToolLoopConfig {
   earlyExitContent?: () => string;
   /** Called after each iteration completes (after tool execution, before next iteration) */
   onIterationComplete?: () => void;
+  /**
+   * Called with assistant text deltas while the LLM is still generating.
+   * When set and the provider supports chatStream(), responses are streamed;
+   * `iteration` lets the caller discard text from earlier tool-call rounds.
+   */
+  onTextDelta?: (delta: string, iteration: number) => void;
+  /**
+   * What this loop runs on behalf of. When set, the token usage of every
+   * LLM call is recorded in the UsageLedger under this source.
+   */
+  usageSource?: UsageSource;
+  /**
+   * Asked before a risky tool call (see ToolRegistry.isRisky) runs.
+   * Unset = risky calls run without confirmation.
+   */
+  confirmToolCall?: ConfirmToolCall;
 }
 
 export interface ToolLoopResult {
@@ -31,6 +58,8 @@ export interface ToolLoopResult {
   iterations: number;
   /** All messages generated during the loop (assistant + tool results) */
   newMessages: Message[];
+  /** Stopped at maxIterations – `content` is a limit message, not an answer */
+  hitLimit?: boolean;
 }
 
 /**
@@ -46,15 +75,30 @@ export async function runToolLoop(
 
   for (let i = 0; i < config.maxIterations; i++) {
     DebugLogger.logLoopIteration(i, config.maxIterations);
+
+    // Checked before every call – a long loop must not run past the cap
+    const budgetError = await UsageLedger.checkBudget();
+    if (budgetError) {
+      DebugLogger.logError('BUDGET', budgetError);
+      throw new Error(`LLM budget exceeded: ${budgetError}`);
+    }
     const toolDefs = config.tools.definitions();
 
     // Call LLM
     DebugLogger.logLLMRequest(config.provider.getCurrentModel(), messages.length, toolDefs.length, messages);
-    const response = await config.provider.chat(
-      messages,
-      toolDefs,
-    );
+    const onTextDelta = config.onTextDelta;
+    const response = onTextDelta && config.provider.chatStream
+      ? await config.provider.chatStream(messages, toolDefs, {
+          onTextDelta: delta => onTextDelta(delta, i),
+        })
+      : await config.provider.chat(
+          messages,
+          toolDefs,
+        );
     DebugLogger.logLLMResponse(response.content, response.toolCalls ?? [], response.usage, response);
+    if (config.usageSource) {
+      UsageLedger.recordResponse(config.provider.getCurrentModel(), response.usage, config.usageSource);
+    }
 
     // No tool calls → we have the final answer
     if (!response.toolCalls || response.toolCalls.length === 0) {
@@ -72,30 +116,41 @@ export async function runToolLoop(
     messages = [...messages, assistantMsg];
     newMessages.push(assistantMsg);
 
-    // Execute all tool calls and collect results
+    // Execute all tool calls and collect results. Consecutive concurrency-safe
+    // calls run as one parallel batch; everything else runs alone, in order.
     let shouldExitSilently = false;
-    for (const tc of response.toolCalls) {
-      DebugLogger.logToolCall(tc.name, tc.arguments);
-      const result = await config.tools.execute(tc.name, tc.arguments);
-      DebugLogger.logToolResult(tc.name, result.forLLM, result.forUser, result.isError);
-
-      // Check if tool returned SILENT_REPLY_TOKEN (e.g., accessibility tool waiting for background result)
-      if (result.forLLM?.includes(SILENT_REPLY_TOKEN)) {
-        shouldExitSilently = true;
-      }
-
-      // In driving mode, speak tool results to user immediately
-      if (result.forUser && config.onUserMessage) {
-        config.onUserMessage(result.forUser);
-      }
-
-      const toolResultMsg: Message = {
-        role: 'tool',
-        content: result.forLLM,
-        toolCallId: tc.id,
-      };
-      messages = [...messages, toolResultMsg];
-      newMessages.push(toolResultMsg);
+    for (const batch of groupToolCalls(response.toolCalls, config.tools)) {
+      const results = await Promise.all(
+        batch.map(async tc => {
+          DebugLogger.logToolCall(tc.name, tc.arguments);
+          const result = await executeToolCall(config, tc);
+          DebugLogger.logToolResult(tc.name, result.forLLM, result.forUser, result.isError);
+          return result;
+        }),
+      );
+
+      // Results are consumed in the order the LLM requested the calls
+      batch.forEach((tc, idx) => {
+        const result = results[idx];
+
+        // Check if tool returned SILENT_REPLY_TOKEN (e.g., accessibility tool waiting for background result)
+        if (result.forLLM?.includes(SILENT_REPLY_TOKEN)) {
+          shouldExitSilently = true;
+        }
+
+        // In driving mode, speak tool results to user immediately
+        if (result.forUser && config.onUserMessage) {
+          config.onUserMessage(result.forUser);
+        }
+
+        const toolResultMsg: Message = {
+          role: 'tool',
+          content: result.forLLM,
+          toolCallId: tc.id,
+        };
+        messages = [...messages, toolResultMsg];
+        newMessages.push(toolResultMsg);
+      });
     }
 
     // If a tool requested silent exit (e.g., background task started), exit without generating response
@@ -125,5 +180,61 @@ export async function runToolLoop(
   const timeoutMessage = finalContent || 
     `Maximum iterations (${config.maxIterations}) reached. The task could not be completed.`;
   
-  return { content: timeoutMessage, iterations: config.maxIterations, newMessages };
+  return { content: timeoutMessage, iterations: config.maxIterations, newMessages, hitLimit: true };
+}
+
+/**
+ * Execute one tool call, asking for confirmation first when it is risky.
+ * Declined or deferred calls return a result that tells the LLM not to retry.
+ */
+async function executeToolCall(config: ToolLoopConfig, tc: ToolCall): Promise<ToolResult> {
+  if (config.confirmToolCall && config.tools.isRisky(tc.name, tc.arguments)) {
+    const decision = await config.confirmToolCall({
+      id: createConfirmationId(),
+      toolName: tc.name,
+      args: tc.arguments,
+      description: config.tools.describeCall(tc.name, tc.arguments),
+    });
+    DebugLogger.add('tool', 'CONFIRM', `${tc.name}: ${decision}`);
+
+    if (decision === 'denied') {
+      return errorResult(
+        'The user declined this action, it was NOT executed. Do not retry it – ' +
+        'acknowledge briefly and ask what to do instead if unclear.',
+      );
+    }
+    if (decision === 'deferred') {
+      return successResult(
+        'The action was NOT executed yet: it waits for the user to approve it via a notification ' +
+        'and runs automatically once approved. Do not retry it; report that it awaits approval.',
+      );
+    }
+  }
+  return config.tools.execute(tc.name, tc.arguments);
+}
+
+/**
+ * Split tool calls into execution batches, preserving their order.
+ * Runs of consecutive concurrency-safe calls share a batch; any other call
+ * gets a batch of its own, so side effects keep their requested sequence.
+ */
+function groupToolCalls(toolCalls: ToolCall[], tools: ToolRegistry): ToolCall[][] {
+  const batches: ToolCall[][] = [];
+  let parallel: ToolCall[] = [];
+
+  for (const tc of toolCalls) {
+    if (tools.isConcurrencySafe(tc.name, tc.arguments)) {
+      parallel.push(tc);
+      continue;
+    }
+    if (parallel.length > 0) {
+      batches.push(parallel);
+      parallel = [];
+    }
+    batches.push([tc]);
+  }
+  if (parallel.length > 0) {
+    batches.push(parallel);
+  }
+  return batches;
 }
@@ -5,6 +5,8 @@ import type { Tool, ToolResult } from '../tools/types';
 import type { ToolDefinition } from '../llm/types';
 import type { SkillLoader } from './skill-loader';
 import { toolToDefinition, errorResult } from '../tools/types';
+import { validateToolArgs, formatArgsViolations } from './tool-args-validator';
+import { describeToolCallFallback } from './tool-confirmation';
 
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
@@ -60,14 +62,71 @@ export class ToolRegistry {
     return Array.from(this.tools.values()).map(toolToDefinition);
   }
 
-  /** Execute a tool by name with given arguments */
+  /**
+   * Whether a call may run in parallel with other concurrency-safe calls.
+   * Unknown tools and tools without a declaration are treated as unsafe.
+   */
+  isConcurrencySafe(name: string, args: Record<string, unknown>): boolean {
+    const tool = this.tools.get(name);
+    if (!tool?.isConcurrencySafe) {
+      return false;
+    }
+    try {
+      return tool.isConcurrencySafe(args);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether a call needs user confirmation before it runs (see Tool.isRisky).
+   * Calls with invalid arguments are not risky – execute() rejects them
+   * without running the tool.
+   */
+  isRisky(name: string, args: Record<string, unknown>): boolean {
+    const tool = this.tools.get(name);
+    if (!tool?.isRisky) {
+      return false;
+    }
+    try {
+      const validation = validateToolArgs(tool.parameters(), args);
+      return validation.violations.length === 0 && tool.isRisky(validation.args);
+    } catch {
+      // Err on the safe side: a classification failure requires confirmation
+      return true;
+    }
+  }
+
+  /** Human-readable summary of a call for confirmation prompts */
+  describeCall(name: string, args: Record<string, unknown>): string {
+    const tool = this.tools.get(name);
+    try {
+      if (tool?.describeCall) {
+        return tool.describeCall(validateToolArgs(tool.parameters(), args).args);
+      }
+    } catch {
+      // Fall through to the generic description
+    }
+    return describeToolCallFallback(name, args);
+  }
+
+  /**
+   * Execute a tool by name with given arguments.
+   * Arguments are validated (and losslessly coerced) against the tool's
+   * parameters() schema first; invalid calls return one error listing every
+   * violation, so the model can correct the call in the next iteration.
+   */
   async execute(name: string, args: Record<string, unknown>): Promise<ToolResult> {
     const tool = this.tools.get(name);
     if (!tool) {
       return errorResult(`Unknown tool: ${name}`);
     }
     try {
-      return await tool.execute(args);
+      const validation = validateToolArgs(tool.parameters(), args);
+      if (validation.violations.length > 0) {
+        return errorResult(formatArgsViolations(name, validation.violations));
+      }
+      return await tool.execute(validation.args);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       return errorResult(`Tool execution failed: ${message}`);
@@ -0,0 +1,250 @@
+/**
+ * UsageLedger – Persistent token and cost accounting for all LLM calls
+ *
+ * Every LLM response that reports usage is recorded with its model and the
+ * source that caused it (main pipeline turn, schedule, notification rule,
+ * accessibility run, skill test). Records are aggregated per day, model and
+ * source to keep the stored JSON small; days older than RETENTION_DAYS are
+ * dropped.
+ *
+ * The optional budget caps live in the same store so that headless tasks
+ * (which have no access to the app preferences) enforce them as well.
+ * runToolLoop checks the caps before every LLM call and refuses to continue
+ * once a cap has been reached.
+ *
+ * Persistence: AsyncStorage keys 'sanna_usage_ledger' and 'sanna_usage_budget'.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { estimateCostUsd } from '../llm/model-pricing';
+import type { LLMResponse } from '../llm/types';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const LEDGER_KEY = 'sanna_usage_ledger';
+const BUDGET_KEY = 'sanna_usage_budget';
+
+/** Days of history kept (enough for the current and previous month) */
+const RETENTION_DAYS = 62;
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type UsageSourceType =
+  | 'pipeline'
+  | 'schedule'
+  | 'notification'
+  | 'accessibility'
+  | 'skill_test';
+
+/** What caused an LLM call */
+export interface UsageSource {
+  type: UsageSourceType;
+  /** Schedule id, notification rule id(s), app package, skill name, … */
+  id?: string;
+}
+
+export interface UsageBucket {
+  model: string;
+  source: UsageSourceType;
+  sourceId?: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  /** Current month, aggregated per source type */
+  monthBySource: Partial<Record<UsageSourceType, UsageTotals>>;
+  /** Current month, aggregated per model */
+  monthByModel: Record<string, UsageTotals>;
+}
+
+/** Spending caps in USD. 0 or undefined = no cap. */
+export interface UsageBudget {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+/** Day key (YYYY-MM-DD, local time) → aggregated buckets */
+type LedgerData = Record<string, UsageBucket[]>;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function pad(n: number): string {
+  return n < 10 ? `0${n}` : String(n);
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+}
+
+function addTo(totals: UsageTotals, bucket: UsageBucket): void {
+  totals.calls += bucket.calls;
+  totals.promptTokens += bucket.promptTokens;
+  totals.completionTokens += bucket.completionTokens;
+  totals.costUsd += bucket.costUsd;
+}
+
+async function loadLedger(): Promise<LedgerData> {
+  try {
+    const json = await AsyncStorage.getItem(LEDGER_KEY);
+    if (!json) return {};
+    const parsed = JSON.parse(json) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as LedgerData) : {};
+  } catch {
+    return {};
+  }
+}
+
+// ── UsageLedger ──────────────────────────────────────────────────────────────
+
+export class UsageLedger {
+  /** Serialises read-modify-write cycles within this JS runtime */
+  private static writeQueue: Promise<void> = Promise.resolve();
+
+  /** Record the usage of one LLM call */
+  static record(entry: {
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    source: UsageSource;
+  }): Promise<void> {
+    const task = async () => {
+      const now = new Date();
+      const today = dayKey(now);
+      const ledger = await loadLedger();
+      const buckets = ledger[today] ?? [];
+
+      let bucket = buckets.find(
+        b => b.model === entry.model && b.source === entry.source.type && b.sourceId === entry.source.id,
+      );
+      if (!bucket) {
+        bucket = {
+          model: entry.model,
+          source: entry.source.type,
+          sourceId: entry.source.id,
+          ...emptyTotals(),
+        };
+        buckets.push(bucket);
+      }
+      bucket.calls += 1;
+      bucket.promptTokens += entry.promptTokens;
+      bucket.completionTokens += entry.completionTokens;
+      bucket.costUsd += estimateCostUsd(entry.model, entry.promptTokens, entry.completionTokens);
+      ledger[today] = buckets;
+
+      // Drop days outside the retention window
+      const cutoff = new Date(now);
+      cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+      const cutoffKey = dayKey(cutoff);
+      for (const key of Object.keys(ledger)) {
+        if (key < cutoffKey) delete ledger[key];
+      }
+
+      await AsyncStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+    };
+
+    const next = UsageLedger.writeQueue.then(task, task);
+    UsageLedger.writeQueue = next.catch(() => {});
+    return next;
+  }
+
+  /**
+   * Record the usage an LLM response reports (no-op without usage) – for
+   * provider.chat() calls outside runToolLoop. Fire and forget.
+   */
+  static recordResponse(model: string, usage: LLMResponse['usage'], source: UsageSource): void {
+    if (!usage) return;
+    UsageLedger.record({
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      source,
+    }).catch(() => {});
+  }
+
+  /** Aggregate today's and this month's usage */
+  static async getSummary(now = new Date()): Promise<UsageSummary> {
+    const ledger = await loadLedger();
+    const today = dayKey(now);
+    const monthPrefix = today.slice(0, 8); // "YYYY-MM-"
+
+    const summary: UsageSummary = {
+      today: emptyTotals(),
+      month: emptyTotals(),
+      monthBySource: {},
+      monthByModel: {},
+    };
+
+    for (const [key, buckets] of Object.entries(ledger)) {
+      if (!key.startsWith(monthPrefix)) continue;
+      for (const bucket of buckets) {
+        addTo(summary.month, bucket);
+        if (key === today) addTo(summary.today, bucket);
+
+        const bySource = summary.monthBySource[bucket.source] ?? emptyTotals();
+        addTo(bySource, bucket);
+        summary.monthBySource[bucket.source] = bySource;
+
+        const byModel = summary.monthByModel[bucket.model] ?? emptyTotals();
+        addTo(byModel, bucket);
+        summary.monthByModel[bucket.model] = byModel;
+      }
+    }
+    return summary;
+  }
+
+  /** Delete all recorded usage (budget caps are kept) */
+  static async clear(): Promise<void> {
+    await UsageLedger.writeQueue;
+    await AsyncStorage.removeItem(LEDGER_KEY);
+  }
+
+  // ── Budget ─────────────────────────────────────────────────────────────────
+
+  static async getBudget(): Promise<UsageBudget> {
+    try {
+      const json = await AsyncStorage.getItem(BUDGET_KEY);
+      return json ? (JSON.parse(json) as UsageBudget) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  static async setBudget(budget: UsageBudget): Promise<void> {
+    await AsyncStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  }
+
+  /**
+   * Check the budget caps against recorded spend.
+   * Returns a human-readable reason if a cap is reached, otherwise null.
+   */
+  static async checkBudget(): Promise<string | null> {
+    // Include calls that are still being written
+    await UsageLedger.writeQueue;
+    const budget = await UsageLedger.getBudget();
+    if (!budget.dailyUsd && !budget.monthlyUsd) return null;
+
+    const { today, month } = await UsageLedger.getSummary();
+    if (budget.dailyUsd && today.costUsd >= budget.dailyUsd) {
+      return `Daily LLM budget of $${budget.dailyUsd.toFixed(2)} reached ($${today.costUsd.toFixed(2)} spent today).`;
+    }
+    if (budget.monthlyUsd && month.costUsd >= budget.monthlyUsd) {
+      return `Monthly LLM budget of $${budget.monthlyUsd.toFixed(2)} reached ($${month.costUsd.toFixed(2)} spent this month).`;
+    }
+    return null;
+  }
+}
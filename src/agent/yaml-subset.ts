@@ -0,0 +1,585 @@
+/**
+ * YamlSubset – YAML parser for SKILL.md frontmatter
+ *
+ * Supports the part of YAML that skill authors actually write:
+ *   - block mappings (nested by indentation) and block sequences, including
+ *     sequences of mappings (`- id: x` / `  label: y`)
+ *   - flow collections: `[a, b, "c, d"]`, `{ id: x, type: oauth }`
+ *   - plain, 'single-quoted' and "double-quoted" scalars (with escapes),
+ *     multi-line plain and quoted scalars (folded into one line)
+ *   - block scalars `|` and `>` with chomping (`-`, `+`) and indentation
+ *     indicators
+ *   - comments (`# …` on their own line or after a space)
+ *
+ * Deliberate deviations from the spec:
+ *   - all scalars are strings (no implicit typing) – `version: 1.10` stays
+ *     "1.10"; empty values and `~` / `null` are null
+ *   - a plain value runs to the end of its line, so descriptions like
+ *     `Primary: wttr.in` do not need quotes
+ *   - no anchors, aliases, tags, directives or multiple documents
+ *
+ * Errors are thrown as YamlError with the 1-based line number.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type YamlValue = string | null | YamlValue[] | YamlMapping;
+export interface YamlMapping {
+  [key: string]: YamlValue;
+}
+
+export class YamlError extends Error {
+  /** 1-based line number (relative to the parsed text plus `firstLine - 1`) */
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'YamlError';
+    this.line = line;
+  }
+}
+
+export interface YamlDocument {
+  data: YamlMapping;
+  /** Line number of each top-level key */
+  keyLines: Record<string, number>;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const ESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\u0085',
+  _: ' ',
+};
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isBlank(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === '' || trimmed.startsWith('#');
+}
+
+/** Remove a trailing ` # comment` from a plain value */
+function stripComment(value: string): string {
+  const match = value.match(/(^|\s)#/);
+  return (match ? value.slice(0, match.index) : value).trimEnd();
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ');
+}
+
+function plainToValue(text: string): string | null {
+  return text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL'
+    ? null
+    : text;
+}
+
+/**
+ * Split `key: rest` – returns null if the text is not a mapping entry.
+ * Keys may be quoted; a plain key ends at the first ": " (or ":" at the end).
+ */
+function splitKey(text: string, line: number): { key: string; rest: string } | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const { value, end } = readQuoted(text, 0, line);
+    const after = text.slice(end);
+    if (!/^\s*:(\s|$)/.test(after)) return null;
+    return { key: value, rest: after.replace(/^\s*:/, '').trim() };
+  }
+  const match = text.match(/^([^\s#'"[\]{},][^:#]*?)\s*:(\s+|$)(.*)$/);
+  if (!match) return null;
+  return { key: match[1], rest: match[3].trim() };
+}
+
+/** Read a quoted scalar starting at `start` – returns the value and the index after the closing quote */
+function readQuoted(text: string, start: number, line: number): { value: string; end: number } {
+  const quote = text[start];
+  let value = '';
+  let i = start + 1;
+  while (i < text.length) {
+    const ch = text[i];
+    if (quote === "'") {
+      if (ch === "'") {
+        if (text[i + 1] === "'") {
+          value += "'";
+          i += 2;
+          continue;
+        }
+        return { value, end: i + 1 };
+      }
+      value += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      return { value, end: i + 1 };
+    }
+    if (ch === '\\') {
+      const next = text[i + 1];
+      if (next === 'x' || next === 'u' || next === 'U') {
+        const len = next === 'x' ? 2 : next === 'u' ? 4 : 8;
+        const hex = text.slice(i + 2, i + 2 + len);
+        if (!new RegExp(`^[0-9a-fA-F]{${len}}$`).test(hex)) {
+          throw new YamlError(`Invalid escape sequence "\\${next}${hex}"`, line);
+        }
+        value += String.fromCodePoint(parseInt(hex, 16));
+        i += 2 + len;
+        continue;
+      }
+      if (next === undefined || !(next in ESCAPES)) {
+        throw new YamlError(`Invalid escape sequence "\\${next ?? ''}"`, line);
+      }
+      value += ESCAPES[next];
+      i += 2;
+      continue;
+    }
+    value += ch;
+    i++;
+  }
+  throw new YamlError(`Unterminated ${quote === '"' ? 'double' : 'single'}-quoted string`, line);
+}
+
+// ── Flow collections ─────────────────────────────────────────────────────────
+
+class FlowParser {
+  private pos = 0;
+
+  constructor(private text: string, private line: number) {}
+
+  parse(): YamlValue {
+    const value = this.value();
+    this.skipSpace();
+    if (this.pos < this.text.length) {
+      const rest = stripComment(this.text.slice(this.pos));
+      if (rest !== '') {
+        throw new YamlError(`Unexpected "${rest}" after flow collection`, this.line);
+      }
+    }
+    return value;
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private value(): YamlValue {
+    this.skipSpace();
+    const ch = this.text[this.pos];
+    if (ch === '[') return this.sequence();
+    if (ch === '{') return this.mapping();
+    if (ch === '"' || ch === "'") {
+      const { value, end } = readQuoted(this.text, this.pos, this.line);
+      this.pos = end;
+      return value;
+    }
+    const match = this.text.slice(this.pos).match(/^[^,[\]{}]*/);
+    let plain = match ? match[0] : '';
+    // A ": " inside a flow mapping ends the key
+    const colon = plain.search(/:(\s|$)/);
+    if (colon >= 0) plain = plain.slice(0, colon);
+    this.pos += plain.length;
+    return plainToValue(plain.trim());
+  }
+
+  private expect(ch: string): void {
+    this.skipSpace();
+    if (this.text[this.pos] !== ch) {
+      const found = this.pos < this.text.length ? `"${this.text[this.pos]}"` : 'end of value';
+      throw new YamlError(`Expected "${ch}" in flow collection, found ${found}`, this.line);
+    }
+    this.pos++;
+  }
+
+  private sequence(): YamlValue[] {
+    this.expect('[');
+    const items: YamlValue[] = [];
+    this.skipSpace();
+    if (this.text[this.pos] === ']') {
+      this.pos++;
+      return items;
+    }
+    for (;;) {
+      items.push(this.value());
+      this.skipSpace();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        this.skipSpace();
+        if (this.text[this.pos] === ']') {
+          this.pos++;
+          return items;
+        }
+        continue;
+      }
+      this.expect(']');
+      return items;
+    }
+  }
+
+  private mapping(): YamlMapping {
+    this.expect('{');
+    const result: YamlMapping = {};
+    this.skipSpace();
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return result;
+    }
+    for (;;) {
+      const key = this.value();
+      if (typeof key !== 'string') {
+        throw new YamlError('Keys in flow mappings must be strings', this.line);
+      }
+      if (key in result) {
+        throw new YamlError(`Duplicate key "${key}"`, this.line);
+      }
+      this.skipSpace();
+      if (this.text[this.pos] === ':') {
+        this.pos++;
+        result[key] = this.value();
+      } else {
+        result[key] = null;
+      }
+      this.skipSpace();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        this.skipSpace();
+        if (this.text[this.pos] === '}') {
+          this.pos++;
+          return result;
+        }
+        continue;
+      }
+      this.expect('}');
+      return result;
+    }
+  }
+}
+
+// ── Block structure ──────────────────────────────────────────────────────────
+
+class BlockParser {
+  private pos = 0;
+  private lines: string[];
+
+  constructor(text: string, private firstLine: number) {
+    this.lines = text.split('\n').map(l => l.replace(/\r$/, ''));
+  }
+
+  parseDocument(): YamlDocument {
+    this.skipBlank();
+    if (this.pos >= this.lines.length) {
+      return { data: {}, keyLines: {} };
+    }
+    const indent = this.checkedIndent(this.pos);
+    if (indent !== 0) {
+      throw new YamlError('The top-level keys must not be indented', this.lineNo(this.pos));
+    }
+    if (isSequenceItem(this.lines[this.pos].trim())) {
+      throw new YamlError('Expected "key: value" entries, found a list', this.lineNo(this.pos));
+    }
+    const keyLines: Record<string, number> = {};
+    const data = this.mapping(0, keyLines);
+    this.skipBlank();
+    if (this.pos < this.lines.length) {
+      throw new YamlError('Unexpected indentation', this.lineNo(this.pos));
+    }
+    return { data, keyLines };
+  }
+
+  private lineNo(index: number): number {
+    return this.firstLine + index;
+  }
+
+  private skipBlank(): void {
+    while (this.pos < this.lines.length && isBlank(this.lines[this.pos])) this.pos++;
+  }
+
+  /** Indentation of a line – tabs are not allowed for indentation in YAML */
+  private checkedIndent(index: number): number {
+    const line = this.lines[index];
+    const indent = indentOf(line);
+    if (line.slice(0, indent).includes('\t')) {
+      throw new YamlError('Tabs are not allowed for indentation – use spaces', this.lineNo(index));
+    }
+    return indent;
+  }
+
+  /** The next non-blank line and its indentation (null at the end) */
+  private peek(): { indent: number; content: string } | null {
+    this.skipBlank();
+    if (this.pos >= this.lines.length) return null;
+    return { indent: this.checkedIndent(this.pos), content: this.lines[this.pos].trim() };
+  }
+
+  /** Parse the block node (mapping or sequence) starting at the current line */
+  private node(indent: number): YamlValue {
+    const next = this.peek()!;
+    return isSequenceItem(next.content) ? this.sequence(indent) : this.mapping(indent);
+  }
+
+  private mapping(indent: number, keyLines?: Record<string, number>): YamlMapping {
+    const result: YamlMapping = {};
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.indent < indent) return result;
+      const line = this.lineNo(this.pos);
+      if (next.indent > indent) {
+        throw new YamlError('Unexpected indentation', line);
+      }
+      if (isSequenceItem(next.content)) {
+        // "key:\n- item" – a sequence at the indentation of its parent key
+        return result;
+      }
+
+      const entry = splitKey(next.content, line);
+      if (!entry) {
+        throw new YamlError(`Expected "key: value", found "${next.content}"`, line);
+      }
+      if (entry.key in result) {
+        throw new YamlError(`Duplicate key "${entry.key}"`, line);
+      }
+      if (keyLines) keyLines[entry.key] = line;
+      this.pos++;
+      result[entry.key] = this.value(entry.rest, indent, line, true);
+    }
+  }
+
+  private sequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.indent < indent) return items;
+      const line = this.lineNo(this.pos);
+      if (next.indent > indent) {
+        throw new YamlError('Unexpected indentation', line);
+      }
+      if (!isSequenceItem(next.content)) {
+        if (splitKey(next.content, line)) return items; // next key of the parent mapping
+        throw new YamlError(`Expected "- item", found "${next.content}"`, line);
+      }
+
+      const rest = next.content.slice(1).trimStart();
+      const restIndent = indent + (this.lines[this.pos].trimStart().length - rest.length);
+      if (rest !== '' && !rest.startsWith('#') && (isSequenceItem(rest) || splitKey(rest, line))) {
+        // "- key: value" / "- - item": a nested node that starts on the item line
+        this.lines[this.pos] = ' '.repeat(restIndent) + rest;
+        items.push(this.node(restIndent));
+      } else {
+        this.pos++;
+        items.push(this.value(rest, indent, line, false));
+      }
+    }
+  }
+
+  /**
+   * Parse the value after "key:" or "- " – `rest` is the text on the same
+   * line, `indent` the indentation of the key / dash.
+   */
+  private value(rest: string, indent: number, line: number, isMappingValue: boolean): YamlValue {
+    const text = rest.startsWith('#') ? '' : rest;
+
+    if (text === '') {
+      const next = this.peek();
+      if (next && next.indent > indent) {
+        return this.node(next.indent);
+      }
+      if (next && isMappingValue && next.indent === indent && isSequenceItem(next.content)) {
+        return this.sequence(indent);
+      }
+      return null;
+    }
+
+    if (/^[|>]/.test(text)) {
+      return this.blockScalar(text, indent, line);
+    }
+
+    if (text.startsWith('[') || text.startsWith('{')) {
+      return new FlowParser(this.continued(text, indent, isFlowClosed), line).parse();
+    }
+
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const joined = this.continued(text, indent, isQuoteClosed);
+      const { value, end } = readQuoted(joined, 0, line);
+      const after = stripComment(joined.slice(end));
+      if (after !== '') {
+        throw new YamlError(`Unexpected "${after}" after quoted string`, line);
+      }
+      return value;
+    }
+
+    // Plain scalar – more indented lines continue it (folded with spaces)
+    const parts = [stripComment(text)];
+    for (;;) {
+      const nextIndex = this.pos;
+      if (nextIndex >= this.lines.length) break;
+      const nextLine = this.lines[nextIndex];
+      if (nextLine.trim() === '') {
+        this.pos++;
+        parts.push('\n');
+        continue;
+      }
+      if (this.checkedIndent(nextIndex) <= indent || nextLine.trim().startsWith('#')) break;
+      parts.push(stripComment(nextLine.trim()));
+      this.pos++;
+    }
+    // Trailing blank lines do not belong to the value
+    while (parts[parts.length - 1] === '\n') parts.pop();
+    return plainToValue(foldLines(parts));
+  }
+
+  /**
+   * Join `first` with the following more indented lines until `isClosed`
+   * says the value is complete (multi-line quoted strings and flow collections).
+   * Line breaks are folded into spaces.
+   */
+  private continued(first: string, indent: number, isClosed: (text: string) => boolean): string {
+    let text = first;
+    const startLine = this.lineNo(this.pos - 1);
+    while (!isClosed(text)) {
+      if (this.pos >= this.lines.length || (this.lines[this.pos].trim() !== '' && indentOf(this.lines[this.pos]) <= indent)) {
+        throw new YamlError(
+          /^["']/.test(first) ? 'Unterminated quoted string' : 'Unterminated flow collection',
+          startLine,
+        );
+      }
+      const next = this.lines[this.pos].trim();
+      text = foldLines([text, next === '' ? '\n' : next]);
+      this.pos++;
+    }
+    return text;
+  }
+
+  private blockScalar(header: string, indent: number, line: number): string {
+    const match = stripComment(header).match(/^([|>])([-+]?)(\d?)([-+]?)$/);
+    if (!match) {
+      throw new YamlError(`Invalid block scalar header "${header}"`, line);
+    }
+    const literal = match[1] === '|';
+    const chomping = match[2] || match[4];
+    const explicitIndent = match[3] ? indent + parseInt(match[3], 10) : 0;
+
+    // Collect the lines that belong to the scalar
+    const raw: string[] = [];
+    let contentIndent = explicitIndent;
+    while (this.pos < this.lines.length) {
+      const text = this.lines[this.pos];
+      if (text.trim() === '') {
+        raw.push('');
+        this.pos++;
+        continue;
+      }
+      const lineIndent = this.checkedIndent(this.pos);
+      if (contentIndent === 0) {
+        if (lineIndent <= indent) break;
+        contentIndent = lineIndent;
+      }
+      if (lineIndent < contentIndent) {
+        if (lineIndent > indent) {
+          throw new YamlError('Block scalar line is less indented than its first line', this.lineNo(this.pos));
+        }
+        break;
+      }
+      raw.push(text.slice(contentIndent));
+      this.pos++;
+    }
+
+    // Trailing blank lines are handled by chomping
+    let trailing = 0;
+    while (raw.length > 0 && raw[raw.length - 1] === '') {
+      raw.pop();
+      trailing++;
+    }
+    let body: string;
+    if (literal) {
+      body = raw.join('\n');
+    } else {
+      body = '';
+      for (let i = 0; i < raw.length; i++) {
+        const current = raw[i];
+        if (i === 0) {
+          body = current;
+          continue;
+        }
+        const previous = raw[i - 1];
+        const moreIndented = /^\s/.test(current) || /^\s/.test(previous);
+        if (current === '') {
+          body += '\n';
+        } else if (previous === '' || moreIndented) {
+          body += (previous === '' && !moreIndented ? '' : '\n') + current;
+        } else {
+          body += ` ${current}`;
+        }
+      }
+    }
+
+    if (raw.length === 0) return '';
+    if (chomping === '-') return body;
+    if (chomping === '+') return body + '\n'.repeat(trailing + 1);
+    return `${body}\n`;
+  }
+}
+
+/** Join lines with spaces – a '\n' entry (blank line) becomes a line break */
+function foldLines(parts: string[]): string {
+  return parts.reduce((acc, part) => {
+    if (part === '\n') return `${acc}\n`;
+    return acc === '' || acc.endsWith('\n') ? acc + part : `${acc} ${part}`;
+  }, '');
+}
+
+function isQuoteClosed(text: string): boolean {
+  try {
+    readQuoted(text, 0, 0);
+    return true;
+  } catch (err) {
+    return !(err instanceof YamlError && err.message.includes('Unterminated'));
+  }
+}
+
+function isFlowClosed(text: string): boolean {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+      if (depth === 0) return true;
+    }
+  }
+  return false;
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Parse a YAML mapping (e.g. a frontmatter block).
+ *
+ * @param firstLine  Line number of the first line of `text` in its file –
+ *                   error messages refer to it (default 1)
+ * @throws YamlError with the line number of the problem
+ */
+export function parseYamlMapping(text: string, firstLine = 1): YamlDocument {
+  return new BlockParser(text, firstLine).parseDocument();
+}
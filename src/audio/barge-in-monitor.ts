@@ -0,0 +1,71 @@
+/**
+ * BargeInMonitor – Voice-activity trigger while Sanna is speaking
+ *
+ * Records via AudioRecorderModule during TTS playback and calls onSpeech
+ * once the microphone hears sustained speech. Used in driving mode next to
+ * the wake word, so the user can simply talk over a long answer ("stop, next").
+ *
+ * The threshold is well above normal speech levels because the microphone
+ * also picks up Sanna's own voice from the loudspeaker – it works best with
+ * a headset or car audio where the echo is quieter than the driver.
+ */
+import AudioRecorderModule, { AudioRecorderEvents } from '../native/AudioRecorderModule';
+import { DebugLogger } from '../agent/debug-logger';
+import { pcmLevel } from './pcm';
+
+/** RMS level (16-bit samples) a chunk needs to count as the user speaking */
+const BARGE_IN_RMS_THRESHOLD = 2500;
+/** Loud audio needed before triggering – ignores clicks and short noises */
+const BARGE_IN_MIN_SPEECH_MS = 350;
+/** Duration of one AudioRecorderModule chunk (512 samples at 16 kHz) */
+const CHUNK_MS = 32;
+
+export class BargeInMonitor {
+  private chunkSub: ReturnType<typeof AudioRecorderEvents.addListener> | null = null;
+  private active = false;
+
+  /** Start listening for speech; onSpeech fires at most once per start() */
+  async start(onSpeech: () => void): Promise<void> {
+    if (this.active) return;
+    this.active = true;
+
+    let loudMs = 0;
+    this.chunkSub = AudioRecorderEvents.addListener('audio_chunk', (event: { data: string }) => {
+      if (!this.active) return;
+      // Allow short dips between syllables, decay instead of resetting
+      loudMs = pcmLevel(atob(event.data)) >= BARGE_IN_RMS_THRESHOLD
+        ? loudMs + CHUNK_MS
+        : Math.max(0, loudMs - CHUNK_MS / 2);
+      if (loudMs >= BARGE_IN_MIN_SPEECH_MS) {
+        DebugLogger.add('info', 'BargeIn', 'Speech detected during TTS');
+        this.stop().finally(onSpeech);
+      }
+    });
+
+    try {
+      await AudioRecorderModule.startRecording();
+      if (!this.active) {
+        // stop() was called while the recorder was starting
+        await AudioRecorderModule.stopRecording().catch(() => {});
+        return;
+      }
+      DebugLogger.add('info', 'BargeIn', 'Armed');
+    } catch (err) {
+      DebugLogger.add('error', 'BargeIn', `Could not start recording: ${err instanceof Error ? err.message : String(err)}`);
+      await this.stop();
+    }
+  }
+
+  /** Stop listening and release the microphone (STT needs it next) */
+  async stop(): Promise<void> {
+    if (!this.active) return;
+    this.active = false;
+    this.chunkSub?.remove();
+    this.chunkSub = null;
+    await AudioRecorderModule.stopRecording().catch(() => {});
+  }
+
+  isRunning(): boolean {
+    return this.active;
+  }
+}
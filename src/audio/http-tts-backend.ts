@@ -0,0 +1,295 @@
+/**
+ * HttpTTSBackend – Text-to-Speech via a speech API
+ *
+ * Sends the text to an OpenAI-compatible `POST {baseUrl}/audio/speech`
+ * endpoint (OpenAI, ElevenLabs/Piper/Kokoro behind an OpenAI-style proxy,
+ * a local openedai-speech server, …), stores the MP3 in the cache directory
+ * and plays it through AudioPlayerModule.
+ *
+ * AudioPlayerModule has a single player: a podcast that is playing is
+ * replaced by the speech and started again at its position once Sanna has
+ * been quiet for MEDIA_RESUME_DELAY_MS (sentences of one answer follow each
+ * other closely). Short phrases are cached (see SpeechCache); pitch is not
+ * part of the API and only applies to Android voices.
+ */
+import RNFS from 'react-native-fs';
+import AudioPlayerModule, { AudioPlayerEvents } from '../native/AudioPlayerModule';
+import { DebugLogger } from '../agent/debug-logger';
+import { MAX_CACHED_PHRASE_CHARS, SpeechCache, speechCacheKey } from './speech-cache';
+import type { SpeakResult, TTSBackend, VoiceSettings } from './tts-service';
+
+export interface SpeechApiConfig {
+  /** Base URL of the API, e.g. https://api.openai.com/v1 or http://192.168.1.10:8000/v1 */
+  baseUrl: string;
+  /** Bearer token – may be empty for local servers */
+  apiKey: string;
+  /** Model name, e.g. tts-1 */
+  model: string;
+}
+
+export const DEFAULT_SPEECH_URL = 'https://api.openai.com/v1';
+export const DEFAULT_SPEECH_MODEL = 'tts-1';
+export const DEFAULT_SPEECH_VOICE = 'nova';
+
+/** Synthesis timeout – the answer is spoken by Android instead */
+const REQUEST_TIMEOUT_MS = 20_000;
+
+/** Quiet time after speech before an interrupted podcast continues */
+const MEDIA_RESUME_DELAY_MS = 1_500;
+
+/** File name prefix of synthesised speech – MiniMediaPlayer hides these */
+const SPEECH_FILE_PREFIX = 'tts-';
+
+/** Whether an AudioPlayerModule URL is Sanna's own speech (not media) */
+export function isSpeechAudioUrl(url: string): boolean {
+  return url.startsWith('file://') && (url.includes(`/${SPEECH_FILE_PREFIX}`) || url.includes('/tts-cache/'));
+}
+
+/** base64 content of a Blob (React Native's FileReader has no readAsArrayBuffer on all versions) */
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error('Could not read speech audio'));
+    reader.onload = () => {
+      const dataUrl = String(reader.result ?? '');
+      resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    };
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Media the speech replaced – played again afterwards */
+interface InterruptedMedia {
+  url: string;
+  /** Seconds */
+  position: number;
+}
+
+interface Playback {
+  url: string;
+  text: string;
+  resolve: (result: SpeakResult) => void;
+  reject: (err: Error) => void;
+}
+
+export class HttpTTSBackend implements TTSBackend {
+  readonly name = 'speech-api';
+
+  private cache = new SpeechCache();
+  private request: AbortController | null = null;
+  private playback: Playback | null = null;
+  /** Incremented by stop() – a speak() still synthesising must not play */
+  private generation = 0;
+  private subscriptions: ReturnType<typeof AudioPlayerEvents.addListener>[] = [];
+  private interruptedMedia: InterruptedMedia | null = null;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private config: SpeechApiConfig) {
+    const finish = (url: string, completed: boolean, error?: string) => {
+      const playback = this.playback;
+      if (!playback || playback.url !== url) return;
+      this.playback = null;
+      this.scheduleMediaResume();
+      if (error) {
+        playback.reject(new Error(error));
+      } else {
+        playback.resolve({ completed, spokenChars: completed ? playback.text.length : 0 });
+      }
+    };
+    this.subscriptions.push(
+      AudioPlayerEvents.addListener('audio_completed', (e: { url: string }) => finish(e.url, true)),
+      AudioPlayerEvents.addListener('audio_error', (e: { url: string; error: string }) =>
+        finish(e.url, false, e.error || 'Playback failed'),
+      ),
+      // Stopped by something else (MiniMediaPlayer) – not by stop()
+      AudioPlayerEvents.addListener('audio_stopped', (e: { url: string }) => finish(e.url, false)),
+      // Another play() (media tool) replaced the speech without a stop event
+      AudioPlayerEvents.addListener('audio_started', (e: { url: string }) => {
+        // The user started other media – do not bring back the interrupted one
+        if (!isSpeechAudioUrl(e.url)) this.interruptedMedia = null;
+        if (this.playback && this.playback.url !== e.url) finish(this.playback.url, false);
+      }),
+    );
+  }
+
+  setConfig(config: SpeechApiConfig): void {
+    this.config = config;
+  }
+
+  async speak(text: string, _language: string, voice: VoiceSettings): Promise<SpeakResult> {
+    const generation = this.generation;
+    const voiceName = voice.voice || DEFAULT_SPEECH_VOICE;
+    const model = this.config.model || DEFAULT_SPEECH_MODEL;
+    const cacheable = text.length <= MAX_CACHED_PHRASE_CHARS;
+    const key = speechCacheKey([this.config.baseUrl, model, voiceName, String(voice.rate), text]);
+
+    let path = cacheable ? await this.cache.get(key, 'mp3') : null;
+    let temporary = false;
+    if (path) {
+      DebugLogger.add('info', 'TTS', 'Speech API: cached phrase');
+    } else {
+      const base64 = await this.synthesize(text, model, voiceName, voice.rate);
+      if (base64 === null) {
+        return { completed: false, spokenChars: 0 };
+      }
+      if (cacheable) {
+        path = await this.cache.put(key, 'mp3', base64);
+      } else {
+        path = `${RNFS.CachesDirectoryPath}/${SPEECH_FILE_PREFIX}${Date.now()}.mp3`;
+        await RNFS.writeFile(path, base64, 'base64');
+        temporary = true;
+      }
+    }
+
+    try {
+      if (generation !== this.generation) {
+        return { completed: false, spokenChars: 0 };
+      }
+      await this.holdMedia();
+      return await this.play(`file://${path}`, text);
+    } finally {
+      if (temporary) RNFS.unlink(path).catch(() => {});
+    }
+  }
+
+  /** Request the audio – null if stop() aborted the request */
+  private async synthesize(
+    text: string,
+    model: string,
+    voice: string,
+    rate: number,
+  ): Promise<string | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    this.request = controller;
+    try {
+      const url = `${(this.config.baseUrl || DEFAULT_SPEECH_URL).replace(/\/+$/, '')}/audio/speech`;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          voice,
+          input: text,
+          speed: Math.min(4, Math.max(0.25, rate)),
+          response_format: 'mp3',
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Speech synthesis failed (HTTP ${response.status}) ${detail.slice(0, 200)}`.trim());
+      }
+      return await blobToBase64(await response.blob());
+    } catch (err) {
+      if (controller.signal.aborted) {
+        if (this.request === controller) throw new Error('Speech synthesis timed out');
+        return null;
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      if (this.request === controller) this.request = null;
+    }
+  }
+
+  private play(url: string, text: string): Promise<SpeakResult> {
+    // A speak() still waiting for its playback was replaced – it ends unheard
+    const replaced = this.playback;
+    this.playback = null;
+    replaced?.resolve({ completed: false, spokenChars: 0 });
+
+    return new Promise((resolve, reject) => {
+      this.playback = { url, text, resolve, reject };
+      AudioPlayerModule.play(url).catch(err => {
+        if (this.playback?.url !== url) return;
+        this.playback = null;
+        this.scheduleMediaResume();
+        reject(err instanceof Error ? err : new Error(String(err)));
+      });
+    });
+  }
+
+  /** Remember a podcast that is playing – the speech is about to replace it */
+  private async holdMedia(): Promise<void> {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    if (this.interruptedMedia) return;
+    try {
+      const status = await AudioPlayerModule.getStatus();
+      if (status.status === 'playing' && status.url && !isSpeechAudioUrl(status.url)) {
+        this.interruptedMedia = { url: status.url, position: status.position };
+      }
+    } catch {
+      // No status – nothing to resume
+    }
+  }
+
+  private scheduleMediaResume(): void {
+    if (!this.interruptedMedia) return;
+    if (this.resumeTimer) clearTimeout(this.resumeTimer);
+    this.resumeTimer = setTimeout(() => {
+      this.resumeTimer = null;
+      this.resumeMedia();
+    }, MEDIA_RESUME_DELAY_MS);
+  }
+
+  private async resumeMedia(): Promise<void> {
+    const media = this.interruptedMedia;
+    this.interruptedMedia = null;
+    if (!media || this.playback) return;
+    try {
+      await AudioPlayerModule.play(media.url);
+      if (media.position > 0) {
+        await AudioPlayerModule.seek(Math.floor(media.position), false);
+      }
+      DebugLogger.add('info', 'TTS', `Resumed media after speech at ${Math.floor(media.position)}s`);
+    } catch (err) {
+      DebugLogger.add('error', 'TTS', `Could not resume media after speech: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /** Abort synthesis or playback; reports how much of the text was heard */
+  async stop(): Promise<void> {
+    this.generation++;
+    const request = this.request;
+    this.request = null;
+    request?.abort();
+
+    const playback = this.playback;
+    if (!playback) {
+      this.scheduleMediaResume();
+      return;
+    }
+    this.playback = null;
+    let spokenChars = 0;
+    try {
+      // Estimate the heard part from the playback position, cut at a word start
+      const status = await AudioPlayerModule.getStatus();
+      if (status.url === playback.url && status.duration > 0) {
+        const estimate = Math.floor((playback.text.length * status.position) / status.duration);
+        spokenChars = Math.max(0, playback.text.lastIndexOf(' ', estimate) + 1);
+      }
+    } catch {
+      // No estimate – treat as not heard
+    }
+    await AudioPlayerModule.stop().catch(() => {});
+    playback.resolve({ completed: false, spokenChars });
+    this.scheduleMediaResume();
+  }
+
+  async isSpeaking(): Promise<boolean> {
+    return this.request !== null || this.playback !== null;
+  }
+
+  destroy(): void {
+    if (this.resumeTimer) clearTimeout(this.resumeTimer);
+    this.subscriptions.forEach(sub => sub.remove());
+    this.subscriptions = [];
+  }
+}
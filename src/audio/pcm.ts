@@ -0,0 +1,55 @@
+/**
+ * PCM helpers for audio from AudioRecorderModule
+ *
+ * The recorder streams 16 kHz mono 16-bit little-endian PCM as base64
+ * chunks; atob() turns a chunk into a binary string (one char per byte).
+ */
+
+/** Must match AudioRecorderModule.kt */
+export const PCM_SAMPLE_RATE = 16000;
+
+/** Root mean square of a chunk of 16-bit little-endian PCM (binary string) */
+export function pcmLevel(pcm: string): number {
+  const samples = Math.floor(pcm.length / 2);
+  if (samples === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    let sample = pcm.charCodeAt(i * 2) + pcm.charCodeAt(i * 2 + 1) * 256;
+    if (sample >= 0x8000) sample -= 0x10000;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+/** Little-endian unsigned integer of `bytes` bytes as a binary string */
+function littleEndian(value: number, bytes: number): string {
+  let out = '';
+  for (let i = 0; i < bytes; i++) {
+    out += String.fromCharCode(Math.floor(value / 256 ** i) % 256);
+  }
+  return out;
+}
+
+const uint32 = (value: number) => littleEndian(value, 4);
+const uint16 = (value: number) => littleEndian(value, 2);
+
+/** Wrap raw PCM (binary string) in a WAV header – returns a binary string */
+export function toWav(pcm: string): string {
+  const byteRate = PCM_SAMPLE_RATE * 2;
+  return (
+    'RIFF' +
+    uint32(36 + pcm.length) +
+    'WAVE' +
+    'fmt ' +
+    uint32(16) + // chunk size
+    uint16(1) + // PCM
+    uint16(1) + // mono
+    uint32(PCM_SAMPLE_RATE) +
+    uint32(byteRate) +
+    uint16(2) + // block align
+    uint16(16) + // bits per sample
+    'data' +
+    uint32(pcm.length) +
+    pcm
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * SpeechCache – Synthesised audio for repeated phrases
+ *
+ * Short phrases such as "Yes?" or "An error has occurred." are spoken again
+ * and again; a speech API would synthesise (and bill) them every time. The
+ * cache keeps their audio files in the app cache directory and evicts the
+ * least recently used ones beyond MAX_ENTRIES.
+ */
+import RNFS from 'react-native-fs';
+import { DebugLogger } from '../agent/debug-logger';
+
+const CACHE_DIR = `${RNFS.CachesDirectoryPath}/tts-cache`;
+
+/** Longer texts are answers, not phrases – not worth caching */
+export const MAX_CACHED_PHRASE_CHARS = 200;
+const MAX_ENTRIES = 150;
+
+/**
+ * Cache key for a phrase spoken with a given voice – two 32-bit polynomial
+ * string hashes, enough to tell a few hundred phrases apart.
+ */
+export function speechCacheKey(parts: string[]): string {
+  const text = parts.join('\u0000');
+  let a = 0;
+  let b = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    a = (a * 31 + code) % 4294967296;
+    b = (b * 131 + code) % 4294967296;
+  }
+  return `${a.toString(36)}${b.toString(36)}`;
+}
+
+export class SpeechCache {
+  private ready: Promise<void> | null = null;
+
+  /** Path of the cached audio, or null if the phrase was never synthesised */
+  async get(key: string, extension: string): Promise<string | null> {
+    const path = `${CACHE_DIR}/${key}.${extension}`;
+    if (!(await RNFS.exists(path))) return null;
+    // Mark as recently used for eviction
+    RNFS.touch(path, new Date(), new Date()).catch(() => {});
+    return path;
+  }
+
+  /** Store base64 audio and return its path */
+  async put(key: string, extension: string, base64: string): Promise<string> {
+    await this.ensureDir();
+    const path = `${CACHE_DIR}/${key}.${extension}`;
+    await RNFS.writeFile(path, base64, 'base64');
+    this.evict().catch(() => {});
+    return path;
+  }
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = RNFS.mkdir(CACHE_DIR).catch(err => {
+        this.ready = null;
+        throw err;
+      });
+    }
+    return this.ready;
+  }
+
+  /** Delete the least recently used files beyond MAX_ENTRIES */
+  private async evict(): Promise<void> {
+    const files = await RNFS.readDir(CACHE_DIR);
+    if (files.length <= MAX_ENTRIES) return;
+    const oldest = files
+      .sort((x, y) => (x.mtime?.getTime() ?? 0) - (y.mtime?.getTime() ?? 0))
+      .slice(0, files.length - MAX_ENTRIES);
+    await Promise.all(oldest.map(file => RNFS.unlink(file.path).catch(() => {})));
+    DebugLogger.add('info', 'TTS', `Speech cache: evicted ${oldest.length} phrase(s)`);
+  }
+}
@@ -0,0 +1,451 @@
+/**
+ * SpeechText – Markdown answers as spoken prose
+ *
+ * The LLM answers in Markdown, which MarkdownText renders on screen but a
+ * TTS engine reads literally ("asterisk asterisk", full URLs, table pipes).
+ * This module turns such text into prose for TTSService and TTSTool:
+ *
+ *   - emphasis, code, headings, quotes and emoji are dropped, links keep
+ *     their text, URLs are shortened to their domain
+ *   - list items and table rows become sentences (the engine pauses there)
+ *   - numbers, times, currencies and units are written the way the
+ *     language speaks them ("14:30" → "14 Uhr 30", "$3.50" → "3 dollars
+ *     and 50 cents")
+ *   - long text is split into utterances that keep their position in the
+ *     original text, so an interruption can be mapped back to what was heard
+ *
+ * Pure string functions – no React Native imports, unit-tested in
+ * __tests__/speech-text.test.ts.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** A piece of speech and the range of the original text it was made from */
+export interface Utterance {
+  text: string;
+  /** Offset of the source range in the original text */
+  start: number;
+  /** End offset (exclusive) of the source range */
+  end: number;
+}
+
+/** Engines and speech APIs handle this comfortably; shorter starts sooner */
+export const MAX_UTTERANCE_CHARS = 400;
+
+type Currency = 'EUR' | 'USD' | 'GBP' | 'CHF';
+
+interface SpeechWords {
+  decimalSeparator: string;
+  thousandsSeparator: string;
+  point: string;
+  percent: string;
+  rangeTo: string;
+  degrees: string;
+  kmh: string;
+  /** [singular, plural] of main unit and subunit */
+  currencies: Record<Currency, { unit: [string, string]; subunit: [string, string] }>;
+  amount: (whole: string, unit: string, cents: string, subunit: string) => string;
+  time: (hours: number, minutes: number) => string;
+}
+
+// ── Language rules ───────────────────────────────────────────────────────────
+
+const EN: SpeechWords = {
+  decimalSeparator: '.',
+  thousandsSeparator: ',',
+  point: 'point',
+  percent: 'percent',
+  rangeTo: 'to',
+  degrees: 'degrees',
+  kmh: 'kilometres per hour',
+  currencies: {
+    EUR: { unit: ['euro', 'euros'], subunit: ['cent', 'cents'] },
+    USD: { unit: ['dollar', 'dollars'], subunit: ['cent', 'cents'] },
+    GBP: { unit: ['pound', 'pounds'], subunit: ['penny', 'pence'] },
+    CHF: { unit: ['franc', 'francs'], subunit: ['centime', 'centimes'] },
+  },
+  amount: (whole, unit, cents, subunit) =>
+    cents ? `${whole} ${unit} and ${cents} ${subunit}` : `${whole} ${unit}`,
+  time: (hours, minutes) => {
+    const suffix = hours >= 12 ? 'PM' : 'AM';
+    const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+    const mm = String(minutes).padStart(2, '0');
+    // Morning hours without AM/PM read naturally ("9:05", "9 o'clock")
+    if (hours >= 1 && hours <= 11) {
+      return minutes === 0 ? `${hours} o'clock` : `${hours}:${mm}`;
+    }
+    return minutes === 0 ? `${hour12} ${suffix}` : `${hour12}:${mm} ${suffix}`;
+  },
+};
+
+const DE: SpeechWords = {
+  decimalSeparator: ',',
+  thousandsSeparator: '.',
+  point: 'Komma',
+  percent: 'Prozent',
+  rangeTo: 'bis',
+  degrees: 'Grad',
+  kmh: 'Kilometer pro Stunde',
+  currencies: {
+    EUR: { unit: ['Euro', 'Euro'], subunit: ['Cent', 'Cent'] },
+    USD: { unit: ['Dollar', 'Dollar'], subunit: ['Cent', 'Cent'] },
+    GBP: { unit: ['Pfund', 'Pfund'], subunit: ['Penny', 'Pence'] },
+    CHF: { unit: ['Franken', 'Franken'], subunit: ['Rappen', 'Rappen'] },
+  },
+  // "12 Euro 50" – the subunit is not spoken
+  amount: (whole, unit, cents) => (cents ? `${whole} ${unit} ${cents}` : `${whole} ${unit}`),
+  time: (hours, minutes) => (minutes === 0 ? `${hours} Uhr` : `${hours} Uhr ${minutes}`),
+};
+
+/** Rules for a BCP-47 tag – English for languages without own rules */
+function wordsFor(language: string): SpeechWords {
+  return language.toLowerCase().startsWith('de') ? DE : EN;
+}
+
+const CURRENCY_SYMBOLS: Record<string, Currency> = {
+  '€': 'EUR',
+  $: 'USD',
+  '£': 'GBP',
+  EUR: 'EUR',
+  USD: 'USD',
+  GBP: 'GBP',
+  CHF: 'CHF',
+};
+
+// ── Numbers ──────────────────────────────────────────────────────────────────
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Integer and fraction digits of a number as written, null if ambiguous (versions, dates) */
+function parseNumber(raw: string, words: SpeechWords): { whole: string; fraction: string } | null {
+  const thousands = escapeRegex(words.thousandsSeparator);
+  const decimal = escapeRegex(words.decimalSeparator);
+  const grouped = new RegExp(`^(\\d{1,3}(?:${thousands}\\d{3})+)(?:${decimal}(\\d+))?$`).exec(raw);
+  if (grouped) {
+    return { whole: grouped[1].split(words.thousandsSeparator).join(''), fraction: grouped[2] ?? '' };
+  }
+  const single = /^(\d+)([.,])(\d+)$/.exec(raw);
+  if (!single) return /^\d+$/.test(raw) ? { whole: raw, fraction: '' } : null;
+  // The other language's decimal separator ("12.50" in German text) – but
+  // never a group of three digits, that is a thousands separator
+  if (single[2] === words.decimalSeparator || single[3].length !== 3) {
+    return { whole: single[1], fraction: single[3] };
+  }
+  return { whole: single[1] + single[3], fraction: '' };
+}
+
+/** "3.14" → "3 point 1 4" – fraction digits are read one by one */
+function speakNumber(raw: string, words: SpeechWords): string {
+  const parsed = parseNumber(raw, words);
+  if (!parsed) return raw;
+  return parsed.fraction
+    ? `${parsed.whole} ${words.point} ${parsed.fraction.split('').join(' ')}`
+    : parsed.whole;
+}
+
+function speakAmount(raw: string, currency: Currency, words: SpeechWords): string {
+  const { unit, subunit } = words.currencies[currency];
+  const parsed = parseNumber(raw.replace(/[.,]-$/, ''), words);
+  if (!parsed) return `${raw} ${unit[1]}`;
+  if (parsed.fraction.length > 2) {
+    return `${speakNumber(raw, words)} ${unit[1]}`;
+  }
+  const cents = parsed.fraction ? String(Number(parsed.fraction.padEnd(2, '0'))) : '';
+  const spokenCents = cents === '0' ? '' : cents;
+  const subunitName = spokenCents === '1' ? subunit[0] : subunit[1];
+  if (parsed.whole === '0' && spokenCents) {
+    return `${spokenCents} ${subunitName}`;
+  }
+  return words.amount(
+    parsed.whole,
+    parsed.whole === '1' ? unit[0] : unit[1],
+    spokenCents,
+    subunitName,
+  );
+}
+
+const NUMBER = '\\d+(?:[.,]\\d+)*';
+
+/** Numbers, times, currencies, percentages and units of one line */
+function speakQuantities(text: string, words: SpeechWords): string {
+  return (
+    text
+      // Times – "14:30", "14:30 Uhr"; already spoken forms ("2:30 PM") stay
+      .replace(
+        /(^|[^\d:])([01]?\d|2[0-3]):([0-5]\d)(?![\d:])(\s*(?:Uhr|h)\b)?(?!\s*[aApP]\.?[mM]\b)/g,
+        (_m, before: string, hh: string, mm: string) =>
+          `${before}${words.time(Number(hh), Number(mm))}`,
+      )
+      // Ranges – "10-15 minutes", "10–15"
+      .replace(
+        /(^|[^\w.,-])([1-9]\d{0,3})\s?[–-]\s?(\d{1,4})(?![\w.,-])/g,
+        (_m, before: string, from: string, to: string) => `${before}${from} ${words.rangeTo} ${to}`,
+      )
+      // Currencies – "€12.50", "$3", "12,50 €", "12,- EUR", "CHF 20"
+      .replace(
+        new RegExp(`(€|\\$|£|\\b(?:EUR|USD|GBP|CHF))\\s?(${NUMBER}(?:[.,]-)?)`, 'g'),
+        (_m, symbol: string, amount: string) => speakAmount(amount, CURRENCY_SYMBOLS[symbol], words),
+      )
+      .replace(
+        new RegExp(`(${NUMBER}(?:[.,]-)?)\\s?(€|\\$|£|(?:EUR|USD|GBP|CHF)\\b)`, 'g'),
+        (_m, amount: string, symbol: string) => speakAmount(amount, CURRENCY_SYMBOLS[symbol], words),
+      )
+      // Units
+      .replace(/(\d)\s?%/g, `$1 ${words.percent}`)
+      .replace(
+        /(\d)\s?°\s?([CF])\b/g,
+        (_m, digit: string, scale: string) =>
+          `${digit} ${words.degrees} ${scale === 'C' ? 'Celsius' : 'Fahrenheit'}`,
+      )
+      .replace(/(\d)\s?°/g, `$1 ${words.degrees}`)
+      .replace(/(\d)\s?km\/h\b/g, `$1 ${words.kmh}`)
+      // Remaining numbers with separators; dates ("19.10.") and versions stay
+      .replace(
+        new RegExp(`(^|[^\\w.,])(${NUMBER})(?![\\w,]|\\.\\d)(\\.?)`, 'g'),
+        (_m, before: string, raw: string, dot: string) =>
+          dot && /^\d{1,2}\.\d{1,2}$/.test(raw)
+            ? `${before}${raw}${dot}`
+            : `${before}${speakNumber(raw, words)}${dot}`,
+      )
+  );
+}
+
+// ── Inline Markdown ──────────────────────────────────────────────────────────
+
+/** Domain of a URL without "www." – "https://www.example.com/a?b" → "example.com" */
+function urlDomain(url: string): string {
+  return url
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+    .split(/[/?#:]/)[0]
+    .replace(/^www\./i, '');
+}
+
+/** Emoji, pictographs, flags and their joiners/variation selectors */
+const EMOJI =
+  /[\u{1F000}-\u{1FAFF}\u{2600}-\u{27BF}\u{2B00}-\u{2BFF}\u{1F1E6}-\u{1F1FF}\u{E0020}-\u{E007F}\u{FE0F}\u{200D}\u{20E3}]/gu;
+
+/** Inline Markdown of one line as prose */
+function speakInline(line: string, words: SpeechWords): string {
+  const text = line
+    // Images and links keep their text, autolinks and bare URLs their domain
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<((?:https?:\/\/|www\.)[^>]+)>/gi, (_m, url: string) => urlDomain(url))
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/\b(?:https?:\/\/|www\.)[^\s<>()[\]]+/gi, url => {
+      const trailing = /[.,;:!?'"]+$/.exec(url)?.[0] ?? '';
+      return urlDomain(url.slice(0, url.length - trailing.length)) + trailing;
+    })
+    // Code, emphasis, strike-through
+    .replace(/`+([^`]*)`+/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\*([^*\s][^*]*?)\*/g, '$1')
+    .replace(/(^|[\s(])_([^_\n]+)_(?=[\s).,!?:;]|$)/g, '$1$2')
+    .replace(/[*`]+/g, '')
+    // Symbols the engines read by name
+    .replace(EMOJI, '')
+    .replace(/\s*[→⇒➔]\s*/g, ', ');
+
+  return speakQuantities(text, words)
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,!?;:])/g, '$1')
+    .replace(/([,;:])(?:\s*[,;:])+/g, '$1')
+    .replace(/^[,;:\s]+/, '')
+    .trim();
+}
+
+/** End a list item, heading or table row with a full stop (the engine pauses there) */
+function asSentence(text: string): string {
+  if (!text) return text;
+  return /[.!?…:;]["')\]]*$/.test(text) ? text : `${text.replace(/[,;]$/, '')}.`;
+}
+
+// ── Blocks ───────────────────────────────────────────────────────────────────
+
+interface Block {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const TABLE_ROW = /^\s*\|/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{2,}:?\s*(?:\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+•]|\d{1,3}[.)])\s+(?:\[[ xX]\]\s+)?/;
+const HEADING = /^\s*#{1,6}\s+/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+
+function tableCells(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map(cell => cell.trim());
+}
+
+/** Rows as sentences – "Header: cell, Header: cell." when there is a header row */
+function speakTable(rows: string[], words: SpeechWords): string[] {
+  const hasHeader = rows.length > 1 && TABLE_SEPARATOR.test(rows[1]);
+  const header = hasHeader ? tableCells(rows[0]).map(cell => speakInline(cell, words)) : [];
+  return rows.slice(hasHeader ? 2 : 0).map(row =>
+    asSentence(
+      tableCells(row)
+        .map(cell => speakInline(cell, words))
+        .map((cell, i) => (cell && header[i] ? `${header[i]}: ${cell}` : cell))
+        .filter(Boolean)
+        .join(', '),
+    ),
+  );
+}
+
+/** One line outside code blocks and tables */
+function speakLine(line: string, words: SpeechWords): string {
+  if (RULE.test(line)) return '';
+  let text = line.replace(/^\s*(?:>\s?)+/, '');
+  if (HEADING.test(text)) {
+    text = text.replace(HEADING, '').replace(/\s+#+\s*$/, '');
+  } else {
+    text = text.replace(LIST_ITEM, '');
+  }
+  return asSentence(speakInline(text, words));
+}
+
+/** Spoken blocks with their source ranges – one per line, table row or code block */
+function speechBlocks(markdown: string, words: SpeechWords): Block[] {
+  const lines: Array<{ text: string; start: number; end: number }> = [];
+  let offset = 0;
+  for (const text of markdown.split('\n')) {
+    lines.push({ text, start: offset, end: offset + text.length });
+    offset += text.length + 1;
+  }
+
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = FENCE.exec(line.text);
+    if (fence) {
+      // Code is not read aloud – skip to the closing fence
+      let j = i + 1;
+      while (j < lines.length && !lines[j].text.trim().startsWith(fence[1])) j++;
+      i = j + 1;
+      continue;
+    }
+    if (TABLE_ROW.test(line.text)) {
+      let j = i;
+      while (j < lines.length && TABLE_ROW.test(lines[j].text)) j++;
+      const rows = lines.slice(i, j);
+      const hasHeader = rows.length > 1 && TABLE_SEPARATOR.test(rows[1].text);
+      const spoken = speakTable(rows.map(r => r.text), words);
+      const bodyRows = rows.slice(hasHeader ? 2 : 0);
+      spoken.forEach((text, k) => {
+        // The header belongs to the first row
+        const start = k === 0 ? rows[0].start : bodyRows[k].start;
+        blocks.push({ text, start, end: bodyRows[k].end });
+      });
+      i = j;
+      continue;
+    }
+    const text = speakLine(line.text, words);
+    if (text) blocks.push({ text, start: line.start, end: line.end });
+    i++;
+  }
+  return blocks.filter(block => block.text);
+}
+
+// ── Utterances ───────────────────────────────────────────────────────────────
+
+/** Sentences of spoken text, each with its trailing punctuation */
+function sentences(text: string): string[] {
+  return text.match(/\S.*?(?:[.!?…]+["')\]]*(?=\s|$)|$)/g) ?? [text];
+}
+
+/** Cut a text longer than maxChars at commas or spaces */
+function hardSplit(text: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const comma = window.lastIndexOf(', ');
+    const space = window.lastIndexOf(' ');
+    const cut = comma > maxChars / 2 ? comma + 1 : space > 0 ? space : maxChars;
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/** Split a block too long for one utterance; source ranges are estimated proportionally */
+function splitBlock(block: Block, maxChars: number): Block[] {
+  const pieces = sentences(block.text).flatMap(s => hardSplit(s, maxChars));
+  const spokenLength = pieces.reduce((sum, p) => sum + p.length, 0);
+  const sourceLength = block.end - block.start;
+  const result: Block[] = [];
+  let done = 0;
+  for (const piece of pieces) {
+    const start = block.start + Math.round((sourceLength * done) / spokenLength);
+    done += piece.length;
+    const end = block.start + Math.round((sourceLength * done) / spokenLength);
+    const last = result[result.length - 1];
+    if (last && last.text.length + 1 + piece.length <= maxChars) {
+      last.text = `${last.text} ${piece}`;
+      last.end = end;
+    } else {
+      result.push({ text: piece, start, end });
+    }
+  }
+  return result;
+}
+
+/**
+ * Markdown as utterances of at most `maxChars` characters. Short blocks are
+ * joined, so a list is one utterance with a pause after every item.
+ */
+export function toUtterances(
+  markdown: string,
+  language: string,
+  maxChars = MAX_UTTERANCE_CHARS,
+): Utterance[] {
+  const words = wordsFor(language);
+  const utterances: Utterance[] = [];
+  for (const block of speechBlocks(markdown, words)) {
+    const parts = block.text.length > maxChars ? splitBlock(block, maxChars) : [block];
+    for (const part of parts) {
+      const last = utterances[utterances.length - 1];
+      if (last && last.text.length + 1 + part.text.length <= maxChars) {
+        last.text = `${last.text} ${part.text}`;
+        last.end = part.end;
+      } else {
+        utterances.push({ ...part });
+      }
+    }
+  }
+  return utterances;
+}
+
+/** Markdown as one spoken text */
+export function toSpeech(markdown: string, language: string): string {
+  return toUtterances(markdown, language, Infinity)
+    .map(u => u.text)
+    .join(' ');
+}
+
+/**
+ * Offset in the original text reached after `spokenChars` characters of an
+ * utterance – estimated within the utterance's source range and moved back
+ * to the start of a word.
+ */
+export function sourceOffset(source: string, utterance: Utterance, spokenChars: number): number {
+  if (spokenChars <= 0 || !utterance.text) return utterance.start;
+  if (spokenChars >= utterance.text.length) return utterance.end;
+  const estimate =
+    utterance.start +
+    Math.floor(((utterance.end - utterance.start) * spokenChars) / utterance.text.length);
+  let offset = estimate;
+  while (offset > utterance.start && !/\s/.test(source[offset - 1])) offset--;
+  return offset;
+}
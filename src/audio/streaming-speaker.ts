@@ -0,0 +1,128 @@
+/**
+ * StreamingSpeaker – Sentence-by-sentence TTS for streamed LLM output
+ *
+ * Collects text deltas and hands every completed sentence to the TTSService
+ * while the model is still generating. The native TTS flushes its queue on
+ * each speak() call, so sentences are chained on the JS side.
+ *
+ * The trailing sentence is always held back: the pipeline speaks it after
+ * the loop, so the tts_done handler in App.tsx (auto-listen after
+ * questions) still sees the end of the answer.
+ *
+ * What was actually heard is reported through `onSpoken` – after a barge-in
+ * the pipeline records the spoken and the skipped part of the answer.
+ *
+ * Sentences are cut on the Markdown source (TTSService turns it into
+ * speech): never after a list number ("1. "), never inside a code block.
+ */
+import type { SpeakResult, TTSService } from './tts-service';
+import { DebugLogger } from '../agent/debug-logger';
+
+/** Sentence boundary followed by the start of the next sentence */
+const SENTENCE_BOUNDARY = /[.!?…:;]\s+(?=\S)|\n+(?=\S)/g;
+
+/** "1." / "2)" at the start of a line – a list item, not a sentence end */
+const LIST_NUMBER = /^\s*\d{1,3}[.)]$/;
+
+/** Internal tokens (e.g. __SILENT__) must never be spoken */
+const TOKEN_PATTERN = /__[A-Z_]+__/;
+
+function fenceCount(text: string): number {
+  return text.split('```').length - 1;
+}
+
+export class StreamingSpeaker {
+  private tts: TTSService;
+  private language: string;
+  private buffer = '';
+  private spoken = '';
+  private queue: Promise<void> = Promise.resolve();
+  private cancelled = false;
+  private speaking = false;
+  private onSpoken?: (text: string, result: SpeakResult) => void;
+
+  constructor(
+    tts: TTSService,
+    language: string,
+    onSpoken?: (text: string, result: SpeakResult) => void,
+  ) {
+    this.tts = tts;
+    this.language = language;
+    this.onSpoken = onSpoken;
+  }
+
+  /** Append a text delta and speak any sentences that are now complete */
+  push(delta: string): void {
+    if (this.cancelled) return;
+    this.buffer += delta;
+
+    let cut = 0;
+    SENTENCE_BOUNDARY.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_BOUNDARY.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const lineStart = this.buffer.lastIndexOf('\n', match.index) + 1;
+      if (LIST_NUMBER.test(this.buffer.slice(lineStart, match.index + 1))) continue;
+      if (fenceCount(this.spoken + this.buffer.slice(0, end)) % 2 === 1) continue;
+      cut = end;
+    }
+    if (cut === 0) return;
+
+    const ready = this.buffer.slice(0, cut);
+    this.buffer = this.buffer.slice(cut);
+    this.spoken += ready;
+    this.enqueue(ready.trim());
+  }
+
+  /**
+   * Discard unspoken text, e.g. when the LLM turn ended in tool calls and
+   * the next iteration starts a fresh answer.
+   */
+  reset(): void {
+    this.buffer = '';
+    this.spoken = '';
+  }
+
+  /** Stop feeding TTS (already queued sentences are left to the caller) */
+  cancel(): void {
+    this.cancelled = true;
+    this.buffer = '';
+  }
+
+  /** Whether a sentence is being spoken right now */
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /** Wait until all sentences queued so far have been spoken */
+  async drain(): Promise<void> {
+    await this.queue;
+  }
+
+  /**
+   * Return the part of `finalText` that has not been spoken yet.
+   * Falls back to the whole text if the streamed text diverged from it.
+   */
+  remainder(finalText: string): string {
+    if (this.spoken && finalText.startsWith(this.spoken)) {
+      return finalText.slice(this.spoken.length).trim();
+    }
+    return finalText;
+  }
+
+  private enqueue(sentence: string): void {
+    if (!sentence || TOKEN_PATTERN.test(sentence)) return;
+    this.queue = this.queue.then(async () => {
+      if (this.cancelled) return;
+      this.speaking = true;
+      try {
+        const result = await this.tts.speak(sentence, this.language);
+        this.onSpoken?.(sentence, result);
+      } catch (err) {
+        DebugLogger.logError('TTS', `TTS error: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        this.speaking = false;
+      }
+    });
+  }
+}
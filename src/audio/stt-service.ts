@@ -1,41 +1,72 @@
 /**
  * STTService – Speech-to-Text service
- * Uses the native SpeechModule (Android SpeechRecognizer, on-device)
- * No external package needed.
+ *
+ * Recognition runs through a pluggable STTBackend, selected by the mode:
+ *   - 'auto' | 'offline' | 'online': native SpeechModule (Android SpeechRecognizer)
+ *   - 'api': TranscriptionSTTBackend – records via AudioRecorderModule and
+ *     uploads to an OpenAI-compatible /audio/transcriptions endpoint
  */
 import SpeechModule, { SpeechEvents } from '../native/SpeechModule';
 import { DebugLogger } from '../agent/debug-logger';
+import { TranscriptionSTTBackend } from './transcription-stt-backend';
+import type { TranscriptionApiConfig } from './transcription-stt-backend';
 
 export interface STTResult {
   text: string;
   isFinal: boolean;
 }
 
-export class STTService {
-  private subscriptions: ReturnType<typeof SpeechEvents.addListener>[] = [];
-  private initialized = false;
+/** Speech recognition mode selectable in Settings → Language */
+export type STTMode = 'auto' | 'offline' | 'online' | 'api';
 
-  init(): void {
-    if (this.initialized) return;
-    this.initialized = true;
-  }
+export interface ListenOptions {
+  /**
+   * Give up with '' if the user has not started speaking after this time
+   * (follow-up window). Default: the backend's own no-speech timeout.
+   */
+  noSpeechTimeoutMs?: number;
+}
 
+/** A speech recogniser – one listen() at a time */
+export interface STTBackend {
+  readonly name: string;
   /**
-   * Listen for speech and return final transcript.
-   * Resolves when speech ends or rejects on error.
+   * Listen for one utterance and return the final transcript ('' if nothing
+   * was said). Rejects on errors and on cancel().
    * @param language BCP-47 language tag (e.g. 'de-AT', 'en-US')
+   */
+  listen(language: string, options?: ListenOptions): Promise<string>;
+  /** Stop listening and return what was heard so far */
+  stop(): Promise<void>;
+  /** Stop listening without a result */
+  cancel(): Promise<void>;
+  isAvailable(): Promise<boolean>;
+}
+
+// ── Native backend ───────────────────────────────────────────────────────────
+
+/** Android SpeechRecognizer via the native SpeechModule */
+class NativeSpeechBackend implements STTBackend {
+  readonly name = 'android';
+
+  /**
    * @param mode 'auto' (cloud first, fallback on-device), 'offline' (on-device only), 'online' (cloud only)
    */
-  async listen(language = 'en-US', mode: 'auto' | 'offline' | 'online' = 'auto'): Promise<string> {
+  constructor(private mode: 'auto' | 'offline' | 'online') {}
+
+  async listen(language: string, options?: ListenOptions): Promise<string> {
+    const mode = this.mode;
     return new Promise((resolve, reject) => {
       let lastResult = '';
       let resolved = false;
       let fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+      let noSpeechTimer: ReturnType<typeof setTimeout> | null = null;
 
       const doResolve = (value: string) => {
         if (resolved) return;
         resolved = true;
         if (fallbackTimer) clearTimeout(fallbackTimer);
+        if (noSpeechTimer) clearTimeout(noSpeechTimer);
         cleanup();
         resolve(value);
       };
@@ -44,6 +75,7 @@ export class STTService {
         if (resolved) return;
         resolved = true;
         if (fallbackTimer) clearTimeout(fallbackTimer);
+        if (noSpeechTimer) clearTimeout(noSpeechTimer);
         cleanup();
         reject(err);
       };
@@ -95,12 +127,30 @@ export class STTService {
         },
       );
 
+      // The user started speaking – the no-speech window no longer applies
+      const speechStarted = () => {
+        if (noSpeechTimer) clearTimeout(noSpeechTimer);
+        noSpeechTimer = null;
+      };
+      const startSub = SpeechEvents.addListener('speech_start', speechStarted);
+      const partialSub = SpeechEvents.addListener('speech_partial_results', speechStarted);
+
       const cleanup = () => {
         resultsSub.remove();
         endSub.remove();
         errorSub.remove();
+        startSub.remove();
+        partialSub.remove();
       };
 
+      if (options?.noSpeechTimeoutMs) {
+        noSpeechTimer = setTimeout(() => {
+          DebugLogger.add('info', 'STT', `No speech within ${options.noSpeechTimeoutMs} ms`);
+          doResolve('');
+          SpeechModule.cancel().catch(() => {});
+        }, options.noSpeechTimeoutMs);
+      }
+
       // Start
       DebugLogger.add('info', 'STT', `Starte Spracherkennung (lang=${language}, mode=${mode})`);
       SpeechModule.startListening(language, mode).catch(err => {
@@ -123,15 +173,82 @@ export class STTService {
   async isAvailable(): Promise<boolean> {
     return SpeechModule.isAvailable();
   }
+}
+
+// ── Service ──────────────────────────────────────────────────────────────────
+
+export class STTService {
+  private initialized = false;
+  private transcriptionConfig: TranscriptionApiConfig | null = null;
+  /** Backend of the running listen() – receives stop() / cancel() */
+  private activeBackend: STTBackend | null = null;
+
+  init(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+  }
+
+  /** Configure the transcription API used in mode 'api' (null = not configured) */
+  setTranscriptionApi(config: TranscriptionApiConfig | null): void {
+    this.transcriptionConfig = config;
+  }
+
+  /** The backend for a mode – 'api' falls back to the native recogniser if unconfigured */
+  private backendFor(mode: STTMode): STTBackend {
+    if (mode === 'api') {
+      if (this.transcriptionConfig) {
+        return new TranscriptionSTTBackend(this.transcriptionConfig);
+      }
+      DebugLogger.add('info', 'STT', 'Transcription API not configured – using Android recogniser');
+      return new NativeSpeechBackend('auto');
+    }
+    return new NativeSpeechBackend(mode);
+  }
+
+  /**
+   * Listen for speech and return final transcript.
+   * Resolves when speech ends or rejects on error.
+   * @param language BCP-47 language tag (e.g. 'de-AT', 'en-US')
+   * @param mode see STTMode
+   */
+  async listen(
+    language = 'en-US',
+    mode: STTMode = 'auto',
+    options?: ListenOptions,
+  ): Promise<string> {
+    const backend = this.backendFor(mode);
+    this.activeBackend = backend;
+    try {
+      return await backend.listen(language, options);
+    } finally {
+      if (this.activeBackend === backend) this.activeBackend = null;
+    }
+  }
+
+  /** Stop listening and use what was heard so far */
+  async stop(): Promise<void> {
+    await (this.activeBackend ?? new NativeSpeechBackend('auto')).stop();
+  }
+
+  /** Cancel without result */
+  async cancel(): Promise<void> {
+    await (this.activeBackend ?? new NativeSpeechBackend('auto')).cancel();
+  }
+
+  /**
+   * Check if STT is available for `mode` – in mode 'api' when the
+   * transcription API is configured, otherwise on the device.
+   */
+  async isAvailable(mode: STTMode = 'auto'): Promise<boolean> {
+    return this.backendFor(mode).isAvailable();
+  }
 
   isActive(): boolean {
-    return false; // Managed by native side
+    return this.activeBackend !== null;
   }
 
   async destroy(): Promise<void> {
-    this.subscriptions.forEach(s => s.remove());
-    this.subscriptions = [];
-    await SpeechModule.cancel().catch(() => {});
+    await this.cancel().catch(() => {});
     this.initialized = false;
   }
 }
@@ -0,0 +1,185 @@
+/**
+ * TranscriptionSTTBackend – Speech-to-Text via a transcription API
+ *
+ * Records 16 kHz mono PCM with AudioRecorderModule, detects the end of the
+ * utterance by silence and uploads the audio as WAV to an OpenAI-compatible
+ * `POST {baseUrl}/audio/transcriptions` endpoint (OpenAI Whisper, Groq,
+ * a local whisper.cpp / faster-whisper server, …).
+ *
+ * Much better than the Android recogniser at mixed German/English speech
+ * and proper nouns such as contact names.
+ */
+import RNFS from 'react-native-fs';
+import AudioRecorderModule, { AudioRecorderEvents } from '../native/AudioRecorderModule';
+import { DebugLogger } from '../agent/debug-logger';
+import type { ListenOptions, STTBackend } from './stt-service';
+import { pcmLevel, toWav } from './pcm';
+
+export interface TranscriptionApiConfig {
+  /** Base URL of the API, e.g. https://api.openai.com/v1 or http://192.168.1.10:8080/v1 */
+  baseUrl: string;
+  /** Bearer token – may be empty for local servers */
+  apiKey: string;
+  /** Model name, e.g. whisper-1 */
+  model: string;
+}
+
+export const DEFAULT_TRANSCRIPTION_URL = 'https://api.openai.com/v1';
+export const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+
+// ── Recording parameters ─────────────────────────────────────────────────────
+
+/** RMS level (16-bit samples) above which a chunk counts as speech */
+const SPEECH_RMS_THRESHOLD = 600;
+/** Silence after speech that ends the utterance */
+const END_OF_SPEECH_SILENCE_MS = 1200;
+/** Give up if nobody starts speaking */
+const NO_SPEECH_TIMEOUT_MS = 7000;
+/** Hard limit for one utterance */
+const MAX_RECORDING_MS = 30_000;
+/** Upload + transcription timeout */
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// ── Backend ──────────────────────────────────────────────────────────────────
+
+export class TranscriptionSTTBackend implements STTBackend {
+  readonly name = 'transcription-api';
+
+  /** Ends the current recording early (stop) or aborts it (cancel) */
+  private finish: ((transcribe: boolean) => void) | null = null;
+  private request: AbortController | null = null;
+
+  constructor(private config: TranscriptionApiConfig) {}
+
+  async listen(language: string, options?: ListenOptions): Promise<string> {
+    const pcm = await this.record(options?.noSpeechTimeoutMs ?? NO_SPEECH_TIMEOUT_MS);
+    if (pcm === null) {
+      return '';
+    }
+    return this.transcribe(pcm, language);
+  }
+
+  /**
+   * Record until the speaker is silent. Resolves with the PCM (binary
+   * string) or null if nobody spoke.
+   */
+  private record(noSpeechTimeoutMs: number): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const chunks: string[] = [];
+      const startedAt = Date.now();
+      let speechStartedAt = 0;
+      let lastSpeechAt = 0;
+      let done = false;
+
+      const end = (transcribe: boolean, error?: Error) => {
+        if (done) return;
+        done = true;
+        this.finish = null;
+        chunkSub.remove();
+        errorSub.remove();
+        clearInterval(watchdog);
+        AudioRecorderModule.stopRecording().catch(() => {});
+
+        if (error) {
+          reject(error);
+        } else if (!transcribe) {
+          reject(new Error('STT cancelled'));
+        } else {
+          const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+          DebugLogger.add('info', 'STT', `Recording ended after ${seconds}s (speech: ${speechStartedAt > 0})`);
+          resolve(speechStartedAt > 0 ? chunks.join('') : null);
+        }
+      };
+      this.finish = transcribe => end(transcribe);
+
+      const chunkSub = AudioRecorderEvents.addListener('audio_chunk', (event: { data: string }) => {
+        const pcm = atob(event.data);
+        chunks.push(pcm);
+        if (pcmLevel(pcm) >= SPEECH_RMS_THRESHOLD) {
+          lastSpeechAt = Date.now();
+          if (speechStartedAt === 0) speechStartedAt = lastSpeechAt;
+        }
+      });
+      const errorSub = AudioRecorderEvents.addListener('audio_error', (event: { error: string }) => {
+        DebugLogger.add('error', 'STT', `Recording error: ${event.error}`);
+        end(false, new Error(`STT recording error: ${event.error}`));
+      });
+
+      const watchdog = setInterval(() => {
+        const now = Date.now();
+        if (speechStartedAt === 0) {
+          if (now - startedAt > noSpeechTimeoutMs) end(true);
+        } else if (now - lastSpeechAt > END_OF_SPEECH_SILENCE_MS || now - startedAt > MAX_RECORDING_MS) {
+          end(true);
+        }
+      }, 100);
+
+      DebugLogger.add('info', 'STT', `Starte Aufnahme für Transkriptions-API (${this.config.model || DEFAULT_TRANSCRIPTION_MODEL})`);
+      AudioRecorderModule.startRecording().catch(err => {
+        end(false, err instanceof Error ? err : new Error(String(err)));
+      });
+    });
+  }
+
+  /** Upload the recording and return the transcript */
+  private async transcribe(pcm: string, language: string): Promise<string> {
+    const path = `${RNFS.CachesDirectoryPath}/stt-${Date.now()}.wav`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    this.request = controller;
+    try {
+      await RNFS.writeFile(path, btoa(toWav(pcm)), 'base64');
+
+      const form = new FormData();
+      // React Native's FormData uploads files given as { uri, type, name }
+      form.append('file', { uri: `file://${path}`, type: 'audio/wav', name: 'speech.wav' } as unknown as Blob);
+      form.append('model', this.config.model || DEFAULT_TRANSCRIPTION_MODEL);
+      form.append('response_format', 'json');
+      // ISO-639-1 code ("de-AT" → "de"); improves accuracy and latency
+      const iso = language.split(/[-_]/)[0].toLowerCase();
+      if (iso) form.append('language', iso);
+
+      const url = `${(this.config.baseUrl || DEFAULT_TRANSCRIPTION_URL).replace(/\/+$/, '')}/audio/transcriptions`;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : undefined,
+        body: form,
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Transcription failed (HTTP ${response.status}) ${detail.slice(0, 200)}`.trim());
+      }
+      const data = (await response.json()) as { text?: string };
+      const text = (data.text ?? '').trim();
+      DebugLogger.add('info', 'STT', `✓ Result via transcription API (lang=${iso}): "${text}"`);
+      return text;
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new Error(this.request === controller ? 'Transcription timed out' : 'STT cancelled');
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      if (this.request === controller) this.request = null;
+      RNFS.unlink(path).catch(() => {});
+    }
+  }
+
+  /** Stop recording now and transcribe what was said so far */
+  async stop(): Promise<void> {
+    this.finish?.(true);
+  }
+
+  /** Abort recording or upload without a result */
+  async cancel(): Promise<void> {
+    this.finish?.(false);
+    const request = this.request;
+    this.request = null;
+    request?.abort();
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return !!(this.config.baseUrl || this.config.apiKey);
+  }
+}
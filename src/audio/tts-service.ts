@@ -1,48 +1,142 @@
 /**
  * TTSService – Text-to-Speech service wrapper
  * Manages TTS state and provides a Promise-based interface with completion tracking
+ *
+ * Speech runs through a pluggable TTSBackend, selected by the TTSConfig:
+ *   - 'android': native TTSModule (Android TextToSpeech)
+ *   - 'http':    HttpTTSBackend – an OpenAI-compatible /audio/speech endpoint,
+ *                played through AudioPlayerModule (falls back to Android
+ *                when the request fails, so an answer is never lost)
+ *
+ * Text is Markdown as the LLM wrote it: speak() turns it into spoken prose
+ * and speaks it utterance by utterance (see speech-text.ts). SpeakResult
+ * offsets refer to the text as passed in.
  */
 import { NativeEventEmitter } from 'react-native';
-import TTSModule, { TTSEvents } from '../native/TTSModule';
+import TTSModule, { TTSEvents, type NativeVoice } from '../native/TTSModule';
 import { DebugLogger } from '../agent/debug-logger';
+import { HttpTTSBackend, type SpeechApiConfig } from './http-tts-backend';
+import { sourceOffset, toUtterances } from './speech-text';
 
-type TTSEventCallback = () => void;
+/** How far a speak() call got */
+export interface SpeakResult {
+  /** false if stop() cut the speech short */
+  completed: boolean;
+  /**
+   * Characters of the text (as passed to speak()) that were spoken. After an interruption this is
+   * the start of the word being spoken (0 if the engine reports no progress).
+   */
+  spokenChars: number;
+}
 
-export class TTSService {
-  private pendingCallbacks: Map<string, TTSEventCallback> = new Map();
-  private eventSubscriptions: ReturnType<NativeEventEmitter['addListener']>[] = [];
-  private initialized = false;
+/** Speech engine selectable in Settings → Language */
+export type TTSEngine = 'android' | 'http';
 
-  init(): void {
-    if (this.initialized) return;
+export interface VoiceSettings {
+  /** Voice name of the engine ('' = engine default) */
+  voice: string;
+  /** 1.0 = normal speed */
+  rate: number;
+  /** 1.0 = normal pitch (Android voices only) */
+  pitch: number;
+}
+
+/** Speech settings from Settings → Language (also saved for headless tasks, see AgentConfig) */
+export interface TTSSettings extends VoiceSettings {
+  engine: TTSEngine;
+  /** Speech API for engine 'http' (null = not configured → Android) */
+  speechApi: SpeechApiConfig | null;
+}
+
+export interface TTSConfig extends TTSSettings {
+  /**
+   * Voice declared by the SOUL persona (see SoulStore.parseVoice) – wins over
+   * `voice` on the engine it names a voice of (see isNativeVoiceName)
+   */
+  personaVoice: string | null;
+}
+
+export const DEFAULT_TTS_CONFIG: TTSConfig = {
+  engine: 'android',
+  voice: '',
+  rate: 1,
+  pitch: 1,
+  speechApi: null,
+  personaVoice: null,
+};
 
+/** After a failed request, the speech API is skipped for this long */
+const SPEECH_API_RETRY_MS = 60_000;
+
+/**
+ * Whether `voice` is an Android voice name ("de-de-x-deb-local",
+ * "en-us-language") rather than a speech API voice ("nova")
+ */
+export function isNativeVoiceName(voice: string): boolean {
+  return /^[a-z]{2,3}-[a-z]{2,4}-(x-|language$)/i.test(voice);
+}
+
+/** A speech engine – one utterance at a time */
+export interface TTSBackend {
+  readonly name: string;
+  /** Speak and resolve when done – or with completed=false after stop() */
+  speak(text: string, language: string, voice: VoiceSettings): Promise<SpeakResult>;
+  stop(): Promise<void>;
+  isSpeaking(): Promise<boolean>;
+  destroy(): void;
+}
+
+// ── Native backend ───────────────────────────────────────────────────────────
+
+interface PendingUtterance {
+  text: string;
+  /** Start of the word currently being spoken (tts_progress) */
+  progress: number;
+  resolve: (result: SpeakResult) => void;
+}
+
+/** Android TextToSpeech via the native TTSModule */
+class NativeTTSBackend implements TTSBackend {
+  readonly name = 'android';
+  private pendingCallbacks: Map<string, PendingUtterance> = new Map();
+  private eventSubscriptions: ReturnType<NativeEventEmitter['addListener']>[] = [];
+  /** Voice settings last sent to the engine – only changes are applied */
+  private applied: VoiceSettings | null = null;
+
+  constructor() {
     const doneSub = TTSEvents.addListener('tts_done', (event: { utteranceId: string }) => {
-      const cb = this.pendingCallbacks.get(event.utteranceId);
-      if (cb) {
+      const pending = this.pendingCallbacks.get(event.utteranceId);
+      if (pending) {
         this.pendingCallbacks.delete(event.utteranceId);
-        cb();
+        pending.resolve({ completed: true, spokenChars: pending.text.length });
       }
     });
 
     const errorSub = TTSEvents.addListener('tts_error', (event: { utteranceId: string }) => {
-      const cb = this.pendingCallbacks.get(event.utteranceId);
-      if (cb) {
+      const pending = this.pendingCallbacks.get(event.utteranceId);
+      if (pending) {
         this.pendingCallbacks.delete(event.utteranceId);
-        cb(); // Resolve even on error to prevent hanging
+        // Resolve even on error to prevent hanging
+        pending.resolve({ completed: true, spokenChars: pending.text.length });
       }
     });
 
-    this.eventSubscriptions.push(doneSub, errorSub);
-    this.initialized = true;
+    const progressSub = TTSEvents.addListener(
+      'tts_progress',
+      (event: { utteranceId: string; start: number }) => {
+        const pending = this.pendingCallbacks.get(event.utteranceId);
+        if (pending) pending.progress = event.start;
+      },
+    );
+
+    this.eventSubscriptions.push(doneSub, errorSub, progressSub);
   }
 
-  /** Speak text and wait for completion */
-  async speak(text: string, language = 'en-US'): Promise<void> {
+  async speak(text: string, language: string, voice: VoiceSettings): Promise<SpeakResult> {
+    await this.applyVoice(voice);
     const utteranceId = `tts_${Date.now()}_${Math.random().toString(36).slice(2)}`;
-    DebugLogger.add('info', 'TTS', `Speaking (lang=${language}): "${text.slice(0, 80)}${text.length > 80 ? '…' : ''}"`);
-
     return new Promise((resolve, reject) => {
-      this.pendingCallbacks.set(utteranceId, resolve);
+      this.pendingCallbacks.set(utteranceId, { text, progress: 0, resolve });
       TTSModule.speak(text, language, utteranceId).catch(err => {
         this.pendingCallbacks.delete(utteranceId);
         reject(err);
@@ -50,22 +144,14 @@ export class TTSService {
     });
   }
 
-  /** Speak text without waiting */
-  speakAsync(text: string, language = 'en-US'): void {
-    DebugLogger.add('info', 'TTS', `Speaking async (lang=${language}): "${text.slice(0, 80)}${text.length > 80 ? '…' : ''}"`);
-    TTSModule.speak(text, language, null).catch(console.error);
-  }
-
-  /** Stop current speech and resolve any callers awaiting speak() */
   async stop(): Promise<void> {
     // Resolve all pending speak() promises so the pipeline doesn't hang
-    const callbacks = Array.from(this.pendingCallbacks.values());
+    const pending = Array.from(this.pendingCallbacks.values());
     this.pendingCallbacks.clear();
-    callbacks.forEach(cb => cb());
+    pending.forEach(p => p.resolve({ completed: false, spokenChars: p.progress }));
     await TTSModule.stop();
   }
 
-  /** Check if TTS is active */
   async isSpeaking(): Promise<boolean> {
     return TTSModule.isSpeaking();
   }
@@ -73,6 +159,165 @@ export class TTSService {
   destroy(): void {
     this.eventSubscriptions.forEach(sub => sub.remove());
     this.eventSubscriptions = [];
-    this.initialized = false;
+  }
+
+  private async applyVoice(voice: VoiceSettings): Promise<void> {
+    const applied = this.applied;
+    this.applied = { ...voice };
+    try {
+      if (applied?.voice !== voice.voice) await TTSModule.setVoice(voice.voice || null);
+      if (applied?.rate !== voice.rate) await TTSModule.setSpeechRate(voice.rate);
+      if (applied?.pitch !== voice.pitch) await TTSModule.setPitch(voice.pitch);
+    } catch (err) {
+      this.applied = null;
+      DebugLogger.logError('TTS', `Could not apply voice settings: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+/**
+ * Installed Android voices for the voice picker – those of `language` (base
+ * language, e.g. 'de') first, then by quality
+ */
+export async function listNativeVoices(language?: string): Promise<NativeVoice[]> {
+  const base = language?.split(/[-_]/)[0].toLowerCase();
+  const matches = (v: NativeVoice) => (base && v.locale.toLowerCase().startsWith(base) ? 0 : 1);
+  const voices = await TTSModule.getVoices();
+  return voices.sort(
+    (a, b) => matches(a) - matches(b) || b.quality - a.quality || a.name.localeCompare(b.name),
+  );
+}
+
+// ── Service ──────────────────────────────────────────────────────────────────
+
+export class TTSService {
+  private config: TTSConfig = DEFAULT_TTS_CONFIG;
+  private native: NativeTTSBackend | null = null;
+  private http: HttpTTSBackend | null = null;
+  /** Backends of the running speak() calls – receive stop() */
+  private activeBackends: TTSBackend[] = [];
+  /** Incremented by stop() – a speak() between two utterances ends there */
+  private stopCount = 0;
+  /** When the speech API last failed – Android speaks until SPEECH_API_RETRY_MS have passed */
+  private speechApiFailedAt = 0;
+
+  init(): void {
+    this.nativeBackend();
+  }
+
+  /** Engine, voice, rate and pitch from Settings plus the SOUL persona voice */
+  configure(config: TTSConfig): void {
+    this.config = config;
+    this.speechApiFailedAt = 0;
+    if (!config.speechApi) {
+      this.http?.destroy();
+      this.http = null;
+    } else if (!this.http) {
+      this.http = new HttpTTSBackend(config.speechApi);
+    } else {
+      this.http.setConfig(config.speechApi);
+    }
+  }
+
+  /** Speak Markdown text and wait for completion (or stop()) */
+  async speak(text: string, language = 'en-US'): Promise<SpeakResult> {
+    const utterances = toUtterances(text, language);
+    const spoken = utterances.map(u => u.text).join(' ');
+    DebugLogger.add(
+      'info',
+      'TTS',
+      `Speaking (lang=${language}, ${utterances.length} utterance(s)): "${spoken.slice(0, 80)}${spoken.length > 80 ? '…' : ''}"`,
+    );
+    const stopCount = this.stopCount;
+    for (const utterance of utterances) {
+      if (stopCount !== this.stopCount) {
+        return { completed: false, spokenChars: utterance.start };
+      }
+      const result = await this.speakUtterance(utterance.text, language);
+      if (!result.completed) {
+        return { completed: false, spokenChars: sourceOffset(text, utterance, result.spokenChars) };
+      }
+    }
+    return { completed: true, spokenChars: text.length };
+  }
+
+  /** Speak text without waiting */
+  speakAsync(text: string, language = 'en-US'): void {
+    this.speak(text, language).catch(console.error);
+  }
+
+  /** Stop current speech and resolve any callers awaiting speak() */
+  async stop(): Promise<void> {
+    this.stopCount++;
+    const backends = Array.from(new Set(this.activeBackends));
+    if (backends.length === 0) {
+      await this.nativeBackend().stop();
+      return;
+    }
+    await Promise.all(backends.map(b => b.stop()));
+  }
+
+  /** Check if TTS is active */
+  async isSpeaking(): Promise<boolean> {
+    if (this.activeBackends.length > 0) return true;
+    return this.nativeBackend().isSpeaking();
+  }
+
+  destroy(): void {
+    this.native?.destroy();
+    this.native = null;
+    this.http?.destroy();
+    this.http = null;
+  }
+
+  /**
+   * Voice settings for `engine`. The configured voice and the persona voice
+   * are only used where they name a voice of that engine – rate and pitch
+   * always carry over.
+   */
+  private voiceSettings(engine: TTSEngine): VoiceSettings {
+    const { voice, rate, pitch, personaVoice } = this.config;
+    const ownVoice = engine === this.config.engine ? voice : '';
+    const persona = personaVoice && isNativeVoiceName(personaVoice) === (engine === 'android') ? personaVoice : '';
+    return { voice: persona || ownVoice, rate, pitch };
+  }
+
+  private nativeBackend(): NativeTTSBackend {
+    if (!this.native) {
+      this.native = new NativeTTSBackend();
+    }
+    return this.native;
+  }
+
+  /**
+   * One utterance – the speech API if configured, Android otherwise. After
+   * an API failure the following utterances go straight to Android for a
+   * while instead of waiting for the API again.
+   */
+  private async speakUtterance(text: string, language: string): Promise<SpeakResult> {
+    const apiCoolingDown = Date.now() - this.speechApiFailedAt < SPEECH_API_RETRY_MS;
+    if (this.config.engine === 'http' && this.http && !apiCoolingDown) {
+      try {
+        return await this.run(this.http, text, language, this.voiceSettings('http'));
+      } catch (err) {
+        this.speechApiFailedAt = Date.now();
+        DebugLogger.logError('TTS', `Speech API failed, using Android voice: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    return this.run(this.nativeBackend(), text, language, this.voiceSettings('android'));
+  }
+
+  private async run(
+    backend: TTSBackend,
+    text: string,
+    language: string,
+    voice: VoiceSettings,
+  ): Promise<SpeakResult> {
+    this.activeBackends.push(backend);
+    try {
+      return await backend.speak(text, language, voice);
+    } finally {
+      this.activeBackends.splice(this.activeBackends.indexOf(backend), 1);
+    }
   }
 }
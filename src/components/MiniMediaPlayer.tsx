@@ -14,6 +14,7 @@ import {
 } from 'react-native';
 import AudioPlayerModule, { AudioPlayerEvents, type AudioStatus } from '../native/AudioPlayerModule';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isSpeechAudioUrl } from '../audio/http-tts-backend';
 
 const FILE_KEY_PREFIX = 'sanna_file_';
 
@@ -109,6 +110,7 @@ export function MiniMediaPlayer({ isDark }: MiniMediaPlayerProps): React.JSX.Ele
   // Listen to audio events
   useEffect(() => {
     const startedListener = AudioPlayerEvents.addListener('audio_started', (data: { url: string }) => {
+      if (isSpeechAudioUrl(data.url)) return;
       loadEpisodeInfo(data.url);
     });
 
@@ -134,8 +136,8 @@ export function MiniMediaPlayer({ isDark }: MiniMediaPlayerProps): React.JSX.Ele
     };
   }, [loadEpisodeInfo]);
 
-  // Don't show if nothing is playing
-  if (!status || status.status === 'stopped' || !status.url) {
+  // Don't show if nothing is playing (Sanna's own speech is not media)
+  if (!status || status.status === 'stopped' || !status.url || isSpeechAudioUrl(status.url)) {
     return <View />;
   }
 
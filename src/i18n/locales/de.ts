@@ -36,6 +36,7 @@ const de = {
   'home.state.processing': 'Denke…',
   'home.state.speaking': 'Spreche…',
   'home.state.error': 'Fehler',
+  'home.state.followUp': 'Sprich weiter, ich höre zu…',
 
   'home.mode.driving': '🚗 Fahren',
   'home.mode.normal': '🏠 Normal',
@@ -57,6 +58,12 @@ const de = {
   'home.bubble.assistant': 'Sanna',
   'home.bubble.copied': 'Text in Zwischenablage kopiert',
 
+  'home.confirmation.title': 'Aktion bestätigen',
+  'home.confirmation.allow': 'Erlauben',
+  'home.confirmation.deny': 'Ablehnen',
+  'confirmation.voice.question': 'Soll ich das tun: {action}? Bitte sag ja oder nein.',
+  'confirmation.voice.repeat': 'Entschuldigung, das habe ich nicht verstanden. Ja oder nein?',
+
   // ── Settings ─────────────────────────────────────────────────────────────
   'settings.back': '← Zurück',
   'settings.title': 'Einstellungen',
@@ -89,6 +96,10 @@ const de = {
   'settings.provider.customBaseUrl': 'Basis-URL',
   'settings.provider.customModel': 'Modellname',
   'settings.provider.customDescription': 'Verwende deinen eigenen OpenAI-kompatiblen API-Endpunkt',
+  'settings.provider.localDescription': 'Komplett offline auf deinem eigenen llama.cpp- oder Ollama-Server – kein API-Schlüssel nötig',
+  'settings.provider.localServerUrl': 'Server-URL',
+  'settings.provider.localModel': 'Modell',
+  'settings.provider.localHint': 'Einfache http://-Adressen funktionieren nur in Debug-Builds; für Release-Builds https verwenden (z. B. über einen Reverse-Proxy).',
   'settings.provider.manualModelInput': 'Modellnamen manuell eingeben',
   'settings.provider.testConnection': 'Verbindung testen',
   'settings.provider.testingConnection': 'Teste...',
@@ -98,11 +109,19 @@ const de = {
   'settings.provider.testError.missingFields': 'Bitte gib API-Schlüssel, Basis-URL und Modellname ein, bevor du testest.',
   'settings.provider.testSuccess.message': 'Der Endpunkt hat erfolgreich geantwortet.\n\nAntwort: "{response}"',
   'settings.provider.testError.unknown': 'Unbekannter Fehler aufgetreten.',
+  'settings.provider.fallback': 'Auf andere Anbieter ausweichen',
+  'settings.provider.fallbackDesc': 'Wenn der gewählte Anbieter überlastet oder nicht erreichbar ist, wird erneut versucht und dann auf die anderen Anbieter mit hinterlegtem API-Key ausgewichen.',
 
   // Wake Word
   'settings.wakeWord.label': "'Hey Sanna' aktivieren",
   'settings.wakeWord.description': 'Hört permanent auf das Wake Word',
   'settings.wakeWord.keyLabel': 'Picovoice Access Key',
+  'settings.wakeWord.bargeIn': 'Durch Sprechen unterbrechen',
+  'settings.wakeWord.bargeIn.description': "Fahrmodus: Einfach lossprechen, während Sanna spricht, um sie zu unterbrechen – ohne Wake Word ('Hey Sanna' funktioniert immer). Am besten mit Headset oder Auto-Audio; Echo vom Lautsprecher kann es auslösen.",
+  'settings.wakeWord.followUp': 'Folgegespräch',
+  'settings.wakeWord.followUp.description': "Fahrmodus: Nach einer Antwort hört Sanna so lange weiter zu, damit du ohne Wake Word antworten kannst. Sag 'danke, das war's' oder schweig, um das Gespräch zu beenden.",
+  'settings.wakeWord.followUp.questionsOnly': 'Nach Fragen',
+  'settings.wakeWord.followUp.seconds': '{n} s',
   'wakeWord.greeting': 'Ja?',
 
   // Language / Speech
@@ -118,6 +137,30 @@ const de = {
   'settings.speech.mode.offline.desc': 'Nur On-Device Erkennung',
   'settings.speech.mode.online': 'Online',
   'settings.speech.mode.online.desc': 'Nur Cloud-basiert',
+  'settings.speech.mode.api': 'Whisper API',
+  'settings.speech.mode.api.desc': 'Transkriptions-Server',
+  'settings.speech.api.url': 'Basis-URL der Transkriptions-API',
+  'settings.speech.api.key': 'API-Key der Transkriptions-API',
+  'settings.speech.api.keyPlaceholder': 'sk-... (leer für lokale Server)',
+  'settings.speech.api.model': 'Transkriptions-Modell',
+  'settings.speech.api.hint': 'Jeder OpenAI-kompatible /audio/transcriptions-Endpunkt – OpenAI, Groq oder ein lokaler Whisper-Server. Besser bei gemischten Sprachen und Namen. Ohne URL oder Key wird die Android-Erkennung verwendet.',
+  'settings.speech.tts.engineLabel': 'Stimme',
+  'settings.speech.tts.engine.android': 'Android',
+  'settings.speech.tts.engine.http': 'Sprach-API',
+  'settings.speech.tts.voice': 'Stimme',
+  'settings.speech.tts.voice.description': 'Installierte Android-Stimmen',
+  'settings.speech.tts.voice.auto': 'Automatisch',
+  'settings.speech.tts.voice.pickTitle': 'Stimme wählen',
+  'settings.speech.tts.voice.online': 'online',
+  'settings.speech.tts.api.url': 'Basis-URL der Sprach-API',
+  'settings.speech.tts.api.key': 'API-Key der Sprach-API',
+  'settings.speech.tts.api.model': 'Sprachmodell',
+  'settings.speech.tts.api.hint': 'Jeder OpenAI-kompatible /audio/speech-Endpunkt – OpenAI oder ein lokaler Server (Piper, Kokoro). Ein laufender Podcast pausiert, während Sanna spricht. Ohne URL oder Key oder wenn die Anfrage fehlschlägt, wird die Android-Stimme verwendet.',
+  'settings.speech.tts.personaVoice': 'Die SOUL legt die Stimme „{voice}“ fest – sie hat Vorrang vor dieser Einstellung.',
+  'settings.speech.tts.rate': 'Sprechtempo',
+  'settings.speech.tts.pitch': 'Tonhöhe',
+  'settings.speech.tts.preview': 'Stimme testen',
+  'settings.speech.tts.previewText': 'Hallo, ich bin Sanna. So klinge ich.',
 
   // SOUL
   'settings.soul.description': 'Definiert Sannas Persönlichkeit und Tonfall.',
@@ -161,6 +204,24 @@ const de = {
   'settings.skills.category.information': 'Information',
   'settings.skills.category.media': 'Medien',
   'settings.skills.category.other': 'Anderes',
+  'settings.skills.version': 'v{version}',
+  'settings.skills.files': '{count} Referenzdatei(en)',
+  'settings.skills.changelog.show': 'Änderungen',
+  'settings.skills.changelog.hide': 'Änderungen ausblenden',
+  'settings.skills.updates.check': 'Nach Skill-Updates suchen',
+  'settings.skills.updates.available': 'Update verfügbar: v{version}',
+  'settings.skills.updates.install': 'Aktualisieren',
+  'settings.skills.updates.upToDate.title': 'Skills aktuell',
+  'settings.skills.updates.upToDate.message': 'Für deine eigenen Skills gibt es keine Updates.',
+  'settings.skills.updates.checkFailed': 'Update-Prüfung fehlgeschlagen',
+  'settings.skills.updates.installFailed': 'Update fehlgeschlagen',
+  'settings.skills.badge.unmet': 'Voraussetzungen fehlen',
+  'settings.skills.unmet.tool': 'Braucht das Tool „{name}“, das nicht verfügbar ist',
+  'settings.skills.unmet.skillMissing': 'Braucht den Skill „{name}“, der nicht installiert ist',
+  'settings.skills.unmet.skillDisabled': 'Braucht den Skill „{name}“ – bitte aktivieren',
+  'settings.skills.unmet.skillUnavailable': 'Braucht den Skill „{name}“, dem selbst Voraussetzungen fehlen',
+  'settings.skills.unmet.appVersion': 'Braucht App-Version {version} oder neuer',
+  'settings.skills.unmet.hint': 'Sanna nutzt diesen Skill erst, wenn alle Voraussetzungen erfüllt sind.',
 
   // Evidence Modal
   'evidence.noDetails': 'Keine Details verfügbar',
@@ -210,7 +271,7 @@ const de = {
   'alert.serviceClientIdChanged.confirm': 'Ändern & trennen',
 
   // Agent-Iterationen
-  'settings.section.agent': 'Agent-Iterationen',
+  'settings.section.agent': 'Agent & Bestätigungen',
   'settings.agent.description': 'Legt fest, wie viele Runden das LLM maximal pro Anfrage durchlaufen darf, bevor es abbricht.',
   'settings.agent.mainLabel': 'Haupt-Agent',
   'settings.agent.mainDesc': 'Conversation Pipeline (Normal- & Fahrmodus)',
@@ -219,15 +280,48 @@ const de = {
   'settings.agent.accessibilityLabel': 'Accessibility Sub-Agent',
   'settings.agent.accessibilityDesc': 'UI-Automatisierung (Apps steuern)',
   'settings.agent.validationError': 'Bitte einen Wert zwischen 6 und 50 eingeben',
+  'settings.agent.confirmation.label': 'Riskante Aktionen bestätigen',
+  'settings.agent.confirmation.desc': 'Nachfragen, bevor Sanna SMS oder E-Mails sendet, anruft, Daten per HTTP ändert oder andere Apps bedient. „In der App“ fragt nur im Gespräch – Zeitpläne und Benachrichtigungsregeln handeln wie eingerichtet. „Immer“ fragt auch bei ihnen, per Benachrichtigung.',
+  'settings.agent.confirmation.app': 'In der App',
+  'settings.agent.confirmation.always': 'Immer',
+  'settings.agent.confirmation.driving': 'Nur im Fahrmodus',
+  'settings.agent.confirmation.never': 'Nie',
+  'settings.agent.confirmation.neverWarning': 'Sanna handelt sofort – Fehler (z. B. ein falscher Empfänger) lassen sich nicht rückgängig machen.',
 
   // Verlauf
   'settings.section.history': 'Verlauf',
   'settings.history.description': 'Konfiguriert LLM-Kontextverlauf und gespeicherten Konversationsverlauf getrennt.',
   'settings.history.llmContextLabel': 'LLM-Kontextverlauf',
-  'settings.history.llmContextDesc': 'Nachrichten im Prompt-Kontext (10–200)',
+  'settings.history.llmContextDesc': 'Nachrichten, bevor ältere Gesprächsrunden zusammengefasst werden (10–200)',
+  'settings.history.tokenBudgetLabel': 'LLM-Kontextbudget',
+  'settings.history.tokenBudgetDesc': 'Geschätzte Tokens, bevor ältere Gesprächsrunden zusammengefasst werden (2k–64k)',
   'settings.history.conversationHistoryLabel': 'Konversationsverlauf',
   'settings.history.conversationHistoryDesc': 'Im Chat gespeicherte/angezeigte Nachrichten (50–200)',
 
+  // Verbrauch & Kosten
+  'settings.section.usage': 'Verbrauch & Kosten',
+  'settings.usage.description': 'Geschätzte LLM-Kosten auf Basis der gemeldeten Token und Listenpreise. Eigene und lokale Modelle zählen als kostenlos.',
+  'settings.usage.today': 'Heute',
+  'settings.usage.month': 'Dieser Monat',
+  'settings.usage.tokens': '{count} Token',
+  'settings.usage.bySource': 'Dieser Monat nach Quelle',
+  'settings.usage.byModel': 'Dieser Monat nach Modell',
+  'settings.usage.source.pipeline': 'Gespräch',
+  'settings.usage.source.schedule': 'Zeitpläne',
+  'settings.usage.source.notification': 'Benachrichtigungsregeln',
+  'settings.usage.source.accessibility': 'App-Steuerung',
+  'settings.usage.source.skillTest': 'Skill-Tests',
+  'settings.usage.budget': 'Budget-Grenzen',
+  'settings.usage.dailyCap': 'Tageslimit',
+  'settings.usage.monthlyCap': 'Monatslimit',
+  'settings.usage.noLimit': 'keins',
+  'settings.usage.budgetHint': 'Ist ein Limit erreicht, startet Sanna keine neuen Agent-Läufe mehr (auch keine Zeitpläne und Benachrichtigungsregeln) – bis zum nächsten Tag bzw. Monat.',
+  'settings.usage.reset.button': 'Verbrauchsstatistik zurücksetzen',
+  'settings.usage.reset.title': 'Verbrauch zurücksetzen?',
+  'settings.usage.reset.message': 'Alle erfassten Token-Verbräuche werden gelöscht. Budget-Grenzen bleiben erhalten.',
+  'settings.usage.reset.cancel': 'Abbrechen',
+  'settings.usage.reset.confirm': 'Zurücksetzen',
+
   // Avatar-Menü
   'menu.settings': 'Einstellungen',
   'menu.debug': 'Debug-Log',
@@ -257,6 +351,15 @@ const de = {
   'schedules.empty': 'Keine Zeitpl\u00E4ne vorhanden.\nErstelle einen Eintrag indem du Sanna z.\u00A0B. sagst: \u201EErinnere mich morgen um 9\u00A0Uhr\u2026\u201C',
   'schedules.detail.label': 'Bezeichnung',
   'schedules.detail.instruction': 'Anweisung',
+  'schedules.detail.goal': 'Ziel',
+  'schedules.steps.count': '{count} Schritte',
+  'schedules.steps.title': 'Schritte ({count})',
+  'schedules.steps.step': 'Schritt {index}',
+  'schedules.steps.condition': 'Nur wenn',
+  'schedules.steps.conditionNone': 'immer',
+  'schedules.steps.retries': 'Wiederholungen',
+  'schedules.steps.add': '+ Schritt',
+  'schedules.steps.addPlaceholder': 'Schritt hinzufügen, z. B. „Dann schick mir die Vorhersage per SMS"',
   'schedules.detail.triggerAt': 'Ausf\u00FChrung',
   'schedules.detail.recurrence': 'Wiederholung',
   'schedules.detail.status': 'Status',
@@ -277,6 +380,20 @@ const de = {
   'schedules.recurrence.interval.hoursMinutes': 'Alle {hours}h {minutes}min',
   'schedules.recurrence.daily': 'T\u00E4glich um {time}',
   'schedules.recurrence.weekly': 'W\u00F6chentlich {days} um {time}',
+  'schedules.recurrence.monthly': 'Monatlich am {rule} um {time}',
+  'schedules.recurrence.yearly': 'J\u00E4hrlich am {rule} im Monat {month} um {time}',
+  'schedules.recurrence.cron': 'Cron: {cron}',
+  'schedules.recurrence.dayOfMonth': '{day}.',
+  'schedules.recurrence.lastDay': 'letzten Tag',
+  'schedules.recurrence.nthWeekday': '{nth}. {weekday}',
+  'schedules.recurrence.lastWeekday': 'letzten {weekday}',
+  'schedules.recurrence.invalid': 'Ung\u00FCltige Wiederholung',
+  'schedules.detail.cron': 'Cron-Ausdruck',
+  'schedules.detail.timezone': 'Zeitzone',
+  'schedules.detail.timezoneDevice': 'Ger\u00E4t ({tz})',
+  'schedules.detail.excludeDates': 'Au\u00DFer am',
+  'schedules.detail.excludeDatesNone': 'JJJJ-MM-TT, …',
+  'schedules.detail.nextRuns': 'N\u00E4chste Ausf\u00FChrungen',
   'schedules.skillDisabled': 'Der "Scheduler" Skill ist deaktiviert. Gehe zu **Einstellungen → Skills**, um ihn zu aktivieren.',
 
   // App-Regeln-Screen (ehemals Notification-Listener)
@@ -286,6 +403,66 @@ const de = {
   'notifListeners.detail.instruction': 'Anweisung',
   'notifListeners.detail.condition': 'Bedingung',
   'notifListeners.detail.conditionAlways': '(immer ausl\u00F6sen)',
+  'notifListeners.detail.autoReply': 'Auto-Antwort',
+  'notifListeners.detail.autoReplyHint': 'Antworten auf die bearbeitete Benachrichtigung werden ohne Nachfrage gesendet \u2013 au\u00DFer \u201ERiskante Aktionen best\u00E4tigen\u201C steht auf \u201EImmer\u201C. Nachrichtentexte schreiben andere, aktiviere das nur f\u00FCr Regeln, denen du vertraust.',
+  'notifListeners.filters.title': 'Filter (vor der KI gepr\u00FCft)',
+  'notifListeners.filters.none': '(beliebig)',
+  'notifListeners.filters.senderEquals': 'Absender ist',
+  'notifListeners.filters.senderContains': 'Absender enth\u00E4lt',
+  'notifListeners.filters.keywords': 'Stichw\u00F6rter',
+  'notifListeners.filters.titleRegex': 'Titel-Regex',
+  'notifListeners.filters.textRegex': 'Text-Regex',
+  'notifListeners.filters.quietHours': 'Ruhezeit',
+  'notifListeners.filters.quietHoursPlaceholder': 'z. B. 22:00-07:00',
+  'notifListeners.filters.rateLimit': 'Limit',
+  'notifListeners.filters.rateLimitPlaceholder': 'max/Minuten pro Absender, z. B. 3/10',
+  'notifListeners.filters.invalid': 'Ung\u00FCltiger Filter',
+  'notifListeners.filters.invalidFormat': 'Bitte das Format aus dem Platzhalter verwenden.',
+  'notifListeners.digest.title': 'Sammelmeldung (zusammenfassen statt einzeln)',
+  'notifListeners.digest.time': 'T\u00E4glich um',
+  'notifListeners.digest.timePlaceholder': 'aus, z. B. 18:00',
+  'notifListeners.digest.onDrivingEnd': 'Nach der Fahrt',
+  'notifListeners.digest.held': 'Gesammelt',
+  'notifListeners.digest.heldCount': '{count} Benachrichtigung(en)',
+  'notifListeners.digest.invalid': 'Ung\u00FCltige Sammelmeldung',
+  'notifListeners.tab.rules': 'Regeln',
+  'notifListeners.tab.history': 'Verlauf',
+  'notifListeners.history.search': 'App, Absender oder Text suchen\u2026',
+  'notifListeners.history.empty': 'Noch keine Benachrichtigungen aufgezeichnet.\nBenachrichtigungen von Apps mit einer Regel erscheinen hier.',
+  'notifListeners.history.noResults': 'Keine Benachrichtigungen passen zur Suche.',
+  'notifListeners.history.loadMore': 'Mehr anzeigen',
+  'notifListeners.history.rule': 'Regel',
+  'notifListeners.history.ruleDeleted': '(gel\u00F6schte Regel)',
+  'notifListeners.history.detail': 'Ergebnis',
+  'notifListeners.history.clear': 'Verlauf l\u00F6schen',
+  'notifListeners.history.clearTitle': 'Verlauf l\u00F6schen?',
+  'notifListeners.history.clearMessage': 'Alle aufgezeichneten Benachrichtigungen werden gel\u00F6scht.',
+  'notifListeners.history.outcome.pending': 'In Bearbeitung',
+  'notifListeners.history.outcome.handled': 'Bearbeitet',
+  'notifListeners.history.outcome.silent': 'Still bearbeitet',
+  'notifListeners.history.outcome.no_match': 'Keine Regel passte',
+  'notifListeners.history.outcome.filtered': 'Herausgefiltert',
+  'notifListeners.history.outcome.held': 'F\u00FCr Zusammenfassung gesammelt',
+  'notifListeners.history.outcome.skipped': 'Nicht verarbeitet',
+  'notifListeners.history.outcome.error': 'Fehler',
+  'notifListeners.tab.test': 'Test',
+  'notifListeners.test.description': 'Pr\u00FCft die Regeln mit einer Beispiel-Benachrichtigung. Aktionen wie Antworten oder Ansagen werden nur simuliert \u2013 nichts wird gesendet.',
+  'notifListeners.test.thisRule': '🧪 Regel testen',
+  'notifListeners.test.rule': 'Regeln',
+  'notifListeners.test.allRules': 'Alle aktiven Regeln',
+  'notifListeners.test.pickRecent': 'Letzte Benachrichtigung verwenden',
+  'notifListeners.test.sender': 'Absender',
+  'notifListeners.test.title': 'Titel (Standard: Absender)',
+  'notifListeners.test.text': 'Nachrichtentext',
+  'notifListeners.test.run': 'Test starten',
+  'notifListeners.test.matchedRule': 'Passende Regel',
+  'notifListeners.test.reason': 'Warum',
+  'notifListeners.test.passed': 'Filter bestanden',
+  'notifListeners.test.dropped': 'Herausgefiltert',
+  'notifListeners.test.toolCalls': 'Tool-Aufrufe',
+  'notifListeners.test.simulated': 'Simuliert',
+  'notifListeners.test.executed': 'Gelesen (ausgef\u00FChrt)',
+  'notifListeners.test.response': 'Antwort',
   'notifListeners.detail.status': 'Status',
   'notifListeners.detail.createdAt': 'Erstellt',
   'notifListeners.status.active': '\u2705 Aktiv',
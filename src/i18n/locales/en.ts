@@ -36,6 +36,7 @@ const en = {
   'home.state.processing': 'Thinking…',
   'home.state.speaking': 'Speaking…',
   'home.state.error': 'Error',
+  'home.state.followUp': "Go on, I'm listening…",
 
   'home.mode.driving': '🚗 Driving',
   'home.mode.normal': '🏠 Normal',
@@ -57,6 +58,12 @@ const en = {
   'home.bubble.assistant': 'Sanna',
   'home.bubble.copied': 'Text copied to clipboard',
 
+  'home.confirmation.title': 'Confirm action',
+  'home.confirmation.allow': 'Allow',
+  'home.confirmation.deny': 'Deny',
+  'confirmation.voice.question': 'Should I do this: {action}? Please say yes or no.',
+  'confirmation.voice.repeat': 'Sorry, I did not understand. Yes or no?',
+
   // ── Settings ─────────────────────────────────────────────────────────────
   'settings.back': '← Back',
   'settings.title': 'Settings',
@@ -89,6 +96,10 @@ const en = {
   'settings.provider.customBaseUrl': 'Base URL',
   'settings.provider.customModel': 'Model Name',
   'settings.provider.customDescription': 'Use your own OpenAI-compatible API endpoint',
+  'settings.provider.localDescription': 'Run fully offline on your own llama.cpp or Ollama server – no API key needed',
+  'settings.provider.localServerUrl': 'Server URL',
+  'settings.provider.localModel': 'Model',
+  'settings.provider.localHint': 'Plain http:// addresses only work in debug builds; use https (e.g. a reverse proxy) for release builds.',
   'settings.provider.manualModelInput': 'Enter model name manually',
   'settings.provider.testConnection': 'Test Connection',
   'settings.provider.testingConnection': 'Testing...',
@@ -98,12 +109,20 @@ const en = {
   'settings.provider.testError.missingFields': 'Please enter both API Key, Base URL, and Model Name before testing.',
   'settings.provider.testSuccess.message': 'The endpoint responded successfully.\n\nResponse: "{response}"',
   'settings.provider.testError.unknown': 'Unknown error occurred.',
+  'settings.provider.fallback': 'Fall back to other providers',
+  'settings.provider.fallbackDesc': 'If the selected provider is overloaded or unreachable, retry and then use the other providers that have an API key configured.',
 
 
   // Wake Word
   'settings.wakeWord.label': "Activate 'Hey Sanna'",
   'settings.wakeWord.description': 'Listens permanently for the wake word',
   'settings.wakeWord.keyLabel': 'Picovoice Access Key',
+  'settings.wakeWord.bargeIn': 'Interrupt by talking',
+  'settings.wakeWord.bargeIn.description': "Driving mode: start talking while Sanna speaks to cut her off – no wake word needed ('Hey Sanna' always works). Best with a headset or car audio; loudspeaker echo can trigger it.",
+  'settings.wakeWord.followUp': 'Follow-up conversation',
+  'settings.wakeWord.followUp.description': "Driving mode: after an answer Sanna keeps listening for this long, so you can reply without the wake word. Say 'thanks, that's all' or stay silent to end the conversation.",
+  'settings.wakeWord.followUp.questionsOnly': 'After questions',
+  'settings.wakeWord.followUp.seconds': '{n} s',
   'wakeWord.greeting': 'Yes?',
 
   // Language / Speech
@@ -119,6 +138,30 @@ const en = {
   'settings.speech.mode.offline.desc': 'On-device only',
   'settings.speech.mode.online': 'Online',
   'settings.speech.mode.online.desc': 'Cloud only',
+  'settings.speech.mode.api': 'Whisper API',
+  'settings.speech.mode.api.desc': 'Transcription server',
+  'settings.speech.api.url': 'Transcription API Base URL',
+  'settings.speech.api.key': 'Transcription API Key',
+  'settings.speech.api.keyPlaceholder': 'sk-... (empty for local servers)',
+  'settings.speech.api.model': 'Transcription Model',
+  'settings.speech.api.hint': 'Any OpenAI-compatible /audio/transcriptions endpoint – OpenAI, Groq or a local whisper server. Better with mixed languages and names. Without a URL or key, the Android recogniser is used.',
+  'settings.speech.tts.engineLabel': 'Voice',
+  'settings.speech.tts.engine.android': 'Android',
+  'settings.speech.tts.engine.http': 'Speech API',
+  'settings.speech.tts.voice': 'Voice',
+  'settings.speech.tts.voice.description': 'Installed Android voices',
+  'settings.speech.tts.voice.auto': 'Automatic',
+  'settings.speech.tts.voice.pickTitle': 'Choose Voice',
+  'settings.speech.tts.voice.online': 'online',
+  'settings.speech.tts.api.url': 'Speech API Base URL',
+  'settings.speech.tts.api.key': 'Speech API Key',
+  'settings.speech.tts.api.model': 'Speech Model',
+  'settings.speech.tts.api.hint': 'Any OpenAI-compatible /audio/speech endpoint – OpenAI or a local server (Piper, Kokoro). A playing podcast pauses while Sanna speaks. Without a URL or key, or when the request fails, the Android voice is used.',
+  'settings.speech.tts.personaVoice': 'The SOUL sets the voice "{voice}" – it wins over this setting.',
+  'settings.speech.tts.rate': 'Speech Rate',
+  'settings.speech.tts.pitch': 'Pitch',
+  'settings.speech.tts.preview': 'Test Voice',
+  'settings.speech.tts.previewText': 'Hello, I am Sanna. This is how I sound.',
 
   // SOUL
   'settings.soul.description': 'Define Sanna\'s personality and tone.',
@@ -162,6 +205,24 @@ const en = {
   'settings.skills.category.information': 'Information',
   'settings.skills.category.media': 'Media',
   'settings.skills.category.other': 'Other',
+  'settings.skills.version': 'v{version}',
+  'settings.skills.files': '{count} reference file(s)',
+  'settings.skills.changelog.show': 'Changelog',
+  'settings.skills.changelog.hide': 'Hide changelog',
+  'settings.skills.updates.check': 'Check for skill updates',
+  'settings.skills.updates.available': 'Update available: v{version}',
+  'settings.skills.updates.install': 'Update',
+  'settings.skills.updates.upToDate.title': 'Skills up to date',
+  'settings.skills.updates.upToDate.message': 'There are no updates for your custom skills.',
+  'settings.skills.updates.checkFailed': 'Update check failed',
+  'settings.skills.updates.installFailed': 'Update failed',
+  'settings.skills.badge.unmet': 'Requirements missing',
+  'settings.skills.unmet.tool': 'Needs the tool "{name}", which is not available',
+  'settings.skills.unmet.skillMissing': 'Needs the skill "{name}", which is not installed',
+  'settings.skills.unmet.skillDisabled': 'Needs the skill "{name}" – enable it',
+  'settings.skills.unmet.skillUnavailable': 'Needs the skill "{name}", whose own requirements are missing',
+  'settings.skills.unmet.appVersion': 'Needs app version {version} or newer',
+  'settings.skills.unmet.hint': 'Sanna does not use this skill until all requirements are met.',
 
   // Evidence Modal
   'evidence.noDetails': 'No details available',
@@ -211,7 +272,7 @@ const en = {
   'alert.serviceClientIdChanged.confirm': 'Change & disconnect',
 
   // Agent Iterations
-  'settings.section.agent': 'Agent Iterations',
+  'settings.section.agent': 'Agent & Confirmations',
   'settings.agent.description': 'Sets how many rounds the LLM may run per request before stopping.',
   'settings.agent.mainLabel': 'Main Agent',
   'settings.agent.mainDesc': 'Conversation Pipeline (Normal & Driving Mode)',
@@ -220,15 +281,48 @@ const en = {
   'settings.agent.accessibilityLabel': 'Accessibility Sub-Agent',
   'settings.agent.accessibilityDesc': 'UI Automation (controlling apps)',
   'settings.agent.validationError': 'Please enter a value between 6 and 50',
+  'settings.agent.confirmation.label': 'Confirm risky actions',
+  'settings.agent.confirmation.desc': 'Ask before Sanna sends SMS or emails, places calls, changes data via HTTP or operates other apps. "In app" asks in conversations only – schedules and notification rules act as set up. "Always" also asks for them, via notification.',
+  'settings.agent.confirmation.app': 'In app',
+  'settings.agent.confirmation.always': 'Always',
+  'settings.agent.confirmation.driving': 'Driving only',
+  'settings.agent.confirmation.never': 'Never',
+  'settings.agent.confirmation.neverWarning': 'Sanna will act immediately – mistakes (e.g. a wrong recipient) cannot be undone.',
 
   // History
   'settings.section.history': 'History',
   'settings.history.description': 'Configure LLM context history and persisted conversation history independently.',
   'settings.history.llmContextLabel': 'LLM Context History',
-  'settings.history.llmContextDesc': 'Messages kept in prompt context (10–200)',
+  'settings.history.llmContextDesc': 'Messages before older turns are summarized (10–200)',
+  'settings.history.tokenBudgetLabel': 'LLM Context Budget',
+  'settings.history.tokenBudgetDesc': 'Estimated tokens before older turns are summarized (2k–64k)',
   'settings.history.conversationHistoryLabel': 'Conversation History',
   'settings.history.conversationHistoryDesc': 'Messages stored/shown in chat history (50–200)',
 
+  // Usage & Costs
+  'settings.section.usage': 'Usage & Costs',
+  'settings.usage.description': 'Estimated LLM spend based on reported token usage and list prices. Custom and local models count as free.',
+  'settings.usage.today': 'Today',
+  'settings.usage.month': 'This month',
+  'settings.usage.tokens': '{count} tokens',
+  'settings.usage.bySource': 'This month by source',
+  'settings.usage.byModel': 'This month by model',
+  'settings.usage.source.pipeline': 'Conversation',
+  'settings.usage.source.schedule': 'Schedules',
+  'settings.usage.source.notification': 'Notification rules',
+  'settings.usage.source.accessibility': 'App automation',
+  'settings.usage.source.skillTest': 'Skill tests',
+  'settings.usage.budget': 'Budget caps',
+  'settings.usage.dailyCap': 'Daily cap',
+  'settings.usage.monthlyCap': 'Monthly cap',
+  'settings.usage.noLimit': 'none',
+  'settings.usage.budgetHint': 'When a cap is reached, Sanna refuses to start new agent runs (including schedules and notification rules) until the next day or month.',
+  'settings.usage.reset.button': 'Reset usage statistics',
+  'settings.usage.reset.title': 'Reset usage?',
+  'settings.usage.reset.message': 'All recorded token usage will be deleted. Budget caps are kept.',
+  'settings.usage.reset.cancel': 'Cancel',
+  'settings.usage.reset.confirm': 'Reset',
+
   // Avatar Menu
   'menu.settings': 'Settings',
   'menu.debug': 'Debug Log',
@@ -258,6 +352,15 @@ const en = {
   'schedules.empty': 'No scheduled tasks found.\nCreate one by telling Sanna e.g. "Remind me tomorrow at 9 am…"',
   'schedules.detail.label': 'Label',
   'schedules.detail.instruction': 'Instruction',
+  'schedules.detail.goal': 'Goal',
+  'schedules.steps.count': '{count} steps',
+  'schedules.steps.title': 'Steps ({count})',
+  'schedules.steps.step': 'Step {index}',
+  'schedules.steps.condition': 'Only if',
+  'schedules.steps.conditionNone': 'always',
+  'schedules.steps.retries': 'Retries',
+  'schedules.steps.add': '+ Step',
+  'schedules.steps.addPlaceholder': 'Add a step, e.g. "Then text me the forecast"',
   'schedules.detail.triggerAt': 'Runs at',
   'schedules.detail.recurrence': 'Recurrence',
   'schedules.detail.status': 'Status',
@@ -278,6 +381,20 @@ const en = {
   'schedules.recurrence.interval.hoursMinutes': 'Every {hours}h {minutes}min',
   'schedules.recurrence.daily': 'Daily at {time}',
   'schedules.recurrence.weekly': 'Weekly {days} at {time}',
+  'schedules.recurrence.monthly': 'Monthly on {rule} at {time}',
+  'schedules.recurrence.yearly': 'Yearly on {rule} of month {month} at {time}',
+  'schedules.recurrence.cron': 'Cron: {cron}',
+  'schedules.recurrence.dayOfMonth': 'day {day}',
+  'schedules.recurrence.lastDay': 'the last day',
+  'schedules.recurrence.nthWeekday': '{nth}. {weekday}',
+  'schedules.recurrence.lastWeekday': 'the last {weekday}',
+  'schedules.recurrence.invalid': 'Invalid recurrence',
+  'schedules.detail.cron': 'Cron expression',
+  'schedules.detail.timezone': 'Timezone',
+  'schedules.detail.timezoneDevice': 'Device ({tz})',
+  'schedules.detail.excludeDates': 'Except on',
+  'schedules.detail.excludeDatesNone': 'YYYY-MM-DD, …',
+  'schedules.detail.nextRuns': 'Next runs',
   'schedules.skillDisabled': 'The "Scheduler" skill is disabled. Go to **Settings → Skills** to enable it.',
 
   // App Rules Screen (formerly Notification Listeners)
@@ -287,6 +404,66 @@ const en = {
   'notifListeners.detail.instruction': 'Instruction',
   'notifListeners.detail.condition': 'Condition',
   'notifListeners.detail.conditionAlways': '(always trigger)',
+  'notifListeners.detail.autoReply': 'Auto-reply',
+  'notifListeners.detail.autoReplyHint': 'Replies to the handled notification are sent without asking – unless "Confirm risky actions" is set to "Always". Message text is written by others, so only enable this for rules you trust.',
+  'notifListeners.filters.title': 'Filters (checked before the AI)',
+  'notifListeners.filters.none': '(any)',
+  'notifListeners.filters.senderEquals': 'Sender is',
+  'notifListeners.filters.senderContains': 'Sender contains',
+  'notifListeners.filters.keywords': 'Keywords',
+  'notifListeners.filters.titleRegex': 'Title regex',
+  'notifListeners.filters.textRegex': 'Text regex',
+  'notifListeners.filters.quietHours': 'Quiet hours',
+  'notifListeners.filters.quietHoursPlaceholder': 'e.g. 22:00-07:00',
+  'notifListeners.filters.rateLimit': 'Rate limit',
+  'notifListeners.filters.rateLimitPlaceholder': 'max/minutes per sender, e.g. 3/10',
+  'notifListeners.filters.invalid': 'Invalid filter',
+  'notifListeners.filters.invalidFormat': 'Please use the format shown in the placeholder.',
+  'notifListeners.digest.title': 'Digest (summarise instead of handling each one)',
+  'notifListeners.digest.time': 'Daily at',
+  'notifListeners.digest.timePlaceholder': 'off, e.g. 18:00',
+  'notifListeners.digest.onDrivingEnd': 'After driving',
+  'notifListeners.digest.held': 'Held',
+  'notifListeners.digest.heldCount': '{count} notification(s)',
+  'notifListeners.digest.invalid': 'Invalid digest',
+  'notifListeners.tab.rules': 'Rules',
+  'notifListeners.tab.history': 'History',
+  'notifListeners.history.search': 'Search app, sender or text…',
+  'notifListeners.history.empty': 'No notifications recorded yet.\nNotifications from apps with a rule appear here.',
+  'notifListeners.history.noResults': 'No notifications match your search.',
+  'notifListeners.history.loadMore': 'Show more',
+  'notifListeners.history.rule': 'Rule',
+  'notifListeners.history.ruleDeleted': '(deleted rule)',
+  'notifListeners.history.detail': 'Result',
+  'notifListeners.history.clear': 'Clear history',
+  'notifListeners.history.clearTitle': 'Clear history?',
+  'notifListeners.history.clearMessage': 'All recorded notifications will be deleted.',
+  'notifListeners.history.outcome.pending': 'In progress',
+  'notifListeners.history.outcome.handled': 'Handled',
+  'notifListeners.history.outcome.silent': 'Handled silently',
+  'notifListeners.history.outcome.no_match': 'No rule matched',
+  'notifListeners.history.outcome.filtered': 'Filtered out',
+  'notifListeners.history.outcome.held': 'Held for digest',
+  'notifListeners.history.outcome.skipped': 'Not processed',
+  'notifListeners.history.outcome.error': 'Error',
+  'notifListeners.tab.test': 'Test',
+  'notifListeners.test.description': 'Runs the rules against a sample notification. Actions such as replies or announcements are only simulated – nothing is sent.',
+  'notifListeners.test.thisRule': '🧪 Test this rule',
+  'notifListeners.test.rule': 'Rules',
+  'notifListeners.test.allRules': 'All active rules',
+  'notifListeners.test.pickRecent': 'Use a recent notification',
+  'notifListeners.test.sender': 'Sender',
+  'notifListeners.test.title': 'Title (default: sender)',
+  'notifListeners.test.text': 'Message text',
+  'notifListeners.test.run': 'Run test',
+  'notifListeners.test.matchedRule': 'Matched rule',
+  'notifListeners.test.reason': 'Why',
+  'notifListeners.test.passed': 'Filters passed',
+  'notifListeners.test.dropped': 'Filtered out',
+  'notifListeners.test.toolCalls': 'Tool calls',
+  'notifListeners.test.simulated': 'Simulated',
+  'notifListeners.test.executed': 'Read (executed)',
+  'notifListeners.test.response': 'Response',
   'notifListeners.detail.status': 'Status',
   'notifListeners.detail.createdAt': 'Created',
   'notifListeners.status.active': '✅ Active',
@@ -7,8 +7,10 @@ import type {
   ToolDefinition,
   LLMResponse,
   LLMOptions,
+  LLMStreamCallbacks,
   ToolCall,
 } from './types';
+import { postSSE } from './sse-stream';
 
 const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
 const DEFAULT_MODEL = 'claude-sonnet-4-6';
@@ -129,6 +131,190 @@ export class ClaudeProvider implements LLMProvider {
     tools: ToolDefinition[],
     options: LLMOptions = {},
   ): Promise<LLMResponse> {
+    const body = this.buildRequestBody(messages, tools, options);
+
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: this.requestHeaders(),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Claude API error ${response.status}: ${extractErrorDetail(errorBody)}`);
+    }
+
+    const data = await response.json() as {
+      content: AnthropicContent[];
+      stop_reason: string;
+      usage: { input_tokens: number; output_tokens: number };
+    };
+
+    // Extract text content and tool calls
+    let textContent = '';
+    const toolCalls: ToolCall[] = [];
+
+    for (const block of data.content) {
+      if (block.type === 'text' && block.text) {
+        textContent += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id ?? `tool-${Date.now()}`,
+          type: 'function',
+          name: block.name ?? '',
+          arguments: (block.input as Record<string, unknown>) ?? {},
+        });
+      }
+    }
+
+    const finishReason =
+      data.stop_reason === 'tool_use'
+        ? 'tool_calls'
+        : data.stop_reason === 'end_turn'
+          ? 'stop'
+          : 'stop';
+
+    return {
+      content: textContent,
+      toolCalls,
+      finishReason,
+      usage: {
+        promptTokens: data.usage.input_tokens,
+        completionTokens: data.usage.output_tokens,
+        totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+      },
+    };
+  }
+
+  /**
+   * Streaming variant of chat() using the Messages API's SSE mode.
+   * Text deltas are forwarded as they arrive; tool_use input JSON is
+   * accumulated per content block and parsed once the block is complete.
+   */
+  async chatStream(
+    messages: Message[],
+    tools: ToolDefinition[],
+    callbacks: LLMStreamCallbacks,
+    options: LLMOptions = {},
+  ): Promise<LLMResponse> {
+    const body = { ...this.buildRequestBody(messages, tools, options), stream: true };
+
+    let textContent = '';
+    let stopReason = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let streamError: string | null = null;
+    const blocks = new Map<number, { id: string; name: string; json: string }>();
+    const toolCalls: ToolCall[] = [];
+
+    const result = await postSSE(
+      ANTHROPIC_API_URL,
+      this.requestHeaders(),
+      JSON.stringify(body),
+      data => {
+        const event = JSON.parse(data) as {
+          type: string;
+          index?: number;
+          message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+          content_block?: AnthropicContent;
+          delta?: {
+            type?: string;
+            text?: string;
+            partial_json?: string;
+            stop_reason?: string;
+          };
+          usage?: { output_tokens?: number };
+          error?: { type?: string; message?: string };
+        };
+
+        switch (event.type) {
+          case 'message_start':
+            inputTokens = event.message?.usage?.input_tokens ?? 0;
+            outputTokens = event.message?.usage?.output_tokens ?? 0;
+            break;
+          case 'content_block_start':
+            if (event.content_block?.type === 'tool_use' && event.index !== undefined) {
+              const id = event.content_block.id ?? `tool-${Date.now()}`;
+              const name = event.content_block.name ?? '';
+              blocks.set(event.index, { id, name, json: '' });
+              callbacks.onToolCallStart?.({ id, name });
+            }
+            break;
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta' && event.delta.text) {
+              textContent += event.delta.text;
+              callbacks.onTextDelta?.(event.delta.text);
+            } else if (event.delta?.type === 'input_json_delta' && event.index !== undefined) {
+              const block = blocks.get(event.index);
+              if (block) { block.json += event.delta.partial_json ?? ''; }
+            }
+            break;
+          case 'content_block_stop': {
+            const block = event.index !== undefined ? blocks.get(event.index) : undefined;
+            if (block) {
+              let input: Record<string, unknown> = {};
+              if (block.json.trim()) {
+                try {
+                  input = JSON.parse(block.json) as Record<string, unknown>;
+                } catch {
+                  throw new Error(
+                    `Invalid JSON in tool call arguments for "${block.name}"\n` +
+                      `Raw arguments: ${block.json}`,
+                  );
+                }
+              }
+              toolCalls.push({ id: block.id, type: 'function', name: block.name, arguments: input });
+            }
+            break;
+          }
+          case 'message_delta':
+            stopReason = event.delta?.stop_reason ?? stopReason;
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+            break;
+          case 'error':
+            streamError = event.error?.type
+              ? `${event.error.type}: ${event.error.message ?? ''}`
+              : event.error?.message ?? 'unknown stream error';
+            break;
+        }
+      },
+    );
+
+    if (result.status < 200 || result.status >= 300) {
+      throw new Error(`Claude API error ${result.status}: ${extractErrorDetail(result.body)}`);
+    }
+    if (streamError) {
+      throw new Error(`Claude API error ${result.status}: ${streamError}`);
+    }
+
+    return {
+      content: textContent,
+      toolCalls,
+      finishReason: stopReason === 'tool_use' ? 'tool_calls' : 'stop',
+      usage: {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  }
+
+  // ── Request helpers ──────────────────────────────────────────────────────
+
+  private requestHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01',
+    };
+  }
+
+  /** Convert messages and tools into an Anthropic Messages API request body */
+  private buildRequestBody(
+    messages: Message[],
+    tools: ToolDefinition[],
+    options: LLMOptions,
+  ): Record<string, unknown> {
     const systemMessage = messages.find(m => m.role === 'system');
     const conversationMessages = messages.filter(m => m.role !== 'system');
 
@@ -198,76 +384,26 @@ export class ClaudeProvider implements LLMProvider {
       body.temperature = options.temperature;
     }
 
-    const response = await fetch(ANTHROPIC_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': this.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      // Try to extract a concise error message from the JSON payload
-      let detail = errorBody;
-      try {
-        const parsed = JSON.parse(errorBody) as {
-          error?: { message?: string; type?: string };
-          type?: string;
-          message?: string;
-        };
-        const msg = parsed.error?.message ?? parsed.message;
-        const type = parsed.error?.type ?? parsed.type;
-        if (msg) {
-          detail = type ? `${type}: ${msg}` : msg;
-        }
-      } catch {
-        // Not JSON – use raw body
-      }
-      throw new Error(`Claude API error ${response.status}: ${detail}`);
-    }
+    return body;
+  }
+}
 
-    const data = await response.json() as {
-      content: AnthropicContent[];
-      stop_reason: string;
-      usage: { input_tokens: number; output_tokens: number };
+/** Extract a concise error message from an Anthropic error payload */
+function extractErrorDetail(errorBody: string): string {
+  let detail = errorBody;
+  try {
+    const parsed = JSON.parse(errorBody) as {
+      error?: { message?: string; type?: string };
+      type?: string;
+      message?: string;
     };
-
-    // Extract text content and tool calls
-    let textContent = '';
-    const toolCalls: ToolCall[] = [];
-
-    for (const block of data.content) {
-      if (block.type === 'text' && block.text) {
-        textContent += block.text;
-      } else if (block.type === 'tool_use') {
-        toolCalls.push({
-          id: block.id ?? `tool-${Date.now()}`,
-          type: 'function',
-          name: block.name ?? '',
-          arguments: (block.input as Record<string, unknown>) ?? {},
-        });
-      }
+    const msg = parsed.error?.message ?? parsed.message;
+    const type = parsed.error?.type ?? parsed.type;
+    if (msg) {
+      detail = type ? `${type}: ${msg}` : msg;
     }
-
-    const finishReason =
-      data.stop_reason === 'tool_use'
-        ? 'tool_calls'
-        : data.stop_reason === 'end_turn'
-          ? 'stop'
-          : 'stop';
-
-    return {
-      content: textContent,
-      toolCalls,
-      finishReason,
-      usage: {
-        promptTokens: data.usage.input_tokens,
-        completionTokens: data.usage.output_tokens,
-        totalTokens: data.usage.input_tokens + data.usage.output_tokens,
-      },
-    };
+  } catch {
+    // Not JSON – use raw body
   }
+  return detail;
 }
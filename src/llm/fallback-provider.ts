@@ -0,0 +1,218 @@
+/**
+ * FallbackProvider – Composite LLMProvider with retry and failover
+ *
+ * Wraps an ordered list of providers (e.g. Claude → OpenAI → custom).
+ * Each request goes to the first provider; retryable failures (HTTP 429,
+ * 5xx, 529 "overloaded", network errors) are retried with exponential
+ * backoff before falling over to the next provider in the chain.
+ * Non-retryable errors (e.g. 400 invalid request, 401 bad key) skip the
+ * retries but still fall over, since another backend may accept the request.
+ *
+ * Conversation history is kept in the provider-neutral Message format, so
+ * each provider re-encodes it. Only tool-call IDs need translating: they are
+ * generated by whichever backend answered earlier and must satisfy the
+ * target API's ID rules.
+ */
+import type {
+  LLMProvider,
+  LLMOptions,
+  LLMResponse,
+  LLMStreamCallbacks,
+  Message,
+  ToolDefinition,
+} from './types';
+import { DebugLogger } from '../agent/debug-logger';
+
+const TAG = 'LLM-Fallback';
+
+/** HTTP statuses that indicate a transient failure worth retrying */
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+/** Anthropic requires tool_use IDs matching this pattern; OpenAI caps IDs at 40 chars */
+const TOOL_CALL_ID_PATTERN = /^[a-zA-Z0-9_-]{1,40}$/;
+
+export interface FallbackEntry {
+  /** Human-readable backend label for logs, e.g. "claude/claude-sonnet-4-6" */
+  label: string;
+  provider: LLMProvider;
+}
+
+export interface FallbackOptions {
+  /** Retries per provider for retryable errors (default: 2) */
+  maxRetries?: number;
+  /** Initial backoff delay in ms, doubled after every retry (default: 1000) */
+  baseDelayMs?: number;
+}
+
+/**
+ * Extract the HTTP status from provider errors such as
+ * "Claude API error 529: overloaded_error: Overloaded".
+ */
+export function getErrorStatus(err: unknown): number | undefined {
+  const message = err instanceof Error ? err.message : String(err);
+  const match = message.match(/API error (\d{3})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/** Whether an error is transient (rate limit, overload, server or network error) */
+export function isRetryableError(err: unknown): boolean {
+  const status = getErrorStatus(err);
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status);
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return /network request failed|timed out|timeout|ECONNRESET|socket/i.test(message);
+}
+
+/**
+ * Rewrite tool-call IDs that the target API would reject. IDs are mapped
+ * consistently so tool results still reference their assistant tool call.
+ */
+export function normalizeToolCallIds(messages: Message[]): Message[] {
+  const mapping = new Map<string, string>();
+  const mapId = (id: string): string => {
+    if (TOOL_CALL_ID_PATTERN.test(id)) { return id; }
+    let mapped = mapping.get(id);
+    if (!mapped) {
+      mapped = `call_${mapping.size}_${id.replace(/[^a-zA-Z0-9_-]/g, '').slice(0, 24)}`;
+      mapping.set(id, mapped);
+    }
+    return mapped;
+  };
+
+  return messages.map(msg => {
+    if (msg.toolCalls && msg.toolCalls.length > 0) {
+      return {
+        ...msg,
+        toolCalls: msg.toolCalls.map(tc => ({ ...tc, id: mapId(tc.id) })),
+      };
+    }
+    if (msg.role === 'tool' && msg.toolCallId) {
+      return { ...msg, toolCallId: mapId(msg.toolCallId) };
+    }
+    return msg;
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class FallbackProvider implements LLMProvider {
+  private entries: FallbackEntry[];
+  private maxRetries: number;
+  private baseDelayMs: number;
+  /** Index of the provider that answered the most recent request */
+  private lastUsed = 0;
+
+  constructor(entries: FallbackEntry[], options: FallbackOptions = {}) {
+    if (entries.length === 0) {
+      throw new Error('FallbackProvider requires at least one provider');
+    }
+    this.entries = entries;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+  }
+
+  /** Model of the primary provider (or the one that answered last) */
+  getCurrentModel(): string {
+    return this.entries[this.lastUsed].provider.getCurrentModel();
+  }
+
+  /** Tests the primary provider – fallbacks are tested via their own settings */
+  async testConnection(): Promise<{
+    success: boolean;
+    error?: string;
+    response?: string;
+  }> {
+    return this.entries[0].provider.testConnection();
+  }
+
+  async chat(
+    messages: Message[],
+    tools: ToolDefinition[],
+    options?: LLMOptions,
+  ): Promise<LLMResponse> {
+    return this.run(entry => entry.provider.chat(normalizeToolCallIds(messages), tools, options));
+  }
+
+  async chatStream(
+    messages: Message[],
+    tools: ToolDefinition[],
+    callbacks: LLMStreamCallbacks,
+    options?: LLMOptions,
+  ): Promise<LLMResponse> {
+    // Once text has been emitted to the caller, switching backends would
+    // produce a second, different answer – so failover is only possible
+    // while nothing has been streamed yet.
+    let emitted = false;
+    const guarded: LLMStreamCallbacks = {
+      onTextDelta: delta => {
+        emitted = true;
+        callbacks.onTextDelta?.(delta);
+      },
+      onToolCallStart: callbacks.onToolCallStart,
+    };
+
+    return this.run(
+      entry => {
+        const normalized = normalizeToolCallIds(messages);
+        return entry.provider.chatStream
+          ? entry.provider.chatStream(normalized, tools, guarded, options)
+          : entry.provider.chat(normalized, tools, options);
+      },
+      () => !emitted,
+    );
+  }
+
+  private async run(
+    attempt: (entry: FallbackEntry) => Promise<LLMResponse>,
+    canRetry: () => boolean = () => true,
+  ): Promise<LLMResponse> {
+    const failures: string[] = [];
+
+    for (let i = 0; i < this.entries.length; i++) {
+      const entry = this.entries[i];
+
+      for (let retry = 0; retry <= this.maxRetries; retry++) {
+        try {
+          const response = await attempt(entry);
+          this.lastUsed = i;
+          if (i > 0 || retry > 0) {
+            DebugLogger.add(
+              'llm',
+              TAG,
+              `Answered by ${entry.label}` + (retry > 0 ? ` after ${retry} retr${retry === 1 ? 'y' : 'ies'}` : ''),
+              failures.join('\n'),
+            );
+          } else {
+            DebugLogger.add('llm', TAG, `Answered by ${entry.label}`);
+          }
+          return response;
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          failures.push(`${entry.label}: ${message}`);
+
+          if (!canRetry()) {
+            throw err;
+          }
+          if (!isRetryableError(err) || retry === this.maxRetries) {
+            DebugLogger.add('error', TAG, `${entry.label} failed: ${message.slice(0, 120)}`, message);
+            break;
+          }
+
+          const delay = this.baseDelayMs * 2 ** retry;
+          DebugLogger.add(
+            'llm',
+            TAG,
+            `${entry.label} failed (retryable), retry ${retry + 1}/${this.maxRetries} in ${delay} ms`,
+            message,
+          );
+          await sleep(delay);
+        }
+      }
+    }
+
+    throw new Error(`All LLM providers failed:\n${failures.join('\n')}`);
+  }
+}
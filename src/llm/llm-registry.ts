@@ -8,16 +8,29 @@
 import type { LLMProvider } from './types';
 import { ClaudeProvider } from './claude-provider';
 import { OpenAIProvider } from './openai-provider';
+import { FallbackProvider } from './fallback-provider';
+import { LocalProvider } from './local-provider';
 
-export type ProviderType = 'claude' | 'openai' | 'custom';
+export type ProviderType = 'claude' | 'openai' | 'custom' | 'local';
 
-export interface CreateProviderOptions {
+/** A single backend: provider type, credentials and model */
+export interface ProviderEndpoint {
   provider: ProviderType;
   apiKey: string;
   model: string;
+  /** Server URL for 'custom' and 'local' providers */
   customBaseUrl?: string;
 }
 
+export interface CreateProviderOptions extends ProviderEndpoint {
+  /**
+   * Optional ordered list of backends to fall over to when the primary one
+   * keeps failing (overloaded, rate-limited, network errors, …).
+   * When non-empty, a FallbackProvider wrapping the whole chain is returned.
+   */
+  fallbacks?: ProviderEndpoint[];
+}
+
 /**
  * Create an LLM provider based on the specified configuration.
  * 
@@ -25,6 +38,20 @@ export interface CreateProviderOptions {
  * @returns An instance of the appropriate LLM provider
  */
 export function createLLMProvider(options: CreateProviderOptions): LLMProvider {
+  const fallbacks = options.fallbacks ?? [];
+  if (fallbacks.length === 0) {
+    return createSingleProvider(options);
+  }
+  const chain = [options, ...fallbacks];
+  return new FallbackProvider(
+    chain.map(endpoint => ({
+      label: `${endpoint.provider}/${endpoint.model || 'default'}`,
+      provider: createSingleProvider(endpoint),
+    })),
+  );
+}
+
+function createSingleProvider(options: ProviderEndpoint): LLMProvider {
   const { provider, apiKey, model, customBaseUrl } = options;
 
   switch (provider) {
@@ -36,7 +63,13 @@ export function createLLMProvider(options: CreateProviderOptions): LLMProvider {
         throw new Error('customBaseUrl is required for custom provider');
       }
       return new OpenAIProvider(apiKey, model, customBaseUrl);
-    
+
+    case 'local':
+      if (!customBaseUrl) {
+        throw new Error('customBaseUrl is required for local provider');
+      }
+      return new LocalProvider(customBaseUrl, model, apiKey);
+
     case 'openai':
     default:
       return new OpenAIProvider(apiKey, model);
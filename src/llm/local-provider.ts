@@ -0,0 +1,537 @@
+/**
+ * Local Provider – llama.cpp / Ollama servers via their OpenAI-compatible API
+ *
+ * Differences to the plain OpenAI provider:
+ *   - The base URL may be given as server root, `/v1` or full
+ *     `/v1/chat/completions` URL; all endpoints are derived from the root.
+ *   - No API key required.
+ *   - Capabilities are probed once (llama.cpp `/props`, Ollama `/api/show`):
+ *     native tool-calling support and the context window size.
+ *   - Servers/models without native tool calls get the tools described in
+ *     the system prompt and answer with a JSON object instead
+ *     ("JSON-in-text" protocol). If the probe is inconclusive, native tools
+ *     are tried first and the provider switches protocol on the first
+ *     "tools not supported" error.
+ *   - Tool definitions are compacted (and, if needed, dropped) so they use
+ *     at most a fixed share of small context windows.
+ */
+import type {
+  LLMProvider,
+  LLMOptions,
+  LLMResponse,
+  LLMStreamCallbacks,
+  Message,
+  ToolCall,
+  ToolDefinition,
+} from './types';
+import { OpenAIProvider } from './openai-provider';
+import { DebugLogger } from '../agent/debug-logger';
+
+const TAG = 'LLM-Local';
+
+/** Timeout for capability probes – a missing endpoint must not stall the first turn */
+const PROBE_TIMEOUT_MS = 4000;
+
+/** Ollama's num_ctx when the model file does not set one */
+const OLLAMA_DEFAULT_NUM_CTX = 4096;
+
+/** Share of the context window the tool definitions may use */
+const TOOL_BUDGET_SHARE = 0.3;
+
+/** Share of the context window reserved for the completion */
+const COMPLETION_SHARE = 0.25;
+
+/** Server error messages that mean "this model/server cannot do native tool calls" */
+const TOOLS_UNSUPPORTED_PATTERN =
+  /does not support tools|tools? (?:is |are )?not supported|requires --jinja|tool[_ ]?call\w* (?:is |are )?not supported/i;
+
+export interface LocalCapabilities {
+  /** Native OpenAI-style tool calls; undefined = unknown (try native first) */
+  nativeTools?: boolean;
+  /** Context window in tokens; undefined = unknown (no trimming) */
+  contextWindow?: number;
+  /** Which server answered the probe */
+  server?: 'llama.cpp' | 'ollama';
+}
+
+// ── URL helpers ──────────────────────────────────────────────────────────────
+
+/**
+ * Reduce any of "http://host:11434", "http://host:11434/v1" or
+ * "http://host:8080/v1/chat/completions" to the server root.
+ */
+export function normalizeLocalBaseUrl(url: string): string {
+  return url
+    .trim()
+    .replace(/\/+$/, '')
+    .replace(/\/chat\/completions$/, '')
+    .replace(/\/v1$/, '');
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ── Tool definition trimming ─────────────────────────────────────────────────
+
+function estimateJsonTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+/** First sentence of a description, capped at 160 characters */
+function shortDescription(description: string): string {
+  const firstLine = description.split('\n')[0];
+  const firstSentence = firstLine.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? firstLine;
+  return firstSentence.length > 160 ? `${firstSentence.slice(0, 157)}...` : firstSentence;
+}
+
+/** Remove `description` fields from a JSON schema (types, enums and required are kept) */
+function stripSchemaDescriptions(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(stripSchemaDescriptions);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    if (key === 'description' && typeof value === 'string') continue;
+    // Inside "properties" the keys are parameter names, not schema keywords
+    result[key] = key === 'properties' && value && typeof value === 'object'
+      ? Object.fromEntries(
+          Object.entries(value as Record<string, unknown>).map(([name, prop]) => [
+            name,
+            stripSchemaDescriptions(prop),
+          ]),
+        )
+      : stripSchemaDescriptions(value);
+  }
+  return result;
+}
+
+/**
+ * Fit tool definitions into `budgetTokens`:
+ *   1. compact every definition (short description, no parameter descriptions)
+ *   2. if still too large, keep tools already used in the conversation first,
+ *      then the remaining ones in registry order, until the budget is full
+ */
+export function trimToolDefinitions(
+  tools: ToolDefinition[],
+  budgetTokens: number,
+  messages: Message[] = [],
+): ToolDefinition[] {
+  if (estimateJsonTokens(tools) <= budgetTokens) {
+    return tools;
+  }
+
+  const compact: ToolDefinition[] = tools.map(tool => ({
+    ...tool,
+    function: {
+      ...tool.function,
+      description: shortDescription(tool.function.description),
+      parameters: stripSchemaDescriptions(tool.function.parameters) as Record<string, unknown>,
+    },
+  }));
+  if (estimateJsonTokens(compact) <= budgetTokens) {
+    return compact;
+  }
+
+  const used = new Set(
+    messages.flatMap(m => (m.toolCalls ?? []).map(tc => tc.name)),
+  );
+  const prioritized = [
+    ...compact.filter(t => used.has(t.function.name)),
+    ...compact.filter(t => !used.has(t.function.name)),
+  ];
+
+  const kept = new Set<string>();
+  let tokens = 0;
+  for (const tool of prioritized) {
+    const cost = estimateJsonTokens(tool);
+    if (tokens + cost > budgetTokens) continue;
+    tokens += cost;
+    kept.add(tool.function.name);
+  }
+
+  const dropped = compact.filter(t => !kept.has(t.function.name)).map(t => t.function.name);
+  DebugLogger.add(
+    'llm',
+    TAG,
+    `Context too small for all tools – dropped ${dropped.length}`,
+    dropped.join(', '),
+  );
+  // Preserve registry order in the request
+  return compact.filter(t => kept.has(t.function.name));
+}
+
+// ── JSON-in-text tool protocol ───────────────────────────────────────────────
+
+function buildToolInstructions(tools: ToolDefinition[]): string {
+  const toolList = tools
+    .map(
+      t =>
+        `- ${t.function.name}: ${t.function.description}\n  parameters: ${JSON.stringify(t.function.parameters)}`,
+    )
+    .join('\n');
+
+  return `## Tool calls
+To use a tool, reply with ONLY a JSON object and nothing else:
+{"tool_calls": [{"name": "<tool name>", "arguments": {<arguments>}}]}
+Several tools may be called at once. Tool results arrive in the next message, starting with "[Tool result". Once you have everything you need, answer the user in plain text (no JSON).
+
+Available tools:
+${toolList}`;
+}
+
+/**
+ * Re-encode a conversation for servers without native tool calls:
+ * tool descriptions go into the system prompt, assistant tool calls become
+ * JSON text and tool results become user messages. Consecutive user messages
+ * are merged, since many chat templates require alternating roles.
+ */
+export function toTextToolMessages(messages: Message[], tools: ToolDefinition[]): Message[] {
+  const toolNames = new Map<string, string>();
+  const result: Message[] = [];
+
+  const push = (msg: Message) => {
+    const prev = result[result.length - 1];
+    if (prev && prev.role === 'user' && msg.role === 'user') {
+      prev.content = `${prev.content}\n\n${msg.content}`;
+    } else {
+      result.push(msg);
+    }
+  };
+
+  for (const msg of messages) {
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      msg.toolCalls.forEach(tc => toolNames.set(tc.id, tc.name));
+      const json = JSON.stringify({
+        tool_calls: msg.toolCalls.map(tc => ({ name: tc.name, arguments: tc.arguments })),
+      });
+      push({ role: 'assistant', content: msg.content ? `${msg.content}\n${json}` : json });
+    } else if (msg.role === 'tool') {
+      const name = (msg.toolCallId && toolNames.get(msg.toolCallId)) || 'tool';
+      push({ role: 'user', content: `[Tool result: ${name}]\n${msg.content}` });
+    } else {
+      push({ role: msg.role, content: msg.content });
+    }
+  }
+
+  if (tools.length > 0) {
+    const instructions = buildToolInstructions(tools);
+    if (result[0]?.role === 'system') {
+      result[0] = { role: 'system', content: `${result[0].content}\n\n${instructions}` };
+    } else {
+      result.unshift({ role: 'system', content: instructions });
+    }
+  }
+  return result;
+}
+
+/**
+ * Extract tool calls from a JSON-in-text reply. Accepts the documented
+ * {"tool_calls": [...]} shape as well as a bare call object or array, with
+ * or without a ```json fence. Returns null if the reply is plain text.
+ */
+export function parseTextToolCalls(
+  text: string,
+): { toolCalls: ToolCall[]; content: string } | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.search(/[{[]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const rawCalls: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' && Array.isArray((parsed as { tool_calls?: unknown }).tool_calls)
+    ? (parsed as { tool_calls: unknown[] }).tool_calls
+    : [parsed];
+
+  const stamp = Date.now();
+  const toolCalls: ToolCall[] = [];
+  for (const raw of rawCalls) {
+    if (!raw || typeof raw !== 'object') continue;
+    const call = raw as { name?: unknown; arguments?: unknown; function?: { name?: unknown; arguments?: unknown } };
+    const name = call.name ?? call.function?.name;
+    let args = call.arguments ?? call.function?.arguments ?? {};
+    if (typeof name !== 'string' || !name) continue;
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args);
+      } catch {
+        args = {};
+      }
+    }
+    toolCalls.push({
+      id: `call_${stamp}_${toolCalls.length}`,
+      type: 'function',
+      name,
+      arguments: args && typeof args === 'object' ? (args as Record<string, unknown>) : {},
+    });
+  }
+  if (toolCalls.length === 0) {
+    return null;
+  }
+
+  const outside = fenced
+    ? text.replace(fenced[0], '')
+    : candidate.slice(0, start) + candidate.slice(end + 1);
+  return { toolCalls, content: outside.trim() };
+}
+
+// ── LocalProvider ────────────────────────────────────────────────────────────
+
+export class LocalProvider implements LLMProvider {
+  private rootUrl: string;
+  private model: string;
+  private apiKey: string;
+  private openai: OpenAIProvider;
+  private capabilities: LocalCapabilities = {};
+  private probePromise: Promise<LocalCapabilities> | null = null;
+
+  constructor(baseUrl: string, model: string, apiKey = '') {
+    this.rootUrl = normalizeLocalBaseUrl(baseUrl);
+    this.model = model;
+    this.apiKey = apiKey;
+    this.openai = new OpenAIProvider(apiKey, model, `${this.rootUrl}/v1/chat/completions`, 'Local LLM');
+  }
+
+  getCurrentModel(): string {
+    return this.model;
+  }
+
+  async testConnection(): Promise<{
+    success: boolean;
+    error?: string;
+    response?: string;
+  }> {
+    const result = await this.openai.testConnection();
+    if (!result.success) {
+      return result;
+    }
+    const caps = await this.probe();
+    const details = [
+      caps.server,
+      caps.nativeTools === false ? 'tools: JSON-in-text' : caps.nativeTools ? 'tools: native' : undefined,
+      caps.contextWindow ? `context: ${caps.contextWindow}` : undefined,
+    ].filter(Boolean);
+    return {
+      ...result,
+      response: details.length > 0 ? `${result.response} (${details.join(', ')})` : result.response,
+    };
+  }
+
+  async chat(
+    messages: Message[],
+    tools: ToolDefinition[],
+    options: LLMOptions = {},
+  ): Promise<LLMResponse> {
+    const caps = await this.probe();
+    const fitted = this.fitTools(tools, messages, caps);
+    const fittedOptions = this.fitOptions(options, caps);
+
+    if (fitted.length > 0 && caps.nativeTools !== false) {
+      try {
+        return await this.openai.chat(messages, fitted, fittedOptions);
+      } catch (err) {
+        if (!this.switchToTextTools(err)) throw err;
+      }
+    }
+    if (fitted.length === 0) {
+      return this.openai.chat(messages, [], fittedOptions);
+    }
+
+    const response = await this.openai.chat(toTextToolMessages(messages, fitted), [], fittedOptions);
+    return this.parseTextResponse(response);
+  }
+
+  async chatStream(
+    messages: Message[],
+    tools: ToolDefinition[],
+    callbacks: LLMStreamCallbacks,
+    options: LLMOptions = {},
+  ): Promise<LLMResponse> {
+    const caps = await this.probe();
+    const fitted = this.fitTools(tools, messages, caps);
+    const fittedOptions = this.fitOptions(options, caps);
+
+    if (fitted.length > 0 && caps.nativeTools !== false) {
+      try {
+        return await this.openai.chatStream(messages, fitted, callbacks, fittedOptions);
+      } catch (err) {
+        if (!this.switchToTextTools(err)) throw err;
+      }
+    }
+    if (fitted.length === 0) {
+      return this.openai.chatStream(messages, [], callbacks, fittedOptions);
+    }
+
+    // A JSON tool-call reply must not be shown or spoken: hold deltas back
+    // until the first non-whitespace character tells whether this is JSON.
+    let mode: 'text' | 'json' | null = null;
+    let pending = '';
+    const guarded: LLMStreamCallbacks = {
+      onTextDelta: delta => {
+        if (mode === 'text') {
+          callbacks.onTextDelta?.(delta);
+          return;
+        }
+        if (mode === 'json') return;
+        pending += delta;
+        const head = pending.trimStart();
+        if (!head) return;
+        if (/^[{[`]/.test(head)) {
+          mode = 'json';
+          return;
+        }
+        mode = 'text';
+        callbacks.onTextDelta?.(pending);
+      },
+    };
+
+    const response = await this.openai.chatStream(
+      toTextToolMessages(messages, fitted),
+      [],
+      guarded,
+      fittedOptions,
+    );
+    return this.parseTextResponse(response);
+  }
+
+  // ── Capabilities ───────────────────────────────────────────────────────────
+
+  /** Probe the server once; failures leave the capabilities unknown */
+  private probe(): Promise<LocalCapabilities> {
+    if (!this.probePromise) {
+      this.probePromise = this.detectCapabilities()
+        .catch(() => ({} as LocalCapabilities))
+        .then(detected => {
+          // Keep what was learned from errors in the meantime
+          this.capabilities = { ...detected, ...this.capabilities };
+          DebugLogger.add(
+            'llm',
+            TAG,
+            `Capabilities of ${this.rootUrl}: ${JSON.stringify(this.capabilities)}`,
+          );
+          return this.capabilities;
+        });
+    }
+    return this.probePromise.then(() => this.capabilities);
+  }
+
+  private async detectCapabilities(): Promise<LocalCapabilities> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    // llama.cpp server
+    try {
+      const res = await fetchWithTimeout(`${this.rootUrl}/props`, { method: 'GET', headers }, PROBE_TIMEOUT_MS);
+      if (res.ok) {
+        const props = (await res.json()) as {
+          n_ctx?: number;
+          default_generation_settings?: { n_ctx?: number };
+          chat_template_caps?: { supports_tools?: boolean; supports_tool_calls?: boolean };
+        };
+        const caps = props.chat_template_caps;
+        return {
+          server: 'llama.cpp',
+          contextWindow: props.default_generation_settings?.n_ctx ?? props.n_ctx,
+          nativeTools: caps ? Boolean(caps.supports_tool_calls ?? caps.supports_tools) : undefined,
+        };
+      }
+    } catch {
+      // Not llama.cpp (or unreachable) – try Ollama
+    }
+
+    // Ollama
+    try {
+      const res = await fetchWithTimeout(
+        `${this.rootUrl}/api/show`,
+        { method: 'POST', headers, body: JSON.stringify({ model: this.model }) },
+        PROBE_TIMEOUT_MS,
+      );
+      if (res.ok) {
+        const info = (await res.json()) as {
+          capabilities?: string[];
+          parameters?: string;
+          model_info?: Record<string, unknown>;
+        };
+        const numCtx = info.parameters?.match(/num_ctx\s+(\d+)/);
+        const trainedCtx = Object.entries(info.model_info ?? {}).find(([key]) =>
+          key.endsWith('.context_length'),
+        )?.[1];
+        const runtimeCtx = numCtx ? Number(numCtx[1]) : OLLAMA_DEFAULT_NUM_CTX;
+        return {
+          server: 'ollama',
+          contextWindow: typeof trainedCtx === 'number' ? Math.min(runtimeCtx, trainedCtx) : runtimeCtx,
+          nativeTools: info.capabilities ? info.capabilities.includes('tools') : undefined,
+        };
+      }
+    } catch {
+      // Unknown server – capabilities stay unknown
+    }
+
+    return {};
+  }
+
+  /** Remember that native tools failed; returns false for unrelated errors */
+  private switchToTextTools(err: unknown): boolean {
+    const message = err instanceof Error ? err.message : String(err);
+    if (!TOOLS_UNSUPPORTED_PATTERN.test(message)) {
+      return false;
+    }
+    this.capabilities.nativeTools = false;
+    DebugLogger.add('llm', TAG, 'No native tool support – switching to JSON-in-text tool calls', message);
+    return true;
+  }
+
+  private fitTools(tools: ToolDefinition[], messages: Message[], caps: LocalCapabilities): ToolDefinition[] {
+    if (tools.length === 0 || !caps.contextWindow) {
+      return tools;
+    }
+    return trimToolDefinitions(tools, Math.floor(caps.contextWindow * TOOL_BUDGET_SHARE), messages);
+  }
+
+  private fitOptions(options: LLMOptions, caps: LocalCapabilities): LLMOptions {
+    if (!caps.contextWindow) {
+      return options;
+    }
+    const cap = Math.floor(caps.contextWindow * COMPLETION_SHARE);
+    return { ...options, maxTokens: Math.min(options.maxTokens ?? cap, cap) };
+  }
+
+  private parseTextResponse(response: LLMResponse): LLMResponse {
+    const parsed = parseTextToolCalls(response.content);
+    if (!parsed) {
+      return response;
+    }
+    return {
+      ...response,
+      content: parsed.content,
+      toolCalls: parsed.toolCalls,
+      finishReason: 'tool_calls',
+    };
+  }
+}
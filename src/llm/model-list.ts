@@ -2,6 +2,8 @@
  * Model List Fetching – Dynamically fetch available models from LLM providers
  */
 
+import { normalizeLocalBaseUrl } from './local-provider';
+
 const OPENAI_MODELS_URL = 'https://api.openai.com/v1/models';
 const ANTHROPIC_MODELS_URL = 'https://api.anthropic.com/v1/models';
 
@@ -119,3 +121,46 @@ export async function fetchCustomModels(
     return [];
   }
 }
+
+/**
+ * Fetch installed models from a local llama.cpp / Ollama server.
+ * Tries the OpenAI-compatible `/v1/models` first, then Ollama's `/api/tags`.
+ * No API key required. Returns empty array on error.
+ */
+export async function fetchLocalModels(
+  apiKey: string,
+  baseUrl: string,
+): Promise<string[]> {
+  if (!baseUrl || baseUrl.trim() === '') {
+    return [];
+  }
+
+  const root = normalizeLocalBaseUrl(baseUrl);
+  const headers: Record<string, string> = apiKey
+    ? { Authorization: `Bearer ${apiKey}` }
+    : {};
+
+  try {
+    const response = await fetch(`${root}/v1/models`, { method: 'GET', headers });
+    if (response.ok) {
+      const data = (await response.json()) as { data?: Array<{ id: string }> };
+      const models = (data.data ?? []).map(model => model.id).sort();
+      if (models.length > 0) {
+        return models;
+      }
+    }
+  } catch {
+    // Fall through to the Ollama endpoint
+  }
+
+  try {
+    const response = await fetch(`${root}/api/tags`, { method: 'GET', headers });
+    if (!response.ok) {
+      return [];
+    }
+    const data = (await response.json()) as { models?: Array<{ name: string }> };
+    return (data.models ?? []).map(model => model.name).sort();
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Model Pricing – Price table for LLM token cost estimation
+ *
+ * Prices are list prices in USD per 1 million tokens. Entries are matched
+ * by model-name prefix (longest prefix wins), so dated snapshots such as
+ * "claude-sonnet-4-5-20250929" resolve to their family entry.
+ * Unknown models (custom / local endpoints) are treated as free.
+ */
+
+export interface ModelPrice {
+  /** USD per 1M prompt (input) tokens */
+  input: number;
+  /** USD per 1M completion (output) tokens */
+  output: number;
+}
+
+const PRICE_TABLE: Record<string, ModelPrice> = {
+  // Anthropic
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4-6': { input: 5, output: 25 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  // OpenAI
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o3-pro': { input: 20, output: 80 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+};
+
+/** Look up the price for a model, or undefined if the model is unknown */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const normalized = model.toLowerCase();
+  let best: string | undefined;
+  for (const prefix of Object.keys(PRICE_TABLE)) {
+    if (normalized.startsWith(prefix) && (!best || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  return best ? PRICE_TABLE[best] : undefined;
+}
+
+/** Estimated cost in USD for the given token counts (0 for unknown models) */
+export function estimateCostUsd(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+): number {
+  const price = getModelPrice(model);
+  if (!price) {
+    return 0;
+  }
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
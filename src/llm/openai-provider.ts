@@ -7,8 +7,10 @@ import type {
   ToolDefinition,
   LLMResponse,
   LLMOptions,
+  LLMStreamCallbacks,
   ToolCall,
 } from './types';
+import { postSSE } from './sse-stream';
 
 const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
 const DEFAULT_MODEL = 'gpt-5.2';
@@ -18,15 +20,19 @@ export class OpenAIProvider implements LLMProvider {
   private apiKey: string;
   private defaultModel: string;
   private baseUrl: string;
+  /** Prefix for error messages, e.g. "OpenAI" → "OpenAI API error 429: …" */
+  private apiLabel: string;
 
   constructor(
     apiKey: string,
     defaultModel: string = DEFAULT_MODEL,
     baseUrl: string = OPENAI_API_URL,
+    apiLabel = 'OpenAI',
   ) {
     this.apiKey = apiKey;
     this.defaultModel = defaultModel;
     this.baseUrl = baseUrl;
+    this.apiLabel = apiLabel;
   }
 
   getCurrentModel(): string {
@@ -42,10 +48,7 @@ export class OpenAIProvider implements LLMProvider {
     try {
       const response = await fetch(this.baseUrl, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-        },
+        headers: this.requestHeaders(),
         body: JSON.stringify({
           model: this.defaultModel,
           messages: [{ role: 'user', content: 'test' }],
@@ -104,88 +107,17 @@ export class OpenAIProvider implements LLMProvider {
     tools: ToolDefinition[],
     options: LLMOptions = {},
   ): Promise<LLMResponse> {
-    // OpenAI uses the same role structure, just map tool messages correctly
-    const openAIMessages = messages.map(msg => {
-      if (msg.role === 'tool') {
-        return {
-          role: 'tool' as const,
-          content: msg.content,
-          tool_call_id: msg.toolCallId ?? '',
-        };
-      }
-      if (
-        msg.role === 'assistant' &&
-        msg.toolCalls &&
-        msg.toolCalls.length > 0
-      ) {
-        return {
-          role: 'assistant' as const,
-          content: msg.content || null,
-          tool_calls: msg.toolCalls.map(tc => ({
-            id: tc.id,
-            type: 'function' as const,
-            function: {
-              name: tc.name,
-              arguments: JSON.stringify(tc.arguments),
-            },
-          })),
-        };
-      }
-      return {
-        role: msg.role as 'system' | 'user' | 'assistant',
-        content: msg.content,
-      };
-    });
-
-    const resolvedModel = this.defaultModel;
-
-    // Newer OpenAI models (gpt-4.1+, gpt-5+, o-series) require
-    // 'max_completion_tokens' instead of the legacy 'max_tokens' parameter.
-    const useNewTokenParam = /^(gpt-4\.[1-9]|gpt-[5-9]|o[1-9])/.test(
-      this.defaultModel,
-    );
-    const tokenLimit = options.maxTokens ?? DEFAULT_MAX_TOKENS;
-
-    const body: Record<string, unknown> = {
-      model: resolvedModel,
-      [useNewTokenParam ? 'max_completion_tokens' : 'max_tokens']: tokenLimit,
-      messages: openAIMessages,
-    };
-
-    if (tools.length > 0) {
-      body.tools = tools;
-      body.tool_choice = 'auto';
-    }
-    if (options.temperature !== undefined) {
-      body.temperature = options.temperature;
-    }
+    const body = this.buildRequestBody(messages, tools, options);
 
     const response = await fetch(this.baseUrl, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.apiKey}`,
-      },
+      headers: this.requestHeaders(),
       body: JSON.stringify(body),
     });
 
     if (!response.ok) {
       const errorBody = await response.text();
-      // Try to extract a concise error message from the JSON payload
-      let detail = errorBody;
-      try {
-        const parsed = JSON.parse(errorBody) as {
-          error?: { message?: string; code?: string; type?: string };
-        };
-        if (parsed.error?.message) {
-          detail = parsed.error.code
-            ? `${parsed.error.code}: ${parsed.error.message}`
-            : parsed.error.message;
-        }
-      } catch {
-        // Not JSON – use raw body
-      }
-      throw new Error(`OpenAI API error ${response.status}: ${detail}`);
+      throw new Error(`${this.apiLabel} API error ${response.status}: ${extractErrorDetail(errorBody)}`);
     }
 
     const rawText = await response.text();
@@ -201,7 +133,8 @@ export class OpenAIProvider implements LLMProvider {
         };
         finish_reason: string;
       }[];
-      usage: {
+      // Missing on some OpenAI-compatible servers
+      usage?: {
         prompt_tokens: number;
         completion_tokens: number;
         total_tokens: number;
@@ -253,11 +186,224 @@ export class OpenAIProvider implements LLMProvider {
       content: choice.message.content ?? '',
       toolCalls,
       finishReason,
-      usage: {
-        promptTokens: data.usage.prompt_tokens,
-        completionTokens: data.usage.completion_tokens,
-        totalTokens: data.usage.total_tokens,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Streaming variant of chat() using `stream: true`. Tool call fragments
+   * arrive keyed by index and are concatenated until the stream ends.
+   */
+  async chatStream(
+    messages: Message[],
+    tools: ToolDefinition[],
+    callbacks: LLMStreamCallbacks,
+    options: LLMOptions = {},
+  ): Promise<LLMResponse> {
+    const body = {
+      ...this.buildRequestBody(messages, tools, options),
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    let textContent = '';
+    let finishReason = '';
+    let usage: LLMResponse['usage'];
+    const partialCalls = new Map<number, { id: string; name: string; args: string }>();
+
+    const result = await postSSE(
+      this.baseUrl,
+      this.requestHeaders(),
+      JSON.stringify(body),
+      data => {
+        if (data === '[DONE]') { return; }
+        const chunk = JSON.parse(data) as {
+          choices?: {
+            delta?: {
+              content?: string | null;
+              tool_calls?: {
+                index: number;
+                id?: string;
+                function?: { name?: string; arguments?: string };
+              }[];
+            };
+            finish_reason?: string | null;
+          }[];
+          usage?: {
+            prompt_tokens: number;
+            completion_tokens: number;
+            total_tokens: number;
+          } | null;
+        };
+
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
+
+        const choice = chunk.choices?.[0];
+        if (!choice) { return; }
+        if (choice.finish_reason) { finishReason = choice.finish_reason; }
+
+        const delta = choice.delta;
+        if (delta?.content) {
+          textContent += delta.content;
+          callbacks.onTextDelta?.(delta.content);
+        }
+        for (const tc of delta?.tool_calls ?? []) {
+          let entry = partialCalls.get(tc.index);
+          if (!entry) {
+            entry = { id: tc.id ?? `call-${Date.now()}-${tc.index}`, name: '', args: '' };
+            partialCalls.set(tc.index, entry);
+          }
+          if (tc.function?.name) {
+            entry.name += tc.function.name;
+            callbacks.onToolCallStart?.({ id: entry.id, name: entry.name });
+          }
+          entry.args += tc.function?.arguments ?? '';
+        }
       },
+    );
+
+    if (result.status < 200 || result.status >= 300) {
+      throw new Error(`${this.apiLabel} API error ${result.status}: ${extractErrorDetail(result.body)}`);
+    }
+
+    const toolCalls: ToolCall[] = [...partialCalls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, entry]) => {
+        let argumentsObj: Record<string, unknown> = {};
+        if (entry.args.trim()) {
+          try {
+            argumentsObj = JSON.parse(entry.args) as Record<string, unknown>;
+          } catch {
+            throw new Error(
+              `Invalid JSON in tool call arguments for "${entry.name}"\n` +
+                `Raw arguments: ${entry.args}`,
+            );
+          }
+        }
+        return {
+          id: entry.id,
+          type: 'function' as const,
+          name: entry.name,
+          arguments: argumentsObj,
+        };
+      });
+
+    return {
+      content: textContent,
+      toolCalls,
+      finishReason: finishReason === 'tool_calls' || toolCalls.length > 0 ? 'tool_calls' : 'stop',
+      usage,
+    };
+  }
+
+  // ── Request helpers ──────────────────────────────────────────────────────
+
+  private requestHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without a key
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /** Convert messages and tools into a Chat Completions request body */
+  private buildRequestBody(
+    messages: Message[],
+    tools: ToolDefinition[],
+    options: LLMOptions,
+  ): Record<string, unknown> {
+    // OpenAI uses the same role structure, just map tool messages correctly
+    const openAIMessages = messages.map(msg => {
+      if (msg.role === 'tool') {
+        return {
+          role: 'tool' as const,
+          content: msg.content,
+          tool_call_id: msg.toolCallId ?? '',
+        };
+      }
+      if (
+        msg.role === 'assistant' &&
+        msg.toolCalls &&
+        msg.toolCalls.length > 0
+      ) {
+        return {
+          role: 'assistant' as const,
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map(tc => ({
+            id: tc.id,
+            type: 'function' as const,
+            function: {
+              name: tc.name,
+              arguments: JSON.stringify(tc.arguments),
+            },
+          })),
+        };
+      }
+      return {
+        role: msg.role as 'system' | 'user' | 'assistant',
+        content: msg.content,
+      };
+    });
+
+    const resolvedModel = this.defaultModel;
+
+    // Newer OpenAI models (gpt-4.1+, gpt-5+, o-series) require
+    // 'max_completion_tokens' instead of the legacy 'max_tokens' parameter.
+    const useNewTokenParam = /^(gpt-4\.[1-9]|gpt-[5-9]|o[1-9])/.test(
+      this.defaultModel,
+    );
+    const tokenLimit = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+
+    const body: Record<string, unknown> = {
+      model: resolvedModel,
+      [useNewTokenParam ? 'max_completion_tokens' : 'max_tokens']: tokenLimit,
+      messages: openAIMessages,
+    };
+
+    if (tools.length > 0) {
+      body.tools = tools;
+      body.tool_choice = 'auto';
+    }
+    if (options.temperature !== undefined) {
+      body.temperature = options.temperature;
+    }
+
+    return body;
+  }
+}
+
+/**
+ * Extract a concise error message from an OpenAI-style error payload.
+ * Also understands Ollama's `{ "error": "…" }` shape.
+ */
+function extractErrorDetail(errorBody: string): string {
+  let detail = errorBody;
+  try {
+    const parsed = JSON.parse(errorBody) as {
+      error?: string | { message?: string; code?: string; type?: string };
     };
+    if (typeof parsed.error === 'string') {
+      detail = parsed.error;
+    } else if (parsed.error?.message) {
+      detail = parsed.error.code
+        ? `${parsed.error.code}: ${parsed.error.message}`
+        : parsed.error.message;
+    }
+  } catch {
+    // Not JSON – use raw body
   }
+  return detail;
 }
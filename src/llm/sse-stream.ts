@@ -0,0 +1,79 @@
+/**
+ * SSE Stream – Minimal Server-Sent Events reader for React Native
+ *
+ * React Native's fetch() does not expose a readable body stream, so
+ * streaming responses are read through XMLHttpRequest: every `progress`
+ * event delivers the full responseText so far, from which only the new
+ * tail is parsed into `data:` payloads.
+ *
+ * HTTP errors resolve with the raw body so that each provider can format
+ * its own error message, exactly as with the non-streaming fetch path.
+ */
+
+export interface SSEResult {
+  /** HTTP status code of the response */
+  status: number;
+  /** Full raw response body (useful for error payloads) */
+  body: string;
+}
+
+/**
+ * POST `body` to `url` and invoke `onData` for each SSE `data:` payload as it
+ * arrives. Resolves once the response is complete.
+ */
+export function postSSE(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  onData: (data: string) => void,
+): Promise<SSEResult> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let offset = 0;
+    let buffer = '';
+
+    const drain = (final: boolean) => {
+      // Only parse the stream once the server accepted the request;
+      // error bodies are handed back as a whole.
+      if (xhr.status < 200 || xhr.status >= 300) { return; }
+
+      const text = xhr.responseText ?? '';
+      buffer += text.slice(offset);
+      offset = text.length;
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = final ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) { continue; }
+        const payload = line.slice(5).trim();
+        if (payload) { onData(payload); }
+      }
+    };
+
+    xhr.open('POST', url);
+    for (const [key, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(key, value);
+    }
+
+    xhr.onprogress = () => {
+      try {
+        drain(false);
+      } catch (err) {
+        xhr.abort();
+        reject(err);
+      }
+    };
+    xhr.onload = () => {
+      try {
+        drain(true);
+        resolve({ status: xhr.status, body: xhr.responseText ?? '' });
+      } catch (err) {
+        reject(err);
+      }
+    };
+    xhr.onerror = () => reject(new Error(`Network request failed: ${url}`));
+    xhr.ontimeout = () => reject(new Error(`Network request timed out: ${url}`));
+
+    xhr.send(body);
+  });
+}
@@ -42,12 +42,34 @@ export interface LLMOptions {
   temperature?: number;
 }
 
+/**
+ * Callbacks for incremental output while a streamed completion is running.
+ * The final, fully assembled result is still returned as an LLMResponse.
+ */
+export interface LLMStreamCallbacks {
+  /** A new chunk of assistant text arrived */
+  onTextDelta?: (delta: string) => void;
+  /** A tool call started being generated (arguments still incomplete) */
+  onToolCallStart?: (toolCall: { id: string; name: string }) => void;
+}
+
 export interface LLMProvider {
   chat(
     messages: Message[],
     tools: ToolDefinition[],
     options?: LLMOptions,
   ): Promise<LLMResponse>;
+  /**
+   * Optional streaming variant of chat(). Emits text deltas while the model
+   * is generating and assembles tool calls incrementally. Resolves with the
+   * same LLMResponse that chat() would have returned.
+   */
+  chatStream?(
+    messages: Message[],
+    tools: ToolDefinition[],
+    callbacks: LLMStreamCallbacks,
+    options?: LLMOptions,
+  ): Promise<LLMResponse>;
   getCurrentModel(): string;
   testConnection(): Promise<{
     success: boolean;
@@ -0,0 +1,19 @@
+/**
+ * TypeScript bridge for ConfirmationModule native module
+ *
+ * Posts a notification with Allow / Deny actions for a risky tool call
+ * requested by a headless task. The answer starts SannaConfirmationTask.
+ */
+import { NativeModules } from 'react-native';
+
+const { ConfirmationModule } = NativeModules;
+
+export interface ConfirmationModuleType {
+  /** Show the confirmation notification for the pending call `id`. */
+  showConfirmation(id: string, title: string, text: string): Promise<boolean>;
+
+  /** Remove the confirmation notification. */
+  cancelConfirmation(id: string): Promise<boolean>;
+}
+
+export default ConfirmationModule as ConfirmationModuleType;
@@ -6,6 +6,7 @@
  * - Open notification access settings
  * - Manage subscribed apps (allowlist)
  * - Retrieve buffered notifications
+ * - Reply to, mark as read or dismiss a shown notification
  */
 import { NativeModules, NativeEventEmitter, Platform } from 'react-native';
 
@@ -32,7 +33,7 @@ export interface NotificationListenerModuleType {
 
   /**
    * Save agent config so the headless notification sub-agent can create a pipeline.
-   * Config JSON: { apiKey, provider, model, enabledSkillNames, drivingMode, language, ... }
+   * Config JSON: see AgentConfig in src/agent/agent-config.ts
    */
   saveAgentConfig(configJson: string): Promise<string>;
 
@@ -46,6 +47,28 @@ export interface NotificationListenerModuleType {
    * notifications have stopped arriving.
    */
   ensureListenerActive(): Promise<string>;
+
+  /**
+   * Reply through the notification's own reply action (RemoteInput).
+   * Rejects if the notification is no longer shown or has no reply action.
+   */
+  replyToNotification(key: string, text: string): Promise<string>;
+
+  /** Trigger the notification's "mark as read" action. Rejects if it has none. */
+  markNotificationAsRead(key: string): Promise<string>;
+
+  /** Remove the notification from the notification shade. */
+  dismissNotification(key: string): Promise<string>;
+}
+
+/** An action button of a notification */
+export interface NotificationAction {
+  index: number;
+  title: string;
+  /** Takes free-form text via RemoteInput – see replyToNotification */
+  canReply: boolean;
+  /** Marks the conversation as read – see markNotificationAsRead */
+  marksAsRead: boolean;
 }
 
 export interface NotificationData {
@@ -55,6 +78,8 @@ export interface NotificationData {
   sender: string;
   timestamp: number;
   key: string;
+  /** Action buttons at the time the notification was posted (missing in older buffer entries) */
+  actions?: NotificationAction[];
 }
 
 const module = NotificationListenerModule as NotificationListenerModuleType | undefined;
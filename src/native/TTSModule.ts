@@ -5,11 +5,24 @@ import { NativeModules, NativeEventEmitter } from 'react-native';
 
 const { TTSModule } = NativeModules;
 
+export interface NativeVoice {
+  name: string;
+  /** BCP-47 tag, e.g. 'de-DE' */
+  locale: string;
+  /** Android Voice.QUALITY_* (100–500) */
+  quality: number;
+  networkRequired: boolean;
+}
+
 export interface TTSModuleType {
   speak(text: string, language: string | null, utteranceId: string | null): Promise<string>;
   stop(): Promise<string>;
   isSpeaking(): Promise<boolean>;
   setSpeechRate(rate: number): Promise<string>;
+  setPitch(pitch: number): Promise<string>;
+  /** Prefer a voice by name; null or '' = best offline voice for the language */
+  setVoice(name: string | null): Promise<string>;
+  getVoices(): Promise<NativeVoice[]>;
   /**
    * Play a beep / alert tone.
    * @param toneType  Android ToneGenerator constant (24=BEEP, 25=ACK, 27=PROMPT)
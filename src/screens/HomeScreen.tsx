@@ -19,6 +19,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 // import Clipboard from '@react-native-clipboard/clipboard'; // Remove clipboard import, it cause app to crash on Android when trying to load.
 import type { PipelineState } from '../agent/conversation-pipeline';
+import type { ToolConfirmationRequest } from '../agent/tool-confirmation';
 import { DebugPanel } from './DebugPanel';
 import { SannaAvatar } from '../components/SannaAvatar';
 import { AvatarMenu } from '../components/AvatarMenu';
@@ -37,6 +38,8 @@ interface HomeScreenProps {
   onMicPress: () => void;
   onTextSubmit: (text: string) => void;
   pipelineState: PipelineState;
+  /** Listening for a follow-up without the wake word (driving mode) */
+  followUpListening?: boolean;
   drivingMode: boolean;
   onToggleDrivingMode: () => void;
   onSettingsPress: () => void;
@@ -45,12 +48,17 @@ interface HomeScreenProps {
   onNotificationListenersPress: () => void;
   onJournalPress: () => void;
   messages: Message[];
+  /** Partial assistant text while the LLM response is still streaming */
+  streamingText?: string | null;
   isDark: boolean;
   onToggleDarkMode: () => void;
   historyLoading?: boolean;
   /** BCP-47 language tag for time formatting (e.g. 'de-AT', 'en-US') */
   language: string;
   debugLogEnabled: boolean;
+  /** Risky tool call waiting for the user's answer */
+  pendingConfirmation?: ToolConfirmationRequest | null;
+  onConfirmToolCall?: (approved: boolean) => void;
 }
 
 const STATE_COLORS: Record<PipelineState, string> = {
@@ -73,6 +81,7 @@ export function HomeScreen({
   onMicPress,
   onTextSubmit,
   pipelineState,
+  followUpListening = false,
   drivingMode,
   onToggleDrivingMode,
   onSettingsPress,
@@ -81,11 +90,14 @@ export function HomeScreen({
   onNotificationListenersPress,
   onJournalPress,
   messages,
+  streamingText,
   isDark,
   onToggleDarkMode,
   historyLoading,
   language,
   debugLogEnabled,
+  pendingConfirmation,
+  onConfirmToolCall,
 }: HomeScreenProps): React.JSX.Element {
   const insets = useSafeAreaInsets();
   const scrollRef = useRef<ScrollView>(null);
@@ -140,6 +152,13 @@ export function HomeScreen({
     prevLastMessageRef.current = lastMessage;
   }, [messages, historyLoading]);
 
+  // Keep the growing partial bubble in view while the answer streams in
+  useEffect(() => {
+    if (streamingText) {
+      scrollRef.current?.scrollToEnd({ animated: false });
+    }
+  }, [streamingText]);
+
   // Scroll to bottom when switching modes
   useEffect(() => {
     // Small delay to ensure the layout has updated
@@ -215,12 +234,12 @@ export function HomeScreen({
         {/* Left: Avatar (opens menu) + name + status */}
         <View className="flex-row items-center gap-2">
           <TouchableOpacity onPress={() => setAvatarMenuVisible(true)} activeOpacity={0.7}>
-            <SannaAvatar size={32} />
+            <SannaAvatar size={32} listening={followUpListening} />
           </TouchableOpacity>
           <Text className="text-lg font-bold text-label-primary">Sanna</Text>
           <View className={`w-2 h-2 rounded-full ${STATE_COLORS[pipelineState]}`} />
           <Text className={`text-xs font-medium ${STATE_TEXT_COLORS[pipelineState]}`}>
-            {stateLabel[pipelineState]}
+            {followUpListening ? t('home.state.followUp') : stateLabel[pipelineState]}
           </Text>
         </View>
 
@@ -321,7 +340,9 @@ export function HomeScreen({
                 );
               })
               )}
-              {pipelineState === 'processing' && (
+              {streamingText ? (
+                <StreamingBubble text={streamingText} isDark={isDark} />
+              ) : pipelineState === 'processing' && (
                 <View className="flex-row items-center gap-2 py-1">
                   <ActivityIndicator size="small" color="#007AFF" />
                   <Text className="text-label-secondary text-sm">{t('home.thinking')}</Text>
@@ -330,6 +351,10 @@ export function HomeScreen({
             </ScrollView>
           </View>
 
+          {pendingConfirmation && onConfirmToolCall && (
+            <ConfirmationCard request={pendingConfirmation} onAnswer={onConfirmToolCall} />
+          )}
+
           {/* InputBar without microphone in driving mode */}
           <InputBar
             isBusy={isBusy}
@@ -377,7 +402,9 @@ export function HomeScreen({
               })
             )}
 
-            {pipelineState === 'processing' && (
+            {streamingText ? (
+              <StreamingBubble text={streamingText} isDark={isDark} />
+            ) : pipelineState === 'processing' && (
               <View className="flex-row items-center gap-2 py-1">
                 <ActivityIndicator size="small" color="#007AFF" />
                 <Text className="text-label-secondary text-sm">{t('home.thinking')}</Text>
@@ -385,6 +412,10 @@ export function HomeScreen({
             )}
           </ScrollView>
 
+          {pendingConfirmation && onConfirmToolCall && (
+            <ConfirmationCard request={pendingConfirmation} onAnswer={onConfirmToolCall} />
+          )}
+
           {/* InputBar is memoized – parent re-renders don't cause focus loss */}
           <InputBar
             isBusy={isBusy}
@@ -707,3 +738,64 @@ const MessageBubble = React.memo(function MessageBubble({
     </TouchableOpacity>
   );
 });
+
+// ─── StreamingBubble ──────────────────────────────────────────────────────────
+
+/** Assistant bubble for a response that is still being generated */
+function StreamingBubble({
+  text,
+  isDark,
+}: {
+  text: string;
+  isDark: boolean;
+}): React.JSX.Element {
+  return (
+    <View className="w-[85%] self-start p-3 rounded-2xl rounded-bl-sm gap-1 bg-surface-elevated">
+      <View className="flex-row items-center gap-1.5 mb-0.5">
+        <SannaAvatar size={16} />
+        <Text className="text-[11px] font-semibold text-accent">
+          {t('home.bubble.assistant')}
+        </Text>
+      </View>
+      <MarkdownText isDark={isDark}>{text}</MarkdownText>
+      <ActivityIndicator size="small" color="#007AFF" className="self-end" />
+    </View>
+  );
+}
+
+// ─── ConfirmationCard (risky tool call waiting for approval) ──────────────────
+
+function ConfirmationCard({
+  request,
+  onAnswer,
+}: {
+  request: ToolConfirmationRequest;
+  onAnswer: (approved: boolean) => void;
+}): React.JSX.Element {
+  return (
+    <View className="mx-3 mb-2 p-3 rounded-2xl bg-surface-elevated border border-accent-orange gap-2">
+      <Text className="text-accent-orange text-xs font-semibold">
+        ⚠️ {t('home.confirmation.title')}
+      </Text>
+      <Text className="text-label-primary text-[15px]">{request.description}</Text>
+      <View className="flex-row gap-2 mt-1">
+        <TouchableOpacity
+          onPress={() => onAnswer(false)}
+          className="flex-1 py-2.5 rounded-xl bg-red-500/10 items-center"
+          activeOpacity={0.7}>
+          <Text className="text-red-500 text-sm font-semibold">
+            {t('home.confirmation.deny')}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => onAnswer(true)}
+          className="flex-1 py-2.5 rounded-xl bg-accent items-center"
+          activeOpacity={0.7}>
+          <Text className="text-white text-sm font-semibold">
+            {t('home.confirmation.allow')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
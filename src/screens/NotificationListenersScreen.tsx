@@ -2,7 +2,15 @@
  * NotificationListenersScreen – View and manage all notification listener rules
  *
  * Loads all rules from the NotificationRulesStore and displays them as
- * collapsible entries with details and a delete button.
+ * collapsible entries with details and a delete button. The structured
+ * pre-filters (sender, keywords, regex, quiet hours, rate limit) and the
+ * digest and auto-reply settings can be edited inline.
+ *
+ * The History tab lists the recorded notifications (notification-history-store)
+ * with what happened to them and which rule handled them. The Test tab runs
+ * the rules against a sample notification without side effects
+ * (notification-dry-run.ts) and shows the matched rule, why, and the tool
+ * calls it would make.
  */
 import React, { useCallback, useEffect, useState } from 'react';
 import {
@@ -11,6 +19,7 @@ import {
   ScrollView,
   Switch,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
@@ -18,14 +27,39 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { t } from '../i18n';
 import { MarkdownText } from '../components/MarkdownText';
 import { EditableDetailRow } from '../components/EditableDetailRow';
-import { deleteRule, loadRules, updateRule, type NotificationRule } from '../agent/notification-rules-store';
+import {
+  deleteRule,
+  loadRules,
+  updateRule,
+  type NotificationRule,
+  type NotificationRuleDigest,
+  type NotificationRuleFilters,
+} from '../agent/notification-rules-store';
+import { hasFilters, validateFilters } from '../agent/notification-prefilter';
+import { getDigestCounts, validateDigest } from '../agent/notification-digest';
+import {
+  clearHistory,
+  queryHistory,
+  type NotificationHistoryEntry,
+} from '../agent/notification-history-store';
+import type {
+  NotificationDryRunResult,
+  NotificationRuleTester,
+} from '../agent/notification-dry-run';
 
 interface NotificationListenersScreenProps {
   onBack: () => void;
   enabledSkillNames: string[];
   isDark: boolean;
+  /** Dry-runs the rules against a sample notification (provided by App) */
+  onTestRule: NotificationRuleTester;
 }
 
+type Tab = 'rules' | 'history' | 'test';
+
+/** History entries shown per page */
+const HISTORY_PAGE_SIZE = 50;
+
 function formatDate(isoString: string): string {
   const d = new Date(isoString);
   return d.toLocaleString('de-AT', {
@@ -37,15 +71,50 @@ function formatDate(isoString: string): string {
   });
 }
 
+// ── Filter field parsing ─────────────────────────────────────────────────────
+
+function splitList(value: string): string[] | undefined {
+  const items = value.split(',').map(v => v.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/** "22:00-07:00" → quiet hours; empty → none; null = invalid */
+function parseQuietHours(value: string): NotificationRuleFilters['quietHours'] | null {
+  if (!value) return undefined;
+  const match = /^(\d{1,2}:\d{2})\s*[-–]\s*(\d{1,2}:\d{2})$/.exec(value);
+  if (!match) return null;
+  const pad = (time: string) => time.padStart(5, '0');
+  return { start: pad(match[1]), end: pad(match[2]) };
+}
+
+/** "3/10" (max per minutes) → rate limit; empty → none; null = invalid */
+function parseRateLimit(value: string): NotificationRuleFilters['rateLimit'] | null {
+  if (!value) return undefined;
+  const match = /^(\d+)\s*\/\s*(\d+)/.exec(value);
+  if (!match) return null;
+  return { max: Number(match[1]), windowMinutes: Number(match[2]) };
+}
+
+/** "9:00" → "09:00"; empty → no daily digest */
+function parseDigestTime(value: string): string | undefined {
+  const time = value.trim();
+  if (!time) return undefined;
+  return /^\d:\d{2}$/.test(time) ? `0${time}` : time;
+}
+
 export function NotificationListenersScreen({
   onBack,
   enabledSkillNames,
   isDark,
+  onTestRule,
 }: NotificationListenersScreenProps): React.JSX.Element {
   const insets = useSafeAreaInsets();
   const [rules, setRules] = useState<NotificationRule[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [digestCounts, setDigestCounts] = useState<Record<string, number>>({});
+  const [tab, setTab] = useState<Tab>('rules');
+  const [testRuleId, setTestRuleId] = useState<string | null>(null);
   
   const isSkillEnabled = enabledSkillNames.includes('notifications');
 
@@ -58,6 +127,7 @@ export function NotificationListenersScreen({
         return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
       });
       setRules(loaded);
+      setDigestCounts(await getDigestCounts());
     } catch {
       setRules([]);
     } finally {
@@ -89,6 +159,36 @@ export function NotificationListenersScreen({
     await loadData();
   };
 
+  const handleToggleAutoReply = async (rule: NotificationRule, value: boolean) => {
+    await updateRule(rule.id, { autoReply: value || undefined });
+    await loadData();
+  };
+
+  const handleSaveFilters = async (rule: NotificationRule, patch: NotificationRuleFilters | null) => {
+    const filters: NotificationRuleFilters = { ...rule.filters, ...patch };
+    const error = patch ? validateFilters(filters) : t('notifListeners.filters.invalidFormat');
+    if (error) {
+      Alert.alert(t('notifListeners.filters.invalid'), error);
+      return;
+    }
+    await updateRule(rule.id, { filters: hasFilters(filters) ? filters : undefined });
+    await loadData();
+  };
+
+  const handleSaveDigest = async (rule: NotificationRule, patch: NotificationRuleDigest) => {
+    const digest: NotificationRuleDigest = { ...rule.digest, ...patch };
+    if (!digest.time) digest.time = undefined;
+    if (!digest.onDrivingEnd) digest.onDrivingEnd = undefined;
+    const isSet = Boolean(digest.time || digest.onDrivingEnd);
+    const error = isSet ? validateDigest(digest) : null;
+    if (error) {
+      Alert.alert(t('notifListeners.digest.invalid'), error);
+      return;
+    }
+    await updateRule(rule.id, { digest: isSet ? digest : undefined });
+    await loadData();
+  };
+
   const handleDelete = (rule: NotificationRule) => {
     Alert.alert(
       t('notifListeners.delete.title'),
@@ -118,10 +218,39 @@ export function NotificationListenersScreen({
         <Text className="text-label-primary text-lg font-bold">{t('notifListeners.title')}</Text>
       </View>
 
+      {isSkillEnabled && (
+        <View className="flex-row items-center gap-2 px-4 py-3 border-b border-surface-elevated">
+          {(['rules', 'history', 'test'] as const).map(id => (
+            <TouchableOpacity
+              key={id}
+              onPress={() => setTab(id)}
+              className={`px-3 py-1.5 rounded-full ${
+                tab === id ? 'bg-surface-elevated' : 'bg-surface-tertiary opacity-60'
+              }`}
+              activeOpacity={0.7}>
+              <Text className={`text-xs font-semibold ${
+                tab === id ? 'text-label-primary' : 'text-label-secondary'
+              }`}>
+                {t(`notifListeners.tab.${id}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       {!isSkillEnabled ? (
         <View className="flex-1 items-center justify-center px-8">
           <MarkdownText isDark={isDark}>{t('notifListeners.skillDisabled')}</MarkdownText>
         </View>
+      ) : tab === 'history' ? (
+        <HistoryLog rules={rules} />
+      ) : tab === 'test' ? (
+        <RuleTester
+          rules={rules}
+          ruleId={testRuleId}
+          onChangeRule={setTestRuleId}
+          onTestRule={onTestRule}
+        />
       ) : loading ? (
         <View className="flex-1 items-center justify-center">
           <ActivityIndicator size="large" color="#007AFF" />
@@ -185,6 +314,7 @@ export function NotificationListenersScreen({
                       onSave={v => handleSaveField(rule, 'instruction', v)}
                       labelWidth={96}
                     />
+                    <FilterRows rule={rule} onSave={patch => handleSaveFilters(rule, patch)} />
                     <EditableDetailRow
                       label={t('notifListeners.detail.condition')}
                       value={rule.condition}
@@ -192,11 +322,41 @@ export function NotificationListenersScreen({
                       labelWidth={96}
                       placeholder={t('notifListeners.detail.conditionAlways')}
                     />
+                    <DigestRows
+                      rule={rule}
+                      heldCount={digestCounts[rule.id] ?? 0}
+                      onSave={patch => handleSaveDigest(rule, patch)}
+                    />
+                    <View className="flex-row items-center gap-2">
+                      <Text className="text-label-secondary text-xs w-24 shrink-0">
+                        {t('notifListeners.detail.autoReply')}
+                      </Text>
+                      <View className="flex-1 items-start">
+                        <Switch
+                          value={Boolean(rule.autoReply)}
+                          onValueChange={value => handleToggleAutoReply(rule, value)}
+                          trackColor={{ false: '#3A3A3C', true: '#007AFF' }}
+                          thumbColor="#FFFFFF"
+                        />
+                      </View>
+                    </View>
+                    <Text className="text-label-tertiary text-xs">
+                      {t('notifListeners.detail.autoReplyHint')}
+                    </Text>
                     <DetailRow
                       label={t('notifListeners.detail.status')}
                       value={rule.enabled ? t('notifListeners.status.active') : t('notifListeners.status.disabled')}
                     />
                     <DetailRow label={t('notifListeners.detail.createdAt')} value={formatDate(rule.created_at)} />
+                    <TouchableOpacity
+                      onPress={() => {
+                        setTestRuleId(rule.id);
+                        setTab('test');
+                      }}
+                      activeOpacity={0.7}
+                      className="self-start mt-1 px-3 py-1.5 rounded-lg bg-surface-tertiary">
+                      <Text className="text-accent text-xs font-semibold">{t('notifListeners.test.thisRule')}</Text>
+                    </TouchableOpacity>
                   </View>
                 )}
               </View>
@@ -216,3 +376,467 @@ function DetailRow({ label, value }: { label: string; value: string }): React.JS
     </View>
   );
 }
+
+// ─── FilterRows (deterministic pre-filters) ──────────────────────────────────
+
+function FilterRows({
+  rule,
+  onSave,
+}: {
+  rule: NotificationRule;
+  /** null = the entered value could not be parsed */
+  onSave: (patch: NotificationRuleFilters | null) => Promise<void>;
+}): React.JSX.Element {
+  const f = rule.filters ?? {};
+  const none = t('notifListeners.filters.none');
+  return (
+    <View className="gap-2">
+      <Text className="text-label-secondary text-xs font-semibold mt-1">
+        {t('notifListeners.filters.title')}
+      </Text>
+      <EditableDetailRow
+        label={t('notifListeners.filters.senderEquals')}
+        value={(f.senderEquals ?? []).join(', ')}
+        onSave={v => onSave({ senderEquals: splitList(v) })}
+        placeholder={none}
+      />
+      <EditableDetailRow
+        label={t('notifListeners.filters.senderContains')}
+        value={(f.senderContains ?? []).join(', ')}
+        onSave={v => onSave({ senderContains: splitList(v) })}
+        placeholder={none}
+      />
+      <EditableDetailRow
+        label={t('notifListeners.filters.keywords')}
+        value={(f.keywords ?? []).join(', ')}
+        onSave={v => onSave({ keywords: splitList(v) })}
+        placeholder={none}
+      />
+      <EditableDetailRow
+        label={t('notifListeners.filters.titleRegex')}
+        value={f.titleRegex ?? ''}
+        onSave={v => onSave({ titleRegex: v || undefined })}
+        placeholder={none}
+      />
+      <EditableDetailRow
+        label={t('notifListeners.filters.textRegex')}
+        value={f.textRegex ?? ''}
+        onSave={v => onSave({ textRegex: v || undefined })}
+        placeholder={none}
+      />
+      <EditableDetailRow
+        label={t('notifListeners.filters.quietHours')}
+        value={f.quietHours ? `${f.quietHours.start}-${f.quietHours.end}` : ''}
+        onSave={v => {
+          const quietHours = parseQuietHours(v);
+          return onSave(quietHours === null ? null : { quietHours });
+        }}
+        placeholder={t('notifListeners.filters.quietHoursPlaceholder')}
+      />
+      <EditableDetailRow
+        label={t('notifListeners.filters.rateLimit')}
+        value={f.rateLimit ? `${f.rateLimit.max}/${f.rateLimit.windowMinutes}` : ''}
+        onSave={v => {
+          const rateLimit = parseRateLimit(v);
+          return onSave(rateLimit === null ? null : { rateLimit });
+        }}
+        placeholder={t('notifListeners.filters.rateLimitPlaceholder')}
+      />
+    </View>
+  );
+}
+
+// ─── DigestRows (hold matches for a summary) ─────────────────────────────────
+
+function DigestRows({
+  rule,
+  heldCount,
+  onSave,
+}: {
+  rule: NotificationRule;
+  heldCount: number;
+  onSave: (patch: NotificationRuleDigest) => Promise<void>;
+}): React.JSX.Element {
+  const digest = rule.digest ?? {};
+  return (
+    <View className="gap-2">
+      <Text className="text-label-secondary text-xs font-semibold mt-1">
+        {t('notifListeners.digest.title')}
+      </Text>
+      <EditableDetailRow
+        label={t('notifListeners.digest.time')}
+        value={digest.time ?? ''}
+        onSave={v => onSave({ time: parseDigestTime(v) })}
+        placeholder={t('notifListeners.digest.timePlaceholder')}
+      />
+      <View className="flex-row items-center gap-2">
+        <Text className="text-label-secondary text-xs w-24 shrink-0">
+          {t('notifListeners.digest.onDrivingEnd')}
+        </Text>
+        <View className="flex-1 items-start">
+          <Switch
+            value={Boolean(digest.onDrivingEnd)}
+            onValueChange={value => onSave({ onDrivingEnd: value })}
+            trackColor={{ false: '#3A3A3C', true: '#007AFF' }}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+      </View>
+      {rule.digest && (
+        <DetailRow
+          label={t('notifListeners.digest.held')}
+          value={t('notifListeners.digest.heldCount').replace('{count}', String(heldCount))}
+        />
+      )}
+    </View>
+  );
+}
+
+// ─── HistoryLog (recorded notifications) ─────────────────────────────────────
+
+function HistoryLog({ rules }: { rules: NotificationRule[] }): React.JSX.Element {
+  const [entries, setEntries] = useState<NotificationHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [visibleCount, setVisibleCount] = useState(HISTORY_PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async (text: string) => {
+    try {
+      setEntries(await queryHistory({ text }));
+    } catch {
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setVisibleCount(HISTORY_PAGE_SIZE);
+    loadEntries(search);
+  }, [loadEntries, search]);
+
+  const handleClear = () => {
+    Alert.alert(
+      t('notifListeners.history.clearTitle'),
+      t('notifListeners.history.clearMessage'),
+      [
+        { text: t('notifListeners.delete.cancel'), style: 'cancel' },
+        {
+          text: t('notifListeners.delete.confirm'),
+          style: 'destructive',
+          onPress: async () => {
+            await clearHistory();
+            await loadEntries(search);
+          },
+        },
+      ],
+    );
+  };
+
+  const ruleLabel = (ruleId: string): string => {
+    const rule = rules.find(r => r.id === ruleId);
+    return rule ? `${rule.appLabel}: ${rule.instruction}` : t('notifListeners.history.ruleDeleted');
+  };
+
+  if (loading) {
+    return (
+      <View className="flex-1 items-center justify-center">
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (entries.length === 0 && !search) {
+    return (
+      <View className="flex-1 items-center justify-center px-8">
+        <Text className="text-label-secondary text-base text-center">
+          {t('notifListeners.history.empty')}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView className="flex-1" keyboardShouldPersistTaps="handled">
+      <View className="p-4 pb-12 gap-2">
+        <View className="flex-row items-center gap-2 mb-1">
+          <TextInput
+            value={search}
+            onChangeText={setSearch}
+            placeholder={t('notifListeners.history.search')}
+            placeholderTextColor="#8E8E93"
+            autoCorrect={false}
+            className="flex-1 bg-surface-tertiary rounded-lg px-3 py-2 text-label-primary text-sm"
+          />
+          <TouchableOpacity
+            onPress={handleClear}
+            activeOpacity={0.7}
+            className="px-3 py-2 rounded-lg bg-red-500/15">
+            <Text className="text-red-400 text-xs font-semibold">{t('notifListeners.history.clear')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {entries.length === 0 && (
+          <Text className="text-label-secondary text-sm text-center py-6">
+            {t('notifListeners.history.noResults')}
+          </Text>
+        )}
+
+        {entries.slice(0, visibleCount).map(entry => {
+          const isExpanded = expandedId === entry.id;
+          const time = new Date(entry.timestamp).toLocaleString(undefined, {
+            day: '2-digit',
+            month: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+          });
+          return (
+            <TouchableOpacity
+              key={entry.id}
+              onPress={() => setExpandedId(prev => (prev === entry.id ? null : entry.id))}
+              activeOpacity={0.7}
+              className="bg-surface-elevated rounded-xl px-4 py-3 gap-1">
+              <View className="flex-row items-center gap-2">
+                <Text className="text-label-primary text-sm font-semibold flex-1" numberOfLines={1}>
+                  {entry.appName}{entry.sender ? ` – ${entry.sender}` : ''}
+                </Text>
+                <Text className="text-label-secondary text-xs">{time}</Text>
+              </View>
+              <Text className="text-label-secondary text-xs" numberOfLines={isExpanded ? undefined : 2}>
+                {[entry.title, entry.text].filter(Boolean).join(' – ')}
+              </Text>
+              <Text className="text-accent text-xs">
+                {t(`notifListeners.history.outcome.${entry.outcome}`)}
+              </Text>
+              {isExpanded && (
+                <View className="border-t border-surface pt-2 mt-1 gap-2">
+                  {entry.ruleId && (
+                    <DetailRow label={t('notifListeners.history.rule')} value={ruleLabel(entry.ruleId)} />
+                  )}
+                  {entry.detail && (
+                    <DetailRow label={t('notifListeners.history.detail')} value={entry.detail} />
+                  )}
+                  <DetailRow label={t('notifListeners.detail.app')} value={entry.packageName} />
+                </View>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+
+        {entries.length > visibleCount && (
+          <TouchableOpacity
+            onPress={() => setVisibleCount(count => count + HISTORY_PAGE_SIZE)}
+            activeOpacity={0.7}
+            className="items-center py-3">
+            <Text className="text-accent text-sm">{t('notifListeners.history.loadMore')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+// ─── RuleTester (dry run against a sample notification) ──────────────────────
+
+function RuleTester({
+  rules,
+  ruleId,
+  onChangeRule,
+  onTestRule,
+}: {
+  rules: NotificationRule[];
+  /** Rule under test; null = all enabled rules of the selected app */
+  ruleId: string | null;
+  onChangeRule: (ruleId: string | null) => void;
+  onTestRule: NotificationRuleTester;
+}): React.JSX.Element {
+  const apps = rules.filter((r, i) => rules.findIndex(o => o.app === r.app) === i);
+  const testedRule = rules.find(r => r.id === ruleId);
+  const [app, setApp] = useState<string | undefined>(testedRule?.app ?? apps[0]?.app);
+  const [sender, setSender] = useState('');
+  const [title, setTitle] = useState('');
+  const [text, setText] = useState('');
+  const [recent, setRecent] = useState<NotificationHistoryEntry[]>([]);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<NotificationDryRunResult | null>(null);
+
+  useEffect(() => {
+    if (testedRule) setApp(testedRule.app);
+  }, [testedRule]);
+
+  useEffect(() => {
+    if (!app) return;
+    queryHistory({ app, limit: 5 }).then(setRecent).catch(() => setRecent([]));
+  }, [app]);
+
+  const appRules = rules.filter(r => r.app === app);
+
+  const handleRun = async () => {
+    if (!app) return;
+    setRunning(true);
+    setResult(null);
+    try {
+      setResult(await onTestRule({ packageName: app, sender, title: title || sender, text }, ruleId ?? undefined));
+    } catch (err) {
+      Alert.alert(t('alert.error'), err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const ruleLabel = (id: string): string => {
+    const rule = rules.find(r => r.id === id);
+    return rule ? (rule.condition || t('notifListeners.detail.conditionAlways')) + ` → ${rule.instruction}` : id;
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full ${active ? 'bg-surface-elevated' : 'bg-surface-tertiary opacity-60'}`;
+  const chipTextClass = (active: boolean) =>
+    `text-xs font-semibold ${active ? 'text-label-primary' : 'text-label-secondary'}`;
+  const inputClass = 'bg-surface-tertiary rounded-lg px-3 py-2 text-label-primary text-sm';
+
+  if (apps.length === 0) {
+    return (
+      <View className="flex-1 items-center justify-center px-8">
+        <Text className="text-label-secondary text-base text-center">{t('notifListeners.empty')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView className="flex-1" keyboardShouldPersistTaps="handled">
+      <View className="p-4 pb-12 gap-3">
+        <Text className="text-label-secondary text-xs">{t('notifListeners.test.description')}</Text>
+
+        {/* App and rule selection */}
+        <Text className="text-label-secondary text-xs font-semibold">{t('notifListeners.detail.app')}</Text>
+        <View className="flex-row flex-wrap gap-2">
+          {apps.map(r => (
+            <TouchableOpacity
+              key={r.app}
+              onPress={() => {
+                setApp(r.app);
+                onChangeRule(null);
+              }}
+              className={chipClass(app === r.app)}
+              activeOpacity={0.7}>
+              <Text className={chipTextClass(app === r.app)}>{r.appLabel}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text className="text-label-secondary text-xs font-semibold">{t('notifListeners.test.rule')}</Text>
+        <View className="flex-row flex-wrap gap-2">
+          <TouchableOpacity onPress={() => onChangeRule(null)} className={chipClass(!ruleId)} activeOpacity={0.7}>
+            <Text className={chipTextClass(!ruleId)}>{t('notifListeners.test.allRules')}</Text>
+          </TouchableOpacity>
+          {appRules.map(r => (
+            <TouchableOpacity
+              key={r.id}
+              onPress={() => onChangeRule(r.id)}
+              className={`${chipClass(ruleId === r.id)} max-w-full`}
+              activeOpacity={0.7}>
+              <Text className={chipTextClass(ruleId === r.id)} numberOfLines={1}>
+                {r.condition || r.instruction}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Sample notification */}
+        {recent.length > 0 && (
+          <View className="gap-2">
+            <Text className="text-label-secondary text-xs font-semibold">{t('notifListeners.test.pickRecent')}</Text>
+            {recent.map(entry => (
+              <TouchableOpacity
+                key={entry.id}
+                onPress={() => {
+                  setSender(entry.sender);
+                  setTitle(entry.title);
+                  setText(entry.text);
+                }}
+                activeOpacity={0.7}
+                className="bg-surface-elevated rounded-lg px-3 py-2">
+                <Text className="text-label-primary text-xs" numberOfLines={1}>
+                  {entry.sender || entry.title}: {entry.text}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <TextInput
+          value={sender}
+          onChangeText={setSender}
+          placeholder={t('notifListeners.test.sender')}
+          placeholderTextColor="#8E8E93"
+          className={inputClass}
+        />
+        <TextInput
+          value={title}
+          onChangeText={setTitle}
+          placeholder={t('notifListeners.test.title')}
+          placeholderTextColor="#8E8E93"
+          className={inputClass}
+        />
+        <TextInput
+          value={text}
+          onChangeText={setText}
+          placeholder={t('notifListeners.test.text')}
+          placeholderTextColor="#8E8E93"
+          multiline
+          className={inputClass}
+        />
+        <TouchableOpacity
+          onPress={handleRun}
+          disabled={running || !text.trim()}
+          activeOpacity={0.7}
+          className={`rounded-lg py-2.5 items-center ${running || !text.trim() ? 'bg-surface-tertiary' : 'bg-accent'}`}>
+          {running ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text className={`text-sm font-semibold ${text.trim() ? 'text-white' : 'text-label-secondary'}`}>
+              {t('notifListeners.test.run')}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        {/* Result */}
+        {result && (
+          <View className="bg-surface-elevated rounded-xl px-4 py-3 gap-2">
+            <Text className="text-label-primary text-sm font-semibold">
+              {t(`notifListeners.history.outcome.${result.outcome}`)}
+            </Text>
+            {result.matchedRuleId && (
+              <DetailRow label={t('notifListeners.test.matchedRule')} value={ruleLabel(result.matchedRuleId)} />
+            )}
+            {result.reason && <DetailRow label={t('notifListeners.test.reason')} value={result.reason} />}
+            {result.prefilter.map(p => (
+              <DetailRow
+                key={p.ruleId}
+                label={p.passed ? t('notifListeners.test.passed') : t('notifListeners.test.dropped')}
+                value={`${ruleLabel(p.ruleId)}${p.reasons.length > 0 ? `\n${p.reasons.join(', ')}` : ''}`}
+              />
+            ))}
+            {result.heldForDigest.map(id => (
+              <DetailRow key={id} label={t('notifListeners.history.outcome.held')} value={ruleLabel(id)} />
+            ))}
+            {result.toolCalls.length > 0 && (
+              <Text className="text-label-secondary text-xs font-semibold mt-1">
+                {t('notifListeners.test.toolCalls')}
+              </Text>
+            )}
+            {result.toolCalls.map((call, i) => (
+              <DetailRow
+                key={i}
+                label={call.executed ? t('notifListeners.test.executed') : t('notifListeners.test.simulated')}
+                value={call.description}
+              />
+            ))}
+            {result.response && <DetailRow label={t('notifListeners.test.response')} value={result.response} />}
+            {result.error && <DetailRow label={t('alert.error')} value={result.error} />}
+          </View>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
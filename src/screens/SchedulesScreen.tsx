@@ -2,7 +2,10 @@
  * SchedulesScreen – View and manage all scheduler entries
  *
  * Loads all schedules from the native SchedulerModule and displays them
- * as collapsible entries with details and a delete button.
+ * as collapsible entries with details and a delete button. Multi-step
+ * schedules show their steps, which can be edited, reordered, added and
+ * removed. Recurring schedules preview their next firings and allow editing
+ * the cron expression, timezone and exclusion dates.
  */
 import React, { useCallback, useEffect, useState } from 'react';
 import {
@@ -11,6 +14,7 @@ import {
   ScrollView,
   Switch,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
@@ -19,7 +23,19 @@ import { t } from '../i18n';
 import { MarkdownText } from '../components/MarkdownText';
 import { EditableDetailRow } from '../components/EditableDetailRow';
 import SchedulerModule from '../native/SchedulerModule';
-import type { Schedule } from '../tools/scheduler-tool';
+import { MAX_STEPS, MAX_STEP_RETRIES, summarizeSteps } from '../tools/scheduler-tool';
+import type { Schedule, ScheduleRecurrence, ScheduleStep } from '../tools/scheduler-tool';
+import {
+  getDeviceTimeZone,
+  getNextOccurrence,
+  getNextOccurrences,
+  validateRecurrence,
+} from '../tools/schedule-recurrence';
+
+/** Number of upcoming firings previewed for recurring schedules */
+const PREVIEW_COUNT = 5;
+
+const DAY_NAMES = ['', 'Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa', 'So'];
 
 interface SchedulesScreenProps {
   onBack: () => void;
@@ -27,7 +43,7 @@ interface SchedulesScreenProps {
   isDark: boolean;
 }
 
-function formatDate(ms: number): string {
+function formatDate(ms: number, timeZone?: string): string {
   const d = new Date(ms);
   return d.toLocaleString('de-AT', {
     weekday: 'short',
@@ -36,9 +52,25 @@ function formatDate(ms: number): string {
     year: 'numeric',
     hour: '2-digit',
     minute: '2-digit',
+    timeZone,
   });
 }
 
+/** Day rule of a monthly/yearly recurrence, e.g. "15.", "last day", "1. Mo" */
+function formatMonthDay(r: ScheduleRecurrence): string {
+  if (r.weekOfMonth !== undefined && r.weekday !== undefined) {
+    const weekday = DAY_NAMES[r.weekday] ?? '?';
+    return r.weekOfMonth === -1
+      ? t('schedules.recurrence.lastWeekday').replace('{weekday}', weekday)
+      : t('schedules.recurrence.nthWeekday')
+        .replace('{nth}', String(r.weekOfMonth))
+        .replace('{weekday}', weekday);
+  }
+  return r.dayOfMonth === -1
+    ? t('schedules.recurrence.lastDay')
+    : t('schedules.recurrence.dayOfMonth').replace('{day}', String(r.dayOfMonth ?? '?'));
+}
+
 function formatRecurrence(s: Schedule): string {
   const r = s.recurrence;
   switch (r.type) {
@@ -61,12 +93,22 @@ function formatRecurrence(s: Schedule): string {
     case 'daily':
       return t('schedules.recurrence.daily').replace('{time}', r.time ?? '?');
     case 'weekly': {
-      const dayNames = ['', 'Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa', 'So'];
-      const days = (r.daysOfWeek ?? []).map(d => dayNames[d] ?? '?').join(', ');
+      const days = (r.daysOfWeek ?? []).map(d => DAY_NAMES[d] ?? '?').join(', ');
       return t('schedules.recurrence.weekly')
         .replace('{days}', days)
         .replace('{time}', r.time ?? '?');
     }
+    case 'monthly':
+      return t('schedules.recurrence.monthly')
+        .replace('{rule}', formatMonthDay(r))
+        .replace('{time}', r.time ?? '?');
+    case 'yearly':
+      return t('schedules.recurrence.yearly')
+        .replace('{rule}', formatMonthDay(r))
+        .replace('{month}', String(r.month ?? '?'))
+        .replace('{time}', r.time ?? '?');
+    case 'cron':
+      return t('schedules.recurrence.cron').replace('{cron}', r.cron ?? '?');
     default:
       return r.type;
   }
@@ -123,6 +165,34 @@ export function SchedulesScreen({ onBack, enabledSkillNames, isDark }: Schedules
     await loadSchedules();
   };
 
+  const handleSaveRecurrence = async (schedule: Schedule, patch: Partial<ScheduleRecurrence>) => {
+    const recurrence: ScheduleRecurrence = { ...schedule.recurrence, ...patch };
+    const error = validateRecurrence(recurrence);
+    if (error) {
+      Alert.alert(t('schedules.recurrence.invalid'), error);
+      return;
+    }
+    const updated: Schedule = {
+      ...schedule,
+      recurrence,
+      triggerAtMs: getNextOccurrence(recurrence, Date.now()) ?? schedule.triggerAtMs,
+    };
+    await SchedulerModule.setSchedule(JSON.stringify(updated));
+    await loadSchedules();
+  };
+
+  const handleSaveSteps = async (schedule: Schedule, steps: ScheduleStep[]) => {
+    // Keep a hand-written goal; refresh the instruction if it was derived from the steps
+    const derived = !schedule.steps?.length || schedule.instruction === summarizeSteps(schedule.steps);
+    const updated: Schedule = {
+      ...schedule,
+      steps: steps.length > 0 ? steps : undefined,
+      instruction: derived && steps.length > 0 ? summarizeSteps(steps) : schedule.instruction,
+    };
+    await SchedulerModule.setSchedule(JSON.stringify(updated));
+    await loadSchedules();
+  };
+
   const handleDelete = (schedule: Schedule) => {
     Alert.alert(
       t('schedules.delete.title'),
@@ -191,6 +261,9 @@ export function SchedulesScreen({ onBack, enabledSkillNames, isDark }: Schedules
                       </Text>
                       <Text className="text-label-secondary text-xs">
                         {formatDate(schedule.triggerAtMs)}
+                        {schedule.steps?.length
+                          ? ` · ${t('schedules.steps.count').replace('{count}', String(schedule.steps.length))}`
+                          : ''}
                       </Text>
                     </View>
                   </TouchableOpacity>
@@ -219,13 +292,27 @@ export function SchedulesScreen({ onBack, enabledSkillNames, isDark }: Schedules
                       labelWidth={128}
                     />
                     <EditableDetailRow
-                      label={t('schedules.detail.instruction')}
+                      label={
+                        schedule.steps?.length
+                          ? t('schedules.detail.goal')
+                          : t('schedules.detail.instruction')
+                      }
                       value={schedule.instruction}
                       onSave={v => handleSaveField(schedule, 'instruction', v)}
                       labelWidth={128}
                     />
+                    <StepsEditor
+                      schedule={schedule}
+                      onSave={steps => handleSaveSteps(schedule, steps)}
+                    />
                     <DetailRow label={t('schedules.detail.triggerAt')} value={formatDate(schedule.triggerAtMs)} />
                     <DetailRow label={t('schedules.detail.recurrence')} value={formatRecurrence(schedule)} />
+                    {schedule.recurrence.type !== 'once' && (
+                      <RecurrenceDetails
+                        schedule={schedule}
+                        onSave={patch => handleSaveRecurrence(schedule, patch)}
+                      />
+                    )}
                     <DetailRow
                       label={t('schedules.detail.status')}
                       value={schedule.enabled ? t('schedules.status.active') : t('schedules.status.disabled')}
@@ -256,3 +343,198 @@ function DetailRow({ label, value }: { label: string; value: string }): React.JS
     </View>
   );
 }
+
+// ─── RecurrenceDetails (rule, timezone, exclusions, preview) ─────────────────
+
+function RecurrenceDetails({
+  schedule,
+  onSave,
+}: {
+  schedule: Schedule;
+  onSave: (patch: Partial<ScheduleRecurrence>) => Promise<void>;
+}): React.JSX.Element {
+  const r = schedule.recurrence;
+  const timeZone = r.timezone ?? getDeviceTimeZone();
+  const upcoming = [schedule.triggerAtMs, ...getNextOccurrences(r, schedule.triggerAtMs, PREVIEW_COUNT - 1)];
+
+  const saveExcludeDates = (value: string) => {
+    const dates = value.split(/[\s,;]+/).filter(Boolean);
+    return onSave({ excludeDates: dates.length > 0 ? [...new Set(dates)].sort() : undefined });
+  };
+
+  return (
+    <>
+      {r.type === 'cron' && (
+        <EditableDetailRow
+          label={t('schedules.detail.cron')}
+          value={r.cron ?? ''}
+          onSave={v => onSave({ cron: v })}
+          labelWidth={128}
+        />
+      )}
+      <EditableDetailRow
+        label={t('schedules.detail.timezone')}
+        value={r.timezone ?? ''}
+        onSave={v => onSave({ timezone: v || undefined })}
+        labelWidth={128}
+        placeholder={t('schedules.detail.timezoneDevice').replace('{tz}', getDeviceTimeZone())}
+      />
+      <EditableDetailRow
+        label={t('schedules.detail.excludeDates')}
+        value={(r.excludeDates ?? []).join(', ')}
+        onSave={saveExcludeDates}
+        labelWidth={128}
+        placeholder={t('schedules.detail.excludeDatesNone')}
+      />
+      <DetailRow
+        label={t('schedules.detail.nextRuns')}
+        value={upcoming.map(ms => formatDate(ms, timeZone)).join('\n')}
+      />
+    </>
+  );
+}
+
+// ─── StepsEditor (multi-step workflow) ───────────────────────────────────────
+
+function StepsEditor({
+  schedule,
+  onSave,
+}: {
+  schedule: Schedule;
+  onSave: (steps: ScheduleStep[]) => Promise<void>;
+}): React.JSX.Element {
+  const [draft, setDraft] = useState('');
+  const steps = schedule.steps ?? [];
+
+  /** Save the steps; resolves to false (after an alert) if saving failed */
+  const save = (next: ScheduleStep[]): Promise<boolean> =>
+    onSave(next).then(
+      () => true,
+      err => {
+        Alert.alert(t('alert.error'), err instanceof Error ? err.message : String(err));
+        return false;
+      },
+    );
+
+  const update = async (index: number, patch: Partial<ScheduleStep>) => {
+    await save(steps.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    save(next);
+  };
+
+  const handleAdd = async () => {
+    const instruction = draft.trim();
+    if (!instruction) return;
+    // The first added step turns the single instruction into step 1
+    const base = steps.length > 0 ? steps : [{ instruction: schedule.instruction }];
+    if (await save([...base, { instruction }])) {
+      setDraft('');
+    }
+  };
+
+  return (
+    <View className="gap-2 mt-1">
+      {steps.length > 0 && (
+        <Text className="text-label-secondary text-xs font-semibold">
+          {t('schedules.steps.title').replace('{count}', String(steps.length))}
+        </Text>
+      )}
+
+      {steps.map((step, i) => (
+        <View key={`${i}-${step.instruction}`} className="bg-surface rounded-lg p-2 gap-1.5">
+          <View className="flex-row items-center gap-1">
+            <Text className="text-label-primary text-xs font-semibold flex-1">
+              {t('schedules.steps.step').replace('{index}', String(i + 1))}
+            </Text>
+            <SmallButton label="↑" onPress={() => move(i, -1)} disabled={i === 0} />
+            <SmallButton label="↓" onPress={() => move(i, 1)} disabled={i === steps.length - 1} />
+            <SmallButton
+              label="🗑️"
+              onPress={() => save(steps.filter((_, j) => j !== i))}
+              destructive
+            />
+          </View>
+          <EditableDetailRow
+            label={t('schedules.detail.instruction')}
+            value={step.instruction}
+            onSave={v => (v ? update(i, { instruction: v }) : undefined)}
+            labelWidth={96}
+          />
+          <EditableDetailRow
+            label={t('schedules.steps.condition')}
+            value={step.condition ?? ''}
+            onSave={v => update(i, { condition: v || undefined })}
+            labelWidth={96}
+            placeholder={t('schedules.steps.conditionNone')}
+          />
+          <View className="flex-row items-center gap-2">
+            <Text className="text-label-secondary text-xs w-24">
+              {t('schedules.steps.retries')}
+            </Text>
+            <SmallButton
+              label="−"
+              onPress={() => update(i, { maxRetries: Math.max(0, (step.maxRetries ?? 0) - 1) || undefined })}
+              disabled={!step.maxRetries}
+            />
+            <Text className="text-label-primary text-xs w-4 text-center">{step.maxRetries ?? 0}</Text>
+            <SmallButton
+              label="+"
+              onPress={() => update(i, { maxRetries: Math.min(MAX_STEP_RETRIES, (step.maxRetries ?? 0) + 1) })}
+              disabled={(step.maxRetries ?? 0) >= MAX_STEP_RETRIES}
+            />
+          </View>
+        </View>
+      ))}
+
+      {steps.length < MAX_STEPS && (
+        <View className="flex-row items-center gap-2">
+          <TextInput
+            className="text-label-primary text-xs flex-1 bg-surface rounded-lg px-2 py-1.5"
+            value={draft}
+            onChangeText={setDraft}
+            placeholder={t('schedules.steps.addPlaceholder')}
+            placeholderTextColor="#666"
+            multiline
+          />
+          <TouchableOpacity
+            onPress={handleAdd}
+            disabled={!draft.trim()}
+            activeOpacity={0.7}
+            className={`rounded-lg px-3 py-1.5 ${draft.trim() ? 'bg-accent' : 'bg-surface'}`}>
+            <Text className={`text-xs font-semibold ${draft.trim() ? 'text-white' : 'text-label-secondary'}`}>
+              {t('schedules.steps.add')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+function SmallButton({
+  label,
+  onPress,
+  disabled,
+  destructive,
+}: {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+  destructive?: boolean;
+}): React.JSX.Element {
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      disabled={disabled}
+      activeOpacity={0.7}
+      className={`w-6 h-6 rounded-full items-center justify-center ${destructive ? 'bg-red-500/15' : 'bg-accent/15'} ${disabled ? 'opacity-30' : ''}`}>
+      <Text className={`text-[11px] leading-none ${destructive ? 'text-red-400' : 'text-accent'}`}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
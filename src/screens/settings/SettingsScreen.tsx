@@ -6,7 +6,10 @@ import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import type { CredentialManager } from '../../permissions/credential-manager';
 import type { SkillInfo } from '../../agent/skill-loader';
-import type { TTSService } from '../../audio/tts-service';
+import type { SkillUpdate } from '../../agent/skill-package';
+import type { ToolConfirmationPolicy } from '../../agent/tool-confirmation';
+import type { STTMode } from '../../audio/stt-service';
+import type { TTSEngine, TTSService } from '../../audio/tts-service';
 import { CollapsibleSection } from './components/CollapsibleSection';
 import { EvidenceModal } from './components/EvidenceModal';
 import { useSkillCredentials } from './hooks/useSkillCredentials';
@@ -19,6 +22,7 @@ import { ServicesSection } from './sections/ServicesSection';
 import { SkillsSection } from './sections/SkillsSection';
 import { SoulSection } from './sections/SoulSection';
 import { SpeechSection } from './sections/SpeechSection';
+import { UsageSection } from './sections/UsageSection';
 import { WakeWordSection } from './sections/WakeWordSection';
 import { t } from '../../i18n';
 
@@ -31,12 +35,15 @@ type SectionId =
   | 'skills'
   | 'agent'
   | 'history'
+  | 'usage'
   | 'about';
 
 interface SettingsScreenProps {
   onBack: () => void;
   credentialManager: CredentialManager;
   allSkills: SkillInfo[];
+  /** Tools of the main agent (before removing tools of disabled skills) */
+  availableToolNames?: string[];
   enabledSkillNames: string[];
   skillAvailability: Record<string, boolean>;
   onToggleSkill: (skillName: string, enabled: boolean) => void;
@@ -44,8 +51,8 @@ interface SettingsScreenProps {
   onClaudeApiKeyChange: (key: string) => void;
   openAIApiKey: string;
   onOpenAIApiKeyChange: (key: string) => void;
-  selectedProvider: 'claude' | 'openai' | 'custom';
-  onProviderChange: (provider: 'claude' | 'openai' | 'custom') => void;
+  selectedProvider: 'claude' | 'openai' | 'custom' | 'local';
+  onProviderChange: (provider: 'claude' | 'openai' | 'custom' | 'local') => void;
   selectedOpenAIModel: string;
   onOpenAIModelChange: (model: string) => void;
   selectedClaudeModel: string;
@@ -56,15 +63,48 @@ interface SettingsScreenProps {
   onCustomModelUrlChange: (url: string) => void;
   customModelName: string;
   onCustomModelNameChange: (name: string) => void;
+  localModelUrl: string;
+  onLocalModelUrlChange: (url: string) => void;
+  localModelName: string;
+  onLocalModelNameChange: (name: string) => void;
   onTestConnection?: () => void;
+  providerFallbackEnabled: boolean;
+  onProviderFallbackEnabledChange: (enabled: boolean) => void;
   wakeWordEnabled: boolean;
   onWakeWordToggle: (enabled: boolean) => void;
   wakeWordKey: string;
   onWakeWordKeyChange: (key: string) => void;
+  voiceBargeIn: boolean;
+  onVoiceBargeInChange: (enabled: boolean) => void;
+  followUpWindowSeconds: number;
+  onFollowUpWindowSecondsChange: (seconds: number) => void;
   sttLanguage: 'system' | string;
   onSttLanguageChange: (language: 'system' | string) => void;
-  sttMode: 'auto' | 'offline' | 'online';
-  onSttModeChange: (mode: 'auto' | 'offline' | 'online') => void;
+  sttMode: STTMode;
+  onSttModeChange: (mode: STTMode) => void;
+  sttApiUrl: string;
+  onSttApiUrlChange: (url: string) => void;
+  sttApiKey: string;
+  onSttApiKeyChange: (key: string) => void;
+  sttApiModel: string;
+  onSttApiModelChange: (model: string) => void;
+  ttsEngine: TTSEngine;
+  onTtsEngineChange: (engine: TTSEngine) => void;
+  ttsVoice: string;
+  onTtsVoiceChange: (voice: string) => void;
+  ttsRate: number;
+  onTtsRateChange: (rate: number) => void;
+  ttsPitch: number;
+  onTtsPitchChange: (pitch: number) => void;
+  ttsApiUrl: string;
+  onTtsApiUrlChange: (url: string) => void;
+  ttsApiKey: string;
+  onTtsApiKeyChange: (key: string) => void;
+  ttsApiModel: string;
+  onTtsApiModelChange: (model: string) => void;
+  /** Voice declared in the SOUL text (wins over ttsVoice) */
+  personaVoice: string | null;
+  onPreviewVoice: () => void;
   appLanguage: 'system' | string;
   onAppLanguageChange: (lang: 'system' | string) => void;
   googleWebClientId: string;
@@ -97,6 +137,11 @@ interface SettingsScreenProps {
     content: string,
   ) => Promise<{ success: boolean; error?: string }>;
   onDeleteSkill?: (skillName: string) => Promise<void>;
+  onCheckSkillUpdate?: (skillName: string) => Promise<SkillUpdate | null>;
+  onInstallSkillUpdate?: (
+    skillName: string,
+    update: SkillUpdate,
+  ) => Promise<{ success: boolean; error?: string }>;
   dynamicSkillNames?: string[];
   onClearHistory?: () => void;
   maxIterations: number;
@@ -105,8 +150,12 @@ interface SettingsScreenProps {
   onMaxSubAgentIterationsChange: (value: number) => void;
   maxAccessibilityIterations: number;
   onMaxAccessibilityIterationsChange: (value: number) => void;
+  toolConfirmationPolicy: ToolConfirmationPolicy;
+  onToolConfirmationPolicyChange: (value: ToolConfirmationPolicy) => void;
   llmContextMaxMessages: number;
   onLlmContextMaxMessagesChange: (value: number) => void;
+  llmContextTokenBudget: number;
+  onLlmContextTokenBudgetChange: (value: number) => void;
   conversationHistoryMaxMessages: number;
   onConversationHistoryMaxMessagesChange: (value: number) => void;
   soulText: string;
@@ -124,6 +173,7 @@ export function SettingsScreen({
   onBack,
   credentialManager,
   allSkills,
+  availableToolNames,
   enabledSkillNames,
   skillAvailability,
   onToggleSkill,
@@ -143,15 +193,47 @@ export function SettingsScreen({
   onCustomModelUrlChange,
   customModelName,
   onCustomModelNameChange,
+  localModelUrl,
+  onLocalModelUrlChange,
+  localModelName,
+  onLocalModelNameChange,
   onTestConnection,
+  providerFallbackEnabled,
+  onProviderFallbackEnabledChange,
   wakeWordEnabled,
   onWakeWordToggle,
   wakeWordKey,
   onWakeWordKeyChange,
+  voiceBargeIn,
+  onVoiceBargeInChange,
+  followUpWindowSeconds,
+  onFollowUpWindowSecondsChange,
   sttLanguage,
   onSttLanguageChange,
   sttMode,
   onSttModeChange,
+  sttApiUrl,
+  onSttApiUrlChange,
+  sttApiKey,
+  onSttApiKeyChange,
+  sttApiModel,
+  onSttApiModelChange,
+  ttsEngine,
+  onTtsEngineChange,
+  ttsVoice,
+  onTtsVoiceChange,
+  ttsRate,
+  onTtsRateChange,
+  ttsPitch,
+  onTtsPitchChange,
+  ttsApiUrl,
+  onTtsApiUrlChange,
+  ttsApiKey,
+  onTtsApiKeyChange,
+  ttsApiModel,
+  onTtsApiModelChange,
+  personaVoice,
+  onPreviewVoice,
   appLanguage,
   onAppLanguageChange,
   googleWebClientId,
@@ -168,6 +250,8 @@ export function SettingsScreen({
   ttsService,
   onAddSkill,
   onDeleteSkill,
+  onCheckSkillUpdate,
+  onInstallSkillUpdate,
   dynamicSkillNames,
   onClearHistory,
   maxIterations,
@@ -176,8 +260,12 @@ export function SettingsScreen({
   onMaxSubAgentIterationsChange,
   maxAccessibilityIterations,
   onMaxAccessibilityIterationsChange,
+  toolConfirmationPolicy,
+  onToolConfirmationPolicyChange,
   llmContextMaxMessages,
   onLlmContextMaxMessagesChange,
+  llmContextTokenBudget,
+  onLlmContextTokenBudgetChange,
   conversationHistoryMaxMessages,
   onConversationHistoryMaxMessagesChange,
   soulText,
@@ -244,6 +332,28 @@ export function SettingsScreen({
             onSttLanguageChange={onSttLanguageChange}
             sttMode={sttMode}
             onSttModeChange={onSttModeChange}
+            sttApiUrl={sttApiUrl}
+            onSttApiUrlChange={onSttApiUrlChange}
+            sttApiKey={sttApiKey}
+            onSttApiKeyChange={onSttApiKeyChange}
+            sttApiModel={sttApiModel}
+            onSttApiModelChange={onSttApiModelChange}
+            ttsEngine={ttsEngine}
+            onTtsEngineChange={onTtsEngineChange}
+            ttsVoice={ttsVoice}
+            onTtsVoiceChange={onTtsVoiceChange}
+            ttsRate={ttsRate}
+            onTtsRateChange={onTtsRateChange}
+            ttsPitch={ttsPitch}
+            onTtsPitchChange={onTtsPitchChange}
+            ttsApiUrl={ttsApiUrl}
+            onTtsApiUrlChange={onTtsApiUrlChange}
+            ttsApiKey={ttsApiKey}
+            onTtsApiKeyChange={onTtsApiKeyChange}
+            ttsApiModel={ttsApiModel}
+            onTtsApiModelChange={onTtsApiModelChange}
+            personaVoice={personaVoice}
+            onPreviewVoice={onPreviewVoice}
             appLanguage={appLanguage}
             onAppLanguageChange={onAppLanguageChange}
           />
@@ -260,6 +370,10 @@ export function SettingsScreen({
             onWakeWordToggle={onWakeWordToggle}
             wakeWordKey={wakeWordKey}
             onWakeWordKeyChange={onWakeWordKeyChange}
+            voiceBargeIn={voiceBargeIn}
+            onVoiceBargeInChange={onVoiceBargeInChange}
+            followUpWindowSeconds={followUpWindowSeconds}
+            onFollowUpWindowSecondsChange={onFollowUpWindowSecondsChange}
           />
         </CollapsibleSection>
 
@@ -288,6 +402,7 @@ export function SettingsScreen({
         >
           <SkillsSection
             allSkills={allSkills}
+            availableToolNames={availableToolNames}
             enabledSkillNames={enabledSkillNames}
             skillAvailability={skillAvailability}
             onToggleSkill={onToggleSkill}
@@ -301,6 +416,8 @@ export function SettingsScreen({
             onTestSkill={onTestSkill}
             onAddSkill={onAddSkill}
             onDeleteSkill={onDeleteSkill}
+            onCheckSkillUpdate={onCheckSkillUpdate}
+            onInstallSkillUpdate={onInstallSkillUpdate}
             dynamicSkillNames={dynamicSkillNames}
           />
         </CollapsibleSection>
@@ -350,7 +467,13 @@ export function SettingsScreen({
             onCustomModelUrlChange={onCustomModelUrlChange}
             customModelName={customModelName}
             onCustomModelNameChange={onCustomModelNameChange}
+            localModelUrl={localModelUrl}
+            onLocalModelUrlChange={onLocalModelUrlChange}
+            localModelName={localModelName}
+            onLocalModelNameChange={onLocalModelNameChange}
             onTestConnection={onTestConnection}
+            providerFallbackEnabled={providerFallbackEnabled}
+            onProviderFallbackEnabledChange={onProviderFallbackEnabledChange}
           />
         </CollapsibleSection>
 
@@ -369,6 +492,8 @@ export function SettingsScreen({
             onMaxAccessibilityIterationsChange={
               onMaxAccessibilityIterationsChange
             }
+            toolConfirmationPolicy={toolConfirmationPolicy}
+            onToolConfirmationPolicyChange={onToolConfirmationPolicyChange}
           />
         </CollapsibleSection>
 
@@ -381,6 +506,8 @@ export function SettingsScreen({
           <HistorySection
             llmContextMaxMessages={llmContextMaxMessages}
             onLlmContextMaxMessagesChange={onLlmContextMaxMessagesChange}
+            llmContextTokenBudget={llmContextTokenBudget}
+            onLlmContextTokenBudgetChange={onLlmContextTokenBudgetChange}
             conversationHistoryMaxMessages={conversationHistoryMaxMessages}
             onConversationHistoryMaxMessagesChange={
               onConversationHistoryMaxMessagesChange
@@ -389,6 +516,15 @@ export function SettingsScreen({
           />
         </CollapsibleSection>
 
+        {/* Usage & Costs */}
+        <CollapsibleSection
+          title={t('settings.section.usage')}
+          expanded={openSection === 'usage'}
+          onToggle={() => handleSectionToggle('usage')}
+        >
+          <UsageSection />
+        </CollapsibleSection>
+
         {/* About */}
         <CollapsibleSection
           title={t('settings.section.about')}
@@ -1,20 +1,22 @@
 import React from 'react';
 import { Text, TouchableOpacity, View } from 'react-native';
 import { t } from '../../../i18n';
+import type { STTMode } from '../../../audio/stt-service';
 
 interface ModeSelectorProps {
-  value: 'auto' | 'offline' | 'online';
-  onChange: (mode: 'auto' | 'offline' | 'online') => void;
+  value: STTMode;
+  onChange: (mode: STTMode) => void;
 }
 
 export function ModeSelector({
   value,
   onChange,
 }: ModeSelectorProps): React.JSX.Element {
-  const modes: Array<{ value: 'auto' | 'offline' | 'online'; labelKey: string; descKey: string }> = [
+  const modes: Array<{ value: STTMode; labelKey: string; descKey: string }> = [
     { value: 'auto', labelKey: 'settings.speech.mode.auto', descKey: 'settings.speech.mode.auto.desc' },
     { value: 'offline', labelKey: 'settings.speech.mode.offline', descKey: 'settings.speech.mode.offline.desc' },
     { value: 'online', labelKey: 'settings.speech.mode.online', descKey: 'settings.speech.mode.online.desc' },
+    { value: 'api', labelKey: 'settings.speech.mode.api', descKey: 'settings.speech.mode.api.desc' },
   ];
 
   return (
@@ -22,12 +24,12 @@ export function ModeSelector({
       <Text className="text-label-secondary text-xs font-medium mb-3">
         {t('settings.speech.modeLabel')}
       </Text>
-      <View className="flex-row gap-2">
+      <View className="flex-row flex-wrap gap-2">
         {modes.map(mode => (
           <TouchableOpacity
             key={mode.value}
             onPress={() => onChange(mode.value)}
-            className={`flex-1 rounded-lg py-2.5 px-3 border ${
+            className={`flex-1 min-w-[45%] rounded-lg py-2.5 px-3 border ${
               value === mode.value
                 ? 'bg-accent border-accent'
                 : 'bg-surface-tertiary border-surface-tertiary'
@@ -40,7 +40,8 @@ export function ModelPicker({
   const [manualInput, setManualInput] = useState('');
 
   useEffect(() => {
-    if (!apiKey) {
+    // Keyless endpoints (local servers) are identified by their base URL
+    if (!apiKey && !baseUrl) {
       setModels([]);
       return;
     }
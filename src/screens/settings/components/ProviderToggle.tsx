@@ -3,8 +3,8 @@ import { Text, TouchableOpacity, View } from 'react-native';
 import { t } from '../../../i18n';
 
 interface ProviderToggleProps {
-  selected: 'claude' | 'openai' | 'custom';
-  onChange: (p: 'claude' | 'openai' | 'custom') => void;
+  selected: 'claude' | 'openai' | 'custom' | 'local';
+  onChange: (p: 'claude' | 'openai' | 'custom' | 'local') => void;
 }
 
 export function ProviderToggle({
@@ -14,7 +14,7 @@ export function ProviderToggle({
   return (
     <View className="m-3">
       <View className="flex-row gap-2">
-        {(['openai', 'claude', 'custom'] as const).map(p => {
+        {(['openai', 'claude', 'custom', 'local'] as const).map(p => {
           const isDisabled = p === 'claude';
           return (
             <TouchableOpacity
@@ -36,6 +36,8 @@ export function ProviderToggle({
                   ? '🤖 OpenAI'
                   : p === 'claude'
                   ? '🧠 Claude'
+                  : p === 'local'
+                  ? '🏠 Local'
                   : '⚙️ Custom'}
               </Text>
             </TouchableOpacity>
@@ -45,6 +47,8 @@ export function ProviderToggle({
       <Text className="text-xs text-label-secondary text-center mt-1">
         {selected === 'claude'
           ? t('settings.provider.claudeComingSoon')
+          : selected === 'local'
+          ? t('settings.provider.localDescription')
           : t('settings.provider.customDescription')}
       </Text>
     </View>
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { SettingRow } from './SettingRow';
+import { listNativeVoices } from '../../../audio/tts-service';
+import type { NativeVoice } from '../../../native/TTSModule';
+import { t } from '../../../i18n';
+
+interface VoicePickerProps {
+  /** Voice name, '' = automatic */
+  value: string;
+  onChange: (voice: string) => void;
+  /** App language – its voices are listed first */
+  language?: string;
+}
+
+/** Picks one of the installed Android voices (loaded when opened) */
+export function VoicePicker({ value, onChange, language }: VoicePickerProps): React.JSX.Element {
+  const [pickerVisible, setPickerVisible] = useState(false);
+  const [voices, setVoices] = useState<NativeVoice[] | null>(null);
+
+  const open = () => {
+    setPickerVisible(true);
+    listNativeVoices(language)
+      .then(setVoices)
+      .catch(() => setVoices([]));
+  };
+
+  const select = (voice: string) => {
+    onChange(voice);
+    setPickerVisible(false);
+  };
+
+  return (
+    <>
+      <SettingRow
+        label={t('settings.speech.tts.voice')}
+        description={t('settings.speech.tts.voice.description')}>
+        <TouchableOpacity
+          onPress={open}
+          className="bg-surface-tertiary rounded-lg px-3 py-2 min-w-[140px] max-w-[180px]">
+          <Text className="text-label-primary text-sm text-right" numberOfLines={1}>
+            {value || t('settings.speech.tts.voice.auto')}
+          </Text>
+        </TouchableOpacity>
+      </SettingRow>
+
+      <Modal
+        visible={pickerVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPickerVisible(false)}>
+        <TouchableOpacity
+          className="flex-1 bg-black/50 justify-center items-center"
+          activeOpacity={1}
+          onPress={() => setPickerVisible(false)}>
+          <TouchableOpacity
+            className="bg-surface-elevated rounded-xl w-[85%] max-w-[420px] overflow-hidden"
+            activeOpacity={1}
+            onPress={() => {}}>
+            <View className="p-4 border-b border-surface-tertiary flex-row items-center justify-between">
+              <Text className="text-label-primary text-lg font-bold flex-1">
+                {t('settings.speech.tts.voice.pickTitle')}
+              </Text>
+              <TouchableOpacity onPress={() => setPickerVisible(false)} className="p-1">
+                <Text className="text-accent text-sm font-medium">{t('evidence.close')}</Text>
+              </TouchableOpacity>
+            </View>
+            <ScrollView className="max-h-[420px]">
+              <TouchableOpacity className="p-4 border-b border-surface-tertiary" onPress={() => select('')}>
+                <Text className={`text-[15px] ${value === '' ? 'text-accent font-semibold' : 'text-label-primary'}`}>
+                  {t('settings.speech.tts.voice.auto')}
+                </Text>
+              </TouchableOpacity>
+              {voices === null ? (
+                <ActivityIndicator className="my-6" color="#007AFF" />
+              ) : (
+                voices.map(voice => (
+                  <TouchableOpacity
+                    key={voice.name}
+                    className="p-4 border-b border-surface-tertiary"
+                    onPress={() => select(voice.name)}>
+                    <Text
+                      className={`text-[15px] ${
+                        value === voice.name ? 'text-accent font-semibold' : 'text-label-primary'
+                      }`}>
+                      {voice.name}
+                    </Text>
+                    <Text className="text-label-secondary text-[12px] mt-0.5">
+                      {voice.locale}
+                      {voice.networkRequired ? ` · ${t('settings.speech.tts.voice.online')}` : ''}
+                    </Text>
+                  </TouchableOpacity>
+                ))
+              )}
+            </ScrollView>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+}
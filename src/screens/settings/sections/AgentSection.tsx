@@ -1,6 +1,7 @@
 import React from 'react';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import { t } from '../../../i18n';
+import type { ToolConfirmationPolicy } from '../../../agent/tool-confirmation';
+import { t, type TranslationKey } from '../../../i18n';
 
 interface AgentSectionProps {
   maxIterations: number;
@@ -9,8 +10,17 @@ interface AgentSectionProps {
   onMaxSubAgentIterationsChange: (value: number) => void;
   maxAccessibilityIterations: number;
   onMaxAccessibilityIterationsChange: (value: number) => void;
+  toolConfirmationPolicy: ToolConfirmationPolicy;
+  onToolConfirmationPolicyChange: (value: ToolConfirmationPolicy) => void;
 }
 
+const CONFIRMATION_POLICIES: Array<{ value: ToolConfirmationPolicy; labelKey: TranslationKey }> = [
+  { value: 'app', labelKey: 'settings.agent.confirmation.app' },
+  { value: 'always', labelKey: 'settings.agent.confirmation.always' },
+  { value: 'driving', labelKey: 'settings.agent.confirmation.driving' },
+  { value: 'never', labelKey: 'settings.agent.confirmation.never' },
+];
+
 function IterationStepper({
   label,
   description,
@@ -81,6 +91,8 @@ export function AgentSection({
   onMaxSubAgentIterationsChange,
   maxAccessibilityIterations,
   onMaxAccessibilityIterationsChange,
+  toolConfirmationPolicy,
+  onToolConfirmationPolicyChange,
 }: AgentSectionProps): React.JSX.Element {
   return (
     <>
@@ -115,6 +127,40 @@ export function AgentSection({
         onChange={onMaxAccessibilityIterationsChange}
         min={6}
       />
+
+      {/* Confirmation policy for risky tool calls (SMS, email, calls, …) */}
+      <View className="p-4">
+        <Text className="text-label-primary text-[15px] font-medium">
+          {t('settings.agent.confirmation.label')}
+        </Text>
+        <Text className="text-label-secondary text-[12px] mt-0.5 mb-3">
+          {t('settings.agent.confirmation.desc')}
+        </Text>
+        <View className="flex-row gap-2">
+          {CONFIRMATION_POLICIES.map(policy => (
+            <TouchableOpacity
+              key={policy.value}
+              onPress={() => onToolConfirmationPolicyChange(policy.value)}
+              className={`flex-1 rounded-lg py-2.5 px-3 border ${
+                toolConfirmationPolicy === policy.value
+                  ? 'bg-accent border-accent'
+                  : 'bg-surface-tertiary border-surface-tertiary'
+              }`}>
+              <Text
+                className={`text-sm font-medium text-center ${
+                  toolConfirmationPolicy === policy.value ? 'text-white' : 'text-label-primary'
+                }`}>
+                {t(policy.labelKey)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {toolConfirmationPolicy === 'never' && (
+          <Text className="text-accent-orange text-[11px] mt-2">
+            {t('settings.agent.confirmation.neverWarning')}
+          </Text>
+        )}
+      </View>
     </>
   );
 }
@@ -5,6 +5,8 @@ import { t } from '../../../i18n';
 interface HistorySectionProps {
   llmContextMaxMessages: number;
   onLlmContextMaxMessagesChange: (value: number) => void;
+  llmContextTokenBudget: number;
+  onLlmContextTokenBudgetChange: (value: number) => void;
   conversationHistoryMaxMessages: number;
   onConversationHistoryMaxMessagesChange: (value: number) => void;
   onClearHistory?: () => void;
@@ -17,6 +19,8 @@ function HistoryStepper({
   onChange,
   min,
   max,
+  step = 1,
+  format = String,
 }: {
   label: string;
   description: string;
@@ -24,6 +28,8 @@ function HistoryStepper({
   onChange: (v: number) => void;
   min: number;
   max: number;
+  step?: number;
+  format?: (v: number) => string;
 }): React.JSX.Element {
   return (
     <View
@@ -37,7 +43,7 @@ function HistoryStepper({
 
         <View className="flex-row items-center gap-1">
           <TouchableOpacity
-            onPress={() => onChange(Math.max(min, value - 1))}
+            onPress={() => onChange(Math.max(min, value - step))}
             disabled={value <= min}
             className="w-8 h-8 rounded-full bg-surface-tertiary items-center justify-center"
             activeOpacity={0.7}>
@@ -49,11 +55,11 @@ function HistoryStepper({
           <Text
             className="text-label-primary text-base font-semibold text-center"
             style={{ width: 40 }}>
-            {value}
+            {format(value)}
           </Text>
 
           <TouchableOpacity
-            onPress={() => onChange(Math.min(max, value + 1))}
+            onPress={() => onChange(Math.min(max, value + step))}
             disabled={value >= max}
             className="w-8 h-8 rounded-full bg-surface-tertiary items-center justify-center"
             activeOpacity={0.7}>
@@ -70,6 +76,8 @@ function HistoryStepper({
 export function HistorySection({
   llmContextMaxMessages,
   onLlmContextMaxMessagesChange,
+  llmContextTokenBudget,
+  onLlmContextTokenBudgetChange,
   conversationHistoryMaxMessages,
   onConversationHistoryMaxMessagesChange,
   onClearHistory,
@@ -108,6 +116,17 @@ export function HistorySection({
         max={200}
       />
 
+      <HistoryStepper
+        label={t('settings.history.tokenBudgetLabel')}
+        description={t('settings.history.tokenBudgetDesc')}
+        value={llmContextTokenBudget}
+        onChange={onLlmContextTokenBudgetChange}
+        min={2000}
+        max={64000}
+        step={1000}
+        format={v => `${v / 1000}k`}
+      />
+
       <HistoryStepper
         label={t('settings.history.conversationHistoryLabel')}
         description={t('settings.history.conversationHistoryDesc')}
@@ -1,18 +1,20 @@
 import React, { useState } from 'react';
-import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+import { ActivityIndicator, Switch, Text, TouchableOpacity, View } from 'react-native';
 import { ApiKeyInput } from '../components/ApiKeyInput';
 import { ModelPicker } from '../components/ModelPicker';
 import { ProviderToggle } from '../components/ProviderToggle';
+import { SettingRow } from '../components/SettingRow';
 import {
   fetchClaudeModels,
   fetchCustomModels,
+  fetchLocalModels,
   fetchOpenAIModels,
 } from '../../../llm/model-list';
 import { t } from '../../../i18n';
 
 interface ProviderSectionProps {
-  selectedProvider: 'claude' | 'openai' | 'custom';
-  onProviderChange: (provider: 'claude' | 'openai' | 'custom') => void;
+  selectedProvider: 'claude' | 'openai' | 'custom' | 'local';
+  onProviderChange: (provider: 'claude' | 'openai' | 'custom' | 'local') => void;
   claudeApiKey: string;
   onClaudeApiKeyChange: (key: string) => void;
   openAIApiKey: string;
@@ -27,7 +29,13 @@ interface ProviderSectionProps {
   onCustomModelUrlChange: (url: string) => void;
   customModelName: string;
   onCustomModelNameChange: (name: string) => void;
+  localModelUrl: string;
+  onLocalModelUrlChange: (url: string) => void;
+  localModelName: string;
+  onLocalModelNameChange: (name: string) => void;
   onTestConnection?: () => void;
+  providerFallbackEnabled: boolean;
+  onProviderFallbackEnabledChange: (enabled: boolean) => void;
 }
 
 export function ProviderSection({
@@ -47,7 +55,13 @@ export function ProviderSection({
   onCustomModelUrlChange,
   customModelName,
   onCustomModelNameChange,
+  localModelUrl,
+  onLocalModelUrlChange,
+  localModelName,
+  onLocalModelNameChange,
   onTestConnection,
+  providerFallbackEnabled,
+  onProviderFallbackEnabledChange,
 }: ProviderSectionProps): React.JSX.Element {
   return (
     <>
@@ -141,13 +155,56 @@ export function ProviderSection({
           </View>
         </>
       )}
+      {selectedProvider === 'local' && (
+        <>
+          <ApiKeyInput
+            label={t('settings.provider.localServerUrl')}
+            value={localModelUrl}
+            onChange={onLocalModelUrlChange}
+            placeholder="http://192.168.1.10:11434"
+            visible={selectedProvider === 'local'}
+            secureTextEntry={false}
+          />
+          <ModelPicker
+            label={t('settings.provider.localModel')}
+            apiKey=""
+            selectedModel={localModelName}
+            onModelChange={onLocalModelNameChange}
+            fetchModels={fetchLocalModels}
+            defaultModel="llama3.1:8b"
+            allowManualInput
+            baseUrl={localModelUrl}
+          />
+          <Text className="text-label-tertiary text-[11px] mx-4 mt-2">
+            {t('settings.provider.localHint')}
+          </Text>
+          <View className="mt-3 mx-4 mb-4">
+            <ConnectionTest
+              onTest={onTestConnection}
+              modelName={localModelName}
+              url={localModelUrl}
+            />
+          </View>
+        </>
+      )}
+      <SettingRow
+        label={t('settings.provider.fallback')}
+        description={t('settings.provider.fallbackDesc')}>
+        <Switch
+          value={providerFallbackEnabled}
+          onValueChange={onProviderFallbackEnabledChange}
+          trackColor={{ false: '#3A3A3C', true: '#007AFF' }}
+          thumbColor="#FFFFFF"
+        />
+      </SettingRow>
     </>
   );
 }
 
 interface ConnectionTestProps {
   onTest?: () => void;
-  apiKey: string;
+  /** Omitted for providers that need no key (local servers) */
+  apiKey?: string;
   modelName: string;
   url?: string;
 }
@@ -160,9 +217,9 @@ function ConnectionTest({
 }: ConnectionTestProps): React.JSX.Element | null {
   const [testing, setTesting] = useState(false);
 
-  // For custom provider, require URL; for others, just API key and model
+  // For custom/local provider, require URL; for others, just API key and model
   const canTest =
-    apiKey.trim() !== '' &&
+    (apiKey === undefined || apiKey.trim() !== '') &&
     modelName.trim() !== '' &&
     (url === undefined || url.trim() !== '') &&
     onTest !== undefined;
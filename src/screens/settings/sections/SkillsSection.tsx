@@ -12,6 +12,9 @@ import {
 import { pick, types, errorCodes, isErrorWithCode } from '@react-native-documents/picker';
 import type { CredentialManager } from '../../../permissions/credential-manager';
 import type { SkillInfo } from '../../../agent/skill-loader';
+import type { SkillUpdate } from '../../../agent/skill-package';
+import { getUnmetRequirements, type UnmetRequirement } from '../../../agent/skill-requirements';
+import { MarkdownText } from '../../../components/MarkdownText';
 import { SettingRow } from '../components/SettingRow';
 import { useNotificationAccess } from '../hooks/useNotificationAccess';
 import { t } from '../../../i18n';
@@ -29,8 +32,28 @@ const CATEGORY_TRANSLATION_KEY: Record<SkillCategory, TranslationKey> = {
   other: 'settings.skills.category.other',
 };
 
+/** One line per unmet requirement of a skill */
+function describeUnmet(req: UnmetRequirement): string {
+  switch (req.type) {
+    case 'tool':
+      return t('settings.skills.unmet.tool').replace('{name}', req.name);
+    case 'skill':
+      return t(
+        req.reason === 'missing'
+          ? 'settings.skills.unmet.skillMissing'
+          : req.reason === 'disabled'
+            ? 'settings.skills.unmet.skillDisabled'
+            : 'settings.skills.unmet.skillUnavailable',
+      ).replace('{name}', req.name);
+    case 'app_version':
+      return t('settings.skills.unmet.appVersion').replace('{version}', req.version);
+  }
+}
+
 interface SkillsSectionProps {
   allSkills: SkillInfo[];
+  /** Tools of the main agent – used to explain unmet tool requirements */
+  availableToolNames?: string[];
   enabledSkillNames: string[];
   skillAvailability: Record<string, boolean>;
   onToggleSkill: (skillName: string, enabled: boolean) => void;
@@ -75,16 +98,24 @@ interface SkillsSectionProps {
       iterations: number;
     };
   }>;
-  /** Called when user picks and confirms a SKILL.md upload. */
+  /** Called when user picks a SKILL.md or skill package (JSON) to upload. */
   onAddSkill?: (content: string) => Promise<{ success: boolean; error?: string }>;
   /** Called when user confirms deletion of a dynamic (uploaded) skill. */
   onDeleteSkill?: (skillName: string) => Promise<void>;
+  /** Check the source_url of a dynamic skill – null if it is up to date. */
+  onCheckSkillUpdate?: (skillName: string) => Promise<SkillUpdate | null>;
+  /** Install an update found by onCheckSkillUpdate. */
+  onInstallSkillUpdate?: (
+    skillName: string,
+    update: SkillUpdate,
+  ) => Promise<{ success: boolean; error?: string }>;
   /** Names of dynamically uploaded skills (for delete button visibility). */
   dynamicSkillNames?: string[];
 }
 
 export function SkillsSection({
   allSkills,
+  availableToolNames,
   enabledSkillNames,
   skillAvailability,
   onToggleSkill,
@@ -98,10 +129,16 @@ export function SkillsSection({
   onTestSkill,
   onAddSkill,
   onDeleteSkill,
+  onCheckSkillUpdate,
+  onInstallSkillUpdate,
   dynamicSkillNames = [],
 }: SkillsSectionProps): React.JSX.Element {
   const [showOnlyInstalled, setShowOnlyInstalled] = useState(true);
   const [uploading, setUploading] = useState(false);
+  const [checkingUpdates, setCheckingUpdates] = useState(false);
+  const [skillUpdates, setSkillUpdates] = useState<Record<string, SkillUpdate>>({});
+  const [updatingSkill, setUpdatingSkill] = useState<string | null>(null);
+  const [changelogSkill, setChangelogSkill] = useState<string | null>(null);
   const [showHintsModal, setShowHintsModal] = useState(false);
   const { notificationAccessGranted, handleOpenNotificationSettings } =
     useNotificationAccess(enabledSkillNames);
@@ -158,7 +195,7 @@ export function SkillsSection({
       // pick() with mode:'import' copies the file into the app cache –
       // the returned uri is a local file:// path readable via fetch()
       const [result] = await pick({
-        type: [types.plainText, 'text/markdown'],
+        type: [types.plainText, 'text/markdown', types.json],
         mode: 'import',
       });
 
@@ -191,6 +228,64 @@ export function SkillsSection({
     }
   }, [onAddSkill]);
 
+  /** Skills that can be checked for updates: uploaded, with version and source_url */
+  const updatableSkills = allSkills.filter(
+    s => dynamicSkillNames.includes(s.name) && !!s.version && !!s.sourceUrl,
+  );
+
+  /** Check all updatable skills one after another and report the result */
+  const handleCheckUpdates = useCallback(async () => {
+    if (!onCheckSkillUpdate) return;
+    setCheckingUpdates(true);
+    const found: Record<string, SkillUpdate> = {};
+    const errors: string[] = [];
+    for (const skill of updatableSkills) {
+      try {
+        const update = await onCheckSkillUpdate(skill.name);
+        if (update) found[skill.name] = update;
+      } catch (err) {
+        errors.push(`${skill.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    setSkillUpdates(found);
+    setCheckingUpdates(false);
+
+    if (errors.length > 0) {
+      Alert.alert(t('settings.skills.updates.checkFailed'), errors.join('\n'));
+    } else if (Object.keys(found).length === 0) {
+      Alert.alert(t('settings.skills.updates.upToDate.title'), t('settings.skills.updates.upToDate.message'));
+    }
+  }, [onCheckSkillUpdate, updatableSkills]);
+
+  /** Install the update found for a skill */
+  const handleInstallUpdate = useCallback(
+    async (skill: SkillInfo) => {
+      const update = skillUpdates[skill.name];
+      if (!update || !onInstallSkillUpdate) return;
+      setUpdatingSkill(skill.name);
+      try {
+        const outcome = await onInstallSkillUpdate(skill.name, update);
+        if (outcome.success) {
+          setSkillUpdates(prev => {
+            const next = { ...prev };
+            delete next[skill.name];
+            return next;
+          });
+        } else {
+          Alert.alert(t('settings.skills.updates.installFailed'), outcome.error ?? '');
+        }
+      } catch (err) {
+        Alert.alert(
+          t('settings.skills.updates.installFailed'),
+          err instanceof Error ? err.message : String(err),
+        );
+      } finally {
+        setUpdatingSkill(null);
+      }
+    },
+    [skillUpdates, onInstallSkillUpdate],
+  );
+
   /** Confirm and delete a dynamic skill */
   const handleDeleteSkill = useCallback(
     (skill: SkillInfo) => {
@@ -231,6 +326,15 @@ export function SkillsSection({
           : 'config';
 
     const isDynamic = dynamicSkillNames.includes(skill.name);
+    const update = skillUpdates[skill.name];
+    // Changelog of the available update, otherwise of the installed package
+    const changelog = update?.package.changelog ?? skill.changelog;
+    const fileCount = Object.keys(skill.files).length;
+    const unmet = getUnmetRequirements(skill, {
+      skills: allSkills,
+      enabledSkillNames,
+      availableToolNames,
+    });
 
     const hasOAuthOnly = skill.credentials.some(c => c.type === 'oauth');
     const showConnectIcon = isEnabled && isInstalled && hasOAuthOnly && !isConfigured;
@@ -256,6 +360,13 @@ export function SkillsSection({
                 <Text className="text-[10px] font-semibold text-blue-400">custom</Text>
               </View>
             )}
+            {skill.version && (
+              <View className="px-2 py-0.5 rounded-full bg-surface-tertiary">
+                <Text className="text-[10px] font-semibold text-label-secondary">
+                  {t('settings.skills.version').replace('{version}', skill.version)}
+                </Text>
+              </View>
+            )}
             {!isInstalled ? (
               <View className="px-2 py-0.5 rounded-full bg-red-500/20">
                 <Text className="text-[10px] font-semibold text-red-400">
@@ -264,6 +375,12 @@ export function SkillsSection({
                     : t('settings.skills.badge.notInstalled')}
                 </Text>
               </View>
+            ) : unmet.length > 0 ? (
+              <View className="px-2 py-0.5 rounded-full bg-orange-500/15">
+                <Text className="text-[10px] font-semibold text-orange-400">
+                  {t('settings.skills.badge.unmet')}
+                </Text>
+              </View>
             ) : isEnabled && hasCredentials ? (
               <View
                 className={`px-2 py-0.5 rounded-full ${
@@ -352,6 +469,51 @@ export function SkillsSection({
         {/* Row 2: Description */}
         <Text className="text-label-secondary text-xs mt-1">{skill.description}</Text>
 
+        {/* Row 2.5: Package – update, changelog, reference files */}
+        {update && (
+          <View className="flex-row items-center gap-2 mt-2">
+            <Text className="text-accent text-[11px] font-semibold flex-1">
+              {t('settings.skills.updates.available').replace('{version}', update.version)}
+            </Text>
+            <TouchableOpacity
+              className="px-3 py-1 rounded-lg bg-accent"
+              onPress={() => handleInstallUpdate(skill)}
+              disabled={updatingSkill !== null}>
+              {updatingSkill === skill.name ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text className="text-white text-[11px] font-medium">
+                  {t('settings.skills.updates.install')}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+        {(!!changelog || fileCount > 0) && (
+          <View className="flex-row items-center gap-3 mt-1">
+            {!!changelog && (
+              <TouchableOpacity
+                onPress={() => setChangelogSkill(changelogSkill === skill.name ? null : skill.name)}>
+                <Text className="text-accent text-[11px]">
+                  {changelogSkill === skill.name
+                    ? t('settings.skills.changelog.hide')
+                    : t('settings.skills.changelog.show')}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {fileCount > 0 && (
+              <Text className="text-label-tertiary text-[11px]">
+                {t('settings.skills.files').replace('{count}', String(fileCount))}
+              </Text>
+            )}
+          </View>
+        )}
+        {changelogSkill === skill.name && !!changelog && (
+          <View className="mt-2 p-3 rounded-lg bg-surface-tertiary">
+            <MarkdownText>{changelog}</MarkdownText>
+          </View>
+        )}
+
         {/* Row 3: Not-available hint */}
         {notInstalledReason === 'app' && (
           <Text className="text-label-tertiary text-[11px] mt-1">
@@ -364,6 +526,18 @@ export function SkillsSection({
           </Text>
         )}
 
+        {/* Row 3.2: Unmet requirements – the agent does not see this skill */}
+        {isInstalled && unmet.length > 0 && (
+          <View className="mt-1">
+            {unmet.map(req => (
+              <Text key={`${req.type}:${'name' in req ? req.name : req.version}`} className="text-orange-400 text-[11px]">
+                ⚠ {describeUnmet(req)}
+              </Text>
+            ))}
+            <Text className="text-label-tertiary text-[11px]">{t('settings.skills.unmet.hint')}</Text>
+          </View>
+        )}
+
         {/* Row 3.5: Notification access status (for notifications skill) */}
         {skill.name === 'notifications' && isEnabled && Platform.OS === 'android' && (
           <View className="mt-2">
@@ -431,8 +605,22 @@ export function SkillsSection({
             )}
           </TouchableOpacity>
           <Text className="text-label-tertiary text-[11px] mt-1 text-center">
-            Select a SKILL.md file from your device
+            Select a SKILL.md file or a skill package (.json) from your device
           </Text>
+          {onCheckSkillUpdate && updatableSkills.length > 0 && (
+            <TouchableOpacity
+              className="flex-row items-center justify-center gap-2 py-2 px-4 mt-2 rounded-xl bg-surface-elevated"
+              onPress={handleCheckUpdates}
+              disabled={checkingUpdates}>
+              {checkingUpdates ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text className="text-accent text-sm font-semibold">
+                  {t('settings.skills.updates.check')}
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
         </View>
       )}
 
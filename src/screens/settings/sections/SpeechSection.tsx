@@ -1,14 +1,101 @@
 import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { t, type TranslationKey } from '../../../i18n';
+import type { STTMode } from '../../../audio/stt-service';
+import { isNativeVoiceName, type TTSEngine } from '../../../audio/tts-service';
+import {
+  DEFAULT_TRANSCRIPTION_MODEL,
+  DEFAULT_TRANSCRIPTION_URL,
+} from '../../../audio/transcription-stt-backend';
+import {
+  DEFAULT_SPEECH_MODEL,
+  DEFAULT_SPEECH_URL,
+  DEFAULT_SPEECH_VOICE,
+} from '../../../audio/http-tts-backend';
+import { ApiKeyInput } from '../components/ApiKeyInput';
 import { LanguagePicker } from '../components/LanguagePicker';
 import { ModeSelector } from '../components/ModeSelector';
+import { VoicePicker } from '../components/VoicePicker';
 
 interface SpeechSectionProps {
   sttLanguage: 'system' | string;
   onSttLanguageChange: (language: 'system' | string) => void;
-  sttMode: 'auto' | 'offline' | 'online';
-  onSttModeChange: (mode: 'auto' | 'offline' | 'online') => void;
+  sttMode: STTMode;
+  onSttModeChange: (mode: STTMode) => void;
+  sttApiUrl: string;
+  onSttApiUrlChange: (url: string) => void;
+  sttApiKey: string;
+  onSttApiKeyChange: (key: string) => void;
+  sttApiModel: string;
+  onSttApiModelChange: (model: string) => void;
   appLanguage: 'system' | string;
   onAppLanguageChange: (lang: 'system' | string) => void;
+  ttsEngine: TTSEngine;
+  onTtsEngineChange: (engine: TTSEngine) => void;
+  ttsVoice: string;
+  onTtsVoiceChange: (voice: string) => void;
+  ttsRate: number;
+  onTtsRateChange: (rate: number) => void;
+  ttsPitch: number;
+  onTtsPitchChange: (pitch: number) => void;
+  ttsApiUrl: string;
+  onTtsApiUrlChange: (url: string) => void;
+  ttsApiKey: string;
+  onTtsApiKeyChange: (key: string) => void;
+  ttsApiModel: string;
+  onTtsApiModelChange: (model: string) => void;
+  /** Voice declared in the SOUL text (wins over ttsVoice) */
+  personaVoice: string | null;
+  onPreviewVoice: () => void;
+}
+
+const TTS_ENGINES: Array<{ value: TTSEngine; labelKey: TranslationKey }> = [
+  { value: 'android', labelKey: 'settings.speech.tts.engine.android' },
+  { value: 'http', labelKey: 'settings.speech.tts.engine.http' },
+];
+
+/** −/+ stepper for rate and pitch (0.5× – 2.0× in steps of 0.1) */
+function FactorStepper({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (v: number) => void;
+}): React.JSX.Element {
+  const step = (delta: number) =>
+    onChange(Math.min(2, Math.max(0.5, Math.round((value + delta) * 10) / 10)));
+  return (
+    <View
+      className="px-4 py-3 border-b border-surface-tertiary flex-row items-center justify-between"
+      style={{ borderBottomWidth: StyleSheet.hairlineWidth }}>
+      <Text className="text-label-primary text-[15px] font-medium">{label}</Text>
+      <View className="flex-row items-center gap-1">
+        <TouchableOpacity
+          onPress={() => step(-0.1)}
+          disabled={value <= 0.5}
+          className="w-8 h-8 rounded-full bg-surface-tertiary items-center justify-center"
+          activeOpacity={0.7}>
+          <Text className="text-label-primary text-lg font-bold leading-[22px]">
+            −
+          </Text>
+        </TouchableOpacity>
+        <Text className="text-label-primary text-base font-semibold text-center w-12">
+          {`${value.toFixed(1)}×`}
+        </Text>
+        <TouchableOpacity
+          onPress={() => step(0.1)}
+          disabled={value >= 2}
+          className="w-8 h-8 rounded-full bg-surface-tertiary items-center justify-center"
+          activeOpacity={0.7}>
+          <Text className="text-label-primary text-lg font-bold leading-[22px]">
+            +
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
 }
 
 export function SpeechSection({
@@ -16,8 +103,30 @@ export function SpeechSection({
   onSttLanguageChange,
   sttMode,
   onSttModeChange,
+  sttApiUrl,
+  onSttApiUrlChange,
+  sttApiKey,
+  onSttApiKeyChange,
+  sttApiModel,
+  onSttApiModelChange,
   appLanguage,
   onAppLanguageChange,
+  ttsEngine,
+  onTtsEngineChange,
+  ttsVoice,
+  onTtsVoiceChange,
+  ttsRate,
+  onTtsRateChange,
+  ttsPitch,
+  onTtsPitchChange,
+  ttsApiUrl,
+  onTtsApiUrlChange,
+  ttsApiKey,
+  onTtsApiKeyChange,
+  ttsApiModel,
+  onTtsApiModelChange,
+  personaVoice,
+  onPreviewVoice,
 }: SpeechSectionProps): React.JSX.Element {
   return (
     <>
@@ -30,6 +139,130 @@ export function SpeechSection({
         }}
       />
       <ModeSelector value={sttMode} onChange={onSttModeChange} />
+      {sttMode === 'api' && (
+        <>
+          <ApiKeyInput
+            label={t('settings.speech.api.url')}
+            value={sttApiUrl}
+            onChange={onSttApiUrlChange}
+            placeholder={DEFAULT_TRANSCRIPTION_URL}
+            visible
+            secureTextEntry={false}
+          />
+          <ApiKeyInput
+            label={t('settings.speech.api.key')}
+            value={sttApiKey}
+            onChange={onSttApiKeyChange}
+            placeholder={t('settings.speech.api.keyPlaceholder')}
+            visible
+          />
+          <ApiKeyInput
+            label={t('settings.speech.api.model')}
+            value={sttApiModel}
+            onChange={onSttApiModelChange}
+            placeholder={DEFAULT_TRANSCRIPTION_MODEL}
+            visible
+            secureTextEntry={false}
+          />
+          <Text className="text-label-tertiary text-[11px] mx-4 mt-2 mb-4">
+            {t('settings.speech.api.hint')}
+          </Text>
+        </>
+      )}
+
+      {/* Voice: engine, voice, rate and pitch */}
+      <View className="p-4 border-t border-surface-tertiary">
+        <Text className="text-label-secondary text-xs font-medium mb-3">
+          {t('settings.speech.tts.engineLabel')}
+        </Text>
+        <View className="flex-row gap-2">
+          {TTS_ENGINES.map(engine => (
+            <TouchableOpacity
+              key={engine.value}
+              onPress={() => onTtsEngineChange(engine.value)}
+              className={`flex-1 rounded-lg py-2.5 px-3 border ${
+                ttsEngine === engine.value
+                  ? 'bg-accent border-accent'
+                  : 'bg-surface-tertiary border-surface-tertiary'
+              }`}>
+              <Text
+                className={`text-sm font-medium text-center ${
+                  ttsEngine === engine.value ? 'text-white' : 'text-label-primary'
+                }`}>
+                {t(engine.labelKey)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+      {ttsEngine === 'http' ? (
+        <>
+          <ApiKeyInput
+            label={t('settings.speech.tts.api.url')}
+            value={ttsApiUrl}
+            onChange={onTtsApiUrlChange}
+            placeholder={DEFAULT_SPEECH_URL}
+            visible
+            secureTextEntry={false}
+          />
+          <ApiKeyInput
+            label={t('settings.speech.tts.api.key')}
+            value={ttsApiKey}
+            onChange={onTtsApiKeyChange}
+            placeholder={t('settings.speech.api.keyPlaceholder')}
+            visible
+          />
+          <ApiKeyInput
+            label={t('settings.speech.tts.api.model')}
+            value={ttsApiModel}
+            onChange={onTtsApiModelChange}
+            placeholder={DEFAULT_SPEECH_MODEL}
+            visible
+            secureTextEntry={false}
+          />
+          <ApiKeyInput
+            label={t('settings.speech.tts.voice')}
+            value={ttsVoice}
+            onChange={onTtsVoiceChange}
+            placeholder={DEFAULT_SPEECH_VOICE}
+            visible
+            secureTextEntry={false}
+          />
+          <Text className="text-label-tertiary text-[11px] mx-4 mt-2 mb-2">
+            {t('settings.speech.tts.api.hint')}
+          </Text>
+        </>
+      ) : (
+        <VoicePicker
+          value={ttsVoice}
+          onChange={onTtsVoiceChange}
+          language={appLanguage === 'system' ? undefined : appLanguage}
+        />
+      )}
+      {personaVoice && isNativeVoiceName(personaVoice) === (ttsEngine === 'android') && (
+        <Text className="text-accent-orange text-[11px] mx-4 mt-2 mb-2">
+          {t('settings.speech.tts.personaVoice').replace('{voice}', personaVoice)}
+        </Text>
+      )}
+      <FactorStepper
+        label={t('settings.speech.tts.rate')}
+        value={ttsRate}
+        onChange={onTtsRateChange}
+      />
+      {ttsEngine === 'android' && (
+        <FactorStepper
+          label={t('settings.speech.tts.pitch')}
+          value={ttsPitch}
+          onChange={onTtsPitchChange}
+        />
+      )}
+      <TouchableOpacity
+        onPress={onPreviewVoice}
+        className="mx-4 my-3 py-2.5 rounded-lg bg-surface-tertiary">
+        <Text className="text-accent text-sm font-medium text-center">
+          {t('settings.speech.tts.preview')}
+        </Text>
+      </TouchableOpacity>
     </>
   );
 }
@@ -0,0 +1,203 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import {
+  UsageLedger,
+  type UsageSourceType,
+  type UsageSummary,
+  type UsageTotals,
+} from '../../../agent/usage-ledger';
+import { t, type TranslationKey } from '../../../i18n';
+
+const SOURCE_LABEL_KEYS: Record<UsageSourceType, TranslationKey> = {
+  pipeline: 'settings.usage.source.pipeline',
+  schedule: 'settings.usage.source.schedule',
+  notification: 'settings.usage.source.notification',
+  accessibility: 'settings.usage.source.accessibility',
+  skill_test: 'settings.usage.source.skillTest',
+};
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+}
+
+function formatTokens(totals: UsageTotals): string {
+  const tokens = totals.promptTokens + totals.completionTokens;
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function TotalsRow({ label, totals }: { label: string; totals: UsageTotals }): React.JSX.Element {
+  return (
+    <View
+      className="flex-row items-center justify-between px-4 py-3 border-b border-surface-tertiary"
+      style={{ borderBottomWidth: StyleSheet.hairlineWidth }}>
+      <Text className="text-label-primary text-[15px] font-medium flex-1">{label}</Text>
+      <Text className="text-label-secondary text-[12px] mr-3">
+        {t('settings.usage.tokens').replace('{count}', formatTokens(totals))}
+      </Text>
+      <Text className="text-label-primary text-[15px] font-semibold">{formatUsd(totals.costUsd)}</Text>
+    </View>
+  );
+}
+
+function BudgetInput({
+  label,
+  value,
+  onSave,
+}: {
+  label: string;
+  value: number | undefined;
+  onSave: (value: number | undefined) => void;
+}): React.JSX.Element {
+  const [text, setText] = useState(value ? String(value) : '');
+
+  useEffect(() => {
+    setText(value ? String(value) : '');
+  }, [value]);
+
+  const handleEnd = () => {
+    const parsed = parseFloat(text.replace(',', '.'));
+    onSave(Number.isFinite(parsed) && parsed > 0 ? parsed : undefined);
+  };
+
+  return (
+    <View
+      className="flex-row items-center justify-between px-4 py-3 border-b border-surface-tertiary"
+      style={{ borderBottomWidth: StyleSheet.hairlineWidth }}>
+      <Text className="text-label-primary text-[15px] font-medium flex-1">{label}</Text>
+      <Text className="text-label-secondary text-sm mr-1">$</Text>
+      <TextInput
+        className="bg-surface-tertiary rounded-lg px-3 py-1.5 text-label-primary text-sm w-24 text-right"
+        value={text}
+        onChangeText={setText}
+        onEndEditing={handleEnd}
+        placeholder={t('settings.usage.noLimit')}
+        placeholderTextColor="#636366"
+        keyboardType="decimal-pad"
+      />
+    </View>
+  );
+}
+
+export function UsageSection(): React.JSX.Element {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [dailyUsd, setDailyUsd] = useState<number | undefined>();
+  const [monthlyUsd, setMonthlyUsd] = useState<number | undefined>();
+
+  const loadData = useCallback(async () => {
+    const [loaded, budget] = await Promise.all([
+      UsageLedger.getSummary(),
+      UsageLedger.getBudget(),
+    ]);
+    setSummary(loaded);
+    setDailyUsd(budget.dailyUsd);
+    setMonthlyUsd(budget.monthlyUsd);
+  }, []);
+
+  useEffect(() => {
+    loadData().catch(() => {});
+  }, [loadData]);
+
+  const saveBudget = async (next: { dailyUsd?: number; monthlyUsd?: number }) => {
+    await UsageLedger.setBudget(next);
+    setDailyUsd(next.dailyUsd);
+    setMonthlyUsd(next.monthlyUsd);
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      t('settings.usage.reset.title'),
+      t('settings.usage.reset.message'),
+      [
+        { text: t('settings.usage.reset.cancel'), style: 'cancel' },
+        {
+          text: t('settings.usage.reset.confirm'),
+          style: 'destructive',
+          onPress: async () => {
+            await UsageLedger.clear();
+            await loadData();
+          },
+        },
+      ],
+    );
+  };
+
+  const sources = summary
+    ? (Object.keys(summary.monthBySource) as UsageSourceType[])
+    : [];
+
+  return (
+    <>
+      <View
+        className="px-4 py-2 border-b border-surface-tertiary"
+        style={{ borderBottomWidth: StyleSheet.hairlineWidth }}>
+        <Text className="text-label-secondary text-[12px]">
+          {t('settings.usage.description')}
+        </Text>
+      </View>
+
+      {summary && (
+        <>
+          <TotalsRow label={t('settings.usage.today')} totals={summary.today} />
+          <TotalsRow label={t('settings.usage.month')} totals={summary.month} />
+
+          {sources.length > 0 && (
+            <View className="px-4 pt-3 pb-1">
+              <Text className="text-label-secondary text-xs font-medium">
+                {t('settings.usage.bySource')}
+              </Text>
+            </View>
+          )}
+          {sources.map(source => (
+            <TotalsRow
+              key={source}
+              label={t(SOURCE_LABEL_KEYS[source])}
+              totals={summary.monthBySource[source]!}
+            />
+          ))}
+
+          {Object.keys(summary.monthByModel).length > 0 && (
+            <View className="px-4 pt-3 pb-1">
+              <Text className="text-label-secondary text-xs font-medium">
+                {t('settings.usage.byModel')}
+              </Text>
+            </View>
+          )}
+          {Object.entries(summary.monthByModel).map(([model, totals]) => (
+            <TotalsRow key={model} label={model} totals={totals} />
+          ))}
+        </>
+      )}
+
+      <View className="px-4 pt-3 pb-1">
+        <Text className="text-label-secondary text-xs font-medium">
+          {t('settings.usage.budget')}
+        </Text>
+      </View>
+      <BudgetInput
+        label={t('settings.usage.dailyCap')}
+        value={dailyUsd}
+        onSave={v => saveBudget({ dailyUsd: v, monthlyUsd })}
+      />
+      <BudgetInput
+        label={t('settings.usage.monthlyCap')}
+        value={monthlyUsd}
+        onSave={v => saveBudget({ dailyUsd, monthlyUsd: v })}
+      />
+      <View className="px-4 py-2">
+        <Text className="text-label-tertiary text-[11px]">
+          {t('settings.usage.budgetHint')}
+        </Text>
+      </View>
+
+      <View className="p-4">
+        <TouchableOpacity
+          onPress={handleReset}
+          className="py-2.5 px-4 rounded-xl bg-red-500/10 items-center">
+          <Text className="text-red-500 text-sm font-semibold">
+            {t('settings.usage.reset.button')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+}
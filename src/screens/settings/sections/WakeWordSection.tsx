@@ -1,5 +1,5 @@
 import React from 'react';
-import { Switch } from 'react-native';
+import { Switch, Text, TouchableOpacity, View } from 'react-native';
 import { ApiKeyInput } from '../components/ApiKeyInput';
 import { SettingRow } from '../components/SettingRow';
 import { t } from '../../../i18n';
@@ -9,13 +9,24 @@ interface WakeWordSectionProps {
   onWakeWordToggle: (enabled: boolean) => void;
   wakeWordKey: string;
   onWakeWordKeyChange: (key: string) => void;
+  voiceBargeIn: boolean;
+  onVoiceBargeInChange: (enabled: boolean) => void;
+  followUpWindowSeconds: number;
+  onFollowUpWindowSecondsChange: (seconds: number) => void;
 }
 
+/** Follow-up windows offered in Settings – 0 = only after questions */
+const FOLLOW_UP_WINDOWS = [0, 5, 8, 15];
+
 export function WakeWordSection({
   wakeWordEnabled,
   onWakeWordToggle,
   wakeWordKey,
   onWakeWordKeyChange,
+  voiceBargeIn,
+  onVoiceBargeInChange,
+  followUpWindowSeconds,
+  onFollowUpWindowSecondsChange,
 }: WakeWordSectionProps): React.JSX.Element {
   return (
     <>
@@ -38,6 +49,47 @@ export function WakeWordSection({
           visible={true}
         />
       )}
+      <SettingRow
+        label={t('settings.wakeWord.bargeIn')}
+        description={t('settings.wakeWord.bargeIn.description')}>
+        <Switch
+          value={voiceBargeIn}
+          onValueChange={onVoiceBargeInChange}
+          trackColor={{ false: '#3A3A3C', true: '#007AFF' }}
+          thumbColor="#FFFFFF"
+        />
+      </SettingRow>
+
+      {/* Follow-up: keep listening after answers without the wake word */}
+      <View className="p-4">
+        <Text className="text-label-primary text-[15px] font-medium">
+          {t('settings.wakeWord.followUp')}
+        </Text>
+        <Text className="text-label-secondary text-[12px] mt-0.5 mb-3">
+          {t('settings.wakeWord.followUp.description')}
+        </Text>
+        <View className="flex-row gap-2">
+          {FOLLOW_UP_WINDOWS.map(seconds => (
+            <TouchableOpacity
+              key={seconds}
+              onPress={() => onFollowUpWindowSecondsChange(seconds)}
+              className={`flex-1 rounded-lg py-2.5 px-3 border ${
+                followUpWindowSeconds === seconds
+                  ? 'bg-accent border-accent'
+                  : 'bg-surface-tertiary border-surface-tertiary'
+              }`}>
+              <Text
+                className={`text-sm font-medium text-center ${
+                  followUpWindowSeconds === seconds ? 'text-white' : 'text-label-primary'
+                }`}>
+                {seconds === 0
+                  ? t('settings.wakeWord.followUp.questionsOnly')
+                  : t('settings.wakeWord.followUp.seconds').replace('{n}', String(seconds))}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
     </>
   );
 }
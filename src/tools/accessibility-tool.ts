@@ -84,6 +84,15 @@ export class AccessibilityTool implements Tool {
     };
   }
 
+  /** The sub-agent operates other apps on the user's behalf (send, buy, post …) */
+  isRisky(): boolean {
+    return true;
+  }
+
+  describeCall(args: Record<string, unknown>): string {
+    return `Operate ${String(args.package_name)}: ${String(args.goal)}`;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const packageName = args.package_name as string;
     const goal = args.goal as string;
@@ -18,6 +18,7 @@ import { errorResult, successResult } from './types';
 import IntentModule from '../native/IntentModule';
 import type { LLMProvider } from '../llm/types';
 import { DebugLogger } from '../agent/debug-logger';
+import { UsageLedger } from '../agent/usage-ledger';
 
 const FUZZY_MATCH_PROMPT = `You are an app search assistant. Your task is to find the best matching Android app from a list of installed apps based on a user's search query.
 
@@ -70,6 +71,10 @@ export class AppSearchTool implements Tool {
     };
   }
 
+  isConcurrencySafe(): boolean {
+    return true;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const query = args.query as string;
 
@@ -120,7 +125,13 @@ export class AppSearchTool implements Tool {
             0,
             messages,
           );
+          const budgetError = await UsageLedger.checkBudget();
+          if (budgetError) {
+            throw new Error(`LLM budget exceeded: ${budgetError}`);
+          }
           const response = await this.provider.chat(messages, []);
+          // Only the main agent passes a provider
+          UsageLedger.recordResponse(this.provider.getCurrentModel(), response.usage, { type: 'pipeline', id: 'app_search' });
           DebugLogger.logLLMResponse(response.content, [], response.usage, response);
 
           const result = response.content?.trim() || '';
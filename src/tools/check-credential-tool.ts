@@ -46,6 +46,10 @@ export class CheckCredentialTool implements Tool {
     };
   }
 
+  isConcurrencySafe(): boolean {
+    return true;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const credId = args.credential_id as string;
 
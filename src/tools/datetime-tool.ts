@@ -72,7 +72,7 @@ export class DateTimeTool implements Tool {
         },
         // For absolute
         base: {
-          type: 'string',
+          type: ['string', 'number'],
           description: 'Base time for absolute/add/subtract. Can be: enum value (now, today, tomorrow, yesterday, next_monday-next_sunday, next_january-next_december), Unix timestamp in milliseconds (number), or ISO date/datetime string (YYYY-MM-DD, YYYY-MM-DDTHH:mm:ss, YYYY-MM-DDTHH:mm:ssZ, etc.).',
         },
         // For add/subtract
@@ -119,6 +119,10 @@ export class DateTimeTool implements Tool {
     };
   }
 
+  isConcurrencySafe(): boolean {
+    return true;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const action = args.action as DateTimeAction;
 
@@ -72,6 +72,11 @@ export class DeviceTool implements Tool {
     };
   }
 
+  /** Everything except set_volume only reads device state */
+  isConcurrencySafe(args: Record<string, unknown>): boolean {
+    return args.action !== 'set_volume';
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const action = args.action as DeviceAction;
 
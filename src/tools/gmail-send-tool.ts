@@ -65,6 +65,15 @@ export class GmailSendTool implements Tool {
     };
   }
 
+  /** Sends an email on the user's behalf – cannot be undone */
+  isRisky(): boolean {
+    return true;
+  }
+
+  describeCall(args: Record<string, unknown>): string {
+    return `Send email to ${String(args.to)}: "${String(args.subject)}"`;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const to = args.to as string;
     const subject = args.subject as string;
@@ -65,7 +65,7 @@ export class HttpTool implements Tool {
           },
         },
         body: {
-          type: 'string',
+          type: ['string', 'object'],
           description: 'Request body for POST/PUT/PATCH requests. Can be a JSON string or will be automatically stringified if provided as an object.',
         },
         response_format: {
@@ -85,6 +85,21 @@ export class HttpTool implements Tool {
     };
   }
 
+  /** Only GET requests are free of side effects and may run in parallel */
+  isConcurrencySafe(args: Record<string, unknown>): boolean {
+    return ((args.method as string | undefined) ?? 'GET').toUpperCase() === 'GET';
+  }
+
+  /** Anything but GET may change remote data */
+  isRisky(args: Record<string, unknown>): boolean {
+    return !this.isConcurrencySafe(args);
+  }
+
+  describeCall(args: Record<string, unknown>): string {
+    const method = ((args.method as string | undefined) ?? 'GET').toUpperCase();
+    return `${method} request to ${String(args.url)}`;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const method = (args.method as string) ?? 'GET';
     const url = args.url as string;
@@ -57,6 +57,20 @@ export class IntentTool implements Tool {
     };
   }
 
+  /** Direct calls (ACTION_CALL) dial without any further user interaction */
+  isRisky(args: Record<string, unknown>): boolean {
+    const action = String(args.action ?? '');
+    return action === 'android.intent.action.CALL' || action === 'ACTION_CALL';
+  }
+
+  describeCall(args: Record<string, unknown>): string {
+    const uri = args.uri as string | undefined;
+    if (this.isRisky(args)) {
+      return `Call ${uri ? uri.replace(/^tel:/, '') : 'unknown number'}`;
+    }
+    return uri ? `${String(args.action)} to ${uri}` : String(args.action);
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const action = args.action as string;
     const uri = (args.uri as string) ?? null;
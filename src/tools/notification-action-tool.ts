@@ -0,0 +1,140 @@
+/**
+ * NotificationActionTool – Act on a shown notification in place
+ *
+ * Uses the notification's own action buttons via NotificationListenerModule:
+ *   - reply:     answers through the RemoteInput reply action, i.e. inside the
+ *                messenger's conversation – works for any app that offers
+ *                "Reply" on its notifications (WhatsApp, Signal, Telegram, …)
+ *   - mark_read: triggers the "Mark as read" action
+ *   - dismiss:   removes the notification from the shade
+ *
+ * Notifications are identified by their key (see get_recent of the
+ * notifications tool, or the key given to a notification sub-agent). Actions
+ * only work while the notification is still shown.
+ */
+import type { Tool, ToolResult } from './types';
+import { errorResult, successResult } from './types';
+import {
+  getNotificationListenerModule,
+  type NotificationData,
+} from '../native/NotificationListenerModule';
+
+type NotificationActionType = 'reply' | 'mark_read' | 'dismiss';
+
+export class NotificationActionTool implements Tool {
+  name(): string {
+    return 'notification_action';
+  }
+
+  description(): string {
+    return [
+      'Act on a notification that is still shown, using its own action buttons:',
+      'reply (answer in the messenger conversation via the notification\'s reply field),',
+      'mark_read, or dismiss. Needs the notification key.',
+    ].join(' ');
+  }
+
+  systemHint(): string {
+    return 'To answer a message that arrived as a notification (e.g. an auto-reply rule), prefer notification_action with action "reply" over intents, send_sms or accessibility – it works for any messenger with a reply button.';
+  }
+
+  parameters(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['reply', 'mark_read', 'dismiss'],
+          description: 'What to do with the notification',
+        },
+        key: {
+          type: 'string',
+          description: 'The notification key (from get_recent of the notifications tool or the notification context)',
+        },
+        text: {
+          type: 'string',
+          description: 'For reply: the message to send',
+        },
+      },
+      required: ['action', 'key'],
+    };
+  }
+
+  /**
+   * A reply sends a message to a third party – cannot be undone.
+   * Rules the user opted in to auto-reply may still reply to the
+   * notification they handle without confirmation (see NotificationRule.autoReply).
+   */
+  isRisky(args: Record<string, unknown>): boolean {
+    return args.action === 'reply';
+  }
+
+  describeCall(args: Record<string, unknown>): string {
+    switch (args.action as NotificationActionType) {
+      case 'reply':
+        return `Reply via notification: "${String(args.text)}"`;
+      case 'mark_read':
+        return 'Mark notification as read';
+      default:
+        return 'Dismiss notification';
+    }
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ToolResult> {
+    const module = getNotificationListenerModule();
+    if (!module) {
+      return errorResult('Notification actions are only available on Android');
+    }
+
+    const action = args.action as NotificationActionType;
+    const key = args.key as string;
+    if (!key) {
+      return errorResult('Missing key parameter – use get_recent of the notifications tool to find it');
+    }
+
+    const buffered = await this.findBuffered(module, key);
+    const from = buffered?.sender ? ` from ${buffered.sender}` : '';
+
+    try {
+      switch (action) {
+        case 'reply': {
+          const text = ((args.text as string) || '').trim();
+          if (!text) {
+            return errorResult('Missing text parameter');
+          }
+          if (buffered?.actions && !buffered.actions.some(a => a.canReply)) {
+            return errorResult(
+              `The notification${from} has no reply action – use the app's own tool, an intent or SMS instead.`,
+            );
+          }
+          await module.replyToNotification(key, text);
+          return successResult(`Replied to the notification${from}: "${text}"`, 'Reply sent');
+        }
+        case 'mark_read':
+          await module.markNotificationAsRead(key);
+          return successResult(`Notification${from} marked as read.`, 'Marked as read');
+        case 'dismiss':
+          await module.dismissNotification(key);
+          return successResult(`Notification${from} dismissed.`, 'Notification dismissed');
+        default:
+          return errorResult(`Unknown action: ${action}`);
+      }
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      return errorResult(`Notification ${action} failed: ${errMsg}`);
+    }
+  }
+
+  /** The buffered notification with `key`, for its sender and actions */
+  private async findBuffered(
+    module: NonNullable<ReturnType<typeof getNotificationListenerModule>>,
+    key: string,
+  ): Promise<NotificationData | undefined> {
+    try {
+      const notifications = JSON.parse(await module.getRecentNotifications()) as NotificationData[];
+      return notifications.find(n => n.key === key);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -4,11 +4,23 @@
  * Each "subscription" is a rule with:
  *   - app (package name)
  *   - instruction (what the sub-agent should do – like the scheduler)
+ *   - optional structured filters (sender, regex, keywords, quiet hours,
+ *     rate limit) – checked deterministically before any LLM call
  *   - optional condition (natural language – evaluated by the LLM)
+ *   - optional digest – matches are held and summarised at a daily time
+ *     and/or when driving mode ends
  *
- * When a notification arrives from a subscribed app, ALL enabled rules for
- * that app are sent to a sub-agent. The LLM evaluates each rule's condition
- * and executes the first matching instruction.
+ * When a notification arrives from a subscribed app, all enabled rules for
+ * that app whose filters match are sent to a sub-agent. The LLM evaluates
+ * each rule's condition and executes the first matching instruction.
+ *
+ * search_history looks up past notifications of subscribed apps in the
+ * persistent history (notification-history-store.ts), e.g. "what did my bank
+ * notify me about yesterday?".
+ *
+ * test_rule replays the rules against a sample notification without side
+ * effects (notification-dry-run.ts) – only in the main conversation, where
+ * App.tsx injects the tester.
  */
 import type { Tool, ToolResult } from './types';
 import { errorResult, successResult } from './types';
@@ -23,7 +35,20 @@ import {
   deleteRule,
   deleteRulesForApp,
   type NotificationRule,
+  type NotificationRuleDigest,
+  type NotificationRuleFilters,
 } from '../agent/notification-rules-store';
+import { describeFilters, hasFilters, validateFilters } from '../agent/notification-prefilter';
+import { describeDigest, validateDigest } from '../agent/notification-digest';
+import {
+  queryHistory,
+  type NotificationHistoryEntry,
+} from '../agent/notification-history-store';
+import type {
+  NotificationDryRunResult,
+  NotificationRuleTester,
+  NotificationSample,
+} from '../agent/notification-dry-run';
 
 // ── App Alias Mapping ─────────────────────────────────────────────────────────
 
@@ -70,6 +95,159 @@ function getAppDisplayName(packageName: string): string {
   return lastPart.charAt(0).toUpperCase() + lastPart.slice(1);
 }
 
+/** Default and max number of entries returned by search_history */
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+
+/**
+ * Parse a search_history bound: "YYYY-MM-DD" (local day – its start, or its
+ * end for `until`) or an ISO date-time. Returns epoch ms or an error message.
+ */
+function parseHistoryTime(value: string, endOfDay: boolean): number | string {
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    return endOfDay
+      ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+      : new Date(year, month - 1, day).getTime();
+  }
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms)
+    ? `Invalid date "${value}" – use "YYYY-MM-DD" or an ISO date-time like "2025-03-14T08:00"`
+    : ms;
+}
+
+/** One history entry as shown to the LLM */
+function formatHistoryEntry(entry: NotificationHistoryEntry, idx: number): string {
+  const when = new Date(entry.timestamp).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const sender = entry.sender ? ` from ${entry.sender}` : '';
+  const content = [entry.title, entry.text].filter(Boolean).join(' – ');
+  const rule = entry.ruleId ? ` (rule ${entry.ruleId})` : '';
+  return `${idx + 1}. ${when} ${getAppDisplayName(entry.packageName)}${sender}: ${content}` +
+    `\n   Outcome: ${entry.outcome}${rule}`;
+}
+
+/** Plain-text report of a rule test for the LLM */
+function formatDryRunResult(result: NotificationDryRunResult, rules: NotificationRule[]): string {
+  const describeRule = (id: string) => {
+    const rule = rules.find(r => r.id === id);
+    return rule ? `[${id}] ${rule.condition || '(catch-all)'} → ${rule.instruction}` : `[${id}]`;
+  };
+
+  if (result.prefilter.length === 0) {
+    return 'No enabled rule for this app – the notification would not be processed.';
+  }
+
+  const lines = [`Outcome: ${result.outcome}`, '', 'Pre-filters:'];
+  for (const p of result.prefilter) {
+    const why = p.reasons.length > 0 ? ` – ${p.reasons.join(', ')}` : '';
+    lines.push(`- ${describeRule(p.ruleId)}: ${p.passed ? 'passed' : 'dropped'}${why}`);
+  }
+  if (result.heldForDigest.length > 0) {
+    lines.push('', `Held for digest by: ${result.heldForDigest.map(describeRule).join('; ')}`);
+  }
+  if (result.matchedRuleId) {
+    lines.push('', `Matched rule: ${describeRule(result.matchedRuleId)}`);
+  }
+  if (result.reason) {
+    lines.push(`Why: ${result.reason}`);
+  }
+  if (result.toolCalls.length > 0) {
+    lines.push('', 'Tool calls (not executed unless read-only):');
+    for (const call of result.toolCalls) {
+      lines.push(`- ${call.description}${call.executed ? ' (read-only, executed)' : ''}`);
+    }
+  }
+  if (result.response) {
+    lines.push('', `Response: ${result.response}`);
+  }
+  if (result.error) {
+    lines.push('', `Error: ${result.error}`);
+  }
+  return lines.join('\n');
+}
+
+/** Default rate-limit window when only rate_limit_max is given */
+const DEFAULT_RATE_LIMIT_WINDOW_MINUTES = 60;
+
+/**
+ * Apply the filter arguments to `base` (empty values clear a filter).
+ * Returns undefined if no filter is left, or an error string on bad input.
+ */
+function applyFilterArgs(
+  base: NotificationRuleFilters | undefined,
+  args: Record<string, unknown>,
+): NotificationRuleFilters | undefined | string {
+  const filters: NotificationRuleFilters = { ...base };
+  const list = (value: unknown) => {
+    const items = (value as string[]).map(v => v.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  };
+  const text = (value: unknown) => (value as string).trim() || undefined;
+
+  if (args.sender_equals !== undefined) { filters.senderEquals = list(args.sender_equals); }
+  if (args.sender_contains !== undefined) { filters.senderContains = list(args.sender_contains); }
+  if (args.keywords !== undefined) { filters.keywords = list(args.keywords); }
+  if (args.title_regex !== undefined) { filters.titleRegex = text(args.title_regex); }
+  if (args.text_regex !== undefined) { filters.textRegex = text(args.text_regex); }
+
+  if (args.quiet_hours_start !== undefined || args.quiet_hours_end !== undefined) {
+    const start = text(args.quiet_hours_start ?? filters.quietHours?.start ?? '');
+    const end = text(args.quiet_hours_end ?? filters.quietHours?.end ?? '');
+    if (start && end) {
+      filters.quietHours = { start, end };
+    } else if (!start && !end) {
+      filters.quietHours = undefined;
+    } else {
+      return 'quiet_hours_start and quiet_hours_end must both be set (or both empty to remove quiet hours)';
+    }
+  }
+
+  if (args.rate_limit_max !== undefined || args.rate_limit_window_minutes !== undefined) {
+    const max = (args.rate_limit_max as number | undefined) ?? filters.rateLimit?.max ?? 0;
+    const windowMinutes = (args.rate_limit_window_minutes as number | undefined)
+      ?? filters.rateLimit?.windowMinutes
+      ?? DEFAULT_RATE_LIMIT_WINDOW_MINUTES;
+    filters.rateLimit = max > 0 ? { max, windowMinutes } : undefined;
+  }
+
+  const error = validateFilters(filters);
+  if (error) {
+    return error;
+  }
+  return hasFilters(filters) ? filters : undefined;
+}
+
+/**
+ * Apply the digest arguments to `base` (empty time and false clear the digest).
+ * Returns undefined for no digest, or an error string on bad input.
+ */
+function applyDigestArgs(
+  base: NotificationRuleDigest | undefined,
+  args: Record<string, unknown>,
+): NotificationRuleDigest | undefined | string {
+  if (args.digest_time === undefined && args.digest_on_driving_end === undefined) {
+    return base;
+  }
+  const time = args.digest_time !== undefined
+    ? (args.digest_time as string).trim() || undefined
+    : base?.time;
+  const onDrivingEnd = args.digest_on_driving_end !== undefined
+    ? (args.digest_on_driving_end as boolean) || undefined
+    : base?.onDrivingEnd;
+  if (!time && !onDrivingEnd) {
+    return undefined;
+  }
+  const digest: NotificationRuleDigest = { time, onDrivingEnd };
+  return validateDigest(digest) ?? digest;
+}
+
 type NotificationAction =
   | 'subscribe'
   | 'unsubscribe'
@@ -77,21 +255,34 @@ type NotificationAction =
   | 'delete_rule'
   | 'list_subscriptions'
   | 'get_recent'
+  | 'search_history'
+  | 'test_rule'
   | 'clear';
 
 // ── Tool ─────────────────────────────────────────────────────────────────────
 
 export class NotificationListenerTool implements Tool {
+  private testRule?: NotificationRuleTester;
+
+  constructor(testRule?: NotificationRuleTester) {
+    this.testRule = testRule;
+  }
+
   name(): string {
     return 'notifications';
   }
 
   description(): string {
     return [
-      'Manage notification rules: subscribe (create rule with instruction + optional condition),',
+      'Manage notification rules: subscribe (create rule with instruction + optional filters and condition),',
       'unsubscribe (remove all rules for an app), update_rule, delete_rule,',
       'list_subscriptions (show all rules),',
-      'get_recent (retrieve recent notifications), clear (clear buffer).',
+      'get_recent (retrieve recent notifications), clear (clear buffer),',
+      'search_history (search past notifications of subscribed apps by app, sender, text and time, with the rule that handled them),',
+      'test_rule (dry run: which rule would match a sample notification, why, and which tool calls it would make – nothing is executed).',
+      'Prefer the structured filters (sender_equals, sender_contains, title_regex, text_regex, keywords, quiet_hours_*, rate_limit_*) over a condition whenever they can express the requirement –',
+      'they are checked without an LLM call, so non-matching notifications cost nothing. Use condition only for what needs understanding (e.g. "the message asks a question").',
+      'Set digest_time and/or digest_on_driving_end to hold matches and get one summary instead of handling each notification.',
     ].join(' ');
   }
 
@@ -112,17 +303,21 @@ export class NotificationListenerTool implements Tool {
             'delete_rule',
             'list_subscriptions',
             'get_recent',
+            'search_history',
+            'test_rule',
             'clear',
           ],
           description:
             'Action: subscribe (create notification rule), unsubscribe (remove all rules for app), ' +
             'update_rule (update existing rule), delete_rule (remove one rule by id), ' +
-            'list_subscriptions (show all rules), get_recent (retrieve recent), clear (clear buffer)',
+            'list_subscriptions (show all rules), get_recent (retrieve recent), ' +
+            'search_history (search the notification history, newest first), ' +
+            'test_rule (dry-run the rules against a sample notification), clear (clear buffer)',
         },
         app: {
           type: 'string',
           description:
-            'App name or package name (e.g. "whatsapp", "email", "telegram" or "com.whatsapp"). For subscribe/unsubscribe.',
+            'App name or package name (e.g. "whatsapp", "email", "telegram" or "com.whatsapp"). For subscribe/unsubscribe/test_rule.',
         },
         instruction: {
           type: 'string',
@@ -139,6 +334,57 @@ export class NotificationListenerTool implements Tool {
             'Leave empty for a catch-all rule that applies to every notification from this app. ' +
             'Example: "The sender is my team lead", "The message mentions a meeting".',
         },
+        sender_equals: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Filter: the sender must be one of these (case-insensitive). Contact names also match their phone numbers and vice versa. ' +
+            'For update_rule: replaces the list; an empty list removes the filter.',
+        },
+        sender_contains: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Filter: the sender (or its contact name) must contain one of these (case-insensitive), e.g. a group name.',
+        },
+        title_regex: {
+          type: 'string',
+          description: 'Filter: case-insensitive regular expression the notification title must match. Empty string removes it.',
+        },
+        text_regex: {
+          type: 'string',
+          description: 'Filter: case-insensitive regular expression the notification text must match. Empty string removes it.',
+        },
+        keywords: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Filter: at least one keyword must appear in the title or text (case-insensitive).',
+        },
+        quiet_hours_start: {
+          type: 'string',
+          description: 'Filter: start of a daily quiet window "HH:mm" in which notifications are ignored (with quiet_hours_end; may wrap midnight, e.g. 22:00–07:00). Empty strings remove it.',
+        },
+        quiet_hours_end: {
+          type: 'string',
+          description: 'Filter: end of the daily quiet window "HH:mm".',
+        },
+        rate_limit_max: {
+          type: 'integer',
+          minimum: 0,
+          description: `Filter: process at most this many notifications per sender within rate_limit_window_minutes (default window: ${DEFAULT_RATE_LIMIT_WINDOW_MINUTES} min). Useful for busy group chats. 0 removes the limit.`,
+        },
+        rate_limit_window_minutes: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Filter: rate-limit window in minutes.',
+        },
+        digest_time: {
+          type: 'string',
+          description: 'Digest: hold matching notifications and summarise them daily at this time "HH:mm" instead of handling each one. Empty string removes the daily time.',
+        },
+        digest_on_driving_end: {
+          type: 'boolean',
+          description: 'Digest: hold matching notifications and summarise them when driving mode is switched off. false removes this trigger.',
+        },
         enabled: {
           type: 'boolean',
           description:
@@ -148,11 +394,49 @@ export class NotificationListenerTool implements Tool {
         rule_id: {
           type: 'string',
           description:
-            'The ID of a specific rule (for update_rule / delete_rule). Get IDs via list_subscriptions.',
+            'The ID of a specific rule (for update_rule / delete_rule; for test_rule: test only this rule). Get IDs via list_subscriptions.',
         },
         filter_app: {
           type: 'string',
-          description: 'Optional: filter get_recent by app name or package name',
+          description: 'Optional: filter get_recent / search_history by app name or package name (search_history also matches parts, e.g. "bank")',
+        },
+        sender: {
+          type: 'string',
+          description: 'For search_history: part of the sender name (case-insensitive). For test_rule: sender of the sample notification.',
+        },
+        title: {
+          type: 'string',
+          description: 'For test_rule: title of the sample notification (default: the sender)',
+        },
+        text: {
+          type: 'string',
+          description: 'For test_rule: message text of the sample notification',
+        },
+        time: {
+          type: 'string',
+          description: 'For test_rule: ISO date-time the sample notification arrives at (default: now) – for testing quiet hours',
+        },
+        key: {
+          type: 'string',
+          description: 'For test_rule: use the notification with this key from get_recent as the sample instead of app/sender/title/text',
+        },
+        query: {
+          type: 'string',
+          description: 'For search_history: words that must all appear in the app name, sender, title or text (case-insensitive)',
+        },
+        since: {
+          type: 'string',
+          description: 'For search_history: only notifications from this time on – "YYYY-MM-DD" (start of that day) or ISO date-time',
+        },
+        until: {
+          type: 'string',
+          description: 'For search_history: only notifications up to this time – "YYYY-MM-DD" (end of that day) or ISO date-time',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_HISTORY_LIMIT,
+          description: `For search_history: max notifications returned (default ${DEFAULT_HISTORY_LIMIT})`,
         },
       },
       required: ['action'],
@@ -181,6 +465,10 @@ export class NotificationListenerTool implements Tool {
           return this.listSubscriptions();
         case 'get_recent':
           return this.getRecent(module, args);
+        case 'search_history':
+          return this.searchHistory(args);
+        case 'test_rule':
+          return this.testRuleAction(module, args);
         case 'clear':
           return this.clear(module);
         default:
@@ -204,6 +492,14 @@ export class NotificationListenerTool implements Tool {
     const appLabel = getAppDisplayName(packageName);
     const instruction = (args.instruction as string) || 'Briefly announce this notification to the user via the tts tool.';
     const condition = (args.condition as string) || '';
+    const filters = applyFilterArgs(undefined, args);
+    if (typeof filters === 'string') {
+      return errorResult(filters);
+    }
+    const digest = applyDigestArgs(undefined, args);
+    if (typeof digest === 'string') {
+      return errorResult(digest);
+    }
 
     const rule = await addRule({
       app: packageName,
@@ -211,15 +507,22 @@ export class NotificationListenerTool implements Tool {
       enabled: true,
       instruction,
       condition,
+      filters,
+      digest,
     });
 
-    const condStr = condition ? `\nCondition: ${condition}` : ' (catch-all – all notifications)';
+    const filterStr = filters ? `\nFilters: ${describeFilters(filters)}` : '';
+    const condStr = condition
+      ? `${filterStr}\nCondition: ${condition}`
+      : filterStr || ' (catch-all – all notifications)';
 
     return successResult(
       `Rule created for ${appLabel}${condStr}.\n` +
       `Rule ID: ${rule.id}\n` +
       `Instruction: ${instruction}\n` +
-      `When a matching notification arrives, a sub-agent will execute this instruction.`,
+      (digest
+        ? `Matching notifications are held and summarised ${describeDigest(digest)}.`
+        : `When a matching notification arrives, a sub-agent will execute this instruction.`),
       `${appLabel} rule created`,
     );
   }
@@ -257,11 +560,26 @@ export class NotificationListenerTool implements Tool {
       return errorResult('Missing rule_id parameter. Use list_subscriptions to get rule IDs.');
     }
 
-    const updates: Partial<Pick<NotificationRule, 'instruction' | 'condition' | 'enabled'>> = {};
+    const updates: Partial<Pick<NotificationRule, 'instruction' | 'condition' | 'enabled' | 'filters' | 'digest'>> = {};
     if (args.instruction !== undefined) { updates.instruction = args.instruction as string; }
     if (args.condition !== undefined) { updates.condition = args.condition as string; }
     if (args.enabled !== undefined) { updates.enabled = args.enabled as boolean; }
 
+    const existing = (await loadRules()).find(r => r.id === ruleId);
+    if (!existing) {
+      return errorResult(`Rule ${ruleId} not found.`);
+    }
+    const filters = applyFilterArgs(existing.filters, args);
+    if (typeof filters === 'string') {
+      return errorResult(filters);
+    }
+    updates.filters = filters;
+    const digest = applyDigestArgs(existing.digest, args);
+    if (typeof digest === 'string') {
+      return errorResult(digest);
+    }
+    updates.digest = digest;
+
     const updated = await updateRule(ruleId, updates);
     if (!updated) {
       return errorResult(`Rule ${ruleId} not found.`);
@@ -270,7 +588,9 @@ export class NotificationListenerTool implements Tool {
     const statusText = updated.enabled ? 'enabled' : 'disabled';
     return successResult(
       `Rule ${ruleId} updated (${statusText}).\nInstruction: ${updated.instruction}` +
-      (updated.condition ? `\nCondition: ${updated.condition}` : ''),
+      (updated.filters ? `\nFilters: ${describeFilters(updated.filters)}` : '') +
+      (updated.condition ? `\nCondition: ${updated.condition}` : '') +
+      (updated.digest ? `\nDigest: ${describeDigest(updated.digest)}` : ''),
       `Rule ${statusText}`,
     );
   }
@@ -305,8 +625,13 @@ export class NotificationListenerTool implements Tool {
 
     const lines = rules.map((r, i) => {
       const status = r.enabled ? '[active]' : '[paused]';
-      const condStr = r.condition ? `\n   Condition: ${r.condition}` : ' (catch-all)';
-      return `${i + 1}. ${status} ${r.appLabel}${condStr}\n   Instruction: ${r.instruction}\n   ID: ${r.id}`;
+      const filterStr = r.filters ? `\n   Filters: ${describeFilters(r.filters)}` : '';
+      const condStr = r.condition
+        ? `${filterStr}\n   Condition: ${r.condition}`
+        : filterStr || ' (catch-all)';
+      const digestStr = r.digest ? `\n   Digest: ${describeDigest(r.digest)}` : '';
+      const replyStr = r.autoReply ? '\n   Replies without confirmation (set in the app)' : '';
+      return `${i + 1}. ${status} ${r.appLabel}${condStr}\n   Instruction: ${r.instruction}${digestStr}${replyStr}\n   ID: ${r.id}`;
     });
 
     return successResult(
@@ -345,7 +670,9 @@ export class NotificationListenerTool implements Tool {
           hour: '2-digit',
           minute: '2-digit',
         });
-        return `${idx + 1}. ${appName}${sender} (${time}): ${n.title || ''} ${n.text || ''}`.trim();
+        const canReply = n.actions?.some(a => a.canReply) ? ', can reply' : '';
+        return `${idx + 1}. ${appName}${sender} (${time}): ${n.title || ''} ${n.text || ''}`.trim() +
+          `\n   Key: ${n.key}${canReply}`;
       });
 
       const summary = `${notifications.length} notification(s):\n${lines.join('\n')}`;
@@ -356,6 +683,104 @@ export class NotificationListenerTool implements Tool {
     }
   }
 
+  // ── Search History ─────────────────────────────────────────────────────────
+
+  private async searchHistory(args: Record<string, unknown>): Promise<ToolResult> {
+    let since: number | undefined;
+    let until: number | undefined;
+    if (args.since) {
+      const parsed = parseHistoryTime(args.since as string, false);
+      if (typeof parsed === 'string') return errorResult(parsed);
+      since = parsed;
+    }
+    if (args.until) {
+      const parsed = parseHistoryTime(args.until as string, true);
+      if (typeof parsed === 'string') return errorResult(parsed);
+      until = parsed;
+    }
+
+    const filterApp = args.filter_app as string | undefined;
+    const limit = Math.min(Math.max(1, (args.limit as number | undefined) ?? DEFAULT_HISTORY_LIMIT), MAX_HISTORY_LIMIT);
+    const entries = await queryHistory({
+      app: filterApp ? resolvePackageName(filterApp) : undefined,
+      sender: args.sender as string | undefined,
+      text: args.query as string | undefined,
+      since,
+      until,
+      limit,
+    });
+
+    if (entries.length === 0) {
+      return successResult(
+        'No matching notifications in the history. Only notifications from apps with a notification rule are recorded.',
+        'No notifications found',
+      );
+    }
+
+    const summary = `${entries.length} notification(s), newest first:\n${entries.map(formatHistoryEntry).join('\n')}`;
+    return successResult(summary, `${entries.length} notifications found`);
+  }
+
+  // ── Test Rule (dry run) ────────────────────────────────────────────────────
+
+  private async testRuleAction(
+    module: NonNullable<ReturnType<typeof getNotificationListenerModule>>,
+    args: Record<string, unknown>,
+  ): Promise<ToolResult> {
+    if (!this.testRule) {
+      return errorResult('Rule tests are only available in the main conversation');
+    }
+
+    const rules = await loadRules();
+    const ruleId = args.rule_id as string | undefined;
+    const rule = ruleId ? rules.find(r => r.id === ruleId) : undefined;
+    if (ruleId && !rule) {
+      return errorResult(`Rule ${ruleId} not found. Use list_subscriptions to get valid IDs.`);
+    }
+
+    let sample: NotificationSample;
+    const key = args.key as string | undefined;
+    if (key) {
+      const recent = JSON.parse(await module.getRecentNotifications()) as NotificationData[];
+      const notification = recent.find(n => n.key === key);
+      if (!notification) {
+        return errorResult(`No recent notification with key ${key} – use get_recent to find one`);
+      }
+      sample = {
+        packageName: notification.packageName,
+        sender: notification.sender || '',
+        title: notification.title || '',
+        text: notification.text || '',
+        timestamp: notification.timestamp,
+        canReply: notification.actions?.some(a => a.canReply),
+        key,
+      };
+    } else {
+      const app = (args.app as string | undefined) ?? rule?.app;
+      if (!app) {
+        return errorResult('Missing app parameter (or rule_id / key)');
+      }
+      let timestamp: number | undefined;
+      if (args.time) {
+        timestamp = new Date(args.time as string).getTime();
+        if (Number.isNaN(timestamp)) {
+          return errorResult(`Invalid time "${String(args.time)}" – use an ISO date-time like "2025-03-14T23:30"`);
+        }
+      }
+      const sender = (args.sender as string | undefined) ?? '';
+      sample = {
+        packageName: resolvePackageName(app),
+        sender,
+        title: (args.title as string | undefined) ?? sender,
+        text: (args.text as string | undefined) ?? '',
+        timestamp,
+      };
+    }
+
+    const result = await this.testRule(sample, ruleId);
+    return successResult(formatDryRunResult(result, rules), `Rule test: ${result.outcome}`);
+  }
+
   // ── Clear ──────────────────────────────────────────────────────────────────
 
   private async clear(
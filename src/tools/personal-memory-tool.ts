@@ -2,6 +2,7 @@ import type { Tool, ToolResult } from './types';
 import { errorResult, successResult } from './types';
 import { PersonalMemoryStore } from '../agent/personal-memory-store';
 import { DebugLogger } from '../agent/debug-logger';
+import { UsageLedger } from '../agent/usage-ledger';
 import type { LLMProvider } from '../llm/types';
 
 const UPSERT_PROMPT = `You are a personal memory curator. You maintain a markdown document of personal facts about the user.
@@ -181,8 +182,13 @@ export class PersonalMemoryTool implements Tool {
         content: `Current memory:\n\n${memoryText}\n\n---\n\n${factsText}`,
       },
     ];
+    const budgetError = await UsageLedger.checkBudget();
+    if (budgetError) {
+      throw new Error(`LLM budget exceeded: ${budgetError}`);
+    }
     DebugLogger.logLLMRequest(this.provider!.getCurrentModel(), messages.length, 0, messages);
     const response = await this.provider!.chat(messages, []);
+    UsageLedger.recordResponse(this.provider!.getCurrentModel(), response.usage, { type: 'pipeline', id: 'memory' });
     DebugLogger.logLLMResponse(response.content, [], response.usage, response);
     const result = response.content?.trim();
     // Safety: if LLM returns empty/garbage, keep original
@@ -37,6 +37,10 @@ export class QueryCallLogTool implements Tool {
     };
   }
 
+  isConcurrencySafe(): boolean {
+    return true;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const limit = (args.limit as number) ?? 10;
 
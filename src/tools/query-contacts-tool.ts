@@ -9,7 +9,16 @@ import { errorResult, successResult } from './types';
 
 const { DeviceQueryModule } = NativeModules;
 
-interface ContactEntry { name: string; number: string; type: number }
+export interface ContactEntry { name: string; number: string; type: number }
+
+/**
+ * Search device contacts by name (empty query = all contacts).
+ * Shared with the notification rule pre-filters (sender matching).
+ */
+export async function searchContacts(query: string, limit: number): Promise<ContactEntry[]> {
+  const contacts: ContactEntry[] | null = await DeviceQueryModule.searchContacts(query, limit);
+  return contacts ?? [];
+}
 
 export class QueryContactsTool implements Tool {
   name(): string {
@@ -41,16 +50,18 @@ export class QueryContactsTool implements Tool {
     };
   }
 
+  isConcurrencySafe(): boolean {
+    return true;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const query = (args.query as string) ?? '';
     const limit = (args.limit as number) ?? 10;
 
     try {
-      const contacts: ContactEntry[] = query
-        ? await DeviceQueryModule.searchContacts(query, limit)
-        : await DeviceQueryModule.searchContacts('', limit);
+      const contacts = await searchContacts(query, limit);
 
-      if (!contacts || contacts.length === 0) {
+      if (contacts.length === 0) {
         return successResult(query ? `No contacts found for "${query}".` : 'No contacts available.');
       }
 
@@ -41,6 +41,10 @@ export class QuerySmsTool implements Tool {
     };
   }
 
+  isConcurrencySafe(): boolean {
+    return true;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const query = (args.query as string) ?? '';
     const limit = (args.limit as number) ?? 10;
@@ -0,0 +1,494 @@
+/**
+ * ScheduleRecurrence – Calendar math for recurring schedules
+ *
+ * Computes the next firings of a ScheduleRecurrence in the schedule's IANA
+ * timezone (default: the device timezone):
+ *   - 'interval': every X ms
+ *   - 'daily' / 'weekly' / 'monthly' / 'yearly' rules at a wall-clock time,
+ *     e.g. "first Monday", "last day of the month", "every 24 December"
+ *   - 'cron': 5-field cron expressions (minute hour day-of-month month day-of-week)
+ *   - exclusion dates ("YYYY-MM-DD" in the schedule's timezone) are skipped
+ *
+ * DST: a wall-clock time that does not exist (spring forward) fires right
+ * after the gap; a time that occurs twice (fall back) fires only once, at
+ * its first occurrence.
+ *
+ * Mirrored in Kotlin by SchedulerUtils.kt, which advances overdue schedules
+ * on boot and app start – keep both in sync.
+ */
+import type { ScheduleRecurrence } from './scheduler-tool';
+
+// ── Constants ───────────────────────────────────────────────────────────────
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * How far ahead a rule is searched (days). Eight years cover every
+ * "29 February" rule, including the skipped leap year at a century.
+ */
+const SEARCH_HORIZON_DAYS = 8 * 366;
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// ── Timezones ───────────────────────────────────────────────────────────────
+
+/** The device's IANA timezone, e.g. "Europe/Vienna" */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+const formatterCache: Record<string, Intl.DateTimeFormat> = {};
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache[timeZone];
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache[timeZone] = formatter;
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/** Wall-clock fields of `ms` in `timeZone` */
+function toWallClock(ms: number, timeZone: string): WallClock {
+  if (timeZone === getDeviceTimeZone()) {
+    const d = new Date(ms);
+    return {
+      year: d.getFullYear(),
+      month: d.getMonth() + 1,
+      day: d.getDate(),
+      hour: d.getHours(),
+      minute: d.getMinutes(),
+    };
+  }
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    // Some ICU versions render midnight as "24" with hour12: false
+    hour: fields.hour % 24,
+    minute: fields.minute,
+  };
+}
+
+/** Offset of `timeZone` from UTC at instant `ms` (local − UTC, in ms) */
+function getOffset(ms: number, timeZone: string): number {
+  const w = toWallClock(ms, timeZone);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute);
+  return asUtc - Math.floor(ms / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * Convert a wall-clock time in `timeZone` to epoch ms.
+ * Non-existent times (DST gap) resolve to the same clock reading after the
+ * gap (02:30 → 03:30); ambiguous times (DST overlap) resolve to the first one.
+ */
+function fromWallClock(
+  year: number, month: number, day: number, hour: number, minute: number, timeZone: string,
+): number {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  // Transitions are never closer together than a day, so the offsets one day
+  // before and after are the only candidates
+  const offsets = [getOffset(asUtc - DAY_MS, timeZone), getOffset(asUtc + DAY_MS, timeZone)];
+  const valid = offsets
+    .map(offset => asUtc - offset)
+    .filter(ms => getOffset(ms, timeZone) === asUtc - ms);
+  if (valid.length > 0) {
+    return Math.min(...valid);
+  }
+  return asUtc - Math.min(...offsets);
+}
+
+/** "YYYY-MM-DD" of a calendar date */
+function dateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** "YYYY-MM-DD" of instant `ms` in `timeZone` */
+export function toDateKey(ms: number, timeZone: string): string {
+  const w = toWallClock(ms, timeZone);
+  return dateKey(w.year, w.month, w.day);
+}
+
+// ── Cron ────────────────────────────────────────────────────────────────────
+
+export interface CronSpec {
+  minutes: boolean[];
+  hours: boolean[];
+  /** Index 1–31 */
+  daysOfMonth: boolean[];
+  /** Index 1–12 */
+  months: boolean[];
+  /** Index 0–6 (0 = Sunday) */
+  daysOfWeek: boolean[];
+  /** "L" in the day-of-month field */
+  lastDayOfMonth: boolean;
+  /** "MON#2" (nth = 2) and "5L" (nth = -1) entries of the day-of-week field */
+  nthWeekdays: { weekday: number; nth: number }[];
+  /** Whether the field is restricted (not "*"); both restricted = either may match */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+function parseCronValue(raw: string, names: string[] | null, nameOffset: number): number {
+  const upper = raw.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper);
+    if (index >= 0) return index + nameOffset;
+  }
+  return /^\d+$/.test(raw) ? Number(raw) : NaN;
+}
+
+/** Parse one cron field into a boolean array; returns an error string on bad input */
+function parseCronField(
+  field: string, min: number, max: number, label: string, names: string[] | null = null, nameOffset = 0,
+): boolean[] | string {
+  const values: boolean[] = new Array(max + 1).fill(false);
+  for (const part of field.split(',')) {
+    const [range, stepRaw] = part.split('/');
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) {
+      return `Invalid step "${stepRaw}" in ${label} field`;
+    }
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else {
+      const [from, to] = range.split('-');
+      start = parseCronValue(from, names, nameOffset);
+      end = to === undefined ? (stepRaw === undefined ? start : max) : parseCronValue(to, names, nameOffset);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      return `Invalid value "${part}" in ${label} field (allowed: ${min}–${max})`;
+    }
+    for (let v = start; v <= end; v += step) {
+      values[v] = true;
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression: minute hour day-of-month month day-of-week.
+ * Supports *, lists, ranges, steps, month/day names, @daily-style macros,
+ * "L" (last day of month), "MON#2" (second Monday) and "5L" (last Friday).
+ * Returns an error string on bad input.
+ */
+export function parseCron(expression: string): CronSpec | string {
+  const trimmed = expression.trim();
+  const fields = (CRON_MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    return `Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`;
+  }
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+
+  const minutes = parseCronField(minuteField, 0, 59, 'minute');
+  if (typeof minutes === 'string') return minutes;
+  const hours = parseCronField(hourField, 0, 23, 'hour');
+  if (typeof hours === 'string') return hours;
+  const months = parseCronField(monthField, 1, 12, 'month', MONTH_NAMES, 1);
+  if (typeof months === 'string') return months;
+
+  // Day of month: regular entries plus "L"
+  let lastDayOfMonth = false;
+  const domEntries = domField.split(',').filter(part => {
+    if (part.toUpperCase() === 'L') {
+      lastDayOfMonth = true;
+      return false;
+    }
+    return true;
+  });
+  const daysOfMonth = domEntries.length > 0
+    ? parseCronField(domEntries.join(','), 1, 31, 'day-of-month')
+    : new Array(32).fill(false);
+  if (typeof daysOfMonth === 'string') return daysOfMonth;
+
+  // Day of week: regular entries plus "MON#2" / "5L"; 7 is Sunday as well
+  const nthWeekdays: CronSpec['nthWeekdays'] = [];
+  const dowEntries: string[] = [];
+  for (const part of dowField.split(',')) {
+    const nthMatch = /^(\w+)#([1-5])$/.exec(part);
+    const lastMatch = /^(\w+)L$/i.exec(part);
+    const match = nthMatch ?? lastMatch;
+    if (match) {
+      const weekday = parseCronValue(match[1], DAY_NAMES, 0);
+      if (!Number.isInteger(weekday) || weekday > 7) {
+        return `Invalid value "${part}" in day-of-week field`;
+      }
+      nthWeekdays.push({ weekday: weekday % 7, nth: nthMatch ? Number(nthMatch[2]) : -1 });
+    } else {
+      dowEntries.push(part);
+    }
+  }
+  const dowValues = dowEntries.length > 0
+    ? parseCronField(dowEntries.join(','), 0, 7, 'day-of-week', DAY_NAMES, 0)
+    : new Array(8).fill(false);
+  if (typeof dowValues === 'string') return dowValues;
+  const daysOfWeek = dowValues.slice(0, 7);
+  daysOfWeek[0] = daysOfWeek[0] || dowValues[7];
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    lastDayOfMonth,
+    nthWeekdays,
+    domRestricted: domField !== '*',
+    dowRestricted: dowField !== '*',
+  };
+}
+
+// ── Calendar rules ──────────────────────────────────────────────────────────
+
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+  daysInMonth: number;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Whether `d` is the nth (1–5) or last (-1) `weekday` of its month */
+function isNthWeekday(d: CalendarDay, weekday: number, nth: number): boolean {
+  if (d.weekday !== weekday) return false;
+  return nth === -1 ? d.day + 7 > d.daysInMonth : Math.ceil(d.day / 7) === nth;
+}
+
+/**
+ * Day-of-month rule shared by 'monthly' and 'yearly':
+ * the nth weekday if weekOfMonth is set, otherwise dayOfMonth
+ * (-1 = last day; days beyond the month's end fall on its last day).
+ */
+function matchesMonthDay(d: CalendarDay, r: ScheduleRecurrence): boolean {
+  if (r.weekOfMonth !== undefined && r.weekday !== undefined) {
+    return isNthWeekday(d, r.weekday % 7, r.weekOfMonth);
+  }
+  const dom = r.dayOfMonth ?? 1;
+  return dom === -1 ? d.day === d.daysInMonth : d.day === Math.min(dom, d.daysInMonth);
+}
+
+function matchesCronDay(d: CalendarDay, spec: CronSpec): boolean {
+  if (!spec.months[d.month]) return false;
+  const domMatch = spec.daysOfMonth[d.day] || (spec.lastDayOfMonth && d.day === d.daysInMonth);
+  const dowMatch = spec.daysOfWeek[d.weekday]
+    || spec.nthWeekdays.some(n => isNthWeekday(d, n.weekday, n.nth));
+  // Standard cron semantics: if both fields are restricted, either may match
+  if (spec.domRestricted && spec.dowRestricted) return domMatch || dowMatch;
+  if (spec.domRestricted) return domMatch;
+  if (spec.dowRestricted) return dowMatch;
+  return true;
+}
+
+function parseTime(time: string): [number, number] {
+  const [hours, minutes] = time.split(':').map(Number);
+  return [hours, minutes];
+}
+
+/**
+ * Build the day filter and the sorted wall-clock times of a calendar rule.
+ * Returns null for rules that are not day-based ('once', 'interval') or
+ * incomplete.
+ */
+function buildCalendarRule(
+  r: ScheduleRecurrence,
+): { matchesDay: (d: CalendarDay) => boolean; times: [number, number][] } | null {
+  if (r.type === 'cron') {
+    const spec = r.cron ? parseCron(r.cron) : 'missing';
+    if (typeof spec === 'string') return null;
+    const times: [number, number][] = [];
+    spec.hours.forEach((h, hour) => {
+      if (!h) return;
+      spec.minutes.forEach((m, minute) => {
+        if (m) times.push([hour, minute]);
+      });
+    });
+    return { matchesDay: d => matchesCronDay(d, spec), times };
+  }
+
+  if (!r.time || !/^\d{2}:\d{2}$/.test(r.time)) return null;
+  const times = [parseTime(r.time)];
+
+  switch (r.type) {
+    case 'daily':
+      return { matchesDay: () => true, times };
+    case 'weekly': {
+      const days = r.daysOfWeek ?? [];
+      if (days.length === 0) return null;
+      // Our weekdays are 1=Mon … 7=Sun
+      return { matchesDay: d => days.includes(d.weekday === 0 ? 7 : d.weekday), times };
+    }
+    case 'monthly':
+      return { matchesDay: d => matchesMonthDay(d, r), times };
+    case 'yearly':
+      return { matchesDay: d => d.month === (r.month ?? 1) && matchesMonthDay(d, r), times };
+    default:
+      return null;
+  }
+}
+
+// ── Validation ──────────────────────────────────────────────────────────────
+
+/** Check a recurrence for completeness; returns an error message or null */
+export function validateRecurrence(r: ScheduleRecurrence): string | null {
+  if (r.timezone !== undefined && !isValidTimeZone(r.timezone)) {
+    return `Unknown timezone "${r.timezone}" (expected an IANA name like "Europe/Vienna")`;
+  }
+  const badDate = (r.excludeDates ?? []).find(d => !/^\d{4}-\d{2}-\d{2}$/.test(d));
+  if (badDate !== undefined) {
+    return `Invalid exclusion date "${badDate}" (expected "YYYY-MM-DD")`;
+  }
+
+  switch (r.type) {
+    case 'once':
+      return null;
+    case 'interval':
+      return !r.intervalMs || r.intervalMs < 60_000
+        ? 'recurrence_interval_ms missing or too small (min. 60000 ms = 1 minute)'
+        : null;
+    case 'cron': {
+      if (!r.cron) return 'recurrence_cron missing (e.g. "0 9 1 * *" for 09:00 on the 1st of every month)';
+      const spec = parseCron(r.cron);
+      return typeof spec === 'string' ? spec : null;
+    }
+    default:
+      break;
+  }
+
+  if (!r.time || !/^([01]\d|2[0-3]):[0-5]\d$/.test(r.time)) {
+    return 'recurrence_time missing or invalid format (expected: "HH:mm")';
+  }
+  if (r.type === 'weekly' && !r.daysOfWeek?.length) {
+    return 'recurrence_days_of_week missing (e.g. [1,3,5] for Mon/Wed/Fri)';
+  }
+  if (r.type === 'monthly' || r.type === 'yearly') {
+    if (r.weekOfMonth !== undefined || r.weekday !== undefined) {
+      if (r.weekOfMonth === undefined || r.weekday === undefined) {
+        return 'recurrence_week_of_month and recurrence_weekday must be set together (e.g. 1 and 1 for the first Monday)';
+      }
+      if (![1, 2, 3, 4, 5, -1].includes(r.weekOfMonth)) {
+        return 'recurrence_week_of_month must be 1–5, or -1 for the last';
+      }
+      if (r.weekday < 1 || r.weekday > 7) {
+        return 'recurrence_weekday must be 1–7 (1=Mon, 7=Sun)';
+      }
+    } else if (r.dayOfMonth === undefined || (r.dayOfMonth !== -1 && (r.dayOfMonth < 1 || r.dayOfMonth > 31))) {
+      return 'recurrence_day_of_month missing or invalid (1–31, or -1 for the last day of the month)';
+    }
+  }
+  if (r.type === 'yearly' && (!r.month || r.month < 1 || r.month > 12)) {
+    return 'recurrence_month missing or invalid (1–12)';
+  }
+  return null;
+}
+
+// ── Next firings ────────────────────────────────────────────────────────────
+
+/**
+ * Next firing of `r` strictly after `after` (epoch ms), or null for 'once'
+ * schedules, invalid rules and rules that never fire again.
+ */
+export function getNextOccurrence(r: ScheduleRecurrence, after: number): number | null {
+  const timeZone = r.timezone ?? getDeviceTimeZone();
+  const excluded = new Set(r.excludeDates ?? []);
+
+  if (r.type === 'interval') {
+    const interval = Math.max(r.intervalMs ?? 60_000, 60_000);
+    let next = after + interval;
+    // Skip whole excluded days, bounded to the search horizon
+    while (excluded.size > 0 && excluded.has(toDateKey(next, timeZone)) && next - after < SEARCH_HORIZON_DAYS * DAY_MS) {
+      next += interval;
+    }
+    return next;
+  }
+
+  const rule = buildCalendarRule(r);
+  if (!rule || rule.times.length === 0) return null;
+
+  const start = toWallClock(after, timeZone);
+  const startMinute = start.hour * 60 + start.minute;
+  for (let offset = 0; offset <= SEARCH_HORIZON_DAYS; offset++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const day: CalendarDay = {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      weekday: date.getUTCDay(),
+      daysInMonth: daysInMonth(date.getUTCFullYear(), date.getUTCMonth() + 1),
+    };
+    if (!rule.matchesDay(day) || excluded.has(dateKey(day.year, day.month, day.day))) {
+      continue;
+    }
+    for (const [hour, minute] of rule.times) {
+      // Cheap pre-filter for today; the hour of slack covers DST shifts
+      if (offset === 0 && hour * 60 + minute < startMinute - 60) continue;
+      const ms = fromWallClock(day.year, day.month, day.day, hour, minute, timeZone);
+      if (ms > after) return ms;
+    }
+  }
+  return null;
+}
+
+/** The next `count` firings of `r` after `after` (fewer if the rule ends) */
+export function getNextOccurrences(r: ScheduleRecurrence, after: number, count: number): number[] {
+  const result: number[] = [];
+  let cursor = after;
+  while (result.length < count) {
+    const next = getNextOccurrence(r, cursor);
+    if (next === null) break;
+    result.push(next);
+    cursor = next;
+  }
+  return result;
+}
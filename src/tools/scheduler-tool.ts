@@ -5,32 +5,70 @@
  * that a sub-agent (mini ConversationPipeline) executes at the scheduled time.
  *
  * Supports:
- *   - One-time and recurring schedules (interval, daily, weekly)
+ *   - One-time and recurring schedules (interval, daily, weekly, monthly,
+ *     yearly, cron) in an IANA timezone, with exclusion dates
+ *     (calendar math in schedule-recurrence.ts)
+ *   - Multi-step workflows: ordered steps with optional LLM-checked
+ *     preconditions, chained outputs and per-step retries (schedule-workflow.ts)
  *   - Full CRUD: create, list, update, delete, enable/disable
  */
 import type { Tool, ToolResult } from './types';
 import { errorResult, successResult } from './types';
 import SchedulerModule from '../native/SchedulerModule';
+import {
+  getNextOccurrence,
+  getNextOccurrences,
+  validateRecurrence,
+} from './schedule-recurrence';
 
 // ── Data Model ──────────────────────────────────────────────────────────────
 
 export interface ScheduleRecurrence {
-  /** 'once' = single execution, 'interval' = every X ms, 'daily' = every day, 'weekly' = specific days */
-  type: 'once' | 'interval' | 'daily' | 'weekly';
+  /**
+   * 'once' = single execution, 'interval' = every X ms, 'daily' = every day,
+   * 'weekly' = specific days, 'monthly' / 'yearly' = day-of-month or nth weekday,
+   * 'cron' = 5-field cron expression
+   */
+  type: 'once' | 'interval' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'cron';
   /** For 'interval': repeat interval in milliseconds */
   intervalMs?: number;
-  /** For 'daily'/'weekly': time of day as "HH:mm" (24h format, Europe/Vienna) */
+  /** For 'daily'/'weekly'/'monthly'/'yearly': time of day as "HH:mm" (24h format, in `timezone`) */
   time?: string;
   /** For 'weekly': days of week (1=Mon, 2=Tue, ..., 7=Sun) */
   daysOfWeek?: number[];
+  /** For 'monthly'/'yearly': day of month (1–31, -1 = last day; clamped to the month's length) */
+  dayOfMonth?: number;
+  /** For 'monthly'/'yearly': nth weekday of the month (1–5, -1 = last), together with `weekday` */
+  weekOfMonth?: number;
+  /** For 'monthly'/'yearly': weekday for `weekOfMonth` (1=Mon, ..., 7=Sun) */
+  weekday?: number;
+  /** For 'yearly': month (1–12) */
+  month?: number;
+  /** For 'cron': "minute hour day-of-month month day-of-week", e.g. "0 9 * * 1-5" */
+  cron?: string;
+  /** IANA timezone the rule is evaluated in (default: device timezone) */
+  timezone?: string;
+  /** Dates ("YYYY-MM-DD", in `timezone`) on which the schedule does not fire */
+  excludeDates?: string[];
+}
+
+export interface ScheduleStep {
+  /** Natural language instruction for this step */
+  instruction: string;
+  /** Optional precondition checked by the LLM before the step runs (e.g. "only if it is raining") */
+  condition?: string;
+  /** Additional attempts when the step fails (default: 0, max: 3) */
+  maxRetries?: number;
 }
 
 export interface Schedule {
   id: string;
   /** User-friendly headline/label for the schedule */
   label?: string;
-  /** Natural language instruction for the sub-agent */
+  /** Natural language instruction for the sub-agent (summary of the steps for workflows) */
   instruction: string;
+  /** Optional ordered workflow steps; when set, they run instead of `instruction` */
+  steps?: ScheduleStep[];
   /** Next execution time (epoch ms) */
   triggerAtMs: number;
   /** Whether this schedule is active */
@@ -41,10 +79,97 @@ export interface Schedule {
   createdAt: number;
   /** Last successful execution time (epoch ms), or null */
   lastExecutedAt: number | null;
+  /** Set for notification digest schedules – delivers that rule's digest instead of running `instruction` */
+  digestRuleId?: string;
 }
 
 type SchedulerAction = 'create' | 'list' | 'get' | 'update' | 'delete' | 'enable' | 'disable';
 
+/** Max steps per workflow schedule */
+export const MAX_STEPS = 10;
+
+/** Max additional attempts per step */
+export const MAX_STEP_RETRIES = 3;
+
+/**
+ * Parse the `steps` tool argument (snake_case) into ScheduleSteps.
+ * Returns an error message string for invalid input.
+ */
+function parseSteps(raw: unknown): ScheduleStep[] | string {
+  if (!Array.isArray(raw)) {
+    return 'steps must be an array';
+  }
+  if (raw.length > MAX_STEPS) {
+    return `Too many steps (max. ${MAX_STEPS})`;
+  }
+  const steps: ScheduleStep[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const entry = (raw[i] ?? {}) as Record<string, unknown>;
+    const instruction = typeof entry.instruction === 'string' ? entry.instruction.trim() : '';
+    if (!instruction) {
+      return `Step ${i + 1} has no instruction`;
+    }
+    const step: ScheduleStep = { instruction };
+    if (typeof entry.condition === 'string' && entry.condition.trim()) {
+      step.condition = entry.condition.trim();
+    }
+    if (typeof entry.max_retries === 'number' && entry.max_retries > 0) {
+      step.maxRetries = Math.min(Math.floor(entry.max_retries), MAX_STEP_RETRIES);
+    }
+    steps.push(step);
+  }
+  return steps;
+}
+
+/** Summary instruction of a workflow, used as its title when no label is set */
+export function summarizeSteps(steps: ScheduleStep[]): string {
+  return steps.map(step => step.instruction).join(' → ');
+}
+
+/** Copy the recurrence_* tool arguments onto `recurrence` (empty values clear a field) */
+function applyRecurrenceArgs(
+  recurrence: ScheduleRecurrence,
+  args: Record<string, unknown>,
+): ScheduleRecurrence {
+  if (args.recurrence_type !== undefined) {
+    recurrence.type = args.recurrence_type as ScheduleRecurrence['type'];
+  }
+  if (args.recurrence_interval_ms !== undefined) {
+    recurrence.intervalMs = args.recurrence_interval_ms as number;
+  }
+  if (args.recurrence_time !== undefined) {
+    recurrence.time = args.recurrence_time as string;
+  }
+  if (args.recurrence_days_of_week !== undefined) {
+    recurrence.daysOfWeek = args.recurrence_days_of_week as number[];
+  }
+  if (args.recurrence_day_of_month !== undefined) {
+    recurrence.dayOfMonth = args.recurrence_day_of_month as number;
+    recurrence.weekOfMonth = undefined;
+    recurrence.weekday = undefined;
+  }
+  if (args.recurrence_week_of_month !== undefined) {
+    recurrence.weekOfMonth = args.recurrence_week_of_month as number;
+  }
+  if (args.recurrence_weekday !== undefined) {
+    recurrence.weekday = args.recurrence_weekday as number;
+  }
+  if (args.recurrence_month !== undefined) {
+    recurrence.month = args.recurrence_month as number;
+  }
+  if (args.recurrence_cron !== undefined) {
+    recurrence.cron = (args.recurrence_cron as string).trim();
+  }
+  if (args.recurrence_timezone !== undefined) {
+    recurrence.timezone = (args.recurrence_timezone as string).trim() || undefined;
+  }
+  if (args.recurrence_exclude_dates !== undefined) {
+    const dates = args.recurrence_exclude_dates as string[];
+    recurrence.excludeDates = dates.length > 0 ? [...new Set(dates)].sort() : undefined;
+  }
+  return recurrence;
+}
+
 // ── Tool ─────────────────────────────────────────────────────────────────────
 
 export class SchedulerTool implements Tool {
@@ -56,7 +181,9 @@ export class SchedulerTool implements Tool {
     return [
       'Schedule complex tasks for the future. At the scheduled time, a sub-agent (mini AI) runs in the background',
       'and executes the stored instruction with all available tools (SMS, HTTP, TTS, beep, Intent, etc.).',
-      'Supports one-time and recurring schedules (interval, daily, weekly).',
+      'Supports one-time and recurring schedules: interval, daily, weekly, monthly (day of month, last day, or nth weekday like "first Monday"), yearly (e.g. birthdays) and cron expressions.',
+      'Recurring rules are evaluated in recurrence_timezone (IANA, default: device timezone) with correct DST handling; recurrence_exclude_dates skips single dates (e.g. holidays).',
+      'For tasks made of several dependent parts, pass "steps" instead of one long instruction: each step runs in order, can have a precondition (skipped if not met), receives the results of the previous steps and can be retried on failure.',
       'Use this tool when the user wants a complex task executed. For simple countdown timers that only need an acoustic alarm, use the timer tool instead.',
       'Actions: create, list, get, update, delete, enable, disable.',
       'IMPORTANT: Schedule IDs are internal – NEVER show them to the user.',
@@ -84,7 +211,30 @@ export class SchedulerTool implements Tool {
         },
         instruction: {
           type: 'string',
-          description: 'Natural language instruction for the sub-agent. E.g. "Send an SMS to +4366012345678 with the text: On my way"',
+          description: 'Natural language instruction for the sub-agent. E.g. "Send an SMS to +4366012345678 with the text: On my way". Optional when steps are given.',
+        },
+        steps: {
+          type: 'array',
+          description: `Optional multi-step workflow (max. ${MAX_STEPS} steps), executed in order. The output of each step is passed to the next. For update: replaces all steps; an empty list turns the workflow back into a single instruction.`,
+          maxItems: MAX_STEPS,
+          items: {
+            type: 'object',
+            properties: {
+              instruction: { type: 'string', description: 'What this step should do' },
+              condition: {
+                type: 'string',
+                description: 'Optional precondition checked before the step runs, e.g. "only if it is raining in Vienna". The step is skipped if it is not met.',
+              },
+              max_retries: {
+                type: 'integer',
+                minimum: 0,
+                maximum: MAX_STEP_RETRIES,
+                description: 'How often the step is retried when it fails (default: 0)',
+              },
+            },
+            required: ['instruction'],
+            additionalProperties: false,
+          },
         },
         trigger_at_ms: {
           type: 'number',
@@ -92,8 +242,8 @@ export class SchedulerTool implements Tool {
         },
         recurrence_type: {
           type: 'string',
-          enum: ['once', 'interval', 'daily', 'weekly'],
-          description: 'Recurrence type: once (single), interval (every X ms), daily, weekly',
+          enum: ['once', 'interval', 'daily', 'weekly', 'monthly', 'yearly', 'cron'],
+          description: 'Recurrence type: once (single), interval (every X ms), daily, weekly, monthly, yearly, cron (recurrence_cron)',
         },
         recurrence_interval_ms: {
           type: 'number',
@@ -101,13 +251,47 @@ export class SchedulerTool implements Tool {
         },
         recurrence_time: {
           type: 'string',
-          description: 'For daily/weekly: time of day as "HH:mm" (24h, e.g. "14:00")',
+          description: 'For daily/weekly/monthly/yearly: time of day as "HH:mm" (24h, e.g. "14:00")',
         },
         recurrence_days_of_week: {
           type: 'array',
           items: { type: 'number' },
           description: 'For weekly: days of week (1=Mon, 2=Tue, 3=Wed, 4=Thu, 5=Fri, 6=Sat, 7=Sun)',
         },
+        recurrence_day_of_month: {
+          type: 'integer',
+          description: 'For monthly/yearly: day of month (1–31, -1 = last day of the month). Days beyond the end of a month fall on its last day.',
+        },
+        recurrence_week_of_month: {
+          type: 'integer',
+          enum: [1, 2, 3, 4, 5, -1],
+          description: 'For monthly/yearly on a weekday: which occurrence in the month (1 = first, …, -1 = last). Use together with recurrence_weekday instead of recurrence_day_of_month.',
+        },
+        recurrence_weekday: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 7,
+          description: 'For monthly/yearly with recurrence_week_of_month: weekday (1=Mon, ..., 7=Sun). E.g. week 1 + weekday 1 = first Monday.',
+        },
+        recurrence_month: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 12,
+          description: 'For yearly: month (1=Jan, ..., 12=Dec)',
+        },
+        recurrence_cron: {
+          type: 'string',
+          description: 'For cron: 5-field expression "minute hour day-of-month month day-of-week". Supports lists, ranges, steps, names, L (last day of month), MON#2 (second Monday), 5L (last Friday). E.g. "0 9 1 * *" = 09:00 on the 1st of every month, "30 7 * * 1-5" = weekdays at 07:30.',
+        },
+        recurrence_timezone: {
+          type: 'string',
+          description: 'IANA timezone for the recurrence rule, e.g. "Europe/Vienna" or "America/New_York" (default: device timezone; empty string resets to the device timezone)',
+        },
+        recurrence_exclude_dates: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Dates on which a recurring schedule does not fire, as "YYYY-MM-DD" in the schedule\'s timezone. For update: replaces the list; an empty list clears it.',
+        },
         label: {
           type: 'string',
           description: 'Optional user-friendly headline/label for the schedule (e.g. "Morning reminder", "Daily calendar check")',
@@ -147,11 +331,23 @@ export class SchedulerTool implements Tool {
   // ── Create ──────────────────────────────────────────────────────────────
 
   private async createSchedule(args: Record<string, unknown>): Promise<ToolResult> {
-    const instruction = args.instruction as string;
+    let instruction = args.instruction as string | undefined;
     const label = args.label as string | undefined;
     let triggerAtMs = args.trigger_at_ms as number | undefined;
     const recurrenceType = (args.recurrence_type as ScheduleRecurrence['type']) ?? 'once';
 
+    let steps: ScheduleStep[] | undefined;
+    if (args.steps !== undefined) {
+      const parsed = parseSteps(args.steps);
+      if (typeof parsed === 'string') {
+        return errorResult(parsed);
+      }
+      steps = parsed.length > 0 ? parsed : undefined;
+    }
+    if (!instruction && steps) {
+      instruction = summarizeSteps(steps);
+    }
+
     if (!instruction) {
       return errorResult('Missing instruction parameter – what should the sub-agent do?');
     }
@@ -159,47 +355,15 @@ export class SchedulerTool implements Tool {
     const now = Date.now();
     const MIN_LEAD_TIME_MS = 15_000;
 
-    const recurrence: ScheduleRecurrence = {
-      type: recurrenceType,
-    };
-
-    if (recurrenceType === 'interval') {
-      const intervalMs = args.recurrence_interval_ms as number;
-      if (!intervalMs || intervalMs < 60_000) {
-        return errorResult('recurrence_interval_ms missing or too small (min. 60000 ms = 1 minute)');
-      }
-      recurrence.intervalMs = intervalMs;
-
-      // Auto-calculate trigger_at_ms if not provided
-      if (!triggerAtMs) {
-        triggerAtMs = now + intervalMs;
-      }
+    const recurrence = applyRecurrenceArgs({ type: recurrenceType }, args);
+    const recurrenceError = validateRecurrence(recurrence);
+    if (recurrenceError) {
+      return errorResult(recurrenceError);
     }
 
-    if (recurrenceType === 'daily' || recurrenceType === 'weekly') {
-      const time = args.recurrence_time as string;
-      if (!time || !/^\d{2}:\d{2}$/.test(time)) {
-        return errorResult('recurrence_time missing or invalid format (expected: "HH:mm")');
-      }
-      recurrence.time = time;
-
-      if (recurrenceType === 'weekly') {
-        const days = args.recurrence_days_of_week as number[];
-        if (!days || days.length === 0) {
-          return errorResult('recurrence_days_of_week missing (e.g. [1,3,5] for Mon/Wed/Fri)');
-        }
-        recurrence.daysOfWeek = days;
-      }
-
-      // Auto-calculate trigger_at_ms if not provided
-      if (!triggerAtMs) {
-        if (recurrenceType === 'daily') {
-          triggerAtMs = getNextDailyTrigger(time, now);
-        } else {
-          // recurrence.daysOfWeek is already set above
-          triggerAtMs = getNextWeeklyTrigger(time, recurrence.daysOfWeek!, now);
-        }
-      }
+    // Auto-calculate trigger_at_ms for recurring schedules if not provided
+    if (!triggerAtMs && recurrenceType !== 'once') {
+      triggerAtMs = getNextOccurrence(recurrence, now) ?? undefined;
     }
 
     // For 'once' schedules, trigger_at_ms is required
@@ -236,6 +400,7 @@ export class SchedulerTool implements Tool {
       id,
       label,
       instruction,
+      steps,
       triggerAtMs,
       enabled: true,
       recurrence,
@@ -320,23 +485,34 @@ export class SchedulerTool implements Tool {
       if (args.label !== undefined) {
         schedule.label = args.label as string | undefined;
       }
+      if (args.steps !== undefined) {
+        const steps = parseSteps(args.steps);
+        if (typeof steps === 'string') {
+          return errorResult(steps);
+        }
+        schedule.steps = steps.length > 0 ? steps : undefined;
+        if (args.instruction === undefined && steps.length > 0) {
+          schedule.instruction = summarizeSteps(steps);
+        }
+      }
       if (args.instruction !== undefined) {
         schedule.instruction = args.instruction as string;
       }
       if (args.trigger_at_ms !== undefined) {
         schedule.triggerAtMs = args.trigger_at_ms as number;
       }
-      if (args.recurrence_type !== undefined) {
-        schedule.recurrence.type = args.recurrence_type as ScheduleRecurrence['type'];
-      }
-      if (args.recurrence_interval_ms !== undefined) {
-        schedule.recurrence.intervalMs = args.recurrence_interval_ms as number;
-      }
-      if (args.recurrence_time !== undefined) {
-        schedule.recurrence.time = args.recurrence_time as string;
-      }
-      if (args.recurrence_days_of_week !== undefined) {
-        schedule.recurrence.daysOfWeek = args.recurrence_days_of_week as number[];
+      const recurrenceChanged = Object.keys(args).some(key => key.startsWith('recurrence_'));
+      if (recurrenceChanged) {
+        applyRecurrenceArgs(schedule.recurrence, args);
+        const recurrenceError = validateRecurrence(schedule.recurrence);
+        if (recurrenceError) {
+          return errorResult(recurrenceError);
+        }
+        // A changed rule moves the next execution unless it was given explicitly
+        const next = getNextOccurrence(schedule.recurrence, Date.now());
+        if (args.trigger_at_ms === undefined && next !== null) {
+          schedule.triggerAtMs = next;
+        }
       }
       if (args.enabled !== undefined) {
         schedule.enabled = args.enabled as boolean;
@@ -419,13 +595,26 @@ export class SchedulerTool implements Tool {
     if (s.label) {
       lines.push(`Label: "${s.label}"`);
     }
+    lines.push(`Instruction: "${s.instruction}"`);
+    (s.steps ?? []).forEach((step, i) => {
+      const extras = [
+        step.condition ? `only if: ${step.condition}` : '',
+        step.maxRetries ? `retries: ${step.maxRetries}` : '',
+      ].filter(Boolean).join(', ');
+      lines.push(`Step ${i + 1}: "${step.instruction}"${extras ? ` (${extras})` : ''}`);
+    });
     lines.push(
-      `Instruction: "${s.instruction}"`,
       `Next execution: ${this.formatDate(s.triggerAtMs)}`,
       `Status: ${s.enabled ? 'active' : 'disabled'}`,
       `Recurrence: ${this.formatRecurrence(s.recurrence)}`,
-      `Created: ${this.formatDate(s.createdAt)}`,
     );
+    if (s.recurrence.type !== 'once') {
+      const upcoming = getNextOccurrences(s.recurrence, s.triggerAtMs, 3);
+      if (upcoming.length > 0) {
+        lines.push(`Then: ${upcoming.map(ms => this.formatDate(ms)).join('; ')}`);
+      }
+    }
+    lines.push(`Created: ${this.formatDate(s.createdAt)}`);
     if (s.lastExecutedAt) {
       lines.push(`Last executed: ${this.formatDate(s.lastExecutedAt)}`);
     }
@@ -454,10 +643,28 @@ export class SchedulerTool implements Tool {
     const time = this.formatDate(s.triggerAtMs);
     const rec = this.formatRecurrence(s.recurrence);
     const displayText = s.label || s.instruction;
-    return `${status} [${s.id}] "${displayText}" at ${time} (${rec})`;
+    const steps = s.steps?.length ? `, ${s.steps.length} steps` : '';
+    return `${status} [${s.id}] "${displayText}" at ${time} (${rec}${steps})`;
   }
 
   private formatRecurrence(r: ScheduleRecurrence): string {
+    const extras = [
+      r.timezone ? r.timezone : '',
+      r.excludeDates?.length ? `except ${r.excludeDates.join(', ')}` : '',
+    ].filter(Boolean).join(', ');
+    const rule = this.formatRecurrenceRule(r);
+    return extras && r.type !== 'once' ? `${rule} (${extras})` : rule;
+  }
+
+  private formatRecurrenceRule(r: ScheduleRecurrence): string {
+    const dayNames = ['', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+    const monthDay = (): string => {
+      if (r.weekOfMonth !== undefined && r.weekday !== undefined) {
+        const nth = r.weekOfMonth === -1 ? 'last' : ['', '1st', '2nd', '3rd', '4th', '5th'][r.weekOfMonth];
+        return `${nth} ${dayNames[r.weekday] ?? '?'}`;
+      }
+      return r.dayOfMonth === -1 ? 'last day' : `day ${r.dayOfMonth ?? '?'}`;
+    };
     switch (r.type) {
       case 'once':
         return 'one-time';
@@ -471,10 +678,15 @@ export class SchedulerTool implements Tool {
       case 'daily':
         return `daily at ${r.time ?? '?'}`;
       case 'weekly': {
-        const dayNames = ['', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
         const days = (r.daysOfWeek ?? []).map(d => dayNames[d] ?? '?').join(', ');
         return `weekly ${days} at ${r.time ?? '?'}`;
       }
+      case 'monthly':
+        return `monthly on the ${monthDay()} at ${r.time ?? '?'}`;
+      case 'yearly':
+        return `yearly in month ${r.month ?? '?'} on the ${monthDay()} at ${r.time ?? '?'}`;
+      case 'cron':
+        return `cron "${r.cron ?? '?'}"`;
       default:
         return r.type;
     }
@@ -495,72 +707,6 @@ export class SchedulerTool implements Tool {
  * Returns null for 'once' schedules (they should be deleted after execution).
  */
 export function calculateNextTrigger(schedule: Schedule): number | null {
-  const { recurrence } = schedule;
-  const now = Date.now();
-
-  switch (recurrence.type) {
-    case 'once':
-      return null;
-
-    case 'interval': {
-      const interval = recurrence.intervalMs ?? 60_000;
-      // Next trigger = now + interval (not from the original trigger, to avoid drift pile-up)
-      return now + interval;
-    }
-
-    case 'daily': {
-      if (!recurrence.time) return null;
-      return getNextDailyTrigger(recurrence.time, now);
-    }
-
-    case 'weekly': {
-      if (!recurrence.time || !recurrence.daysOfWeek?.length) return null;
-      return getNextWeeklyTrigger(recurrence.time, recurrence.daysOfWeek, now);
-    }
-
-    default:
-      return null;
-  }
-}
-
-/**
- * Get the next occurrence of a daily time (HH:mm) after `after` timestamp.
- */
-export function getNextDailyTrigger(time: string, after: number): number {
-  const [hours, minutes] = time.split(':').map(Number);
-  const next = new Date(after);
-  next.setHours(hours, minutes, 0, 0);
-
-  // If this time today has already passed, schedule for tomorrow
-  if (next.getTime() <= after) {
-    next.setDate(next.getDate() + 1);
-  }
-
-  return next.getTime();
-}
-
-/**
- * Get the next occurrence of a weekly schedule after `after` timestamp.
- * daysOfWeek: 1=Mon, 2=Tue, ..., 7=Sun
- */
-export function getNextWeeklyTrigger(time: string, daysOfWeek: number[], after: number): number {
-  const [hours, minutes] = time.split(':').map(Number);
-
-  // Try the next 8 days to find the next matching day
-  for (let daysAhead = 0; daysAhead <= 7; daysAhead++) {
-    const candidate = new Date(after);
-    candidate.setDate(candidate.getDate() + daysAhead);
-    candidate.setHours(hours, minutes, 0, 0);
-
-    // JS getDay(): 0=Sun, 1=Mon, ..., 6=Sat → convert to our 1=Mon, ..., 7=Sun
-    const jsDay = candidate.getDay();
-    const ourDay = jsDay === 0 ? 7 : jsDay;
-
-    if (daysOfWeek.includes(ourDay) && candidate.getTime() > after) {
-      return candidate.getTime();
-    }
-  }
-
-  // Fallback: 7 days from now
-  return after + 7 * 24 * 60 * 60 * 1000;
+  // Interval: next trigger = now + interval (not from the original trigger, to avoid drift pile-up)
+  return getNextOccurrence(schedule.recurrence, Date.now());
 }
@@ -3,6 +3,9 @@
  *
  * Similar to Moltbot's approach: the agent can request full skill details
  * when needed, rather than having all skills embedded in the system prompt.
+ * Skills imported as a package (skill-package.ts) can ship auxiliary files
+ * (reference docs, examples) – their paths are listed in the skill details
+ * and the agent reads them one by one via the "file" parameter.
  */
 import type { Tool, ToolResult } from './types';
 import { errorResult, successResult } from './types';
@@ -19,7 +22,8 @@ export class SkillDetailTool implements Tool {
     return (
       'Get the full detailed description of a skill, including all workflows, ' +
       'examples, and tool usage instructions. Use this when you need complete information ' +
-      'about how to use a specific skill. The skill name should match one from the available skills list.'
+      'about how to use a specific skill. The skill name should match one from the available skills list. ' +
+      'If the details list additional files, read one with the "file" parameter when the skill refers to it.'
     );
   }
 
@@ -31,11 +35,19 @@ export class SkillDetailTool implements Tool {
           type: 'string',
           description: 'The name of the skill to get details for (must match a skill from the available skills list)',
         },
+        file: {
+          type: 'string',
+          description: 'Optional: path of an additional file of the skill (as listed in its details), e.g. "reference/api.md"',
+        },
       },
       required: ['skill_name'],
     };
   }
 
+  isConcurrencySafe(): boolean {
+    return true;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const skillName = args.skill_name as string | undefined;
 
@@ -50,7 +62,29 @@ export class SkillDetailTool implements Tool {
       );
     }
 
-    const fullDescription = `# ${skill.name}\n\n**Description:** ${skill.description}\n\n**Category:** ${skill.category}\n\n## Full Skill Definition\n\n${skill.content}`;
+    const filePath = args.file;
+    if (filePath !== undefined && filePath !== '') {
+      if (typeof filePath !== 'string') {
+        return errorResult('Invalid "file" parameter.');
+      }
+      // Own keys only – "__proto__" or "constructor" are not skill files
+      if (!Object.hasOwn(skill.files, filePath)) {
+        const available = Object.keys(skill.files);
+        return errorResult(
+          available.length > 0
+            ? `File "${filePath}" not found in skill "${skill.name}". Available files: ${available.join(', ')}`
+            : `Skill "${skill.name}" has no additional files.`,
+        );
+      }
+      return successResult(`# ${skill.name} – ${filePath}\n\n${skill.files[filePath]}`);
+    }
+
+    let fullDescription = `# ${skill.name}\n\n**Description:** ${skill.description}\n\n**Category:** ${skill.category}\n\n## Full Skill Definition\n\n${skill.content}`;
+
+    const files = Object.keys(skill.files);
+    if (files.length > 0) {
+      fullDescription += `\n\n## Additional Files\n\nRead with skill_detail(skill_name: "${skill.name}", file: "<path>"):\n${files.map(f => `- ${f}`).join('\n')}`;
+    }
 
     return successResult(fullDescription);
   }
@@ -35,6 +35,15 @@ export class SmsTool implements Tool {
     };
   }
 
+  /** Sends a message to a third party – cannot be undone */
+  isRisky(): boolean {
+    return true;
+  }
+
+  describeCall(args: Record<string, unknown>): string {
+    return `Send SMS to ${String(args.phone_number)}: "${String(args.message)}"`;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const phoneNumber = args.phone_number as string;
     const message = args.message as string;
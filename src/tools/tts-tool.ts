@@ -3,10 +3,18 @@
  *
  * The LLM uses this tool to speak text aloud.
  * In driving mode, ALL responses should go through this tool.
+ * Markdown in the text is spoken as prose (see speech-text.ts).
+ *
+ * Speaks through TTSService with the speech settings the app saved in the
+ * AgentConfig and the SOUL persona voice – headless announcements sound like
+ * the app's answers.
  */
 import type { Tool, ToolResult } from './types';
 import { errorResult, successResult } from './types';
-import TTSModule from '../native/TTSModule';
+import { toSpeech } from '../audio/speech-text';
+import { DEFAULT_TTS_CONFIG, TTSService, type TTSConfig } from '../audio/tts-service';
+import { loadAgentConfig } from '../agent/agent-config';
+import { SoulStore } from '../agent/soul-store';
 
 export class TTSTool implements Tool {
   name(): string {
@@ -46,13 +54,33 @@ export class TTSTool implements Tool {
       return errorResult('text parameter is required');
     }
 
+    const spoken = toSpeech(text, language);
+    if (!spoken) {
+      return successResult('TTS: nothing to speak (no readable text)');
+    }
+
+    const tts = new TTSService();
     try {
-      const utteranceId = `tts_${Date.now()}`;
-      await TTSModule.speak(text, language, utteranceId);
+      tts.configure(await this.loadConfig());
+      await tts.speak(text, language);
       return successResult(`TTS: "${text.slice(0, 50)}${text.length > 50 ? '...' : ''}"`);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       return errorResult(`TTS failed: ${message}`);
+    } finally {
+      tts.destroy();
     }
   }
+
+  /** Saved speech settings plus the persona voice – defaults if the app never saved any */
+  private async loadConfig(): Promise<TTSConfig> {
+    const [agentConfig, soul] = await Promise.all([
+      loadAgentConfig().catch(() => null),
+      SoulStore.getSoul(),
+    ]);
+    return {
+      ...(agentConfig?.tts ?? DEFAULT_TTS_CONFIG),
+      personaVoice: SoulStore.parseVoice(soul),
+    };
+  }
 }
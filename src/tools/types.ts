@@ -32,6 +32,24 @@ export interface Tool {
    * *how* to choose this tool relative to others.
    */
   systemHint?(): string;
+  /**
+   * Optional: whether this call only reads state and may run in parallel with
+   * other concurrency-safe calls of the same LLM turn. Tools that omit this
+   * are always executed on their own, in order.
+   */
+  isConcurrencySafe?(args: Record<string, unknown>): boolean;
+  /**
+   * Optional: whether this call acts on the outside world in a way that is
+   * hard to undo (sending messages, placing calls, mutating remote data).
+   * Risky calls may require user confirmation (see tool-confirmation.ts).
+   * Tools that omit this are never gated.
+   */
+  isRisky?(args: Record<string, unknown>): boolean;
+  /**
+   * Optional: short human-readable summary of a call, shown or spoken when
+   * asking the user for confirmation (e.g. 'Send SMS to +43… – "On my way"').
+   */
+  describeCall?(args: Record<string, unknown>): string;
 }
 
 /** Convert a Tool to an LLM ToolDefinition */